@@ -24,6 +24,10 @@ export default defineConfig({
         '@renderer': resolve('src/renderer/src')
       }
     },
+    // Scenario code bundled into workers uses dynamic import(), which IIFE workers cannot split
+    worker: {
+      format: 'es'
+    },
     plugins: [react()]
   }
 })
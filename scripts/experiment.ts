@@ -0,0 +1,144 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { join } from 'node:path';
+import { Worker, isMainThread, parentPort } from 'node:worker_threads';
+import { parseExperimentSpec } from '../src/renderer/src/simulation/experiments/experimentDesign';
+import {
+    ExperimentRow,
+    createExperimentProgress,
+    experimentToCsv,
+    resumeExperimentProgress,
+    runExperiment,
+    summarizeExperiment
+} from '../src/renderer/src/simulation/experiments/experimentRunner';
+import {
+    ExperimentWorkerHandle,
+    ExperimentWorkerRequest,
+    createWorkerPool,
+    handleWorkerRequest
+} from '../src/renderer/src/simulation/experiments/experimentPool';
+
+const USAGE = `Usage: npm run experiment -- <spec.json> [options]
+
+  --workers <n>   worker threads; default ${Math.max(1, availableParallelism() - 1)}
+  --out <dir>     output directory; default artifacts/experiments/<spec name>
+  --fresh         discard saved progress instead of resuming it`;
+
+function parseArgs(argv: string[]) {
+    const options = { specPath: '', workers: Math.max(1, availableParallelism() - 1), out: '', fresh: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') return null;
+        if (arg === '--fresh') options.fresh = true;
+        else if (arg === '--workers') {
+            options.workers = Number(argv[++i]);
+            if (!Number.isInteger(options.workers) || options.workers < 1) throw new Error('--workers must be a positive integer');
+        } else if (arg === '--out') options.out = argv[++i] ?? '';
+        else if (!arg.startsWith('--') && !options.specPath) options.specPath = arg;
+        else throw new Error(`Unexpected argument '${arg}'`);
+    }
+    if (!options.specPath) throw new Error('An experiment spec file is required');
+    return options;
+}
+
+/** Rows saved by an earlier, interrupted run; a truncated last line is ignored */
+function readSavedRows(file: string): ExperimentRow[] {
+    if (!existsSync(file)) return [];
+    return readFileSync(file, 'utf8').split('\n').flatMap(line => {
+        try {
+            return line.trim() ? [JSON.parse(line) as ExperimentRow] : [];
+        } catch {
+            return [];
+        }
+    });
+}
+
+function spawnWorker(): ExperimentWorkerHandle {
+    const worker = new Worker(__filename);
+    return {
+        post: request => worker.postMessage(request),
+        onMessage: listener => worker.on('message', listener),
+        onError: listener => {
+            worker.on('error', error => listener(error.message));
+            worker.on('messageerror', error => listener(error.message));
+            worker.on('exit', code => listener(`Experiment worker exited with code ${code}`));
+        },
+        terminate: () => { void worker.terminate(); }
+    };
+}
+
+async function main() {
+    let options;
+    let spec;
+    try {
+        options = parseArgs(process.argv.slice(2));
+        if (!options) {
+            console.log(USAGE);
+            return;
+        }
+        spec = parseExperimentSpec(JSON.parse(readFileSync(options.specPath, 'utf8')));
+    } catch (error) {
+        console.error(`experiment: ${(error as Error).message}\n\n${USAGE}`);
+        process.exit(1);
+    }
+
+    const outDir = options.out || join('artifacts', 'experiments', spec.name);
+    const specFile = join(outDir, 'spec.json');
+    const rowsFile = join(outDir, 'results.jsonl');
+    mkdirSync(outDir, { recursive: true });
+
+    let progress = createExperimentProgress(spec);
+    if (!options.fresh && existsSync(specFile)) {
+        const saved = JSON.parse(readFileSync(specFile, 'utf8'));
+        progress = resumeExperimentProgress(spec, { key: saved.key, rows: readSavedRows(rowsFile) });
+    }
+    if (progress.rows.length === 0) rmSync(rowsFile, { force: true });
+    writeFileSync(specFile, JSON.stringify({ key: progress.key, spec }, null, 2));
+    writeFileSync(rowsFile, progress.rows.map(row => JSON.stringify(row) + '\n').join(''));
+
+    console.log(
+        `Experiment '${spec.name}': ${spec.scenarioId}, ${spec.design} design, ${progress.total} runs`
+        + `${progress.rows.length > 0 ? ` (${progress.rows.length} already done)` : ''} on ${options.workers} worker(s)`
+    );
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.log('Stopping after the runs in flight; run the same command again to resume.');
+        controller.abort();
+    });
+
+    const pool = createWorkerPool(spawnWorker, options.workers);
+    const start = Date.now();
+    const status = await runExperiment(spec, progress, pool, {
+        signal: controller.signal,
+        onRow: (row, current) => {
+            appendFileSync(rowsFile, JSON.stringify(row) + '\n');
+            const values = Object.entries(row.values).map(([key, value]) => `${key}=${Number(value.toPrecision(4))}`).join(' ');
+            const outcome = row.metrics
+                ? `peakA=${row.metrics.peakA.toFixed(3)} finalD=${row.metrics.finalD.toFixed(3)}`
+                : `failed: ${row.error}`;
+            console.log(`[${current.rows.length}/${current.total}] ${values} seed ${row.seed}: ${outcome}`);
+        }
+    });
+    pool.dispose();
+
+    writeFileSync(join(outDir, 'results.csv'), experimentToCsv(spec, progress.rows));
+    writeFileSync(join(outDir, 'summary.json'), JSON.stringify(summarizeExperiment(progress.rows), null, 2));
+    const failed = progress.rows.filter(row => row.error).length;
+    console.log(
+        `${status === 'complete' ? 'Finished' : 'Stopped'} in ${((Date.now() - start) / 1000).toFixed(1)} s: ${progress.rows.length}/${progress.total} runs in ${outDir}`
+        + `${failed > 0 ? ` (${failed} failed; run the same command again to retry them)` : ''}`
+    );
+    if (failed > 0) process.exitCode = 1;
+}
+
+if (isMainThread) {
+    main().catch(error => {
+        console.error(`experiment: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    });
+} else {
+    parentPort!.on('message', (request: ExperimentWorkerRequest) => {
+        parentPort!.postMessage(handleWorkerRequest(request));
+    });
+}
@@ -0,0 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { parseReplayLog } from '../src/renderer/src/simulation/runner/replayLog';
+import { replayLog } from '../src/renderer/src/simulation/runner/replay';
+
+const REPLAY_USAGE = `Usage: npm run replay -- <replay-log.json>
+
+Re-executes a replay log saved from the app (Control panel > Replay) from its
+start state with the recorded inputs, and reports the first tick whose state
+hash differs from the recording. Exits with 1 on a divergence.`;
+
+function main() {
+    const file = process.argv[2];
+    if (!file || file === '--help' || file === '-h') {
+        console.log(REPLAY_USAGE);
+        return;
+    }
+
+    let log;
+    try {
+        log = parseReplayLog(readFileSync(file, 'utf8'));
+    } catch (error) {
+        console.error(`replay: ${(error as Error).message}\n\n${REPLAY_USAGE}`);
+        process.exit(1);
+    }
+
+    console.log(`Replaying ${log.scenarioId}: ${log.ticks} ticks, ${log.inputs.length} inputs, ${log.hashes.length} state hashes...`);
+    const start = Date.now();
+    const report = replayLog(log);
+    const elapsed = Date.now() - start;
+
+    if (report.divergence) {
+        const { tick, expected, actual } = report.divergence;
+        const since = report.lastMatch >= 0 ? ` (last match at tick ${report.lastMatch})` : '';
+        console.error(`Diverged at tick ${tick}${since}: expected ${expected}, got ${actual} after ${elapsed} ms`);
+        process.exit(1);
+    }
+    console.log(`Reproduced: all ${report.checked} state hashes match (${elapsed} ms)`);
+}
+
+main();
@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { spawn } from 'node:child_process';
+
+// Node entry points that import simulation sources and are bundled before they run
+const entries = {
+  sim: 'scripts/sim.ts',
+  experiment: 'scripts/experiment.ts',
+  replay: 'scripts/replay.ts'
+};
+
+const requestedEntry = process.argv[2];
+if (!entries[requestedEntry]) {
+  console.error(`Unknown script '${requestedEntry}'. Supported scripts: ${Object.keys(entries).join(', ')}`);
+  process.exit(1);
+}
+
+const spawnAndWait = (command, args, options = {}) => new Promise((resolveRun, rejectRun) => {
+  const child = spawn(command, args, options);
+  child.on('error', rejectRun);
+  child.on('close', code => resolveRun(code ?? 1));
+});
+
+const run = async () => {
+  const tmpDir = mkdtempSync(join(tmpdir(), `${requestedEntry}-`));
+  const outFile = join(tmpDir, `${requestedEntry}.cjs`);
+  try {
+    const built = await spawnAndWait(
+      'npx',
+      [
+        'esbuild',
+        entries[requestedEntry],
+        '--bundle',
+        '--platform=node',
+        '--format=cjs',
+        '--target=node22',
+        `--outfile=${outFile}`,
+        '--define:import.meta.env={}',
+        '--log-level=error'
+      ],
+      { stdio: 'inherit' }
+    );
+    if (built !== 0) {
+      throw new Error(`Failed to bundle ${entries[requestedEntry]}`);
+    }
+    return await spawnAndWait(process.execPath, [outFile, ...process.argv.slice(3)], { stdio: 'inherit' });
+  } finally {
+    rmSync(tmpDir, { recursive: true, force: true });
+  }
+};
+
+run()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
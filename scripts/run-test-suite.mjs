@@ -8,8 +8,31 @@ const suites = {
   unit: [
     'src/main/aiService.test.ts',
     'src/main/storage/agentLibraryStorage.test.ts',
+    'src/renderer/src/simulation/analysis/bifurcation.test.ts',
+    'src/renderer/src/simulation/analysis/fokkerPlanck.test.ts',
+    'src/renderer/src/simulation/analysis/inference.test.ts',
+    'src/renderer/src/simulation/analysis/rareEvents.test.ts',
+    'src/renderer/src/simulation/analysis/sensitivity.test.ts',
+    'src/renderer/src/simulation/analysis/sindy.test.ts',
+    'src/renderer/src/simulation/control/controlSchedule.test.ts',
+    'src/renderer/src/simulation/control/mpcController.test.ts',
+    'src/renderer/src/simulation/experiments/experimentDesign.test.ts',
+    'src/renderer/src/simulation/experiments/experimentRunner.test.ts',
+    'src/renderer/src/simulation/integration/adaptiveStepper.test.ts',
+    'src/renderer/src/simulation/lattice/latticeEngine.test.ts',
     'src/renderer/src/simulation/metrics/AgencyMetrics.test.ts',
+    'src/renderer/src/simulation/model/equationDsl.test.ts',
+    'src/renderer/src/simulation/model/noiseModel.test.ts',
+    'src/renderer/src/simulation/runner/HeadlessRunner.test.ts',
+    'src/renderer/src/simulation/runner/batchRunner.test.ts',
+    'src/renderer/src/simulation/runner/WorkerScenarioRunner.test.ts',
+    'src/renderer/src/simulation/runner/checkpoints.test.ts',
+    'src/renderer/src/simulation/runner/breakpoints.test.ts',
+    'src/renderer/src/simulation/runner/replay.test.ts',
+    'src/renderer/src/simulation/branching/branchRunner.test.ts',
+    'src/renderer/src/simulation/sdeEngine.test.ts',
     'src/renderer/src/simulation/snapshot.test.ts',
+    'src/renderer/src/simulation/scenarios/scenarioRegistry.test.ts',
     'src/renderer/src/simulation/scenarios/math/MathVerificationTiming.test.ts'
   ],
   determinism: ['src/renderer/src/simulation/determinism.test.ts']
@@ -0,0 +1,36 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { SIM_USAGE, parseSimArgs, runSimulation } from '../src/renderer/src/simulation/runner/batchRunner';
+
+function main() {
+    let options;
+    try {
+        options = parseSimArgs(process.argv.slice(2), path => readFileSync(path, 'utf8'));
+    } catch (error) {
+        console.error(`sim: ${(error as Error).message}\n\n${SIM_USAGE}`);
+        process.exit(1);
+    }
+    if (!options) {
+        console.log(SIM_USAGE);
+        return;
+    }
+
+    mkdirSync(options.outDir, { recursive: true });
+    console.log(`Running ${options.scenarioId} for ${options.steps} steps over ${options.seeds.length} seed(s)...`);
+
+    for (const seed of options.seeds) {
+        const start = Date.now();
+        const run = runSimulation(options, seed);
+        const file = join(options.outDir, `${options.scenarioId}-seed${seed}.json`);
+        writeFileSync(file, run.bundle);
+
+        const summary = run.manifest.summaryMetrics!;
+        console.log(
+            `seed ${seed}: gen=${run.final.generation.toFixed(2)} A=${run.final.A.toFixed(3)} `
+            + `peakA=${summary.peakAgency.toFixed(3)} D=${summary.finalDiversity.toFixed(3)} `
+            + `alerts=${summary.alertCount} events=${run.eventCount} (${Date.now() - start} ms) -> ${file}`
+        );
+    }
+}
+
+main();
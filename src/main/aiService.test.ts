@@ -108,6 +108,48 @@ async function runTests() {
     });
     assert(!aborted.ok && aborted.error.code === 'AI_ABORTED' && abortAttempts === 1, 'Abort policy does not retry aborted requests');
 
+    // Scenario config schema: documented in the prompt, enforced on proposed params
+    const schemaPayload: AiControlRequestPayload = {
+        ...controlPayload,
+        currentParams: { mutationRate: 0.15 },
+        configSchema: {
+            mutationRate: { type: 'number', label: 'Mutation Rate', description: 'Genome mutation rate.', min: 0.01, max: 0.5, step: 0.01 }
+        }
+    };
+    let prompt = '';
+    const reply = (params: Record<string, unknown>) => (async (_url: string, init: any) => {
+        prompt = JSON.parse(init.body).input[0].content;
+        return mkResponse({ output_text: JSON.stringify({ u: 0.4, reasoning: 'tune', params }) });
+    }) as any;
+    const tuned = await requestAiControl(schemaPayload, { fetchImpl: reply({ mutationRate: 0.2 }) });
+    assert(tuned.ok && prompt.includes('- mutationRate (number in [0.01, 0.5]): Genome mutation rate. Current: 0.15.'), 'Prompt documents the tunable parameters');
+    const outside = await requestAiControl(schemaPayload, { fetchImpl: reply({ mutationRate: 0.9 }) });
+    assert(!outside.ok && outside.error.code === 'AI_SCHEMA_VALIDATION_ERROR', 'Params outside the config schema range are rejected');
+    const unknown = await requestAiControl(schemaPayload, { fetchImpl: reply({ k_CD: 0.2 }) });
+    assert(!unknown.ok && unknown.error.code === 'AI_SCHEMA_VALIDATION_ERROR', 'Params missing from the config schema are rejected');
+
+    // Control channels: documented with their effective values, enforced on proposed controls
+    const channelPayload: AiControlRequestPayload = {
+        ...controlPayload,
+        control: { U: 0.3, channels: { sunInflux: 1.5 } },
+        controlSchema: {
+            toxicity: { label: 'Toxicity', description: 'Toxin level.', min: 0, max: 1, step: 0.01 },
+            sunInflux: { label: 'Sun Influx', description: 'Energy multiplier.', min: 0, max: 2, step: 0.05, unit: 'x', default: 1 }
+        }
+    };
+    const steer = (controls: Record<string, unknown>) => (async (_url: string, init: any) => {
+        prompt = JSON.parse(init.body).input[0].content;
+        return mkResponse({ output_text: JSON.stringify({ u: 0.4, reasoning: 'steer', controls }) });
+    }) as any;
+    const steered = await requestAiControl(channelPayload, { fetchImpl: steer({ toxicity: 0.7 }) });
+    assert(steered.ok && steered.data.controls?.toxicity === 0.7, 'Proposed control channels are returned');
+    assert(prompt.includes('- toxicity (number in [0, 1], follows U when unset): Toxin level. Current: 0.3 (unset).')
+        && prompt.includes('- sunInflux (number in [0, 2] x, defaults to 1 when unset): Energy multiplier. Current: 1.5.'), 'Prompt documents the control channels');
+    const strong = await requestAiControl(channelPayload, { fetchImpl: steer({ sunInflux: 3 }) });
+    assert(!strong.ok && strong.error.code === 'AI_SCHEMA_VALIDATION_ERROR', 'Controls outside a channel range are rejected');
+    const noChannels = await requestAiControl(controlPayload, { fetchImpl: steer({ toxicity: 0.7 }) });
+    assert(!noChannels.ok && noChannels.error.code === 'AI_SCHEMA_VALIDATION_ERROR', 'Controls are rejected for scenarios without channels');
+
     console.log('All aiService tests passed.');
 }
 
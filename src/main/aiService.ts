@@ -10,6 +10,9 @@ import {
     validateAiDescriptionResponsePayload
 } from '../shared/ipcValidation';
 import { aiControlResponseSchema, aiDescriptionResponseSchema, JsonSchema } from '../shared/schemas/aiResponseSchemas';
+import { DEFAULT_SCENARIO_PROMPT, ScenarioPromptDescriptor } from '../shared/scenarioTypes';
+import { describeConfigSchema, validateConfigPatch } from '../shared/schemas/configSchema';
+import { describeControlSchema, validateControlPatch } from '../shared/schemas/controlSchema';
 
 const DEFAULT_MODEL = 'gpt-5.2-2025-12-11';
 const MAX_RETRIES = 1;
@@ -30,32 +33,13 @@ const getApiKey = (): string | null => {
 
 const getApiUrl = (): string => 'https://api.openai.com/v1/responses';
 
-const getScenarioGenerationDescriptor = (type: AiControlRequestPayload['scenarioMetadata']['type']): string => {
-    if (type === 'sde') return 'continuous timestep';
-    if (type === 'math') return 'training epoch';
-    if (type === 'alignment') return 'oversight episode';
-    if (type === 'bio') return 'evolutionary generation';
-    if (type === 'agents') return 'task-cycle generation';
-    return 'research round';
-};
-
 const getScenarioPhase = (
-    type: AiControlRequestPayload['scenarioMetadata']['type'],
+    prompt: ScenarioPromptDescriptor,
     generation: number
 ): 'bootstrap' | 'adaptive' | 'stabilization' => {
     const g = toNumber(generation);
-    if (type === 'erdos') {
-        if (g < 60) return 'bootstrap';
-        if (g < 180) return 'adaptive';
-        return 'stabilization';
-    }
-    if (type === 'alignment') {
-        if (g < 80) return 'bootstrap';
-        if (g < 220) return 'adaptive';
-        return 'stabilization';
-    }
-    if (g < 120) return 'bootstrap';
-    if (g < 320) return 'adaptive';
+    if (g < prompt.phases.adaptive) return 'bootstrap';
+    if (g < prompt.phases.stabilization) return 'adaptive';
     return 'stabilization';
 };
 
@@ -183,14 +167,22 @@ export async function requestAiControl(
         return makeError('AI_API_KEY_MISSING', 'API Key is missing. Configure VITE_AI_API_KEY or OPENAI_API_KEY.', false);
     }
 
-    const { state, control, scenarioMetadata, history = [], bestAgency = 0, bestControl } = payload;
+    const { state, currentParams, control, scenarioMetadata, configSchema, controlSchema, history = [], bestAgency = 0, bestControl } = payload;
     const recentHistory = history.slice(-5);
     const avgU = recentHistory.length > 0
         ? recentHistory.reduce((sum, h) => sum + (typeof h.u === 'number' ? h.u : control.U), 0) / recentHistory.length
         : control.U;
 
-    const generationUnit = getScenarioGenerationDescriptor(scenarioMetadata.type);
-    const phase = getScenarioPhase(scenarioMetadata.type, state.generation);
+    const scenarioPrompt = payload.scenarioPrompt ?? DEFAULT_SCENARIO_PROMPT;
+    const generationUnit = scenarioPrompt.generationUnit;
+    const phase = getScenarioPhase(scenarioPrompt, state.generation);
+    const parameterDocs = configSchema && Object.keys(configSchema).length > 0
+        ? `\nTunable Parameters (propose changes through params):\n${describeConfigSchema(configSchema, currentParams)}\n`
+        : '';
+    const hasChannels = !!controlSchema && Object.keys(controlSchema).length > 0;
+    const channelDocs = hasChannels
+        ? `\nControl Channels (set through controls; an unset channel takes its default or follows u):\n${describeControlSchema(controlSchema, control)}\n`
+        : '';
 
     const prompt = `
 You are a "Hyper-Intelligent Researcher" overseeing an Open-Ended Evolutionary Simulation.
@@ -211,14 +203,19 @@ Current System State:
 
 History:
 ${history.length > 0 ? history.map(h => `- Gen ${h.generation.toFixed(1)}: ${h.action} -> Delta A: ${h.outcome.delta_A.toFixed(4)}`).join('\n') : '(No history yet)'}
-
+${parameterDocs}${channelDocs}
 Return strict JSON with:
 - u in [0, 1]
 - reasoning (non-empty)
-- optional params object
-`;
+- optional params object${configSchema ? ' with only the tunable parameters above, within their ranges' : ''}
+${hasChannels ? '- optional controls object with only the control channels above, within their ranges\n' : ''}`;
+
+    // Proposed parameters and channels must fit the scenario's schemas; scenarios without channels take u only
+    const validator = (value: unknown): value is AiControlResponsePayload => validateAiControlResponsePayload(value)
+        && (!configSchema || !value.params || validateConfigPatch(configSchema, value.params).length === 0)
+        && (!value.controls || validateControlPatch(controlSchema ?? {}, value.controls).length === 0);
 
-    return callStructuredOutput(apiKey, prompt, 'ai_control_response', aiControlResponseSchema, validateAiControlResponsePayload, options);
+    return callStructuredOutput(apiKey, prompt, 'ai_control_response', aiControlResponseSchema, validator, options);
 }
 
 export async function requestAgentDescription(
@@ -51,6 +51,11 @@ function App(): JSX.Element {
         event.preventDefault()
         setActiveSectionId('erdos')
       }
+
+      if ((event.ctrlKey || event.metaKey) && event.code === 'Digit5') {
+        event.preventDefault()
+        setActiveSectionId('experiments')
+      }
     }
 
     window.addEventListener('keydown', handleKeyDown)
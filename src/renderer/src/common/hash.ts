@@ -0,0 +1,12 @@
+/**
+ * 32-bit FNV-1a hash of a string's UTF-16 code units, as 8 hex digits.
+ * Not cryptographic: fingerprints for state hashes and saved progress.
+ */
+export function fnv1a(text: string): string {
+    let hash = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -1,9 +1,14 @@
 import React from 'react';
-import { useSimulationStore } from '../store/simulationStore';
+import { ResearcherMode, useSimulationStore } from '../store/simulationStore';
 import { Brain, Zap, MessageSquare } from 'lucide-react';
 
+const MODE_LABELS: Record<ResearcherMode, string> = {
+    llm: 'LLM Researcher',
+    mpc: 'MPC (offline)'
+};
+
 export const AIControlPanel: React.FC = () => {
-    const { isAIControlled, toggleAIControl, aiReasoning, aiStatus, lastAiUpdate, triggerAI, aiError } = useSimulationStore();
+    const { isAIControlled, toggleAIControl, researcherMode, setResearcherMode, aiReasoning, aiStatus, lastAiUpdate, triggerAI, aiError } = useSimulationStore();
 
     return (
         <div className="card" style={{ padding: '16px' }}>
@@ -47,6 +52,20 @@ export const AIControlPanel: React.FC = () => {
                 </div>
             </div>
 
+            <div style={{ display: 'flex', gap: '6px', marginBottom: '12px' }}>
+                {(Object.keys(MODE_LABELS) as ResearcherMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        className={researcherMode === mode ? 'btn btn-primary' : 'btn'}
+                        onClick={() => setResearcherMode(mode)}
+                        title={mode === 'mpc' ? 'Plan U with model-predictive rollouts; no API key or network needed.' : 'Ask the configured LLM for each decision.'}
+                        style={{ flex: 1, fontSize: '0.75rem' }}
+                    >
+                        {MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                 {isAIControlled ? (
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
@@ -139,7 +158,9 @@ export const AIControlPanel: React.FC = () => {
                 ) : (
                     <div style={{ textAlign: 'center', padding: '16px 0', color: 'var(--color-text-secondary)' }}>
                         <p style={{ margin: 0, fontSize: '0.875rem' }}>Enable AI Researcher to allow autonomous parameter optimization.</p>
-                        <p style={{ margin: '8px 0 0 0', fontSize: '0.75rem', opacity: 0.7 }}>Requires valid API configuration.</p>
+                        <p style={{ margin: '8px 0 0 0', fontSize: '0.75rem', opacity: 0.7 }}>
+                            {researcherMode === 'mpc' ? 'Runs offline with the built-in model-predictive controller.' : 'Requires valid API configuration.'}
+                        </p>
                     </div>
                 )}
             </div>
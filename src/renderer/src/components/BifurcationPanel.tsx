@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import {
+    ScatterChart,
+    Scatter,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ResponsiveContainer,
+    ReferenceLine
+} from 'recharts';
+import { Play } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import {
+    BifurcationDiagram,
+    CONTINUATION_PARAMETERS,
+    ContinuationParameter,
+    continueFixedPoints,
+    findFixedPoints
+} from '../simulation/analysis/bifurcation';
+
+const SERIES = [
+    { key: 'C' as const, name: 'Complexity', color: 'var(--color-complexity)' },
+    { key: 'D' as const, name: 'Diversity', color: 'var(--color-diversity)' },
+    { key: 'A' as const, name: 'Agency', color: 'var(--color-agency)' }
+];
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const defaultRange = (parameter: ContinuationParameter, current: number): [number, number] => {
+    if (parameter === 'U') return [0, 1];
+    return [0, Math.max(0.1, Number((current * 2).toFixed(3)))];
+};
+
+const BifurcationPanel: React.FC = () => {
+    const { parameters, control, scenarioMetadata } = useSimulationStore();
+    const [parameter, setParameter] = useState<ContinuationParameter>('U');
+    const [range, setRange] = useState<[number, number]>([0, 1]);
+    const [steps, setSteps] = useState(60);
+    const [diagram, setDiagram] = useState<BifurcationDiagram | null>(null);
+
+    const equilibria = useMemo(() => findFixedPoints(parameters, control.U), [parameters, control.U]);
+
+    if (scenarioMetadata.type !== 'sde') {
+        return (
+            <div className="card" style={{ padding: '16px', fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                Bifurcation analysis is available for the SDE scenario only.
+            </div>
+        );
+    }
+
+    const currentValue = parameter === 'U' ? control.U : parameters[parameter];
+
+    const handleParameterChange = (next: ContinuationParameter) => {
+        setParameter(next);
+        setRange(defaultRange(next, next === 'U' ? control.U : parameters[next]));
+        setDiagram(null);
+    };
+
+    const runContinuation = () => {
+        const [min, max] = range;
+        if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) return;
+        setDiagram(continueFixedPoints(parameters, parameter, { min, max, steps, U: control.U }));
+    };
+
+    return (
+        <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>Equilibria & Bifurcations</h3>
+
+            {/* Fixed points at the current operating point */}
+            <div>
+                <div style={{ color: 'var(--color-text-secondary)', marginBottom: '6px' }}>
+                    Fixed points at U = {control.U.toFixed(2)}
+                </div>
+                {equilibria.length === 0 && <div style={{ color: 'var(--color-text-secondary)' }}>None inside the unit cube.</div>}
+                {equilibria.map((point, index) => (
+                    <div key={index} style={{ display: 'flex', justifyContent: 'space-between', fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                        <span>C {point.C.toFixed(3)} · D {point.D.toFixed(3)} · A {point.A.toFixed(3)}</span>
+                        <span style={{ color: point.stability === 'stable' ? '#4ade80' : '#f43f5e' }}>
+                            {point.stability}{point.oscillatory ? ' (focus)' : ''}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {/* Continuation setup */}
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 1fr', gap: '6px', alignItems: 'end' }}>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                    Parameter
+                    <select value={parameter} onChange={(e) => handleParameterChange(e.target.value as ContinuationParameter)} style={inputStyle}>
+                        {CONTINUATION_PARAMETERS.map(key => (
+                            <option key={key} value={key}>{key}</option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                    Min
+                    <input type="number" value={range[0]} step={0.01} onChange={(e) => setRange([parseFloat(e.target.value), range[1]])} style={inputStyle} />
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                    Max
+                    <input type="number" value={range[1]} step={0.01} onChange={(e) => setRange([range[0], parseFloat(e.target.value)])} style={inputStyle} />
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                    Steps
+                    <input type="number" value={steps} min={2} max={400} step={1} onChange={(e) => setSteps(Math.max(2, Math.min(400, parseInt(e.target.value, 10) || 2)))} style={inputStyle} />
+                </label>
+            </div>
+            <button
+                className="btn btn-primary"
+                onClick={runContinuation}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+            >
+                <Play size={14} /> Run Continuation
+            </button>
+
+            {diagram && (
+                <>
+                    <div style={{ height: '260px' }}>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ScatterChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#2d2d55" />
+                                <XAxis
+                                    type="number"
+                                    dataKey="value"
+                                    name={diagram.parameter}
+                                    domain={[diagram.values[0], diagram.values[diagram.values.length - 1]]}
+                                    stroke="#a0a0b0"
+                                    tick={{ fill: '#a0a0b0', fontSize: 11 }}
+                                    tickFormatter={(v: number) => v.toFixed(2)}
+                                />
+                                <YAxis type="number" dataKey="y" domain={[0, 1]} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 11 }} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#13132b', borderColor: '#2d2d55', color: '#e0e0e0' }}
+                                    formatter={(v: number) => v.toFixed(4)}
+                                />
+                                <Legend wrapperStyle={{ fontSize: '0.75rem' }} />
+                                <ReferenceLine y={diagram.alertThreshold} stroke="#f43f5e" strokeDasharray="3 3" />
+                                <ReferenceLine x={currentValue} stroke="#a0a0b0" strokeDasharray="2 4" />
+                                {diagram.alertCrossings.map((crossing, index) => (
+                                    <ReferenceLine key={`alert-${index}`} x={crossing.value} stroke="#f43f5e" />
+                                ))}
+                                {diagram.events.map((event, index) => (
+                                    <ReferenceLine key={`event-${index}`} x={event.value} stroke="#facc15" strokeDasharray="4 2" />
+                                ))}
+                                {SERIES.map(series => (
+                                    <Scatter
+                                        key={`${series.key}-stable`}
+                                        name={`${series.name} (stable)`}
+                                        data={diagram.points.filter(p => p.stability === 'stable').map(p => ({ value: p.value, y: p[series.key] }))}
+                                        fill={series.color}
+                                        isAnimationActive={false}
+                                    />
+                                ))}
+                                {SERIES.map(series => (
+                                    <Scatter
+                                        key={`${series.key}-unstable`}
+                                        name={`${series.name} (unstable)`}
+                                        data={diagram.points.filter(p => p.stability !== 'stable').map(p => ({ value: p.value, y: p[series.key] }))}
+                                        fill="none"
+                                        stroke={series.color}
+                                        isAnimationActive={false}
+                                    />
+                                ))}
+                            </ScatterChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '0.8rem' }}>
+                        {diagram.alertCrossings.length === 0 && (
+                            <span style={{ color: 'var(--color-text-secondary)' }}>
+                                A* does not cross A_alert = {diagram.alertThreshold.toFixed(2)} in this range.
+                            </span>
+                        )}
+                        {diagram.alertCrossings.map((crossing, index) => (
+                            <span key={index} style={{ color: '#f43f5e' }}>
+                                A* crosses A_alert {crossing.direction === 'up' ? 'upwards' : 'downwards'} at {diagram.parameter} ≈ {crossing.value.toFixed(3)}
+                            </span>
+                        ))}
+                        {diagram.events.map((event, index) => (
+                            <span key={index} style={{ color: '#facc15' }}>
+                                {event.kind === 'fold'
+                                    ? `Equilibria appear/disappear near ${diagram.parameter} ≈ ${event.value.toFixed(3)}`
+                                    : `Branch ${event.branch} turns ${event.to} near ${diagram.parameter} ≈ ${event.value.toFixed(3)}`}
+                            </span>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BifurcationPanel;
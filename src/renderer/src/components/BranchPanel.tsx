@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, GitBranch, Trash2, X } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { getSweepableKeys } from '../simulation/experiments/experimentDesign';
+import { BranchIntervention, RunBranch, findBaseline, flattenTree, isBaseline } from '../simulation/branching/branchTree';
+
+/** Branch horizons offered, in generations */
+const BRANCH_HORIZONS = [50, 200, 1000, 5000];
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    padding: '2px 4px'
+};
+
+const finalAgency = (branch: RunBranch) => branch.telemetry[branch.telemetry.length - 1]?.A;
+
+/** Final agency, and its difference from the baseline of the same fork point */
+function describeOutcome(branch: RunBranch, branches: RunBranch[]): string {
+    if (branch.status === 'running') return 'running…';
+    if (branch.status === 'failed') return `failed: ${branch.error ?? 'unknown error'}`;
+    const A = finalAgency(branch);
+    const baseline = isBaseline(branch.intervention) ? undefined : findBaseline(branches, branch);
+    const baselineA = baseline?.status === 'done' ? finalAgency(baseline) : undefined;
+    if (A === undefined) return '';
+    if (baselineA === undefined) return `A ${A.toFixed(3)}`;
+    const delta = A - baselineA;
+    return `A ${A.toFixed(3)} (Δ ${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+const BranchPanel: React.FC = () => {
+    const branches = useSimulationStore(state => state.branches);
+    const forkRun = useSimulationStore(state => state.forkRun);
+    const removeBranch = useSimulationStore(state => state.removeBranch);
+    const toggleBranchVisibility = useSimulationStore(state => state.toggleBranchVisibility);
+    const clearBranches = useSimulationStore(state => state.clearBranches);
+    const scenarioId = useSimulationStore(state => state.currentScenarioId);
+    const currentU = useSimulationStore(state => state.control.U);
+    const isFastForwarding = useSimulationStore(state => state.isFastForwarding);
+
+    const [changeU, setChangeU] = useState(true);
+    const [U, setU] = useState(currentU);
+    const [configKey, setConfigKey] = useState('');
+    const [configValue, setConfigValue] = useState('');
+    const [horizon, setHorizon] = useState(BRANCH_HORIZONS[1]);
+
+    const configKeys = getSweepableKeys(scenarioId);
+    const value = Number(configValue);
+    const intervention: BranchIntervention = {
+        ...(changeU ? { U: Math.max(0, Math.min(1, U)) } : {}),
+        ...(configKey && configValue !== '' && Number.isFinite(value) ? { config: { [configKey]: value } } : {})
+    };
+
+    const fork = (parentId: string | null) => void forkRun(intervention, horizon, parentId);
+
+    return (
+        <div className="card" style={{ padding: '12px 16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={{ margin: 0, fontSize: '1rem', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <GitBranch size={16} /> Branches
+                </h3>
+                {branches.length > 0 && (
+                    <button className="btn" onClick={clearBranches} title="Remove all branches" style={{ padding: '2px 8px', fontSize: '0.75rem' }}>
+                        <Trash2 size={14} /> Clear
+                    </button>
+                )}
+            </div>
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input type="checkbox" checked={changeU} onChange={(e) => setChangeU(e.target.checked)} />
+                    U =
+                </label>
+                <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={U}
+                    disabled={!changeU}
+                    onChange={(e) => setU(Number(e.target.value))}
+                    style={{ ...inputStyle, width: '64px' }}
+                />
+                <select value={configKey} onChange={(e) => setConfigKey(e.target.value)} style={inputStyle}>
+                    <option value="">no config change</option>
+                    {configKeys.map(key => <option key={key} value={key}>{key}</option>)}
+                </select>
+                {configKey && (
+                    <input
+                        type="number"
+                        value={configValue}
+                        onChange={(e) => setConfigValue(e.target.value)}
+                        placeholder="value"
+                        style={{ ...inputStyle, width: '72px' }}
+                    />
+                )}
+                <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} style={inputStyle}>
+                    {BRANCH_HORIZONS.map(step => <option key={step} value={step}>+{step.toLocaleString()} gen</option>)}
+                </select>
+                <button
+                    className="btn btn-primary"
+                    onClick={() => fork(null)}
+                    disabled={isFastForwarding}
+                    title="Run this intervention and an unchanged baseline from the current state, on the same random stream"
+                >
+                    <GitBranch size={16} /> Fork here
+                </button>
+            </div>
+
+            {flattenTree(branches).map(({ branch, depth }) => (
+                <div
+                    key={branch.id}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        paddingLeft: `${depth * 16}px`,
+                        color: branch.status === 'failed' ? 'var(--color-danger)' : 'inherit'
+                    }}
+                >
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={branch.label}>
+                        {depth > 0 ? '└ ' : ''}{branch.label}
+                    </span>
+                    <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem', fontFamily: 'monospace' }}>
+                        {describeOutcome(branch, branches)}
+                    </span>
+                    <button
+                        className="btn"
+                        onClick={() => toggleBranchVisibility(branch.id)}
+                        title={branch.visible ? 'Hide in the chart' : 'Show in the chart'}
+                        style={{ padding: '2px 6px' }}
+                    >
+                        {branch.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </button>
+                    <button
+                        className="btn"
+                        onClick={() => fork(branch.id)}
+                        disabled={branch.status !== 'done'}
+                        title="Fork the intervention above from the end of this branch"
+                        style={{ padding: '2px 6px' }}
+                    >
+                        <GitBranch size={14} />
+                    </button>
+                    <button
+                        className="btn"
+                        onClick={() => removeBranch(branch.id)}
+                        title="Remove this branch and its forks"
+                        style={{ padding: '2px 6px' }}
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default BranchPanel;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { CircleDot, Circle, Eye, History, Plus, X } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+
+const inputStyle: React.CSSProperties = {
+    flex: 1,
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    padding: '4px 6px',
+    fontFamily: 'monospace'
+};
+
+const smallButton: React.CSSProperties = { padding: '2px 6px' };
+
+const formatWatch = (value: number | boolean | null) => {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    return Number.isInteger(value) ? value.toString() : value.toFixed(4);
+};
+
+const BreakpointPanel: React.FC = () => {
+    const breakpoints = useSimulationStore(state => state.breakpoints);
+    const breakpointHits = useSimulationStore(state => state.breakpointHits);
+    const watches = useSimulationStore(state => state.watches);
+    const addBreakpoint = useSimulationStore(state => state.addBreakpoint);
+    const removeBreakpoint = useSimulationStore(state => state.removeBreakpoint);
+    const toggleBreakpoint = useSimulationStore(state => state.toggleBreakpoint);
+    const clearBreakpointHits = useSimulationStore(state => state.clearBreakpointHits);
+    const restoreBreakpointHit = useSimulationStore(state => state.restoreBreakpointHit);
+    const addWatch = useSimulationStore(state => state.addWatch);
+    const removeWatch = useSimulationStore(state => state.removeWatch);
+    const getWatchValues = useSimulationStore(state => state.getWatchValues);
+    const generation = useSimulationStore(state => state.currentState.generation);
+    const isFastForwarding = useSimulationStore(state => state.isFastForwarding);
+
+    const [condition, setCondition] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [watch, setWatch] = useState('');
+
+    const watchValues = useMemo(() => getWatchValues(), [generation, watches, getWatchValues]);
+    const latestHit = breakpointHits[breakpointHits.length - 1];
+
+    const submitCondition = () => {
+        const problem = addBreakpoint(condition);
+        setError(problem);
+        if (!problem) setCondition('');
+    };
+
+    const submitWatch = () => {
+        addWatch(watch);
+        setWatch('');
+    };
+
+    return (
+        <div className="card" style={{ padding: '12px 16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <h3 style={{ margin: 0, fontSize: '1rem', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <CircleDot size={16} /> Breakpoints & Watches
+            </h3>
+
+            <div style={{ display: 'flex', gap: '6px' }}>
+                <input
+                    value={condition}
+                    onChange={(e) => setCondition(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && submitCondition()}
+                    placeholder='A > 0.6 && D < 0.3 · event extinction · metrics.deceptionScore >= 0.5'
+                    style={inputStyle}
+                    title="Pause when the condition becomes true. Paths name telemetry fields or the scenario state; clauses join with &&"
+                />
+                <button className="btn" onClick={submitCondition} disabled={!condition.trim()} style={smallButton} title="Add breakpoint">
+                    <Plus size={14} />
+                </button>
+            </div>
+            {error && <div style={{ color: 'var(--color-danger)', fontSize: '0.75rem' }}>{error}</div>}
+
+            {breakpoints.map(breakpoint => (
+                <div key={breakpoint.id} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <button
+                        className="btn"
+                        onClick={() => toggleBreakpoint(breakpoint.id)}
+                        style={smallButton}
+                        title={breakpoint.enabled ? 'Disable' : 'Enable'}
+                    >
+                        {breakpoint.enabled ? <CircleDot size={14} color="var(--color-alert)" /> : <Circle size={14} />}
+                    </button>
+                    <code style={{ flex: 1, opacity: breakpoint.enabled ? 1 : 0.5 }}>{breakpoint.expression}</code>
+                    <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                        {breakpointHits.filter(hit => hit.breakpointId === breakpoint.id).length} hits
+                    </span>
+                    <button className="btn" onClick={() => removeBreakpoint(breakpoint.id)} style={smallButton} title="Remove breakpoint">
+                        <X size={14} />
+                    </button>
+                </div>
+            ))}
+
+            {breakpointHits.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', borderTop: '1px solid var(--color-border)', paddingTop: '6px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                        <span>Hits</span>
+                        <button className="btn" onClick={clearBreakpointHits} style={{ ...smallButton, fontSize: '0.7rem' }}>Clear</button>
+                    </div>
+                    {[...breakpointHits].reverse().map(hit => (
+                        <div
+                            key={`${hit.breakpointId}-${hit.tick}`}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                                fontSize: '0.75rem',
+                                color: hit === latestHit ? 'var(--color-alert)' : 'inherit'
+                            }}
+                        >
+                            <span style={{ fontFamily: 'monospace' }}>tick {hit.tick.toLocaleString()} · gen {hit.generation.toFixed(1)}</span>
+                            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={hit.event?.message ?? hit.expression}>
+                                {hit.event?.message ?? hit.expression}
+                            </span>
+                            <button
+                                className="btn"
+                                onClick={() => void restoreBreakpointHit(hit)}
+                                disabled={isFastForwarding}
+                                style={smallButton}
+                                title="Return to this tick"
+                            >
+                                <History size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '6px', borderTop: '1px solid var(--color-border)', paddingTop: '6px' }}>
+                <input
+                    value={watch}
+                    onChange={(e) => setWatch(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && watch.trim() && submitWatch()}
+                    placeholder="watch: metrics.totalProvenTheorems"
+                    style={inputStyle}
+                />
+                <button className="btn" onClick={submitWatch} disabled={!watch.trim()} style={smallButton} title="Add watch expression">
+                    <Eye size={14} />
+                </button>
+            </div>
+            {watchValues.map(({ expression, value }) => (
+                <div key={expression} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.75rem' }}>
+                    <code style={{ flex: 1 }}>{expression}</code>
+                    <span style={{ fontFamily: 'monospace' }}>{formatWatch(value)}</span>
+                    <button className="btn" onClick={() => removeWatch(expression)} style={smallButton} title="Remove watch">
+                        <X size={12} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default BreakpointPanel;
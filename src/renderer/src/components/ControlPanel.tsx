@@ -1,18 +1,93 @@
 import React from 'react';
 import { useSimulationStore } from '../store/simulationStore';
 import { AlertTriangle, Info } from 'lucide-react';
+import ControlScheduleEditor from './ControlScheduleEditor';
+import { getScenarioPlugin } from '../simulation/scenarios/scenarioRegistry';
+import { ControlSchema, resolveControlChannels } from '../../../shared/schemas/controlSchema';
+import { ControlSignal } from '../simulation/types';
+
+/** A slider per control channel the scenario declares; unset channels show the value they follow */
+const ControlChannelSliders: React.FC<{
+    schema: ControlSchema;
+    control: ControlSignal;
+    onChange: (channel: string, value: number | null) => void;
+}> = ({ schema, control, onChange }) => {
+    const values = resolveControlChannels(schema, control);
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', marginBottom: '8px' }}>Control Channels</div>
+            {Object.entries(schema).map(([key, channel]) => {
+                const isSet = control.channels?.[key] !== undefined;
+                return (
+                    <div key={key} style={{ marginBottom: '8px' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.8rem', marginBottom: '2px' }}>
+                            <span title={channel.description} style={{ color: 'var(--color-text-secondary)' }}>{channel.label}</span>
+                            <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                <span style={{ fontFamily: 'monospace' }}>
+                                    {values[key].toFixed(channel.step < 0.01 ? 3 : 2)}{channel.unit ? ` ${channel.unit}` : ''}
+                                </span>
+                                {isSet ? (
+                                    <button
+                                        onClick={() => onChange(key, null)}
+                                        title={channel.default !== undefined ? `Back to ${channel.default}` : 'Follow U again'}
+                                        style={{
+                                            padding: '0 6px',
+                                            background: 'transparent',
+                                            border: '1px solid var(--color-border)',
+                                            borderRadius: 'var(--radius-sm)',
+                                            color: 'var(--color-text-secondary)',
+                                            fontSize: '0.75rem',
+                                            cursor: 'pointer'
+                                        }}
+                                    >
+                                        Reset
+                                    </button>
+                                ) : (
+                                    <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                                        {channel.default !== undefined ? 'default' : 'follows U'}
+                                    </span>
+                                )}
+                            </span>
+                        </div>
+                        <input
+                            type="range"
+                            min={channel.min}
+                            max={channel.max}
+                            step={channel.step}
+                            value={values[key]}
+                            onChange={(e) => onChange(key, parseFloat(e.target.value))}
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
 
 const ControlPanel: React.FC = () => {
-    const { control, setControl, currentState, bestAgency, bestParameters, loadBestParameters, exportState, importState } = useSimulationStore();
+    const { control, setControl, setControlChannel, currentScenarioId, currentState, bestAgency, bestParameters, loadBestParameters, exportState, exportReplayLog, importState } = useSimulationStore();
     const fileInputRef = React.useRef<HTMLInputElement>(null);
+    const controlSchema = getScenarioPlugin(currentScenarioId)?.controls;
+
+    const handleExport = async () => {
+        const json = await exportState();
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `simulation_snapshot_${useSimulationStore.getState().currentState.generation.toFixed(0)}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
 
-    const handleExport = () => {
-        const json = exportState();
+    const handleExportReplay = async () => {
+        const json = await exportReplayLog();
+        if (!json) return;
         const blob = new Blob([json], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `simulation_snapshot_${currentState.generation.toFixed(0)}.json`;
+        a.download = `replay_log_${currentState.generation.toFixed(0)}.json`;
         a.click();
         URL.revokeObjectURL(url);
     };
@@ -87,6 +162,10 @@ const ControlPanel: React.FC = () => {
                 </div>
             </div>
 
+            {controlSchema && (
+                <ControlChannelSliders schema={controlSchema} control={control} onChange={setControlChannel} />
+            )}
+
             {currentState.D < 0.25 && control.U > 0.6 && (
                 <div style={{
                     background: 'rgba(244, 63, 94, 0.1)',
@@ -104,6 +183,8 @@ const ControlPanel: React.FC = () => {
                 </div>
             )}
 
+            <ControlScheduleEditor />
+
             {/* Persistence Controls */}
             {bestAgency > 0 && (
                 <div style={{ marginTop: '16px', paddingTop: '16px', borderTop: '1px solid var(--color-border)' }}>
@@ -182,6 +263,24 @@ const ControlPanel: React.FC = () => {
                 >
                     Save
                 </button>
+                <button
+                    onClick={() => void handleExportReplay()}
+                    style={{
+                        flex: 1,
+                        padding: '8px',
+                        background: 'transparent',
+                        border: '1px dashed var(--color-border)',
+                        borderRadius: 'var(--radius-sm)',
+                        color: 'var(--color-text-secondary)',
+                        cursor: 'pointer',
+                        fontSize: '0.8rem',
+                        transition: 'all 0.2s',
+                        display: 'flex', justifyContent: 'center', alignItems: 'center'
+                    }}
+                    title="Save Replay Log (verify with npm run replay)"
+                >
+                    Replay
+                </button>
                 <button
                     onClick={() => fileInputRef.current?.click()}
                     style={{
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CalendarClock, Plus, Square, Trash2 } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { ControlSchedule, ScheduleBreakpoint } from '../simulation/types';
+import {
+    CONTROL_SCHEDULE_KINDS,
+    ControlScheduleKind,
+    createDefaultSchedule,
+    describeSchedule,
+    evaluateActiveSchedule,
+    evaluateSchedule,
+    sanitizeSchedule
+} from '../simulation/control/controlSchedule';
+
+const KIND_LABELS: Record<ControlScheduleKind, string> = {
+    linear: 'Piecewise linear',
+    step: 'Step',
+    sine: 'Sinusoidal',
+    pulse: 'Square pulse',
+    sequence: 'Sequence'
+};
+
+const PREVIEW_POINTS = 120;
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    fontSize: '0.75rem',
+    color: 'var(--color-text-secondary)'
+};
+
+const formatPoints = (points: ScheduleBreakpoint[]) => points.map(p => `${p.generation}:${p.U}`).join(', ');
+
+const parsePoints = (text: string): ScheduleBreakpoint[] => text
+    .split(',')
+    .map(pair => pair.split(':').map(part => parseFloat(part.trim())))
+    .filter(([generation, U]) => Number.isFinite(generation) && Number.isFinite(U))
+    .map(([generation, U]) => ({ generation, U }));
+
+/** Generations shown in the preview: one pass through every segment, or a few periods */
+const previewHorizon = (schedule: ControlSchedule): number => {
+    switch (schedule.kind) {
+        case 'linear':
+        case 'step':
+            return Math.max(50, (schedule.points[schedule.points.length - 1]?.generation ?? 0) * 1.25);
+        case 'sine':
+            return schedule.period * 3;
+        case 'pulse':
+            return schedule.delay + schedule.period * 3;
+        case 'sequence':
+            return schedule.segments.reduce((sum, segment) => sum + segment.duration, 0) * 1.25;
+        default:
+            return 100;
+    }
+};
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step = 0.01, onChange }) => (
+    <label style={labelStyle}>
+        {label}
+        <input
+            type="number"
+            value={value}
+            step={step}
+            onChange={(e) => {
+                const next = parseFloat(e.target.value);
+                if (Number.isFinite(next)) onChange(next);
+            }}
+            style={inputStyle}
+        />
+    </label>
+);
+
+const PointsField: React.FC<{ points: ScheduleBreakpoint[]; onChange: (points: ScheduleBreakpoint[]) => void }> = ({ points, onChange }) => {
+    const [text, setText] = useState(formatPoints(points));
+    return (
+        <label style={labelStyle}>
+            Breakpoints (generation:U, …)
+            <input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={() => {
+                    const parsed = parsePoints(text);
+                    if (parsed.length > 0) onChange(parsed);
+                    else setText(formatPoints(points));
+                }}
+                style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+        </label>
+    );
+};
+
+const ScheduleFields: React.FC<{ schedule: ControlSchedule; nested?: boolean; onChange: (schedule: ControlSchedule) => void }> = ({ schedule, nested = false, onChange }) => {
+    const kinds = nested ? CONTROL_SCHEDULE_KINDS.filter(kind => kind !== 'sequence') : CONTROL_SCHEDULE_KINDS;
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <label style={labelStyle}>
+                Shape
+                <select value={schedule.kind} onChange={(e) => onChange(createDefaultSchedule(e.target.value as ControlScheduleKind))} style={inputStyle}>
+                    {kinds.map(kind => (
+                        <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                    ))}
+                </select>
+            </label>
+
+            {(schedule.kind === 'linear' || schedule.kind === 'step') && (
+                <PointsField key={schedule.kind} points={schedule.points} onChange={(points) => onChange({ ...schedule, points })} />
+            )}
+
+            {schedule.kind === 'sine' && (
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '6px' }}>
+                    <NumberField label="Mean" value={schedule.mean} onChange={(mean) => onChange({ ...schedule, mean })} />
+                    <NumberField label="Amplitude" value={schedule.amplitude} onChange={(amplitude) => onChange({ ...schedule, amplitude })} />
+                    <NumberField label="Period" value={schedule.period} step={1} onChange={(period) => onChange({ ...schedule, period })} />
+                    <NumberField label="Phase" value={schedule.phase} step={0.1} onChange={(phase) => onChange({ ...schedule, phase })} />
+                </div>
+            )}
+
+            {schedule.kind === 'pulse' && (
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px' }}>
+                    <NumberField label="Base" value={schedule.base} onChange={(base) => onChange({ ...schedule, base })} />
+                    <NumberField label="Peak" value={schedule.peak} onChange={(peak) => onChange({ ...schedule, peak })} />
+                    <NumberField label="Period" value={schedule.period} step={1} onChange={(period) => onChange({ ...schedule, period })} />
+                    <NumberField label="Width" value={schedule.width} step={1} onChange={(width) => onChange({ ...schedule, width })} />
+                    <NumberField label="Delay" value={schedule.delay} step={1} onChange={(delay) => onChange({ ...schedule, delay })} />
+                </div>
+            )}
+
+            {schedule.kind === 'sequence' && (
+                <>
+                    {schedule.segments.map((segment, index) => (
+                        <div key={index} style={{ border: '1px solid var(--color-border)', borderRadius: 'var(--radius-sm)', padding: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                            <div style={{ display: 'flex', gap: '6px', alignItems: 'end' }}>
+                                <div style={{ flex: 1 }}>
+                                    <NumberField
+                                        label={`Segment ${index + 1} duration (gen)`}
+                                        value={segment.duration}
+                                        step={1}
+                                        onChange={(duration) => onChange({
+                                            ...schedule,
+                                            segments: schedule.segments.map((s, i) => (i === index ? { ...s, duration: Math.max(1, duration) } : s))
+                                        })}
+                                    />
+                                </div>
+                                <button
+                                    className="btn"
+                                    disabled={schedule.segments.length <= 1}
+                                    onClick={() => onChange({ ...schedule, segments: schedule.segments.filter((_, i) => i !== index) })}
+                                    title="Remove segment"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                            <ScheduleFields
+                                nested
+                                schedule={segment.schedule}
+                                onChange={(next) => onChange({
+                                    ...schedule,
+                                    segments: schedule.segments.map((s, i) => (i === index ? { ...s, schedule: next } : s))
+                                })}
+                            />
+                        </div>
+                    ))}
+                    <button
+                        className="btn"
+                        onClick={() => onChange({ ...schedule, segments: [...schedule.segments, { duration: 100, schedule: createDefaultSchedule('step') }] })}
+                        style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+                    >
+                        <Plus size={12} /> Add Segment
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+const ControlScheduleEditor: React.FC = () => {
+    const { control, controlSchedule, currentState, setControlSchedule } = useSimulationStore();
+    const [draft, setDraft] = useState<ControlSchedule>(() => createDefaultSchedule('sequence', control.U));
+
+    const valid = useMemo(() => sanitizeSchedule(draft), [draft]);
+    const preview = useMemo(() => {
+        if (!valid) return [];
+        const horizon = previewHorizon(valid);
+        return Array.from({ length: PREVIEW_POINTS + 1 }, (_, i) => {
+            const generation = (horizon * i) / PREVIEW_POINTS;
+            return { generation, U: evaluateSchedule(valid, generation) };
+        });
+    }, [valid]);
+
+    const nextU = controlSchedule ? evaluateActiveSchedule(controlSchedule, currentState.generation) : null;
+
+    return (
+        <div style={{ marginTop: '16px', paddingTop: '16px', borderTop: '1px solid var(--color-border)', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <CalendarClock size={16} color="var(--color-text-secondary)" />
+                <span style={{ fontSize: '0.95rem', fontWeight: 600 }}>Control Schedule U(t)</span>
+            </div>
+
+            {controlSchedule && (
+                <div style={{
+                    background: 'rgba(34, 211, 238, 0.08)',
+                    border: '1px solid rgba(34, 211, 238, 0.3)',
+                    borderRadius: 'var(--radius-sm)',
+                    padding: '8px',
+                    fontSize: '0.8rem',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '6px'
+                }}>
+                    <span>
+                        Active since gen {controlSchedule.startGeneration.toFixed(1)}: {describeSchedule(controlSchedule.schedule)}
+                    </span>
+                    <span style={{ color: 'var(--color-text-secondary)', fontFamily: 'monospace' }}>
+                        U(t) = {nextU?.toFixed(3)} · moving the slider releases the schedule
+                    </span>
+                    <button className="btn" onClick={() => setControlSchedule(null)} style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}>
+                        <Square size={12} /> Release Schedule
+                    </button>
+                </div>
+            )}
+
+            <ScheduleFields schedule={draft} onChange={setDraft} />
+
+            {preview.length > 0 && (
+                <div style={{ height: '90px' }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={preview} margin={{ top: 5, right: 8, left: -28, bottom: 0 }}>
+                            <XAxis dataKey="generation" type="number" domain={['dataMin', 'dataMax']} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(0)} />
+                            <YAxis domain={[0, 1]} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 10 }} />
+                            <ReferenceLine y={control.U} stroke="#a0a0b0" strokeDasharray="2 4" />
+                            <Line type="linear" dataKey="U" stroke="var(--color-primary)" dot={false} isAnimationActive={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            <button
+                className="btn btn-primary"
+                disabled={!valid}
+                onClick={() => valid && setControlSchedule(valid)}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+            >
+                <CalendarClock size={14} /> {controlSchedule ? 'Replace Schedule' : 'Start Schedule'}
+            </button>
+        </div>
+    );
+};
+
+export default ControlScheduleEditor;
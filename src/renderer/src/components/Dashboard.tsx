@@ -4,15 +4,20 @@ import MetricsChart from './MetricsChart';
 import StateGauges from './StateGauges';
 import ControlPanel from './ControlPanel';
 import SimulationControls from './SimulationControls';
+import TimelineScrubber from './TimelineScrubber';
+import BranchPanel from './BranchPanel';
+import BreakpointPanel from './BreakpointPanel';
 import AlertPanel from './AlertPanel';
 import ParameterPanel from './ParameterPanel';
 import ValidationPanel from './ValidationPanel';
 import { AIControlPanel } from './AIControlPanel';
 import InterventionLogPanel from './InterventionLogPanel';
 import AgencyLog from './AgencyLog';
-import ErdosProblemsPanel from './ErdosProblemsPanel';
+import MacroTwinPanel from './MacroTwinPanel';
+import { ScenarioPanel, getScenarioPanels } from './scenarioPanels';
 
-type TabType = 'main' | 'logs' | 'erdos';
+// Panels a scenario places in a tab of their own get the tab `panel:<name>`
+type TabType = 'main' | 'logs' | 'analysis' | `panel:${string}`;
 
 const Dashboard: React.FC = () => {
     const [activeTab, setActiveTab] = useState<TabType>('main');
@@ -24,11 +29,13 @@ const Dashboard: React.FC = () => {
         switchScenario
     } = useSimulationStore();
 
+    const panelTabs = getScenarioPanels(currentScenarioId, 'tab');
+
     useEffect(() => {
-        if (currentScenarioId !== 'erdos' && activeTab === 'erdos') {
+        if (activeTab.startsWith('panel:') && !panelTabs.some(slot => `panel:${slot.panel}` === activeTab)) {
             setActiveTab('main');
         }
-    }, [activeTab, currentScenarioId]);
+    }, [activeTab, panelTabs]);
 
     const tabButtonStyle = (isActive: boolean) => ({
         background: isActive ? 'var(--color-primary)' : 'transparent',
@@ -77,7 +84,13 @@ const Dashboard: React.FC = () => {
             <div style={{ display: 'flex', flexDirection: 'column', gap: '16px', minHeight: 0 }}>
                 <StateGauges />
                 <MetricsChart />
+                {getScenarioPanels(currentScenarioId, 'visualization').map(slot => (
+                    <ScenarioPanel key={slot.panel} slot={slot} />
+                ))}
                 <SimulationControls />
+                <TimelineScrubber />
+                <BreakpointPanel />
+                <BranchPanel />
                 <AIControlPanel />
             </div>
 
@@ -97,14 +110,21 @@ const Dashboard: React.FC = () => {
                     >
                         LOGS
                     </button>
-                    {currentScenarioId === 'erdos' && (
+                    <button
+                        onClick={() => setActiveTab('analysis')}
+                        style={tabButtonStyle(activeTab === 'analysis')}
+                    >
+                        ANALYSIS
+                    </button>
+                    {panelTabs.map(slot => (
                         <button
-                            onClick={() => setActiveTab('erdos')}
-                            style={tabButtonStyle(activeTab === 'erdos')}
+                            key={slot.panel}
+                            onClick={() => setActiveTab(`panel:${slot.panel}`)}
+                            style={tabButtonStyle(activeTab === `panel:${slot.panel}`)}
                         >
-                            ERDOS
+                            {(slot.title ?? slot.panel).toUpperCase()}
                         </button>
-                    )}
+                    ))}
                 </div>
 
                 {/* Main Tab Content */}
@@ -113,6 +133,9 @@ const Dashboard: React.FC = () => {
                         <ControlPanel />
                         <AlertPanel />
                         <ParameterPanel />
+                        {getScenarioPanels(currentScenarioId, 'main').map(slot => (
+                            <ScenarioPanel key={slot.panel} slot={slot} />
+                        ))}
                     </>
                 )}
 
@@ -125,9 +148,18 @@ const Dashboard: React.FC = () => {
                     </>
                 )}
 
-                {activeTab === 'erdos' && currentScenarioId === 'erdos' && (
-                    <ErdosProblemsPanel />
+                {activeTab === 'analysis' && (
+                    <>
+                        <MacroTwinPanel />
+                        {getScenarioPanels(currentScenarioId, 'analysis').map(slot => (
+                            <ScenarioPanel key={slot.panel} slot={slot} />
+                        ))}
+                    </>
                 )}
+
+                {panelTabs.filter(slot => activeTab === `panel:${slot.panel}`).map(slot => (
+                    <ScenarioPanel key={slot.panel} slot={slot} />
+                ))}
             </div>
 
         </div>
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import { InlineMath } from 'react-katex';
+import { TelemetryPoint } from '../simulation/types';
+import { MIN_SINDY_SAMPLES, SindyResult, discoverEquations } from '../simulation/analysis/sindy';
+
+interface DiscoveredEquationsPanelProps {
+    /** Series the equations are fitted to, e.g. the behavior trace of a library entry */
+    telemetry: TelemetryPoint[];
+    /** Where the series comes from, for the description */
+    source: string;
+}
+
+const DiscoveredEquationsPanel: React.FC<DiscoveredEquationsPanelProps> = ({ telemetry, source }) => {
+    const [degree, setDegree] = useState(2);
+    const [threshold, setThreshold] = useState(0.02);
+    const [result, setResult] = useState<SindyResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const runDiscovery = () => {
+        const discovered = discoverEquations(telemetry, { degree, threshold });
+        setResult(discovered);
+        setError(discovered ? null : `Need at least ${MIN_SINDY_SAMPLES} derivative samples (have ${Math.max(0, telemetry.length - 2)}).`);
+    };
+
+    const copyLatex = () => {
+        if (!result) return;
+        const text = result.equations.map(eq => eq.latex).join(' \\\\\n');
+        navigator.clipboard.writeText(text).then(() => {
+            alert("Equations copied to clipboard!");
+        });
+    };
+
+    const inputStyle: React.CSSProperties = {
+        width: '64px',
+        padding: '4px 6px',
+        borderRadius: '4px',
+        border: '1px solid var(--color-border)',
+        background: 'var(--color-bg)',
+        color: 'var(--color-text-primary)'
+    };
+
+    return (
+        <>
+            <h3 style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '32px' }}>
+                Discovered Drift Equations
+                {result && (
+                    <button
+                        onClick={copyLatex}
+                        style={{
+                            background: 'rgba(255, 255, 255, 0.1)',
+                            border: 'none',
+                            borderRadius: '4px',
+                            color: 'var(--color-text-secondary)',
+                            cursor: 'pointer',
+                            fontSize: '0.8rem',
+                            padding: '4px 8px'
+                        }}
+                        title="Copy discovered equations to clipboard"
+                    >
+                        Copy LaTeX
+                    </button>
+                )}
+            </h3>
+            <div style={{
+                background: 'var(--color-surface)',
+                padding: '16px',
+                borderRadius: '8px',
+                border: '1px solid var(--color-border)',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '12px',
+                fontSize: '0.85rem'
+            }}>
+                <div style={{ color: 'var(--color-text-secondary)' }}>
+                    Sparse regression over polynomial terms in C, D, A and U, fitted to the {telemetry.length} telemetry points of {source}.
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        Degree
+                        <input
+                            type="number"
+                            min={1}
+                            max={4}
+                            step={1}
+                            value={degree}
+                            onChange={(e) => setDegree(Math.min(4, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+                            style={inputStyle}
+                        />
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        Threshold
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.005}
+                            value={threshold}
+                            onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+                            style={inputStyle}
+                        />
+                    </label>
+                    <button
+                        className="btn btn-primary"
+                        onClick={runDiscovery}
+                        style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
+                    >
+                        <FlaskConical size={14} /> Discover
+                    </button>
+                </div>
+
+                {error && <div style={{ color: '#f43f5e', fontSize: '0.8rem' }}>{error}</div>}
+
+                {result && (
+                    <>
+                        {result.equations.map(eq => (
+                            <div key={eq.variable} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+                                <div style={{ fontSize: '1.1rem', overflowX: 'auto' }}>
+                                    <InlineMath math={eq.latex} />
+                                </div>
+                                <span style={{ color: 'var(--color-text-secondary)', fontFamily: 'monospace', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>
+                                    R² {eq.rSquared.toFixed(3)}
+                                </span>
+                            </div>
+                        ))}
+                        <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                            {result.samples} samples · {result.library.length} candidate terms · threshold {result.threshold}
+                        </div>
+                    </>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default DiscoveredEquationsPanel;
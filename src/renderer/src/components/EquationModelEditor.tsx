@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Cpu, RotateCcw } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { DEFAULT_MODEL_SOURCE, parseEquationModel, resolveModelParameters } from '../simulation/model/equationDsl';
+import { generateModelKernel } from '../simulation/model/equationWgsl';
+
+const EquationModelEditor: React.FC = () => {
+    const { parameters, updateParameters } = useSimulationStore();
+    const active = parameters.model ?? DEFAULT_MODEL_SOURCE;
+    const [draft, setDraft] = useState(active);
+
+    const result = useMemo(() => parseEquationModel(draft), [draft]);
+    const gpuCompatible = result.success && generateModelKernel(result.model) !== null;
+
+    const applyModel = () => {
+        if (!result.success) return;
+        updateParameters({
+            model: result.model.source,
+            modelParameters: resolveModelParameters(result.model, parameters.modelParameters)
+        });
+    };
+
+    const resetModel = () => {
+        setDraft(DEFAULT_MODEL_SOURCE);
+        updateParameters({ model: undefined, modelParameters: undefined });
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                rows={Math.min(14, Math.max(6, draft.split('\n').length + 1))}
+                style={{
+                    background: 'var(--color-bg)',
+                    color: 'var(--color-text-primary)',
+                    border: `1px solid ${result.success ? 'var(--color-border)' : 'var(--color-danger)'}`,
+                    borderRadius: 'var(--radius-sm)',
+                    padding: '6px 8px',
+                    fontFamily: 'monospace',
+                    fontSize: '0.75rem',
+                    resize: 'vertical',
+                    whiteSpace: 'pre',
+                    boxSizing: 'border-box',
+                    width: '100%'
+                }}
+            />
+
+            {!result.success && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: 'var(--color-danger)', fontFamily: 'monospace' }}>
+                    {result.errors.map((error, index) => (
+                        <span key={index} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <AlertTriangle size={12} /> {error.line}:{error.column} {error.message}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {result.success && (
+                <div style={{ display: 'flex', gap: '12px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                    <span>{result.model.variables.length} variables · {result.model.parameters.length} declared params</span>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }} title="Models with extra state variables run on the CPU engine only.">
+                        <Cpu size={12} /> {gpuCompatible ? 'GPU ready' : 'CPU only'}
+                    </span>
+                </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '6px' }}>
+                <button
+                    className="btn btn-primary"
+                    onClick={applyModel}
+                    disabled={!result.success || draft === active}
+                    style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+                >
+                    <Check size={14} /> Apply Model
+                </button>
+                <button
+                    className="btn"
+                    onClick={resetModel}
+                    disabled={!parameters.model && draft === DEFAULT_MODEL_SOURCE}
+                    title="Restore the built-in E1-E3 equations"
+                    style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+                >
+                    <RotateCcw size={14} /> Built-in
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default EquationModelEditor;
@@ -0,0 +1,442 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CartesianGrid, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+import { Download, Play, Plus, Square, Trash2, Upload } from 'lucide-react';
+import {
+    EXPERIMENT_DESIGNS,
+    ExperimentDesignKind,
+    ExperimentFactor,
+    ExperimentSpec,
+    countPoints,
+    getSweepableKeys,
+    parseExperimentSpec
+} from '../simulation/experiments/experimentDesign';
+import {
+    EXPERIMENT_METRICS,
+    ExperimentMetric,
+    ExperimentPool,
+    ExperimentProgress,
+    createInlinePool,
+    experimentToCsv,
+    resumeExperimentProgress,
+    runExperiment,
+    summarizeExperiment
+} from '../simulation/experiments/experimentRunner';
+import { createWorkerPool, wrapWebWorker } from '../simulation/experiments/experimentPool';
+import { getBatchScenarioDefaults } from '../simulation/runner/batchRunner';
+import { listScenarioIds } from '../simulation/scenarios/scenarioRegistry';
+
+const STORAGE_KEY = 'fipsm_experiment_v1';
+
+const DESIGN_LABELS: Record<ExperimentDesignKind, string> = {
+    grid: 'Full grid',
+    lhs: 'Latin hypercube',
+    random: 'Random'
+};
+
+const METRIC_LABELS: Record<ExperimentMetric, string> = {
+    peakA: 'Peak A',
+    timeToAlert: 'Time to alert',
+    alerts: 'Alerts',
+    extinctions: 'Extinctions',
+    finalA: 'Final A',
+    finalD: 'Final D'
+};
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    fontSize: '0.75rem',
+    color: 'var(--color-text-secondary)'
+};
+
+/** Editable form of a spec: seeds stay text ("1..4") until the spec is parsed */
+interface SpecDraft {
+    name: string;
+    scenarioId: string;
+    design: ExperimentDesignKind;
+    factors: ExperimentFactor[];
+    samples: number;
+    seeds: string;
+    steps: number;
+    control: number;
+}
+
+interface SavedExperiment {
+    spec: ExperimentSpec;
+    progress: ExperimentProgress;
+}
+
+/** Sweep ±50% around the scenario default (integers stay integers) */
+const defaultFactor = (scenarioId: string, key: string): ExperimentFactor => {
+    const value = Number(getBatchScenarioDefaults(scenarioId)?.[key] ?? 1);
+    const integer = Number.isInteger(value) && Math.abs(value) >= 2;
+    const round = (x: number) => (integer ? Math.round(x) : Number(x.toFixed(4)));
+    return { key, min: round(value * 0.5), max: round(value * 1.5) || 1, levels: 5, integer };
+};
+
+const draftFor = (scenarioId: string): SpecDraft => ({
+    name: `${scenarioId}-sweep`,
+    scenarioId,
+    design: 'grid',
+    factors: [defaultFactor(scenarioId, getSweepableKeys(scenarioId)[0])],
+    samples: 16,
+    seeds: '1..3',
+    steps: scenarioId === 'sde-v1' ? 500 : 100,
+    control: 0.2
+});
+
+const draftFromSpec = (spec: ExperimentSpec): SpecDraft => ({
+    name: spec.name,
+    scenarioId: spec.scenarioId,
+    design: spec.design,
+    factors: spec.factors,
+    samples: spec.samples,
+    seeds: spec.seeds.join(','),
+    steps: spec.steps,
+    control: spec.control
+});
+
+const loadSaved = (): SavedExperiment | null => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const saved = JSON.parse(raw);
+        const spec = parseExperimentSpec(saved.spec);
+        return { spec, progress: resumeExperimentProgress(spec, saved.progress) };
+    } catch (error) {
+        console.warn('[Experiments] Ignoring unreadable saved experiment.', error);
+        return null;
+    }
+};
+
+const createPool = (workers: number): ExperimentPool => {
+    if (typeof Worker === 'undefined') return createInlinePool();
+    return createWorkerPool(
+        () => wrapWebWorker(new Worker(new URL('../simulation/experiments/experimentWorker.ts', import.meta.url), { type: 'module' })),
+        workers
+    );
+};
+
+const formatValue = (value: number | null) => (value === null ? '—' : Number(value.toPrecision(4)).toString());
+
+const ExperimentsView: React.FC = () => {
+    const saved = useMemo(loadSaved, []);
+    const [draft, setDraft] = useState<SpecDraft>(() => (saved ? draftFromSpec(saved.spec) : draftFor('sde-v1')));
+    const [spec, setSpec] = useState<ExperimentSpec | null>(saved?.spec ?? null);
+    const [progress, setProgress] = useState<ExperimentProgress | null>(saved?.progress ?? null);
+    const [workers, setWorkers] = useState(() => Math.max(1, Math.min(8, (navigator.hardwareConcurrency || 2) - 1)));
+    const [error, setError] = useState<string | null>(null);
+    const [running, setRunning] = useState(false);
+    const [metric, setMetric] = useState<ExperimentMetric>('peakA');
+    const [axis, setAxis] = useState<string>(saved?.spec.factors[0]?.key ?? '');
+    const abortRef = useRef<AbortController | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const sweepable = getSweepableKeys(draft.scenarioId);
+    const update = (patch: Partial<SpecDraft>) => setDraft(current => ({ ...current, ...patch }));
+    const updateFactor = (index: number, patch: Partial<ExperimentFactor>) => {
+        update({ factors: draft.factors.map((factor, i) => (i === index ? { ...factor, ...patch } : factor)) });
+    };
+
+    const buildSpec = (): ExperimentSpec | null => {
+        try {
+            const next = parseExperimentSpec({ ...draft, schedule: null });
+            setError(null);
+            return next;
+        } catch (err) {
+            setError((err as Error).message);
+            return null;
+        }
+    };
+
+    const plannedRuns = (() => {
+        try {
+            const parsed = parseExperimentSpec({ ...draft, schedule: null });
+            return countPoints(parsed) * parsed.seeds.length;
+        } catch {
+            return null;
+        }
+    })();
+
+    const start = async () => {
+        const next = buildSpec();
+        if (!next) return;
+        // Keep finished rows when the spec is unchanged, so Run resumes an interrupted experiment
+        const current = resumeExperimentProgress(next, progress);
+        setSpec(next);
+        setProgress({ ...current });
+        setAxis(axisKey => (next.factors.some(factor => factor.key === axisKey) ? axisKey : next.factors[0].key));
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const pool = createPool(workers);
+        setRunning(true);
+        try {
+            await runExperiment(next, current, pool, {
+                signal: controller.signal,
+                onRow: (_, latest) => {
+                    setProgress({ ...latest, rows: [...latest.rows] });
+                    try {
+                        localStorage.setItem(STORAGE_KEY, JSON.stringify({ spec: next, progress: latest }));
+                    } catch (storageError) {
+                        console.warn('[Experiments] Could not save progress.', storageError);
+                    }
+                }
+            });
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            pool.dispose();
+            abortRef.current = null;
+            setRunning(false);
+        }
+    };
+
+    const clearResults = () => {
+        localStorage.removeItem(STORAGE_KEY);
+        setProgress(null);
+        setSpec(null);
+    };
+
+    const download = (content: string, type: string, filename: string) => {
+        const blob = new Blob([content], { type });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseExperimentSpec(JSON.parse(await file.text()));
+            setDraft(draftFromSpec(imported));
+            setError(null);
+        } catch (err) {
+            setError(`Could not load spec: ${(err as Error).message}`);
+        }
+    };
+
+    const rows = progress?.rows ?? [];
+    const summaries = useMemo(() => summarizeExperiment(rows), [rows]);
+    const ranked = useMemo(
+        () => [...summaries].sort((a, b) => (b.mean[metric] ?? -Infinity) - (a.mean[metric] ?? -Infinity)),
+        [summaries, metric]
+    );
+    const failures = rows.filter(row => row.error).length;
+    const chartData = rows
+        .filter(row => row.metrics && row.metrics[metric] !== null && row.values[axis] !== undefined)
+        .map(row => ({ x: row.values[axis], y: row.metrics![metric] as number, seed: row.seed }));
+
+    return (
+        <div style={{ padding: '16px', display: 'grid', gridTemplateColumns: 'minmax(320px, 380px) 1fr', gap: '16px', alignItems: 'start' }}>
+            <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                <h3 style={{ margin: 0, fontSize: '1rem' }}>Experiment</h3>
+                <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.8rem' }}>
+                    Sweeps configuration keys of a scenario over a design, runs every point for each seed in worker threads and collects the run metrics.
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    <label style={labelStyle}>
+                        Name
+                        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} style={inputStyle} />
+                    </label>
+                    <label style={labelStyle}>
+                        Scenario
+                        <select value={draft.scenarioId} onChange={(e) => setDraft(draftFor(e.target.value))} style={inputStyle}>
+                            {listScenarioIds().map(id => <option key={id} value={id}>{id}</option>)}
+                        </select>
+                    </label>
+                    <label style={labelStyle}>
+                        Design
+                        <select value={draft.design} onChange={(e) => update({ design: e.target.value as ExperimentDesignKind })} style={inputStyle}>
+                            {EXPERIMENT_DESIGNS.map(design => <option key={design} value={design}>{DESIGN_LABELS[design]}</option>)}
+                        </select>
+                    </label>
+                    <label style={labelStyle}>
+                        Samples
+                        <input type="number" min={1} value={draft.samples} disabled={draft.design === 'grid'} onChange={(e) => update({ samples: Math.max(1, parseInt(e.target.value, 10) || 1) })} style={inputStyle} />
+                    </label>
+                    <label style={labelStyle}>
+                        Seeds
+                        <input value={draft.seeds} onChange={(e) => update({ seeds: e.target.value })} placeholder="1..4 or 1,2,7" style={inputStyle} />
+                    </label>
+                    <label style={labelStyle}>
+                        Steps per run
+                        <input type="number" min={1} value={draft.steps} onChange={(e) => update({ steps: Math.max(1, parseInt(e.target.value, 10) || 1) })} style={inputStyle} />
+                    </label>
+                    <label style={labelStyle}>
+                        Control U
+                        <input type="number" min={0} max={1} step={0.05} value={draft.control} onChange={(e) => update({ control: Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)) })} style={inputStyle} />
+                    </label>
+                    <label style={labelStyle}>
+                        Workers
+                        <input type="number" min={1} max={16} value={workers} onChange={(e) => setWorkers(Math.max(1, Math.min(16, parseInt(e.target.value, 10) || 1)))} style={inputStyle} />
+                    </label>
+                </div>
+
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                        <span>Factors (key · min · max{draft.design === 'grid' ? ' · levels' : ''} · int)</span>
+                        <button
+                            className="btn"
+                            onClick={() => {
+                                const key = sweepable.find(candidate => !draft.factors.some(factor => factor.key === candidate));
+                                if (key) update({ factors: [...draft.factors, defaultFactor(draft.scenarioId, key)] });
+                            }}
+                            title="Add factor"
+                            style={{ padding: '2px 6px' }}
+                        >
+                            <Plus size={12} />
+                        </button>
+                    </div>
+                    {draft.factors.map((factor, index) => (
+                        <div key={index} style={{ display: 'grid', gridTemplateColumns: draft.design === 'grid' ? '2fr 1fr 1fr 0.8fr auto auto' : '2fr 1fr 1fr auto auto', gap: '4px', alignItems: 'center' }}>
+                            <select value={factor.key} onChange={(e) => updateFactor(index, defaultFactor(draft.scenarioId, e.target.value))} style={{ ...inputStyle, fontFamily: 'monospace' }}>
+                                {sweepable.map(key => <option key={key} value={key}>{key}</option>)}
+                            </select>
+                            <input type="number" value={factor.min} onChange={(e) => updateFactor(index, { min: parseFloat(e.target.value) || 0 })} style={inputStyle} />
+                            <input type="number" value={factor.max} onChange={(e) => updateFactor(index, { max: parseFloat(e.target.value) || 0 })} style={inputStyle} />
+                            {draft.design === 'grid' && (
+                                <input type="number" min={1} value={factor.levels} onChange={(e) => updateFactor(index, { levels: Math.max(1, parseInt(e.target.value, 10) || 1) })} style={inputStyle} />
+                            )}
+                            <input type="checkbox" checked={factor.integer} onChange={(e) => updateFactor(index, { integer: e.target.checked })} title="Round to integers" />
+                            <button className="btn" onClick={() => update({ factors: draft.factors.filter((_, i) => i !== index) })} title="Remove factor" style={{ padding: '2px 6px' }}>
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {error && <div style={{ color: 'var(--color-alert)', fontSize: '0.75rem' }}>{error}</div>}
+
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    {running ? (
+                        <button className="btn" onClick={() => abortRef.current?.abort()} style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}>
+                            <Square size={14} /> Stop
+                        </button>
+                    ) : (
+                        <button className="btn btn-primary" onClick={start} disabled={plannedRuns === null} style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}>
+                            <Play size={14} /> {progress && progress.rows.length > 0 && progress.rows.length < progress.total ? 'Resume' : 'Run'} ({plannedRuns ?? '?'} runs)
+                        </button>
+                    )}
+                    <button className="btn" onClick={() => fileRef.current?.click()} title="Load spec JSON" disabled={running}>
+                        <Upload size={14} />
+                    </button>
+                    <button
+                        className="btn"
+                        onClick={() => {
+                            const next = buildSpec();
+                            if (next) download(JSON.stringify(next, null, 2), 'application/json', `${next.name}.json`);
+                        }}
+                        title="Save spec JSON (run it with npm run experiment)"
+                    >
+                        <Download size={14} />
+                    </button>
+                    <input ref={fileRef} type="file" accept="application/json" style={{ display: 'none' }} onChange={(e) => { const file = e.target.files?.[0]; if (file) void handleImport(file); e.target.value = ''; }} />
+                </div>
+            </div>
+
+            <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px', minWidth: 0 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <h3 style={{ margin: 0, fontSize: '1rem', flex: 1 }}>Results{spec ? ` · ${spec.name}` : ''}</h3>
+                    {spec && rows.length > 0 && (
+                        <button className="btn" onClick={() => download(experimentToCsv(spec, rows), 'text/csv', `${spec.name}.csv`)} title="Export runs as CSV" style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <Download size={14} /> CSV
+                        </button>
+                    )}
+                    {progress && !running && (
+                        <button className="btn" onClick={clearResults} title="Discard results">
+                            <Trash2 size={14} />
+                        </button>
+                    )}
+                </div>
+
+                {!spec || !progress ? (
+                    <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.8rem' }}>No experiment yet. Define the factors and press Run.</div>
+                ) : (
+                    <>
+                        <div>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: 'var(--color-text-secondary)', marginBottom: '4px' }}>
+                                <span>{rows.length} / {progress.total} runs · {summaries.length} points{failures > 0 ? ` · ${failures} failed (Run retries them)` : ''}</span>
+                                <span>{running ? 'running…' : rows.length < progress.total ? 'stopped — Run resumes' : 'complete'}</span>
+                            </div>
+                            <div style={{ background: 'rgba(255,255,255,0.05)', borderRadius: '2px', height: '6px' }}>
+                                <div style={{ width: `${(rows.length / Math.max(1, progress.total)) * 100}%`, height: '100%', background: 'var(--color-primary)', borderRadius: '2px' }} />
+                            </div>
+                        </div>
+
+                        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                            <select value={metric} onChange={(e) => setMetric(e.target.value as ExperimentMetric)} style={{ ...inputStyle, width: 'auto' }}>
+                                {EXPERIMENT_METRICS.map(key => <option key={key} value={key}>{METRIC_LABELS[key]}</option>)}
+                            </select>
+                            <span style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>vs</span>
+                            <select value={axis} onChange={(e) => setAxis(e.target.value)} style={{ ...inputStyle, width: 'auto', fontFamily: 'monospace' }}>
+                                {spec.factors.map(factor => <option key={factor.key} value={factor.key}>{factor.key}</option>)}
+                            </select>
+                        </div>
+
+                        <div style={{ height: '240px' }}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ScatterChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#2d2d55" />
+                                    <XAxis type="number" dataKey="x" name={axis} domain={['auto', 'auto']} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 11 }} tickFormatter={(v: number) => formatValue(v)} />
+                                    <YAxis type="number" dataKey="y" name={METRIC_LABELS[metric]} domain={['auto', 'auto']} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 11 }} tickFormatter={(v: number) => formatValue(v)} />
+                                    <Tooltip
+                                        contentStyle={{ backgroundColor: '#13132b', borderColor: '#2d2d55', color: '#e0e0e0' }}
+                                        formatter={(v: number) => formatValue(v)}
+                                    />
+                                    <Scatter data={chartData} fill="var(--color-agency)" isAnimationActive={false} />
+                                </ScatterChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        <div style={{ overflowX: 'auto', maxHeight: '360px' }}>
+                            <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                <thead>
+                                    <tr style={{ color: 'var(--color-text-secondary)', textAlign: 'right' }}>
+                                        <th style={{ textAlign: 'left', padding: '4px' }}>#</th>
+                                        {spec.factors.map(factor => <th key={factor.key} style={{ padding: '4px' }}>{factor.key}</th>)}
+                                        <th style={{ padding: '4px' }}>runs</th>
+                                        {EXPERIMENT_METRICS.map(key => (
+                                            <th key={key} style={{ padding: '4px', color: key === metric ? 'var(--color-primary)' : undefined }}>{METRIC_LABELS[key]}</th>
+                                        ))}
+                                        <th style={{ padding: '4px' }}>alerted</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ranked.map(summary => (
+                                        <tr key={summary.pointIndex} style={{ borderTop: '1px solid var(--color-border)', textAlign: 'right' }}>
+                                            <td style={{ textAlign: 'left', padding: '4px' }}>{summary.pointIndex}</td>
+                                            {spec.factors.map(factor => <td key={factor.key} style={{ padding: '4px' }}>{formatValue(summary.values[factor.key])}</td>)}
+                                            <td style={{ padding: '4px' }}>{summary.runs}</td>
+                                            {EXPERIMENT_METRICS.map(key => <td key={key} style={{ padding: '4px' }}>{formatValue(summary.mean[key])}</td>)}
+                                            <td style={{ padding: '4px' }}>{Math.round(summary.alertFraction * 100)}%</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ExperimentsView;
@@ -1,6 +1,14 @@
 import React from 'react';
 import { useSimulationStore } from '../store/simulationStore';
 import { Activity } from 'lucide-react';
+import { InterventionLogEntry } from '../simulation/types';
+
+const SOURCE_COLORS: Record<InterventionLogEntry['source'], string> = {
+    AI: 'var(--color-agency)',
+    MPC: 'var(--color-complexity)',
+    USER: 'var(--color-primary)',
+    SCHEDULE: 'var(--color-diversity)'
+};
 
 const InterventionLogPanel: React.FC = () => {
     const { interventionLog, logPersistenceError } = useSimulationStore();
@@ -43,10 +51,10 @@ const InterventionLogPanel: React.FC = () => {
                             padding: '8px',
                             background: 'rgba(255,255,255,0.03)',
                             borderRadius: '4px',
-                            borderLeft: `2px solid ${entry.source === 'AI' ? 'var(--color-agency)' : 'var(--color-primary)'}`
+                            borderLeft: `2px solid ${SOURCE_COLORS[entry.source] ?? 'var(--color-primary)'}`
                         }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', marginBottom: '4px' }}>
-                                <span style={{ fontWeight: 600, color: entry.source === 'AI' ? 'var(--color-agency)' : 'var(--color-primary)' }}>
+                                <span style={{ fontWeight: 600, color: SOURCE_COLORS[entry.source] ?? 'var(--color-primary)' }}>
                                     {entry.source}
                                 </span>
                                 <span style={{ color: 'var(--color-text-secondary)' }}>
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useSimulationStore } from '../store/simulationStore';
+import { LatticeConfig, LatticeControlPattern, LatticeTopology } from '../simulation/types';
+import {
+    DEFAULT_LATTICE_CONFIG,
+    LATTICE_CONTROL_PATTERNS,
+    LATTICE_TOPOLOGIES,
+    MAX_LATTICE_SIDE
+} from '../simulation/lattice/latticeEngine';
+
+const selectStyle: React.CSSProperties = {
+    width: '100%',
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem'
+};
+
+const COUPLING_LABELS: Record<keyof LatticeConfig['coupling'], string> = {
+    C: 'Complexity coupling',
+    D: 'Diversity coupling',
+    A: 'Agency coupling'
+};
+
+const LatticeSettings: React.FC = () => {
+    const { parameters, updateParameters } = useSimulationStore();
+    const config = parameters.lattice ?? DEFAULT_LATTICE_CONFIG;
+    const couplingLimit = 0.25 / parameters.dt;
+
+    const update = (patch: Partial<LatticeConfig>) => {
+        updateParameters({ lattice: { ...config, ...patch } });
+    };
+
+    const side = (text: string) => Math.max(1, Math.min(MAX_LATTICE_SIDE, parseInt(text, 10) || 1));
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <button
+                onClick={() => update({ enabled: !config.enabled })}
+                style={{
+                    width: '100%',
+                    padding: '6px',
+                    background: config.enabled ? 'var(--color-surface-hover)' : 'transparent',
+                    border: '1px solid var(--color-border)',
+                    borderRadius: 'var(--radius-sm)',
+                    color: 'var(--color-text-primary)',
+                    cursor: 'pointer'
+                }}
+            >
+                {config.enabled ? 'Lattice enabled' : 'Well-mixed (single point)'}
+            </button>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                    Width
+                    <input type="number" value={config.width} min={1} max={MAX_LATTICE_SIDE} onChange={(e) => update({ width: side(e.target.value) })} style={selectStyle} />
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                    Height
+                    <input type="number" value={config.height} min={1} max={MAX_LATTICE_SIDE} onChange={(e) => update({ height: side(e.target.value) })} style={selectStyle} />
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                    Edges
+                    <select value={config.topology} onChange={(e) => update({ topology: e.target.value as LatticeTopology })} style={selectStyle}>
+                        {LATTICE_TOPOLOGIES.map(topology => (
+                            <option key={topology} value={topology}>{topology}</option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                    Local control
+                    <select value={config.controlPattern} onChange={(e) => update({ controlPattern: e.target.value as LatticeControlPattern })} style={selectStyle}>
+                        {LATTICE_CONTROL_PATTERNS.map(pattern => (
+                            <option key={pattern} value={pattern}>{pattern}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {(Object.keys(COUPLING_LABELS) as (keyof LatticeConfig['coupling'])[]).map(key => (
+                <div key={key}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                        <span style={{ color: 'var(--color-text-secondary)' }}>{COUPLING_LABELS[key]}</span>
+                        <span>{config.coupling[key].toFixed(3)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={couplingLimit}
+                        step={couplingLimit / 100}
+                        value={Math.min(couplingLimit, config.coupling[key])}
+                        onChange={(e) => update({ coupling: { ...config.coupling, [key]: parseFloat(e.target.value) } })}
+                    />
+                </div>
+            ))}
+            <div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                    <span style={{ color: 'var(--color-text-secondary)' }}>Control spread</span>
+                    <span>{config.controlSpread.toFixed(2)}</span>
+                </div>
+                <input type="range" min={0} max={1} step={0.01} value={config.controlSpread} onChange={(e) => update({ controlSpread: parseFloat(e.target.value) })} />
+            </div>
+            <div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                    <span style={{ color: 'var(--color-text-secondary)' }}>Initial jitter</span>
+                    <span>{config.initialJitter.toFixed(2)}</span>
+                </div>
+                <input type="range" min={0} max={0.5} step={0.01} value={config.initialJitter} onChange={(e) => update({ initialJitter: parseFloat(e.target.value) })} />
+            </div>
+        </div>
+    );
+};
+
+export default LatticeSettings;
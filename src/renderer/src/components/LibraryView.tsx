@@ -5,6 +5,7 @@ import 'katex/dist/katex.min.css';
 import { InlineMath } from 'react-katex';
 import { Eye } from 'lucide-react';
 import AgentPreviewModal from './AgentPreviewModal';
+import DiscoveredEquationsPanel from './DiscoveredEquationsPanel';
 
 interface LibraryViewProps {
     onClose: () => void;
@@ -488,6 +489,12 @@ ${match.summonPlan.invocation}`);
                                 </>
                             )}
 
+                            <DiscoveredEquationsPanel
+                                key={selectedAgent.id}
+                                telemetry={selectedAgent.behaviorTrace?.samples ?? []}
+                                source={`${getEntryName(selectedAgent)}'s recorded behavior trace`}
+                            />
+
                             {selectedAgent.behaviorTrace?.summary && (
                                 <>
                                     <h3 style={{ marginTop: '32px' }}>Behavior Trace</h3>
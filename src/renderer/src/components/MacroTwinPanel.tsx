@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Sigma } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { InferenceResult, InferredParameter, MIN_TRANSITIONS, inferParameters } from '../simulation/analysis/inference';
+
+const MacroTwinPanel: React.FC = () => {
+    const { telemetry, parameters, currentScenarioId, scenarioMetadata, updateParameters, switchScenario } = useSimulationStore();
+    const [result, setResult] = useState<InferenceResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const runFit = () => {
+        const fit = inferParameters(telemetry, { prior: parameters });
+        setResult(fit);
+        setError(fit ? null : `Need at least ${MIN_TRANSITIONS} interior transitions (have ${Math.max(0, telemetry.length - 1)} points).`);
+    };
+
+    const applyFit = () => {
+        if (!result) return;
+        updateParameters(result.parameters);
+        if (currentScenarioId !== 'sde-v1') {
+            switchScenario('sde-v1');
+        }
+    };
+
+    return (
+        <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>SDE Macro Twin</h3>
+            <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.8rem' }}>
+                Maximum-likelihood fit of the SDE coefficients to the {telemetry.length} telemetry points of {scenarioMetadata.name}.
+            </div>
+
+            <button
+                className="btn btn-primary"
+                onClick={runFit}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+            >
+                <Sigma size={14} /> Fit to Telemetry
+            </button>
+
+            {error && <div style={{ color: '#f43f5e', fontSize: '0.8rem' }}>{error}</div>}
+
+            {result && (
+                <>
+                    <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                        {result.transitions} transitions ({result.skipped} skipped) · log-likelihood {result.logLikelihood.toFixed(1)} · {(result.confidence * 100).toFixed(0)}% CI
+                    </div>
+                    <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr auto', gap: '2px 12px', fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                        {(Object.keys(result.estimates) as InferredParameter[]).map(key => {
+                            const estimate = result.estimates[key];
+                            return (
+                                <React.Fragment key={key}>
+                                    <span style={{ color: 'var(--color-text-secondary)' }}>{key}</span>
+                                    <span>{estimate.value.toFixed(4)}</span>
+                                    <span style={{ color: estimate.identifiable ? 'var(--color-text-secondary)' : '#facc15' }}>
+                                        {estimate.identifiable
+                                            ? `[${estimate.lower.toFixed(4)}, ${estimate.upper.toFixed(4)}]`
+                                            : 'not identifiable'}
+                                    </span>
+                                </React.Fragment>
+                            );
+                        })}
+                    </div>
+                    <button className="btn" onClick={applyFit}>
+                        {currentScenarioId === 'sde-v1' ? 'Apply Parameters' : 'Load Twin into SDE Scenario'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MacroTwinPanel;
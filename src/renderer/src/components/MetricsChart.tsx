@@ -11,10 +11,20 @@ import {
     ReferenceLine
 } from 'recharts';
 import { useSimulationStore } from '../store/simulationStore';
+import { isBaseline } from '../simulation/branching/branchTree';
+
+const BRANCH_COLORS = ['#38bdf8', '#f59e0b', '#a78bfa', '#34d399', '#f472b6', '#facc15'];
+const BASELINE_COLOR = '#a0a0b0';
 
 const MetricsChart: React.FC = () => {
     const telemetry = useSimulationStore(state => state.telemetry);
     const A_alert = useSimulationStore(state => state.parameters.A_alert);
+    const branches = useSimulationStore(state => state.branches);
+    const latestHit = useSimulationStore(state => state.breakpointHits[state.breakpointHits.length - 1]);
+
+    // Agency of each shown branch, dashed from its fork point
+    const overlays = branches.filter(branch => branch.visible && branch.status === 'done');
+    const forkPoints = [...new Set(overlays.map(branch => branch.forkGeneration))];
 
     return (
         <div className="card" style={{ height: '400px', padding: '16px', display: 'flex', flexDirection: 'column' }}>
@@ -47,6 +57,17 @@ const MetricsChart: React.FC = () => {
                         <Legend wrapperStyle={{ paddingTop: '10px' }} />
 
                         <ReferenceLine y={A_alert} stroke="#f43f5e" strokeDasharray="3 3" label={{ value: 'Agency Threshold', fill: '#f43f5e', position: 'insideTopRight' }} />
+                        {latestHit && (
+                            <ReferenceLine
+                                x={latestHit.generation}
+                                stroke="var(--color-alert)"
+                                strokeWidth={2}
+                                label={{ value: `⏸ ${latestHit.expression}`, fill: 'var(--color-alert)', position: 'insideTopLeft', fontSize: 11 }}
+                            />
+                        )}
+                        {forkPoints.map(generation => (
+                            <ReferenceLine key={`fork-${generation}`} x={generation} stroke="#6b6b8a" strokeDasharray="2 4" />
+                        ))}
 
                         <Line
                             type="monotone"
@@ -75,6 +96,20 @@ const MetricsChart: React.FC = () => {
                             dot={false}
                             isAnimationActive={false}
                         />
+                        {overlays.map((branch, i) => (
+                            <Line
+                                key={branch.id}
+                                data={branch.telemetry}
+                                type="monotone"
+                                dataKey="A"
+                                name={`A · ${branch.label}`}
+                                stroke={isBaseline(branch.intervention) ? BASELINE_COLOR : BRANCH_COLORS[i % BRANCH_COLORS.length]}
+                                strokeWidth={1.5}
+                                strokeDasharray="5 4"
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                        ))}
                     </LineChart>
                 </ResponsiveContainer>
             </div>
@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { JumpProcess, JumpSizeDistribution, NoiseCorrelation } from '../simulation/types';
+import { JUMP_DISTRIBUTIONS, NOISE_VARIABLES, NoiseVariable, isValidCorrelation } from '../simulation/model/noiseModel';
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '2px 4px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.75rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const NO_CORRELATION: NoiseCorrelation = { CD: 0, CA: 0, DA: 0 };
+
+const NO_JUMPS: JumpProcess = { rate: 0, distribution: 'normal', location: 0, scale: 0.05 };
+
+const CORRELATION_LABELS: Record<keyof NoiseCorrelation, string> = {
+    CD: 'ρ Complexity–Diversity',
+    CA: 'ρ Complexity–Agency',
+    DA: 'ρ Diversity–Agency'
+};
+
+const NoiseModelEditor: React.FC = () => {
+    const { parameters, updateParameters } = useSimulationStore();
+    const correlation = parameters.noise?.correlation ?? NO_CORRELATION;
+    const jumps = parameters.noise?.jumps ?? {};
+
+    const setCorrelation = (key: keyof NoiseCorrelation, value: number) => {
+        updateParameters({ noise: { ...parameters.noise, correlation: { ...correlation, [key]: value } } });
+    };
+
+    const setJump = (variable: NoiseVariable, patch: Partial<JumpProcess>) => {
+        const next = { ...(jumps[variable] ?? NO_JUMPS), ...patch };
+        updateParameters({ noise: { ...parameters.noise, jumps: { ...jumps, [variable]: next } } });
+    };
+
+    const parseNumber = (text: string, fallback: number) => {
+        const value = parseFloat(text);
+        return Number.isFinite(value) ? value : fallback;
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {(Object.keys(CORRELATION_LABELS) as (keyof NoiseCorrelation)[]).map(key => (
+                <div key={key} style={{ marginBottom: '4px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                        <span style={{ color: 'var(--color-text-secondary)' }}>{CORRELATION_LABELS[key]}</span>
+                        <span>{correlation[key].toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={-1}
+                        max={1}
+                        step={0.05}
+                        value={correlation[key]}
+                        onChange={(e) => setCorrelation(key, parseFloat(e.target.value))}
+                    />
+                </div>
+            ))}
+            {!isValidCorrelation(correlation) && (
+                <span style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.75rem', color: 'var(--color-danger)' }}>
+                    <AlertTriangle size={12} /> These correlations are inconsistent; the noise stays independent.
+                </span>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: '24px 1fr 1.3fr 1fr 1fr', gap: '4px', alignItems: 'center', fontSize: '0.75rem', marginTop: '6px' }}>
+                <span />
+                <span style={{ color: 'var(--color-text-secondary)' }}>jumps/gen</span>
+                <span style={{ color: 'var(--color-text-secondary)' }}>size</span>
+                <span style={{ color: 'var(--color-text-secondary)' }}>location</span>
+                <span style={{ color: 'var(--color-text-secondary)' }}>scale</span>
+                {NOISE_VARIABLES.map(variable => {
+                    const process = jumps[variable] ?? NO_JUMPS;
+                    return (
+                        <React.Fragment key={variable}>
+                            <span style={{ fontFamily: 'monospace' }}>{variable}</span>
+                            <input type="number" value={process.rate} min={0} max={10} step={0.05} onChange={(e) => setJump(variable, { rate: Math.max(0, parseNumber(e.target.value, 0)) })} style={inputStyle} />
+                            <select value={process.distribution} onChange={(e) => setJump(variable, { distribution: e.target.value as JumpSizeDistribution })} style={inputStyle}>
+                                {JUMP_DISTRIBUTIONS.map(distribution => (
+                                    <option key={distribution} value={distribution}>{distribution}</option>
+                                ))}
+                            </select>
+                            <input type="number" value={process.location} min={-1} max={1} step={0.01} onChange={(e) => setJump(variable, { location: parseNumber(e.target.value, 0) })} style={inputStyle} />
+                            <input type="number" value={process.scale} min={-1} max={1} step={0.01} onChange={(e) => setJump(variable, { scale: parseNumber(e.target.value, 0) })} style={inputStyle} />
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default NoiseModelEditor;
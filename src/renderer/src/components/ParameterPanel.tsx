@@ -1,54 +1,67 @@
 import React, { useState } from 'react';
 import { useSimulationStore } from '../store/simulationStore';
 import { ChevronDown, ChevronUp, Info, Settings } from 'lucide-react';
-import { SimulationParameters } from '../simulation/types';
+import { AdaptiveStepConfig, BoundaryPolicy, SdeIntegrator } from '../simulation/types';
+import { BOUNDARY_POLICIES, BoundedVariable, SDE_INTEGRATORS, resolveBoundaries, resolveEquationModel } from '../simulation/sdeEngine';
+import { resolveModelParameters } from '../simulation/model/equationDsl';
+import { DEFAULT_ADAPTIVE_CONFIG } from '../simulation/integration/adaptiveStepper';
+import EquationModelEditor from './EquationModelEditor';
+import NoiseModelEditor from './NoiseModelEditor';
+import LatticeSettings from './LatticeSettings';
+import { getScenarioPlugin } from '../simulation/scenarios/scenarioRegistry';
+import { ConfigField, ConfigSchema, fieldDecimals } from '../../../shared/schemas/configSchema';
 
-const ParameterPanel: React.FC = () => {
-    const { parameters, updateParameters, scenarioMetadata, scenarioConfigs, updateScenarioConfig } = useSimulationStore();
-    const [isOpen, setIsOpen] = useState(false);
+const selectStyle: React.CSSProperties = {
+    width: '100%',
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem'
+};
 
-    const toggleOpen = () => setIsOpen(!isOpen);
+const BOUNDARY_LABELS: Record<BoundedVariable, string> = {
+    C: 'Complexity',
+    D: 'Diversity',
+    A: 'Agency'
+};
 
-    const handleChange = (key: keyof SimulationParameters, value: number) => {
-        updateParameters({ [key]: value });
-    };
+const ADAPTIVE_FIELDS: Array<{ key: 'tolerance' | 'dtMin' | 'dtMax'; label: string; step: number }> = [
+    { key: 'tolerance', label: 'Tolerance', step: 0.0001 },
+    { key: 'dtMin', label: 'dt min', step: 0.0001 },
+    { key: 'dtMax', label: 'dt max', step: 0.01 }
+];
 
-    const ParamInput = ({ label, paramKey, min, max, step, tooltip }: { label: string, paramKey: keyof SimulationParameters, min: number, max: number, step: number, tooltip?: string }) => (
-        <div style={{ marginBottom: '8px' }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
-                <span style={{ color: 'var(--color-text-secondary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
-                    {label}
-                    {tooltip && <Info size={12} color="var(--color-text-secondary)" title={tooltip} />}
-                </span>
-                <span>{(parameters[paramKey] as number).toFixed(3)}</span>
-            </div>
-            <input
-                type="range"
-                min={min}
-                max={max}
-                step={step}
-                value={parameters[paramKey] as number}
-                onChange={(e) => handleChange(paramKey, parseFloat(e.target.value))}
-            />
-        </div>
-    );
+const headingStyle = (first: boolean): React.CSSProperties => ({
+    margin: first ? '0 0 8px 0' : '16px 0 8px 0',
+    fontSize: '0.9rem',
+    color: 'var(--color-text-primary)'
+});
 
-    const ScenarioInput = ({ label, value, min, max, step, tooltip, onChange }: { label: string; value: number | boolean; min?: number; max?: number; step?: number; tooltip?: string; onChange: (next: number | boolean) => void }) => (
+const ConfigFieldInput: React.FC<{ field: ConfigField; value: unknown; onChange: (next: number | boolean) => void }> = ({ field, value, onChange }) => {
+    const fixed = field.type === 'number' && field.min === field.max;
+    return (
         <div style={{ marginBottom: '8px' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
                 <span style={{ color: 'var(--color-text-secondary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
-                    {label}
-                    {tooltip && <Info size={12} color="var(--color-text-secondary)" title={tooltip} />}
+                    {field.label}
+                    {field.description && <Info size={12} color="var(--color-text-secondary)" title={field.description} />}
+                </span>
+                <span>
+                    {field.type === 'number'
+                        ? `${Number(value).toFixed(fieldDecimals(field))}${field.unit ? ` ${field.unit}` : ''}`
+                        : value ? 'On' : 'Off'}
                 </span>
-                <span>{typeof value === 'number' ? value.toFixed(2) : value ? 'On' : 'Off'}</span>
             </div>
-            {typeof value === 'number' ? (
+            {field.type === 'number' ? (
                 <input
                     type="range"
-                    min={min}
-                    max={max}
-                    step={step}
-                    value={value}
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={Number(value)}
+                    disabled={fixed}
                     onChange={(e) => onChange(parseFloat(e.target.value))}
                 />
             ) : (
@@ -69,6 +82,39 @@ const ParameterPanel: React.FC = () => {
             )}
         </div>
     );
+};
+
+/** Controls for every field of a config schema, under the headings of their groups */
+const ConfigFields: React.FC<{ schema: ConfigSchema; values: Record<string, any>; onChange: (patch: Record<string, number | boolean>) => void }> = ({ schema, values, onChange }) => {
+    const entries = Object.entries(schema);
+    return (
+        <>
+            {entries.map(([key, field], index) => (
+                <React.Fragment key={key}>
+                    {field.group && field.group !== entries[index - 1]?.[1].group && (
+                        <h4 style={headingStyle(index === 0)}>{field.group}</h4>
+                    )}
+                    <ConfigFieldInput field={field} value={values[key]} onChange={(next) => onChange({ [key]: next })} />
+                </React.Fragment>
+            ))}
+        </>
+    );
+};
+
+const ParameterPanel: React.FC = () => {
+    const { parameters, updateParameters, scenarioMetadata, scenarioConfigs, updateScenarioConfig } = useSimulationStore();
+    const plugin = getScenarioPlugin(scenarioMetadata.id);
+    const [isOpen, setIsOpen] = useState(false);
+
+    const toggleOpen = () => setIsOpen(!isOpen);
+    const model = resolveEquationModel(parameters);
+    const modelValues = model ? resolveModelParameters(model, parameters.modelParameters) : {};
+
+    const adaptive = parameters.adaptive ?? DEFAULT_ADAPTIVE_CONFIG;
+    const latticeMode = parameters.lattice?.enabled === true;
+    const updateAdaptive = (patch: Partial<AdaptiveStepConfig>) => {
+        updateParameters({ adaptive: { ...adaptive, ...patch } });
+    };
 
     return (
         <div className="card" style={{ padding: '0', overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
@@ -97,85 +143,138 @@ const ParameterPanel: React.FC = () => {
                 <div style={{ padding: '16px', background: 'var(--color-bg)', maxHeight: '400px', overflowY: 'auto' }}>
                     {scenarioMetadata.type === 'sde' && (
                         <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Coupling Rates</h4>
-                            <ParamInput label="Diversity -> Complexity (k_CD)" paramKey="k_CD" min={0} max={0.5} step={0.01} tooltip="How strongly diversity drives complexity growth." />
-                            <ParamInput label="Complexity -> Agency (k_AC)" paramKey="k_AC" min={0} max={0.5} step={0.01} tooltip="How strongly complexity boosts agency." />
-                            <ParamInput label="Agency -> Difficulty (k_AU)" paramKey="k_AU" min={0} max={1.0} step={0.01} tooltip="How strongly U amplifies agency gains." />
-
-                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Growth & Decay</h4>
-                            <ParamInput label="Complexity Decay (k_C_decay)" paramKey="k_C_decay" min={0.1} max={0.5} step={0.01} tooltip="Natural complexity decay rate." />
-                            <ParamInput label="Diversity Growth (k_D_growth)" paramKey="k_D_growth" min={0.1} max={0.5} step={0.01} tooltip="Intrinsic diversity growth rate." />
-                            <ParamInput label="Diversity Decay (k_D_decay)" paramKey="k_D_decay" min={0.1} max={0.5} step={0.01} tooltip="Diversity saturation decay." />
-                            <ParamInput label="Agency Decay (k_A_decay)" paramKey="k_A_decay" min={0.1} max={0.5} step={0.01} tooltip="Agency decay without sustained adaptation." />
-
-                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Control Physics</h4>
-                            <ParamInput label="Control -> Diversity Decay (k_DU)" paramKey="k_DU" min={0} max={1.0} step={0.01} tooltip="How strongly U suppresses diversity." />
-                            <ParamInput label="Control -> Stimulation (k_U)" paramKey="k_U" min={0} max={0.5} step={0.01} tooltip="How strongly U stimulates complexity." />
-
-                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Stochasticity (Noise)</h4>
-                            <ParamInput label="Sigma Complexity" paramKey="sigma_C" min={0} max={0.2} step={0.01} tooltip="Noise scale for complexity." />
-                            <ParamInput label="Sigma Diversity" paramKey="sigma_D" min={0} max={0.2} step={0.01} tooltip="Noise scale for diversity." />
-                            <ParamInput label="Sigma Agency" paramKey="sigma_A" min={0} max={0.2} step={0.01} tooltip="Noise scale for agency." />
-
-                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Alert System</h4>
-                            <ParamInput label="Threshold (A_alert)" paramKey="A_alert" min={0.1} max={0.9} step={0.05} tooltip="Alert threshold for agency." />
-                        </>
-                    )}
+                            {plugin && <ConfigFields schema={plugin.configSchema} values={parameters} onChange={updateParameters} />}
 
-                    {scenarioMetadata.type === 'math' && (
-                        <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Population & Tasks</h4>
-                            <ScenarioInput label="Population Size" value={scenarioConfigs.math.populationSize} min={10} max={200} step={1} tooltip="Number of solver agents." onChange={(value) => updateScenarioConfig({ populationSize: value as number })} />
-                            <ScenarioInput label="Tasks Per Gen" value={scenarioConfigs.math.tasksPerGen} min={5} max={100} step={1} tooltip="Number of tasks generated per generation." onChange={(value) => updateScenarioConfig({ tasksPerGen: value as number })} />
-                            <ScenarioInput label="Mutation Rate" value={scenarioConfigs.math.mutationRate} min={0.01} max={0.5} step={0.01} tooltip="Genome mutation rate for solver evolution." onChange={(value) => updateScenarioConfig({ mutationRate: value as number })} />
-
-                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Novelty & Verification</h4>
-                            <ScenarioInput label="Difficulty Scale" value={scenarioConfigs.math.difficultyScale} min={0.5} max={2.0} step={0.05} tooltip="Scales task difficulty relative to U." onChange={(value) => updateScenarioConfig({ difficultyScale: value as number })} />
-                            <ScenarioInput label="Novelty Threshold" value={scenarioConfigs.math.noveltyThreshold} min={0.1} max={0.9} step={0.05} tooltip="Minimum novelty for theorem acceptance." onChange={(value) => updateScenarioConfig({ noveltyThreshold: value as number })} />
-                            <ScenarioInput label="Verification Budget" value={scenarioConfigs.math.verificationBudget} min={10} max={500} step={10} tooltip="Max formal verification attempts per generation." onChange={(value) => updateScenarioConfig({ verificationBudget: value as number })} />
-                            <ScenarioInput label="Enable Theorems" value={scenarioConfigs.math.enableTheorems} tooltip="Enable theorem generation and proof attempts." onChange={(value) => updateScenarioConfig({ enableTheorems: value as boolean })} />
-                        </>
-                    )}
+                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                Correlations & Jumps
+                                <span title="Correlate the Wiener increments of C, D and A, and add compound-Poisson jumps (rate per generation, size = location + scale × draw)." style={{ display: 'flex' }}>
+                                    <Info size={12} color="var(--color-text-secondary)" />
+                                </span>
+                            </h4>
+                            <NoiseModelEditor />
 
-                    {scenarioMetadata.type === 'alignment' && (
-                        <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Population Dynamics</h4>
-                            <ScenarioInput label="Population Size" value={scenarioConfigs.alignment.populationSize} min={5} max={100} step={1} tooltip="Number of agents in the safety sandbox." onChange={(value) => updateScenarioConfig({ populationSize: value as number })} />
-                            <ScenarioInput label="Mutation Rate" value={scenarioConfigs.alignment.mutationRate} min={0.01} max={0.3} step={0.01} tooltip="Policy mutation rate." onChange={(value) => updateScenarioConfig({ mutationRate: value as number })} />
-                            <ScenarioInput label="Base Resource Rate" value={scenarioConfigs.alignment.baseResourceRate} min={0.1} max={5} step={0.1} tooltip="Baseline resource availability." onChange={(value) => updateScenarioConfig({ baseResourceRate: value as number })} />
-                        </>
-                    )}
+                            {model && model.parameters.length > 0 && (
+                                <>
+                                    <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Model Parameters</h4>
+                                    {model.parameters.map(parameter => (
+                                        <div key={parameter.name} style={{ marginBottom: '8px' }}>
+                                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                                                <span style={{ color: 'var(--color-text-secondary)', fontFamily: 'monospace' }}>{parameter.name}</span>
+                                                <span>{modelValues[parameter.name].toFixed(3)}</span>
+                                            </div>
+                                            <input
+                                                type="range"
+                                                min={parameter.min}
+                                                max={parameter.max}
+                                                step={(parameter.max - parameter.min) / 100}
+                                                value={modelValues[parameter.name]}
+                                                onChange={(e) => updateParameters({ modelParameters: { ...modelValues, [parameter.name]: parseFloat(e.target.value) } })}
+                                            />
+                                        </div>
+                                    ))}
+                                </>
+                            )}
 
-                    {scenarioMetadata.type === 'bio' && (
-                        <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Ecology Controls</h4>
-                            <ScenarioInput label="Initial Population" value={scenarioConfigs.bio.initialPopulation} min={10} max={200} step={1} tooltip="Starting population size." onChange={(value) => updateScenarioConfig({ initialPopulation: value as number })} />
-                            <ScenarioInput label="Max Population" value={scenarioConfigs.bio.maxPopulation} min={100} max={2000} step={10} tooltip="Carrying capacity for the environment." onChange={(value) => updateScenarioConfig({ maxPopulation: value as number })} />
-                            <ScenarioInput label="Mutation Rate" value={scenarioConfigs.bio.mutationRate} min={0.01} max={0.5} step={0.01} tooltip="Genetic mutation rate per reproduction." onChange={(value) => updateScenarioConfig({ mutationRate: value as number })} />
-                            <ScenarioInput label="Energy Per Tick" value={scenarioConfigs.bio.energyPerTick} min={100} max={5000} step={50} tooltip="Incoming energy per tick." onChange={(value) => updateScenarioConfig({ energyPerTick: value as number })} />
-                            <ScenarioInput label="Mineral Influx" value={scenarioConfigs.bio.mineralInflux} min={10} max={500} step={10} tooltip="Mineral influx rate." onChange={(value) => updateScenarioConfig({ mineralInflux: value as number })} />
-                        </>
-                    )}
+                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Integration</h4>
+                            <div style={{ marginBottom: '8px' }}>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', marginBottom: '2px' }}>
+                                    <span style={{ color: 'var(--color-text-secondary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                        Integrator
+                                        <span title="Numerical scheme for the CPU engine. Higher-order schemes stay accurate at larger dt." style={{ display: 'flex' }}>
+                                            <Info size={12} color="var(--color-text-secondary)" />
+                                        </span>
+                                    </span>
+                                    <span>order {SDE_INTEGRATORS[parameters.integrator ?? 'euler-maruyama'].strongOrder.toFixed(1)}</span>
+                                </div>
+                                <select
+                                    value={parameters.integrator ?? 'euler-maruyama'}
+                                    onChange={(e) => updateParameters({ integrator: e.target.value as SdeIntegrator })}
+                                    style={selectStyle}
+                                >
+                                    {(Object.keys(SDE_INTEGRATORS) as SdeIntegrator[]).map(id => (
+                                        <option key={id} value={id}>{SDE_INTEGRATORS[id].label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div style={{ marginBottom: '8px', fontSize: '0.8rem' }}>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: 'var(--color-text-secondary)', cursor: 'pointer' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={adaptive.enabled && !latticeMode}
+                                        disabled={latticeMode}
+                                        onChange={(e) => updateAdaptive({ enabled: e.target.checked })}
+                                    />
+                                    Adaptive substeps
+                                    <span title="Split each dt into substeps sized by a step-doubling error estimate, for stiff parameter regions. Off in lattice mode; GPU runs keep fixed steps too." style={{ display: 'flex' }}>
+                                        <Info size={12} color="var(--color-text-secondary)" />
+                                    </span>
+                                </label>
+                                {adaptive.enabled && !latticeMode && (
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '6px', marginTop: '6px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                                        {ADAPTIVE_FIELDS.map(field => (
+                                            <label key={field.key} style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                                                {field.label}
+                                                <input
+                                                    type="number"
+                                                    value={adaptive[field.key]}
+                                                    min={0}
+                                                    step={field.step}
+                                                    onChange={(e) => {
+                                                        const value = parseFloat(e.target.value);
+                                                        if (value > 0) updateAdaptive({ [field.key]: value });
+                                                    }}
+                                                    style={selectStyle}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
 
-                    {scenarioMetadata.type === 'agents' && (
-                        <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>ETD Controls</h4>
-                            <ScenarioInput label="Population Size" value={scenarioConfigs.agents.populationSize} min={5} max={100} step={1} tooltip="Number of agents in the ETD arena." onChange={(value) => updateScenarioConfig({ populationSize: value as number })} />
-                            <ScenarioInput label="Tasks Per Gen" value={scenarioConfigs.agents.tasksPerGen} min={5} max={50} step={1} tooltip="Tasks generated per generation." onChange={(value) => updateScenarioConfig({ tasksPerGen: value as number })} />
-                            <ScenarioInput label="Base Task Difficulty" value={scenarioConfigs.agents.baseTaskDifficulty} min={5} max={100} step={1} tooltip="Baseline difficulty for tasks." onChange={(value) => updateScenarioConfig({ baseTaskDifficulty: value as number })} />
-                            <ScenarioInput label="Drift Rate" value={scenarioConfigs.agents.driftRate} min={0.01} max={0.5} step={0.01} tooltip="How quickly task distributions drift." onChange={(value) => updateScenarioConfig({ driftRate: value as number })} />
-                        </>
-                    )}
-                    {scenarioMetadata.type === 'erdos' && (
-                        <>
-                            <h4 style={{ margin: '0 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Discovery Controls</h4>
-                            <ScenarioInput label="Population Size" value={scenarioConfigs.erdos.populationSize} min={8} max={120} step={1} tooltip="Number of research agencies exploring open problems." onChange={(value) => updateScenarioConfig({ populationSize: value as number })} />
-                            <ScenarioInput label="Problems / Generation" value={1} min={1} max={1} step={1} tooltip="Erdős mode enforces a single chronological open problem at a time." onChange={() => updateScenarioConfig({ problemsPerGeneration: 1 })} />
-                            <ScenarioInput label="Mutation Rate" value={scenarioConfigs.erdos.mutationRate} min={0.01} max={0.5} step={0.01} tooltip="How rapidly agencies shift strategy and specialization." onChange={(value) => updateScenarioConfig({ mutationRate: value as number })} />
-                            <ScenarioInput label="Collaboration Boost" value={scenarioConfigs.erdos.collaborationBoost} min={0} max={1} step={0.01} tooltip="How much U translates into coalition problem-solving advantage." onChange={(value) => updateScenarioConfig({ collaborationBoost: value as number })} />
+                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)' }}>Boundaries</h4>
+                            {(Object.keys(BOUNDARY_LABELS) as BoundedVariable[]).map(variable => (
+                                <div key={variable} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', marginBottom: '6px', fontSize: '0.8rem' }}>
+                                    <span style={{ color: 'var(--color-text-secondary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                        {BOUNDARY_LABELS[variable]}
+                                        <span title="What happens at 0 and 1: clamp, reflect back inside, absorb (extinction), or integrate in logit space." style={{ display: 'flex' }}>
+                                            <Info size={12} color="var(--color-text-secondary)" />
+                                        </span>
+                                    </span>
+                                    <select
+                                        value={resolveBoundaries(parameters)[variable]}
+                                        onChange={(e) => updateParameters({
+                                            boundaries: { ...resolveBoundaries(parameters), [variable]: e.target.value as BoundaryPolicy }
+                                        })}
+                                        style={{ ...selectStyle, width: '110px' }}
+                                    >
+                                        {BOUNDARY_POLICIES.map(policy => (
+                                            <option key={policy} value={policy}>{policy}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+
+                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                Spatial Lattice
+                                <span title="Give every cell of a grid its own C, D, A, coupled to its four neighbors by diffusion, with U spread over the grid by a pattern. Telemetry shows the grid means." style={{ display: 'flex' }}>
+                                    <Info size={12} color="var(--color-text-secondary)" />
+                                </span>
+                            </h4>
+                            <LatticeSettings />
+
+                            <h4 style={{ margin: '16px 0 8px 0', fontSize: '0.9rem', color: 'var(--color-text-primary)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                Equations
+                                <span title="Replace E1-E3 with your own model: param/var declarations and dX = (...) dt + (...) dW lines." style={{ display: 'flex' }}>
+                                    <Info size={12} color="var(--color-text-secondary)" />
+                                </span>
+                            </h4>
+                            <EquationModelEditor />
                         </>
                     )}
 
+                    {scenarioMetadata.type !== 'sde' && plugin && (
+                        <ConfigFields schema={plugin.configSchema} values={scenarioConfigs[scenarioMetadata.id] ?? plugin.defaultConfig} onChange={updateScenarioConfig} />
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Download, Play } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { DEFAULT_INITIAL_STATE } from '../simulation/types';
+import {
+    RareEventExecutor,
+    RareEventResult,
+    createRareEventWorkerExecutor,
+    runRareEventInline,
+    wrapRareEventWorker
+} from '../simulation/analysis/rareEvents';
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    fontSize: '0.75rem',
+    color: 'var(--color-text-secondary)'
+};
+
+const formatProbability = (p: number) => (p === 0 || p >= 1e-3 ? p.toFixed(4) : p.toExponential(2));
+
+const executeRareEvent: RareEventExecutor = typeof Worker !== 'undefined'
+    ? createRareEventWorkerExecutor(() => wrapRareEventWorker(new Worker(new URL('../simulation/analysis/rareEventWorker.ts', import.meta.url), { type: 'module' })))
+    : runRareEventInline;
+
+const RareEventPanel: React.FC = () => {
+    const { parameters, control, currentState } = useSimulationStore();
+    const [threshold, setThreshold] = useState<number | null>(null);
+    const [horizon, setHorizon] = useState(20);
+    const [replicas, setReplicas] = useState(100);
+    const [repetitions, setRepetitions] = useState(5);
+    const [fromCurrent, setFromCurrent] = useState(true);
+    const [result, setResult] = useState<RareEventResult | null>(null);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const level = threshold ?? parameters.A_alert;
+
+    const runEstimate = async () => {
+        const abort = new AbortController();
+        abortRef.current = abort;
+        setRunning(true);
+        setError(null);
+        try {
+            const next = await executeRareEvent({
+                params: parameters,
+                options: {
+                    horizon,
+                    U: control.U,
+                    threshold: level,
+                    replicas,
+                    repetitions,
+                    initialState: fromCurrent ? currentState : DEFAULT_INITIAL_STATE
+                }
+            }, abort.signal);
+            setResult(next);
+        } catch (err) {
+            if (!abort.signal.aborted) setError((err as Error).message);
+        } finally {
+            if (!abort.signal.aborted) setRunning(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (!result) return;
+        const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `first_passage_A${result.threshold.toFixed(2)}_T${result.horizon}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const curve = result?.firstPassage.times.map((t, k) => ({
+        t,
+        cdf: result.firstPassage.cdf[k],
+        low: Math.max(0, result.firstPassage.cdf[k] - 1.96 * result.firstPassage.stdError[k]),
+        high: Math.min(1, result.firstPassage.cdf[k] + 1.96 * result.firstPassage.stdError[k])
+    })) ?? [];
+
+    return (
+        <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>Rare Events: Time to Alert</h3>
+            <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.8rem' }}>
+                Adaptive multilevel splitting estimate of P(A ≥ threshold within T) and the first-passage-time distribution at U = {control.U.toFixed(2)}, down to probabilities far below what plain runs can see.
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '6px', alignItems: 'end' }}>
+                <label style={labelStyle}>
+                    Threshold A
+                    <input type="number" value={level} min={0.01} max={1} step={0.01} onChange={(e) => setThreshold(Math.max(0.01, Math.min(1, parseFloat(e.target.value) || 0.01)))} style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                    Horizon T
+                    <input type="number" value={horizon} min={1} max={500} step={1} onChange={(e) => setHorizon(Math.max(1, Math.min(500, parseFloat(e.target.value) || 1)))} style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                    Replicas
+                    <input type="number" value={replicas} min={10} max={1000} step={10} onChange={(e) => setReplicas(Math.max(10, Math.min(1000, parseInt(e.target.value, 10) || 10)))} style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                    Repetitions
+                    <input type="number" value={repetitions} min={2} max={50} step={1} onChange={(e) => setRepetitions(Math.max(2, Math.min(50, parseInt(e.target.value, 10) || 2)))} style={inputStyle} />
+                </label>
+            </div>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                <input type="checkbox" checked={fromCurrent} onChange={(e) => setFromCurrent(e.target.checked)} />
+                Start from the current state (otherwise the default initial state)
+            </label>
+
+            <button
+                className="btn btn-primary"
+                onClick={runEstimate}
+                disabled={running}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+            >
+                <Play size={14} /> {running ? 'Running…' : `Estimate (${replicas} × ${repetitions} replicas)`}
+            </button>
+
+            {error && <div style={{ color: 'var(--color-alert)', fontSize: '0.75rem' }}>{error}</div>}
+
+            {result && (
+                <>
+                    <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                        <div style={{ flex: 1, fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                            P = {formatProbability(result.probability)} ± {formatProbability(result.stdError)}
+                            <span style={{ color: 'var(--color-text-secondary)' }}>
+                                {' '}· 95% CI [{formatProbability(result.confidenceInterval[0])}, {formatProbability(result.confidenceInterval[1])}]
+                            </span>
+                        </div>
+                        <button className="btn" onClick={handleExport} title="Export results as JSON" style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <Download size={14} /> JSON
+                        </button>
+                    </div>
+                    <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                        {result.meanPassageTime !== null
+                            ? `Mean passage time given a passage: ${result.meanPassageTime.toFixed(2)} generations`
+                            : 'No replica reached the threshold'}
+                        {' '}· relative error {Number.isFinite(result.relativeError) ? `${(result.relativeError * 100).toFixed(0)}%` : 'n/a'}
+                        {' '}· {result.meanIterations.toFixed(0)} levels · {result.evaluations} steps
+                    </div>
+
+                    {result.probability > 0 && (
+                        <div style={{ height: '180px' }}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={curve} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#2d2d55" />
+                                    <XAxis dataKey="t" type="number" domain={[0, result.horizon]} stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 11 }} tickFormatter={(v: number) => v.toFixed(0)} />
+                                    <YAxis stroke="#a0a0b0" tick={{ fill: '#a0a0b0', fontSize: 11 }} tickFormatter={(v: number) => formatProbability(v)} width={60} />
+                                    <Tooltip
+                                        contentStyle={{ backgroundColor: '#13132b', borderColor: '#2d2d55', color: '#e0e0e0' }}
+                                        formatter={(v: number) => formatProbability(v)}
+                                        labelFormatter={(t: number) => `t = ${t.toFixed(2)}`}
+                                    />
+                                    <Line type="stepAfter" dataKey="cdf" name="P(τ ≤ t)" stroke="var(--color-agency)" dot={false} isAnimationActive={false} />
+                                    <Line type="stepAfter" dataKey="low" name="95% low" stroke="var(--color-agency)" strokeOpacity={0.35} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                                    <Line type="stepAfter" dataKey="high" name="95% high" stroke="var(--color-agency)" strokeOpacity={0.35} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default RareEventPanel;
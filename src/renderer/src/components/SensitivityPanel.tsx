@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Play } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import {
+    SENSITIVITY_OUTPUTS,
+    SENSITIVITY_PARAMETERS,
+    SensitivityMethod,
+    SensitivityOutput,
+    SensitivityParameter,
+    SensitivityExecutor,
+    SensitivityResult,
+    createSensitivityWorkerExecutor,
+    defaultRanges,
+    runSensitivityInline,
+    wrapSensitivityWorker
+} from '../simulation/analysis/sensitivity';
+
+const OUTPUT_LABELS: Record<SensitivityOutput, string> = {
+    peakA: 'Peak A',
+    timeToAlert: 'Time to alert',
+    finalD: 'Final D'
+};
+
+const inputStyle: React.CSSProperties = {
+    background: 'var(--color-bg)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border)',
+    padding: '4px 8px',
+    borderRadius: 'var(--radius-sm)',
+    fontSize: '0.8rem',
+    width: '100%',
+    boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    fontSize: '0.75rem',
+    color: 'var(--color-text-secondary)'
+};
+
+const executeSensitivity: SensitivityExecutor = typeof Worker !== 'undefined'
+    ? createSensitivityWorkerExecutor(() => wrapSensitivityWorker(new Worker(new URL('../simulation/analysis/sensitivityWorker.ts', import.meta.url), { type: 'module' })))
+    : runSensitivityInline;
+
+const SensitivityPanel: React.FC = () => {
+    const { parameters, control } = useSimulationStore();
+    const [method, setMethod] = useState<SensitivityMethod>('sobol');
+    const [samples, setSamples] = useState(32);
+    const [steps, setSteps] = useState(300);
+    const [selected, setSelected] = useState<SensitivityParameter[]>(SENSITIVITY_PARAMETERS.filter(key => key.startsWith('k_')));
+    const [output, setOutput] = useState<SensitivityOutput>('peakA');
+    const [result, setResult] = useState<SensitivityResult | null>(null);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const runs = method === 'sobol' ? samples * (selected.length + 2) : samples * (selected.length + 1);
+
+    const toggleParameter = (key: SensitivityParameter) => {
+        setSelected(current => current.includes(key)
+            ? current.filter(k => k !== key)
+            : SENSITIVITY_PARAMETERS.filter(k => k === key || current.includes(k)));
+    };
+
+    const runAnalysis = async () => {
+        if (selected.length === 0) return;
+        const abort = new AbortController();
+        abortRef.current = abort;
+        setRunning(true);
+        setError(null);
+        try {
+            const next = await executeSensitivity({
+                base: parameters,
+                ranges: defaultRanges(parameters, selected),
+                options: { method, samples, steps, U: control.U }
+            }, abort.signal);
+            setResult(next);
+        } catch (err) {
+            if (!abort.signal.aborted) setError((err as Error).message);
+        } finally {
+            if (!abort.signal.aborted) setRunning(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (!result) return;
+        const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `sensitivity_${result.method}_${result.evaluations}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const view = result?.outputs.find(entry => entry.output === output);
+    const score = (index: NonNullable<typeof view>['indices'][number]) => (result?.method === 'morris' ? index.muStar ?? 0 : index.total ?? 0);
+    const maxScore = view ? Math.max(1e-12, ...view.indices.map(score)) : 1;
+
+    return (
+        <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ margin: 0, fontSize: '1rem' }}>Global Sensitivity</h3>
+            <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.8rem' }}>
+                Varies each selected coefficient ±50% around its current value at U = {control.U.toFixed(2)} and ranks its influence on the run outputs.
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '6px', alignItems: 'end' }}>
+                <label style={labelStyle}>
+                    Design
+                    <select value={method} onChange={(e) => setMethod(e.target.value as SensitivityMethod)} style={inputStyle}>
+                        <option value="sobol">Sobol (Saltelli)</option>
+                        <option value="morris">Morris screening</option>
+                    </select>
+                </label>
+                <label style={labelStyle}>
+                    {method === 'sobol' ? 'Base samples' : 'Trajectories'}
+                    <input type="number" value={samples} min={2} max={1024} step={1} onChange={(e) => setSamples(Math.max(2, Math.min(1024, parseInt(e.target.value, 10) || 2)))} style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                    Steps per run
+                    <input type="number" value={steps} min={10} max={5000} step={10} onChange={(e) => setSteps(Math.max(10, Math.min(5000, parseInt(e.target.value, 10) || 10)))} style={inputStyle} />
+                </label>
+            </div>
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px', fontSize: '0.75rem' }}>
+                {SENSITIVITY_PARAMETERS.map(key => (
+                    <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px', fontFamily: 'monospace' }}>
+                        <input type="checkbox" checked={selected.includes(key)} onChange={() => toggleParameter(key)} />
+                        {key}
+                    </label>
+                ))}
+            </div>
+
+            <button
+                className="btn btn-primary"
+                onClick={runAnalysis}
+                disabled={running || selected.length === 0}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}
+            >
+                <Play size={14} /> {running ? 'Running…' : `Run Analysis (${runs} runs)`}
+            </button>
+
+            {error && <div style={{ color: 'var(--color-alert)', fontSize: '0.75rem' }}>{error}</div>}
+
+            {result && view && (
+                <>
+                    <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                        <select value={output} onChange={(e) => setOutput(e.target.value as SensitivityOutput)} style={{ ...inputStyle, width: 'auto' }}>
+                            {SENSITIVITY_OUTPUTS.map(key => (
+                                <option key={key} value={key}>{OUTPUT_LABELS[key]}</option>
+                            ))}
+                        </select>
+                        <span style={{ flex: 1, color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                            mean {view.mean.toFixed(3)} · var {view.variance.toExponential(2)} · {result.evaluations} runs
+                        </span>
+                        <button className="btn" onClick={handleExport} title="Export results as JSON" style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                            <Download size={14} /> JSON
+                        </button>
+                    </div>
+
+                    <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr auto', gap: '4px 10px', alignItems: 'center', fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                        <span style={{ color: 'var(--color-text-secondary)' }}>param</span>
+                        <span />
+                        <span style={{ color: 'var(--color-text-secondary)' }}>{result.method === 'morris' ? 'μ* / σ' : 'S1 / ST'}</span>
+                        {view.indices.map(index => (
+                            <React.Fragment key={index.parameter}>
+                                <span>{index.parameter}</span>
+                                <div style={{ background: 'rgba(255,255,255,0.05)', borderRadius: '2px', height: '8px' }}>
+                                    <div style={{ width: `${Math.max(0, Math.min(1, score(index) / maxScore)) * 100}%`, height: '100%', background: 'var(--color-agency)', borderRadius: '2px' }} />
+                                </div>
+                                <span>
+                                    {result.method === 'morris'
+                                        ? `${(index.muStar ?? 0).toFixed(3)} / ${(index.sigma ?? 0).toFixed(3)}`
+                                        : `${(index.firstOrder ?? 0).toFixed(3)} / ${(index.total ?? 0).toFixed(3)}`}
+                                </span>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default SensitivityPanel;
@@ -1,9 +1,16 @@
-import React from 'react';
-import { Play, Pause, RotateCcw, Zap, Cpu } from 'lucide-react';
+import React, { useState } from 'react';
+import { Play, Pause, RotateCcw, Zap, Cpu, FastForward, Square, AlertTriangle } from 'lucide-react';
 import { useSimulationStore } from '../store/simulationStore';
 
+/** Fast-forward distances offered, in generations */
+const FAST_FORWARD_STEPS = [100, 1000, 10000, 50000];
+
 const SimulationControls: React.FC = () => {
-    const { isPlaying, togglePlay, reset, currentState, parameters, updateParameters, scenarioMetadata } = useSimulationStore();
+    const {
+        isPlaying, togglePlay, reset, currentState, parameters, updateParameters, scenarioMetadata,
+        isFastForwarding, fastForward, cancelFastForward, runnerError
+    } = useSimulationStore();
+    const [fastForwardBy, setFastForwardBy] = useState(FAST_FORWARD_STEPS[1]);
 
     return (
         <div className="card" style={{ padding: '16px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '20px' }}>
@@ -11,6 +18,7 @@ const SimulationControls: React.FC = () => {
                 <button
                     className={`btn ${isPlaying ? '' : 'btn-primary'}`}
                     onClick={togglePlay}
+                    disabled={isFastForwarding || runnerError !== null}
                     style={{ width: '100px', justifyContent: 'center' }}
                 >
                     {isPlaying ? (
@@ -28,6 +36,34 @@ const SimulationControls: React.FC = () => {
                     <RotateCcw size={18} /> Reset
                 </button>
 
+                <div style={{ display: 'flex', gap: '4px' }}>
+                    <button
+                        className="btn"
+                        onClick={() => (isFastForwarding ? cancelFastForward() : void fastForward(fastForwardBy))}
+                        disabled={runnerError !== null}
+                        title={isFastForwarding ? 'Stop fast-forwarding' : `Run ${fastForwardBy.toLocaleString()} generations as fast as possible`}
+                    >
+                        {isFastForwarding ? <Square size={18} /> : <FastForward size={18} />}
+                        {isFastForwarding ? 'Stop' : 'Skip'}
+                    </button>
+                    <select
+                        value={fastForwardBy}
+                        onChange={(e) => setFastForwardBy(Number(e.target.value))}
+                        disabled={isFastForwarding}
+                        style={{
+                            background: 'var(--color-bg)',
+                            color: 'var(--color-text-primary)',
+                            border: '1px solid var(--color-border)',
+                            borderRadius: 'var(--radius-sm)',
+                            fontSize: '0.8rem'
+                        }}
+                    >
+                        {FAST_FORWARD_STEPS.map(step => (
+                            <option key={step} value={step}>+{step.toLocaleString()}</option>
+                        ))}
+                    </select>
+                </div>
+
                 <div style={{ width: '1px', height: '24px', background: 'var(--color-border)', margin: '0 8px' }}></div>
 
                 <button
@@ -48,6 +84,12 @@ const SimulationControls: React.FC = () => {
                 </button>
             </div>
 
+            {runnerError && (
+                <span style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.8rem', color: 'var(--color-alert)' }}>
+                    <AlertTriangle size={16} /> Simulation worker stopped: {runnerError}. Reload to continue.
+                </span>
+            )}
+
             <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
                 <span style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>Current Generation</span>
                 <span style={{ fontSize: '1.2rem', fontFamily: 'monospace', fontWeight: 600 }}>
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { Rewind } from 'lucide-react';
+import { useSimulationStore } from '../store/simulationStore';
+import { CheckpointSummary } from '../simulation/runner/checkpoints';
+
+/** Generation at a tick, interpolated between the surrounding checkpoints (or the current position) */
+function estimateGeneration(points: CheckpointSummary[], tick: number): number {
+    const after = points.findIndex(point => point.tick >= tick);
+    if (after <= 0) return points[Math.max(after, 0)]?.generation ?? 0;
+    const a = points[after - 1];
+    const b = points[after];
+    return a.generation + (b.generation - a.generation) * (tick - a.tick) / (b.tick - a.tick);
+}
+
+const TimelineScrubber: React.FC = () => {
+    const getTimeline = useSimulationStore(state => state.getTimeline);
+    const rewindTo = useSimulationStore(state => state.rewindTo);
+    const generation = useSimulationStore(state => state.currentState.generation);
+    const isFastForwarding = useSimulationStore(state => state.isFastForwarding);
+    const breakpointHits = useSimulationStore(state => state.breakpointHits);
+    const [target, setTarget] = useState<number | null>(null);
+
+    const timeline = useMemo(() => getTimeline(), [generation, getTimeline]);
+    const { tick, checkpoints } = timeline;
+    if (checkpoints.length === 0) return null;
+
+    const first = checkpoints[0].tick;
+    const span = Math.max(1, tick - first);
+    const position = target ?? tick;
+    const points = [...checkpoints, ...(tick > checkpoints[checkpoints.length - 1].tick ? [{ tick, generation }] : [])];
+
+    const commit = () => {
+        if (target === null) return;
+        setTarget(null);
+        if (target !== tick) void rewindTo(target);
+    };
+
+    return (
+        <div className="card" style={{ padding: '12px 16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={{ margin: 0, fontSize: '1rem', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <Rewind size={16} /> Timeline
+                </h3>
+                <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem' }}>
+                    {target !== null && target !== tick
+                        ? `rewind to tick ${target.toLocaleString()} · gen ≈ ${estimateGeneration(points, target).toFixed(1)}`
+                        : `tick ${tick.toLocaleString()} · ${checkpoints.length} checkpoints`}
+                </span>
+            </div>
+            <input
+                type="range"
+                min={first}
+                max={Math.max(tick, first)}
+                step={1}
+                value={position}
+                disabled={isFastForwarding}
+                onChange={(e) => setTarget(Number(e.target.value))}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                onBlur={() => setTarget(null)}
+                style={{ width: '100%' }}
+                title="Drag to a past tick and release to rewind; playing continues from there"
+            />
+            <div style={{ position: 'relative', height: '6px' }}>
+                {checkpoints.map(checkpoint => (
+                    <div
+                        key={checkpoint.tick}
+                        title={`Checkpoint at tick ${checkpoint.tick} (generation ${checkpoint.generation.toFixed(1)})`}
+                        style={{
+                            position: 'absolute',
+                            left: `${((checkpoint.tick - first) / span) * 100}%`,
+                            width: '2px',
+                            height: '6px',
+                            background: 'var(--color-primary-dim)'
+                        }}
+                    />
+                ))}
+                {breakpointHits.filter(hit => hit.tick >= first && hit.tick <= tick).map(hit => (
+                    <div
+                        key={`${hit.breakpointId}-${hit.tick}`}
+                        title={`Breakpoint '${hit.expression}' at tick ${hit.tick} (generation ${hit.generation.toFixed(1)})`}
+                        style={{
+                            position: 'absolute',
+                            left: `${((hit.tick - first) / span) * 100}%`,
+                            width: '3px',
+                            height: '6px',
+                            background: 'var(--color-alert)'
+                        }}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default TimelineScrubber;
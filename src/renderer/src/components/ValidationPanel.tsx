@@ -1,10 +1,15 @@
 import React from 'react';
 import { useSimulationStore } from '../store/simulationStore';
 import { Check, X } from 'lucide-react';
+import { resolveAdaptiveConfig } from '../simulation/integration/adaptiveStepper';
 
 const ValidationPanel: React.FC = () => {
-    const { validationMetrics, currentState } = useSimulationStore();
+    const { validationMetrics, currentState, parameters, getStepStats } = useSimulationStore();
     const { stateBoundsViolationRate, diversityFloorViolationFraction } = validationMetrics;
+    const stepStats = resolveAdaptiveConfig(parameters) ? getStepStats() : null;
+    const rejectionRate = stepStats && stepStats.accepted + stepStats.rejected > 0
+        ? stepStats.rejected / (stepStats.accepted + stepStats.rejected)
+        : 0;
 
     // Helpers for status
     const getStatusColor = (value: number, threshold: number) => value <= threshold ? '#4ade80' : '#f43f5e';
@@ -64,6 +69,30 @@ const ValidationPanel: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Adaptive Step Control */}
+                {stepStats && (
+                    <div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+                            <span>Adaptive Steps</span>
+                            <span style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '4px',
+                                color: getStatusColor(stepStats.forced, 0)
+                            }}>
+                                {getStatusIcon(stepStats.forced, 0)}
+                                {stepStats.forced} forced at dt min
+                            </span>
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '2px 12px', fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>
+                            <span>Accepted: {stepStats.accepted}</span>
+                            <span>Rejected: {stepStats.rejected} ({(rejectionRate * 100).toFixed(1)}%)</span>
+                            <span>dt range: {stepStats.minDt.toExponential(1)} – {stepStats.maxDt.toExponential(1)}</span>
+                            <span>Next dt: {stepStats.dt.toExponential(1)}</span>
+                        </div>
+                    </div>
+                )}
+
                 <div style={{ borderTop: '1px solid var(--color-border)', paddingTop: '8px', marginTop: '4px' }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', color: 'var(--color-text-secondary)' }}>
                         <span>Scientific Alignment</span>
@@ -0,0 +1,39 @@
+import React from 'react';
+import ErdosProblemsPanel from './ErdosProblemsPanel';
+import BifurcationPanel from './BifurcationPanel';
+import SensitivityPanel from './SensitivityPanel';
+import RareEventPanel from './RareEventPanel';
+import { LatticeHeatmap } from './visualizations/LatticeHeatmap';
+import { ScenarioPanelPlacement, ScenarioPanelSlot } from '../simulation/scenarios/scenarioPlugin';
+import { getScenarioPlugin } from '../simulation/scenarios/scenarioRegistry';
+
+/**
+ * Panel catalog: the components scenario plugins can place on the dashboard,
+ * by the name their panel slots use. A local plugin adds its own components
+ * by exporting `panels` from src/renderer/src/plugins/<name>/panels.tsx.
+ */
+const BUILT_IN_PANELS: Record<string, React.ComponentType> = {
+    'lattice-heatmap': LatticeHeatmap,
+    'bifurcation': BifurcationPanel,
+    'sensitivity': SensitivityPanel,
+    'rare-events': RareEventPanel,
+    'erdos-problems': ErdosProblemsPanel
+};
+
+const pluginPanelModules = import.meta.glob('../plugins/*/panels.tsx', { eager: true }) as Record<string, { panels?: Record<string, React.ComponentType> }>;
+
+const PANEL_CATALOG: Record<string, React.ComponentType> = Object.values(pluginPanelModules).reduce<Record<string, React.ComponentType>>(
+    (catalog, module) => ({ ...catalog, ...(module.panels ?? {}) }),
+    { ...BUILT_IN_PANELS }
+);
+
+/** The scenario's panel slots for one placement; slots naming an unknown panel are left out */
+export const getScenarioPanels = (scenarioId: string, placement: ScenarioPanelPlacement): ScenarioPanelSlot[] => {
+    const slots = getScenarioPlugin(scenarioId)?.panels ?? [];
+    return slots.filter(slot => slot.placement === placement && PANEL_CATALOG[slot.panel]);
+};
+
+export const ScenarioPanel: React.FC<{ slot: ScenarioPanelSlot }> = ({ slot }) => {
+    const Panel = PANEL_CATALOG[slot.panel];
+    return Panel ? <Panel /> : null;
+};
@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSimulationStore } from '../../store/simulationStore';
+import { LatticeVariable, hotspotFraction, latticeField } from '../../simulation/lattice/latticeEngine';
+
+const VARIABLES: Array<{ key: LatticeVariable; label: string }> = [
+    { key: 'A', label: 'Agency' },
+    { key: 'C', label: 'Complexity' },
+    { key: 'D', label: 'Diversity' }
+];
+
+/** Dark-to-hot color ramp stops (value, r, g, b) */
+const RAMP: Array<[number, number, number, number]> = [
+    [0, 19, 19, 43],
+    [0.35, 88, 40, 140],
+    [0.7, 230, 90, 70],
+    [1, 255, 230, 120]
+];
+
+function rampColor(value: number): [number, number, number] {
+    const v = Math.max(0, Math.min(1, value));
+    for (let i = 1; i < RAMP.length; i++) {
+        const [v1, r1, g1, b1] = RAMP[i];
+        if (v <= v1) {
+            const [v0, r0, g0, b0] = RAMP[i - 1];
+            const t = (v - v0) / (v1 - v0);
+            return [r0 + t * (r1 - r0), g0 + t * (g1 - g0), b0 + t * (b1 - b0)];
+        }
+    }
+    return [RAMP[RAMP.length - 1][1], RAMP[RAMP.length - 1][2], RAMP[RAMP.length - 1][3]];
+}
+
+export const LatticeHeatmap: React.FC = () => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [variable, setVariable] = useState<LatticeVariable>('A');
+    const getLatticeSnapshot = useSimulationStore(state => state.getLatticeSnapshot);
+    const generation = useSimulationStore(state => state.currentState.generation);
+    const threshold = useSimulationStore(state => state.parameters.A_alert);
+
+    const lattice = useMemo(() => getLatticeSnapshot(), [generation, getLatticeSnapshot]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context || !lattice) return;
+        canvas.width = lattice.width;
+        canvas.height = lattice.height;
+        const image = context.createImageData(lattice.width, lattice.height);
+        latticeField(lattice, variable).forEach((value, i) => {
+            const [r, g, b] = rampColor(value);
+            image.data[i * 4] = r;
+            image.data[i * 4 + 1] = g;
+            image.data[i * 4 + 2] = b;
+            image.data[i * 4 + 3] = 255;
+        });
+        context.putImageData(image, 0, 0);
+    }, [lattice, variable]);
+
+    if (!lattice) return null;
+
+    return (
+        <div className="card" style={{ padding: '16px', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={{ margin: 0, fontSize: '1rem' }}>Lattice {lattice.width}×{lattice.height}</h3>
+                <div style={{ display: 'flex', gap: '4px' }}>
+                    {VARIABLES.map(entry => (
+                        <button
+                            key={entry.key}
+                            className="btn"
+                            onClick={() => setVariable(entry.key)}
+                            style={{
+                                padding: '2px 8px',
+                                fontSize: '0.75rem',
+                                borderColor: variable === entry.key ? 'var(--color-accent)' : 'transparent',
+                                color: variable === entry.key ? 'var(--color-accent)' : 'inherit'
+                            }}
+                        >
+                            {entry.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <canvas
+                ref={canvasRef}
+                style={{ width: '100%', maxWidth: '360px', aspectRatio: `${lattice.width} / ${lattice.height}`, imageRendering: 'pixelated', alignSelf: 'center', borderRadius: 'var(--radius-sm)' }}
+            />
+            <div style={{ color: 'var(--color-text-secondary)', fontSize: '0.75rem', display: 'flex', justifyContent: 'space-between' }}>
+                <span>0 → 1 (dark → hot)</span>
+                <span>{(hotspotFraction(lattice, threshold) * 100).toFixed(1)}% of cells at A ≥ {threshold.toFixed(2)}</span>
+            </div>
+        </div>
+    );
+};
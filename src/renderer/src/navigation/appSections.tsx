@@ -2,9 +2,10 @@ import React from 'react'
 import Dashboard from '../components/Dashboard'
 import LibraryView from '../components/LibraryView'
 import ErdosProblemsPanel from '../components/ErdosProblemsPanel'
+import ExperimentsView from '../components/ExperimentsView'
 import { ConstraintLattice } from '../components/visualizations/ConstraintLattice'
 
-export type AppSectionId = 'dashboard' | 'library' | 'lattice' | 'erdos'
+export type AppSectionId = 'dashboard' | 'library' | 'lattice' | 'erdos' | 'experiments'
 
 export interface AppSectionConfig {
   id: AppSectionId
@@ -46,6 +47,13 @@ export const APP_SECTIONS: AppSectionConfig[] = [
         <ErdosProblemsPanel />
       </div>
     )
+  },
+  {
+    id: 'experiments',
+    label: 'Experiments',
+    description: 'Sweep scenario configurations across seeds and chart the run metrics.',
+    shortcut: '⌘/Ctrl+5',
+    render: () => <ExperimentsView />
   }
 ]
 
@@ -1,4 +1,4 @@
-import { SimulationState, SimulationParameters, ControlSignal, AIHistoryEntry, ScenarioMetadata } from '../simulation/types';
+import { SimulationState, ControlSignal, AIHistoryEntry, ScenarioMetadata } from '../simulation/types';
 import { LibraryEntry, LegacyAgent } from '../../../shared/agentLibrary';
 import {
     validateAiControlResponsePayload,
@@ -6,17 +6,18 @@ import {
     AiDescriptionResponsePayload,
     AiServiceErrorPayload
 } from '../../../shared/ipcValidation';
+import { getScenarioPlugin } from '../simulation/scenarios/scenarioRegistry';
 
 export const fetchAIControl = async (
     state: SimulationState,
-    currentParams: SimulationParameters,
+    currentParams: Record<string, unknown>,
     control: ControlSignal,
     scenarioMetadata: ScenarioMetadata,
     history: AIHistoryEntry[] = [],
     bestAgency: number = 0,
     bestControl: ControlSignal | null = null,
     _savedAgents: LibraryEntry[] = []
-): Promise<{ u: number; reasoning: string; params?: any; error?: string; errorDetails?: AiServiceErrorPayload } | null> => {
+): Promise<{ u: number; reasoning: string; params?: any; controls?: Record<string, number>; error?: string; errorDetails?: AiServiceErrorPayload } | null> => {
     void _savedAgents;
     if (typeof window === 'undefined') {
         return { error: 'Window not defined (SSR?)', u: control.U, reasoning: '' };
@@ -34,6 +35,9 @@ export const fetchAIControl = async (
             currentParams,
             control,
             scenarioMetadata,
+            scenarioPrompt: getScenarioPlugin(scenarioMetadata.id)?.prompt,
+            configSchema: getScenarioPlugin(scenarioMetadata.id)?.configSchema,
+            controlSchema: getScenarioPlugin(scenarioMetadata.id)?.controls,
             history,
             bestAgency,
             bestControl
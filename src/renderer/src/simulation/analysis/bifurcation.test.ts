@@ -0,0 +1,79 @@
+import { DEFAULT_PARAMETERS, SimulationParameters } from '../types';
+import { computeDriftRates } from '../sdeEngine';
+import {
+    classifyStability,
+    continueFixedPoints,
+    eigenvalues3,
+    findFixedPoints
+} from './bifurcation';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+function testEigenvalues() {
+    const real = eigenvalues3([[-1, 0, 0], [0, -2, 0], [0, 0, 3]]).map(e => e.re);
+    assert(
+        Math.abs(real[0] - 3) < 1e-9 && Math.abs(real[1] + 1) < 1e-9 && Math.abs(real[2] + 2) < 1e-9,
+        'diagonal matrix eigenvalues are recovered in descending order'
+    );
+
+    // Rotation block with damping: -0.5 +/- 2i, plus -1
+    const complex = eigenvalues3([[-0.5, -2, 0], [2, -0.5, 0], [0, 0, -1]]);
+    const pair = complex.filter(e => Math.abs(e.im) > 1e-9);
+    assert(pair.length === 2 && Math.abs(pair[0].re + 0.5) < 1e-9 && Math.abs(Math.abs(pair[0].im) - 2) < 1e-9, 'complex pair is recovered');
+    const classified = classifyStability(complex);
+    assert(classified.stability === 'stable' && classified.oscillatory, 'damped rotation is a stable focus');
+    assert(classifyStability(real.map(re => ({ re, im: 0 }))).stability === 'saddle', 'mixed-sign eigenvalues are a saddle');
+}
+
+function testDefaultEquilibrium() {
+    const U = 0.2;
+    const points = findFixedPoints(DEFAULT_PARAMETERS, U);
+    assert(points.length === 1, `default parameters have a single equilibrium (found ${points.length})`);
+
+    const [point] = points;
+    const rates = computeDriftRates({ C: point.C, D: point.D, A: point.A, alertRate: 0, generation: 0 }, DEFAULT_PARAMETERS, { U });
+    assert(Math.max(Math.abs(rates.dC), Math.abs(rates.dD), Math.abs(rates.dA)) < 1e-9, 'drift vanishes at the equilibrium');
+
+    // E2 decouples: k_D_decay D^2 + (k_D_growth + k_DU U) D - k_D_growth = 0
+    const { k_D_decay: a, k_D_growth: g, k_DU } = DEFAULT_PARAMETERS;
+    const b = g + k_DU * U;
+    const analyticD = (-b + Math.sqrt(b * b + 4 * a * g)) / (2 * a);
+    assert(Math.abs(point.D - analyticD) < 1e-8, `D* matches the closed form (${point.D.toFixed(6)} vs ${analyticD.toFixed(6)})`);
+    assert(point.stability === 'stable', 'default equilibrium is stable');
+}
+
+function testContinuation() {
+    const low = findFixedPoints(DEFAULT_PARAMETERS, 0)[0].A;
+    const high = findFixedPoints(DEFAULT_PARAMETERS, 1)[0].A;
+    assert(high > low, 'difficulty raises equilibrium agency');
+
+    const params: SimulationParameters = { ...DEFAULT_PARAMETERS, A_alert: (low + high) / 2 };
+    const diagram = continueFixedPoints(params, 'U', { min: 0, max: 1, steps: 41 });
+
+    assert(diagram.values.length === 41 && diagram.points.length === 41, 'one equilibrium per slice');
+    assert(diagram.points.every(p => p.branch === 0), 'single branch is tracked through the sweep');
+    assert(diagram.alertCrossings.length === 1 && diagram.alertCrossings[0].direction === 'up', 'alert crossing is detected once, upwards');
+
+    const crossing = diagram.alertCrossings[0].value;
+    const atCrossing = findFixedPoints(params, crossing)[0];
+    assert(Math.abs(atCrossing.A - params.A_alert) < 2e-3, `crossing value is accurate (A* = ${atCrossing.A.toFixed(4)} at U = ${crossing.toFixed(4)})`);
+
+    const coefficient = continueFixedPoints(DEFAULT_PARAMETERS, 'k_AC', { min: 0.05, max: 0.5, steps: 10, U: 0.3 });
+    assert(coefficient.points.length === 10 && coefficient.points[9].A > coefficient.points[0].A, 'continuation over a model coefficient');
+}
+
+function run() {
+    console.log('Starting Bifurcation Analysis Tests...');
+    testEigenvalues();
+    testDefaultEquilibrium();
+    testContinuation();
+    console.log('All bifurcation tests passed!');
+}
+
+run();
@@ -0,0 +1,372 @@
+/**
+ * Bifurcation Analysis - Equilibria of the deterministic C/D/A drift
+ *
+ * Finds fixed points of E1-E3 (noise switched off) inside the unit cube,
+ * classifies their stability from the eigenvalues of a central-difference
+ * Jacobian, and continues them over a parameter (any numeric
+ * SimulationParameters key or the control U) to build a bifurcation diagram.
+ */
+
+import { SimulationParameters, SimulationState } from '../types';
+import { computeDriftRates } from '../sdeEngine';
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+/** Parameter that can be continued: a numeric model coefficient or the control U */
+export type ContinuationParameter =
+    | 'U'
+    | Exclude<{ [K in keyof SimulationParameters]-?: SimulationParameters[K] extends number ? K : never }[keyof SimulationParameters], 'dt'>;
+
+export const CONTINUATION_PARAMETERS: ContinuationParameter[] = [
+    'U', 'k_CD', 'k_AC', 'k_DU', 'k_U',
+    'k_C_decay', 'k_D_growth', 'k_D_decay', 'k_AU', 'k_A_decay'
+];
+
+export interface Eigenvalue {
+    re: number;
+    im: number;
+}
+
+export type FixedPointStability = 'stable' | 'unstable' | 'saddle' | 'marginal';
+
+export interface FixedPoint {
+    C: number;
+    D: number;
+    A: number;
+    stability: FixedPointStability;
+    /** True when the dominant eigenvalues are a complex pair (spiral/focus) */
+    oscillatory: boolean;
+    eigenvalues: Eigenvalue[];
+    /** Max-norm of the drift at the point (Newton residual) */
+    residual: number;
+}
+
+export interface BifurcationPoint extends FixedPoint {
+    /** Continuation parameter value */
+    value: number;
+    /** Branch index, stable across slices of the sweep */
+    branch: number;
+}
+
+export interface AlertCrossing {
+    /** Interpolated parameter value where A* = A_alert */
+    value: number;
+    branch: number;
+    direction: 'up' | 'down';
+}
+
+export interface BifurcationEvent {
+    /** Interpolated parameter value of the event */
+    value: number;
+    /** fold: equilibria appear/disappear; stability-change: a branch changes stability */
+    kind: 'fold' | 'stability-change';
+    branch?: number;
+    from?: FixedPointStability;
+    to?: FixedPointStability;
+}
+
+export interface BifurcationDiagram {
+    parameter: ContinuationParameter;
+    values: number[];
+    points: BifurcationPoint[];
+    alertThreshold: number;
+    alertCrossings: AlertCrossing[];
+    events: BifurcationEvent[];
+}
+
+export interface FixedPointOptions {
+    /** Seeds per axis for the multi-start Newton search (default 4) */
+    gridSize?: number;
+    /** Residual tolerance for accepting a root (default 1e-10) */
+    tolerance?: number;
+    maxIterations?: number;
+    /** Extra starting points, tried before the grid */
+    seeds?: Vec3[];
+}
+
+export interface ContinuationOptions extends FixedPointOptions {
+    min: number;
+    max: number;
+    /** Number of parameter slices (default 60) */
+    steps?: number;
+    /** Control value used when continuing a model coefficient (default 0) */
+    U?: number;
+}
+
+const DEDUPE_DISTANCE = 1e-5;
+const BOX_SLACK = 1e-9;
+const MARGINAL_EPSILON = 1e-7;
+
+function driftVector(x: Vec3, params: SimulationParameters, U: number): Vec3 {
+    const state: SimulationState = { C: x[0], D: x[1], A: x[2], alertRate: 0, generation: 0 };
+    const rates = computeDriftRates(state, params, { U });
+    return [rates.dC, rates.dD, rates.dA];
+}
+
+/**
+ * Central-difference Jacobian of the drift at x
+ */
+export function driftJacobian(x: Vec3, params: SimulationParameters, U: number, h = 1e-6): Mat3 {
+    const jacobian: Mat3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let j = 0; j < 3; j++) {
+        const plus: Vec3 = [...x];
+        const minus: Vec3 = [...x];
+        plus[j] += h;
+        minus[j] -= h;
+        const fPlus = driftVector(plus, params, U);
+        const fMinus = driftVector(minus, params, U);
+        for (let i = 0; i < 3; i++) {
+            jacobian[i][j] = (fPlus[i] - fMinus[i]) / (2 * h);
+        }
+    }
+    return jacobian;
+}
+
+function det3(m: Mat3): number {
+    return m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+        - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+        + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+}
+
+/**
+ * Solve m * x = b by Cramer's rule; null when m is (near) singular
+ */
+function solve3(m: Mat3, b: Vec3): Vec3 | null {
+    const det = det3(m);
+    if (!Number.isFinite(det) || Math.abs(det) < 1e-14) return null;
+    const result: Vec3 = [0, 0, 0];
+    for (let col = 0; col < 3; col++) {
+        const replaced = m.map((row, i) => row.map((v, j) => (j === col ? b[i] : v))) as Mat3;
+        result[col] = det3(replaced) / det;
+    }
+    return result;
+}
+
+/**
+ * Eigenvalues of a real 3x3 matrix from its characteristic polynomial
+ * lambda^3 - tr*lambda^2 + m2*lambda - det = 0 (trigonometric/Cardano roots)
+ */
+export function eigenvalues3(m: Mat3): Eigenvalue[] {
+    const tr = m[0][0] + m[1][1] + m[2][2];
+    const m2 = m[0][0] * m[1][1] - m[0][1] * m[1][0]
+        + m[0][0] * m[2][2] - m[0][2] * m[2][0]
+        + m[1][1] * m[2][2] - m[1][2] * m[2][1];
+    const det = det3(m);
+
+    // Depressed cubic t^3 + p t + q = 0 with lambda = t + tr/3
+    const shift = tr / 3;
+    const p = m2 - tr * tr / 3;
+    const q = -2 * tr * tr * tr / 27 + tr * m2 / 3 - det;
+    const discriminant = (q * q) / 4 + (p * p * p) / 27;
+
+    if (discriminant <= 0) {
+        // Three real roots
+        const r = Math.sqrt(Math.max(0, -p / 3));
+        if (r === 0) {
+            return [{ re: shift, im: 0 }, { re: shift, im: 0 }, { re: shift, im: 0 }];
+        }
+        const cosArg = Math.max(-1, Math.min(1, -q / (2 * r * r * r)));
+        const phi = Math.acos(cosArg);
+        return [0, 1, 2]
+            .map(k => ({ re: 2 * r * Math.cos((phi - 2 * Math.PI * k) / 3) + shift, im: 0 }))
+            .sort((a, b) => b.re - a.re);
+    }
+
+    // One real root and a complex-conjugate pair
+    const sqrtDisc = Math.sqrt(discriminant);
+    const u = Math.cbrt(-q / 2 + sqrtDisc);
+    const v = Math.cbrt(-q / 2 - sqrtDisc);
+    const real = u + v + shift;
+    const pairRe = -(u + v) / 2 + shift;
+    const pairIm = (Math.sqrt(3) / 2) * Math.abs(u - v);
+    return [
+        { re: real, im: 0 },
+        { re: pairRe, im: pairIm },
+        { re: pairRe, im: -pairIm }
+    ].sort((a, b) => b.re - a.re);
+}
+
+/**
+ * Classify a fixed point from its eigenvalues
+ */
+export function classifyStability(values: Eigenvalue[]): { stability: FixedPointStability; oscillatory: boolean } {
+    const positive = values.filter(v => v.re > MARGINAL_EPSILON).length;
+    const negative = values.filter(v => v.re < -MARGINAL_EPSILON).length;
+    const oscillatory = values.some(v => Math.abs(v.im) > MARGINAL_EPSILON);
+
+    let stability: FixedPointStability;
+    if (negative === values.length) stability = 'stable';
+    else if (positive === values.length) stability = 'unstable';
+    else if (positive > 0 && negative > 0) stability = 'saddle';
+    else if (positive > 0) stability = 'unstable';
+    else stability = 'marginal';
+
+    return { stability, oscillatory };
+}
+
+function insideUnitCube(x: Vec3): boolean {
+    return x.every(v => v >= -BOX_SLACK && v <= 1 + BOX_SLACK);
+}
+
+function newton(start: Vec3, params: SimulationParameters, U: number, tolerance: number, maxIterations: number): Vec3 | null {
+    let x: Vec3 = [...start];
+    for (let iter = 0; iter < maxIterations; iter++) {
+        const f = driftVector(x, params, U);
+        const residual = Math.max(...f.map(Math.abs));
+        if (residual < tolerance) return x;
+        const step = solve3(driftJacobian(x, params, U), [-f[0], -f[1], -f[2]]);
+        if (!step) return null;
+        x = [x[0] + step[0], x[1] + step[1], x[2] + step[2]];
+        // Wander far outside the state space and the root is of no interest
+        if (!x.every(v => Number.isFinite(v) && v > -1 && v < 2)) return null;
+    }
+    const f = driftVector(x, params, U);
+    return Math.max(...f.map(Math.abs)) < tolerance * 100 ? x : null;
+}
+
+/**
+ * Find all equilibria of the deterministic drift inside [0, 1]^3
+ * using a multi-start Newton search
+ */
+export function findFixedPoints(
+    params: SimulationParameters,
+    U: number,
+    options: FixedPointOptions = {}
+): FixedPoint[] {
+    const gridSize = Math.max(1, Math.floor(options.gridSize ?? 4));
+    const tolerance = options.tolerance ?? 1e-10;
+    const maxIterations = options.maxIterations ?? 50;
+
+    const starts: Vec3[] = [...(options.seeds ?? [])];
+    for (let i = 0; i < gridSize; i++) {
+        for (let j = 0; j < gridSize; j++) {
+            for (let k = 0; k < gridSize; k++) {
+                starts.push([(i + 0.5) / gridSize, (j + 0.5) / gridSize, (k + 0.5) / gridSize]);
+            }
+        }
+    }
+
+    const roots: Vec3[] = [];
+    for (const start of starts) {
+        const root = newton(start, params, U, tolerance, maxIterations);
+        if (!root || !insideUnitCube(root)) continue;
+        const duplicate = roots.some(r => Math.max(...r.map((v, i) => Math.abs(v - root[i]))) < DEDUPE_DISTANCE);
+        if (!duplicate) roots.push(root);
+    }
+
+    return roots
+        .map(root => {
+            const clamped = root.map(v => Math.max(0, Math.min(1, v))) as Vec3;
+            const eigen = eigenvalues3(driftJacobian(clamped, params, U));
+            const f = driftVector(clamped, params, U);
+            return {
+                C: clamped[0],
+                D: clamped[1],
+                A: clamped[2],
+                ...classifyStability(eigen),
+                eigenvalues: eigen,
+                residual: Math.max(...f.map(Math.abs))
+            };
+        })
+        .sort((a, b) => a.A - b.A || a.C - b.C || a.D - b.D);
+}
+
+function withParameter(
+    params: SimulationParameters,
+    parameter: ContinuationParameter,
+    value: number,
+    defaultU: number
+): { params: SimulationParameters; U: number } {
+    if (parameter === 'U') return { params, U: value };
+    return { params: { ...params, [parameter]: value }, U: defaultU };
+}
+
+function interpolate(x0: number, x1: number, y0: number, y1: number, target: number): number {
+    if (y1 === y0) return (x0 + x1) / 2;
+    return x0 + (target - y0) * (x1 - x0) / (y1 - y0);
+}
+
+/**
+ * Natural-parameter continuation of the equilibria over [min, max].
+ * Each slice is seeded from the previous slice's roots (plus the grid, so new
+ * branches are picked up); roots are matched to the nearest previous root to
+ * keep branch indices stable.
+ */
+export function continueFixedPoints(
+    params: SimulationParameters,
+    parameter: ContinuationParameter,
+    options: ContinuationOptions
+): BifurcationDiagram {
+    const steps = Math.max(2, Math.floor(options.steps ?? 60));
+    const baseU = options.U ?? 0;
+    const values = Array.from({ length: steps }, (_, i) => options.min + (options.max - options.min) * i / (steps - 1));
+
+    const points: BifurcationPoint[] = [];
+    const alertCrossings: AlertCrossing[] = [];
+    const events: BifurcationEvent[] = [];
+    let previous: BifurcationPoint[] = [];
+    let nextBranch = 0;
+    const matchDistance = 0.1;
+
+    for (const value of values) {
+        const slice = withParameter(params, parameter, value, baseU);
+        const roots = findFixedPoints(slice.params, slice.U, {
+            ...options,
+            seeds: [...previous.map(p => [p.C, p.D, p.A] as Vec3), ...(options.seeds ?? [])]
+        });
+
+        const unclaimed = [...previous];
+        const current: BifurcationPoint[] = roots.map(root => {
+            let bestIndex = -1;
+            let bestDistance = matchDistance;
+            unclaimed.forEach((prev, index) => {
+                const distance = Math.hypot(prev.C - root.C, prev.D - root.D, prev.A - root.A);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    bestIndex = index;
+                }
+            });
+            const match = bestIndex >= 0 ? unclaimed.splice(bestIndex, 1)[0] : null;
+            const point: BifurcationPoint = { ...root, value, branch: match ? match.branch : nextBranch++ };
+
+            if (match) {
+                const before = match.A - params.A_alert;
+                const after = point.A - params.A_alert;
+                if (before < 0 !== after < 0) {
+                    alertCrossings.push({
+                        value: interpolate(match.value, value, match.A, point.A, params.A_alert),
+                        branch: point.branch,
+                        direction: after >= 0 ? 'up' : 'down'
+                    });
+                }
+                if (match.stability !== point.stability) {
+                    events.push({
+                        value: (match.value + value) / 2,
+                        kind: 'stability-change',
+                        branch: point.branch,
+                        from: match.stability,
+                        to: point.stability
+                    });
+                }
+            }
+            return point;
+        });
+
+        if (previous.length > 0 && current.length !== previous.length) {
+            events.push({ value: (previous[0].value + value) / 2, kind: 'fold' });
+        }
+
+        points.push(...current);
+        previous = current;
+    }
+
+    return {
+        parameter,
+        values,
+        points,
+        alertThreshold: params.A_alert,
+        alertCrossings,
+        events
+    };
+}
@@ -0,0 +1,108 @@
+import { DEFAULT_PARAMETERS, SimulationParameters, SimulationState } from '../types';
+import { runSimulationSteps } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { solveStationaryDistribution } from './fokkerPlanck';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+// Noise wide enough for the grid to resolve the distribution, narrow enough to stay off the walls
+const BASE: SimulationParameters = {
+    ...DEFAULT_PARAMETERS,
+    sigma_C: 0.06,
+    sigma_D: 0.08,
+    sigma_A: 0.05,
+    dt: 0.05
+};
+const CONTROL = { U: 0.5 };
+
+function monteCarlo(params: SimulationParameters, samples: number, bins: number, seed: number) {
+    const prng = new PRNG(seed);
+    const rng = () => prng.next();
+    let state: SimulationState = { C: 0.25, D: 0.5, A: 0.17, alertRate: 0, generation: 0 };
+    state = runSimulationSteps(state, params, CONTROL, 2000, rng);
+
+    const sum = { C: 0, D: 0, A: 0 };
+    const histogram = new Array(bins).fill(0);
+    let above = 0;
+    for (let i = 0; i < samples; i++) {
+        state = runSimulationSteps(state, params, CONTROL, 1, rng);
+        sum.C += state.C;
+        sum.D += state.D;
+        sum.A += state.A;
+        if (state.A > params.A_alert) above++;
+        histogram[Math.min(bins - 1, Math.floor(state.D * bins))]++;
+    }
+    return {
+        mean: { C: sum.C / samples, D: sum.D / samples, A: sum.A / samples },
+        pAboveAlert: above / samples,
+        histogramD: histogram.map(count => count / samples)
+    };
+}
+
+function testAgainstMonteCarlo() {
+    const reference = solveStationaryDistribution(BASE, CONTROL, { gridSize: 32 });
+    assert(reference.converged, `solver converged (${reference.sweeps} sweeps)`);
+
+    // Put the threshold in the upper tail so the probability is non-trivial
+    const params: SimulationParameters = { ...BASE, A_alert: reference.mean.A + 0.05 };
+    const solved = solveStationaryDistribution(params, CONTROL, { gridSize: 32 });
+    const mc = monteCarlo(params, 300000, 32, 424242);
+
+    for (const key of ['C', 'D', 'A'] as const) {
+        const diff = Math.abs(solved.mean[key] - mc.mean[key]);
+        assert(diff < 0.01, `E[${key}] matches Monte Carlo (FP ${solved.mean[key].toFixed(4)}, MC ${mc.mean[key].toFixed(4)})`);
+    }
+
+    const pDiff = Math.abs(solved.pAboveAlert - mc.pAboveAlert);
+    assert(
+        solved.pAboveAlert > 0.02 && pDiff < 0.03,
+        `P(A > A_alert) matches Monte Carlo (FP ${solved.pAboveAlert.toFixed(4)}, MC ${mc.pAboveAlert.toFixed(4)})`
+    );
+
+    // Monte Carlo histogram uses the solver's cells as bins
+    const h = 1 / solved.gridSize;
+    const l1 = solved.marginals.D.reduce((sum, density, i) => sum + Math.abs(density * h - mc.histogramD[i]), 0);
+    assert(l1 < 0.1, `D marginal matches the Monte Carlo histogram (L1 ${l1.toFixed(4)})`);
+}
+
+function testMarginalsAreNormalized() {
+    const solved = solveStationaryDistribution(DEFAULT_PARAMETERS, CONTROL, { gridSize: 16 });
+    const h = 1 / solved.gridSize;
+    for (const key of ['C', 'D', 'A'] as const) {
+        const mass = solved.marginals[key].reduce((sum, density) => sum + density * h, 0);
+        assert(Math.abs(mass - 1) < 1e-9, `${key} marginal integrates to 1`);
+    }
+    assert(!solved.quasiStationary && solved.absorptionRate === 0, 'no absorbing walls means a true stationary distribution');
+}
+
+function testAbsorbingWall() {
+    const harsh: SimulationParameters = {
+        ...BASE,
+        sigma_D: 0.12,
+        k_DU: 1.0,
+        k_D_growth: 0.02,
+        boundaries: { C: 'clamp', D: 'absorb', A: 'clamp' }
+    };
+    const solved = solveStationaryDistribution(harsh, { U: 1 }, { gridSize: 24 });
+    assert(solved.quasiStationary, 'absorbing D wall yields a quasi-stationary distribution');
+    assert(solved.absorptionRate > 1e-3, `extinction pressure gives a positive absorption rate (${solved.absorptionRate.toFixed(4)})`);
+
+    const safe = solveStationaryDistribution({ ...BASE, boundaries: { C: 'clamp', D: 'absorb', A: 'clamp' } }, CONTROL, { gridSize: 24 });
+    assert(safe.absorptionRate < 1e-6, `interior equilibrium is practically never absorbed (${safe.absorptionRate.toExponential(2)})`);
+}
+
+function run() {
+    console.log('Starting Fokker-Planck Solver Tests...');
+    testMarginalsAreNormalized();
+    testAgainstMonteCarlo();
+    testAbsorbingWall();
+    console.log('All Fokker-Planck tests passed!');
+}
+
+run();
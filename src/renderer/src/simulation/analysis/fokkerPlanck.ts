@@ -0,0 +1,226 @@
+/**
+ * Stationary Fokker-Planck Solver - Long-run distribution of the SDE macro-model
+ *
+ * Discretizes the forward equation of E1-E3 on an n^3 finite-volume grid over
+ * [0, 1]^3. Fluxes between neighbouring cells use Scharfetter-Gummel
+ * (exponentially fitted) weights, which keep the scheme positive and exact for
+ * locally constant drift, so the grid turns into a continuous-time Markov chain
+ * whose stationary vector is found with symmetric Gauss-Seidel sweeps.
+ *
+ * Boundary policies map onto the walls as follows:
+ * - clamp, reflect: zero-flux walls (clamp's wall atoms are folded into the edge cells)
+ * - logit: zero-flux walls plus the repulsive drift sigma^2 (1 - 2x) / (2x(1 - x))
+ *   that the logit-space update adds in x
+ * - absorb: zero-density (Dirichlet) walls; the result is then the
+ *   quasi-stationary distribution conditioned on survival, with its decay rate
+ */
+
+import { ControlSignal, SimulationParameters, SimulationState } from '../types';
+import { BoundedVariable, createMacroSystem, resolveBoundaries } from '../sdeEngine';
+
+export interface StationaryOptions {
+    /** Cells per axis (default 32) */
+    gridSize?: number;
+    /** Stop when the largest change per sweep falls below tolerance * max(p) (default 1e-8) */
+    tolerance?: number;
+    /** Maximum number of symmetric Gauss-Seidel sweeps (default 3000) */
+    maxSweeps?: number;
+}
+
+export interface StationaryDistribution {
+    gridSize: number;
+    /** Cell centres along each axis */
+    centers: number[];
+    /** Marginal probability densities on the cell centres (each integrates to 1) */
+    marginals: Record<BoundedVariable, number[]>;
+    mean: Record<BoundedVariable, number>;
+    /** Long-run probability that A exceeds A_alert */
+    pAboveAlert: number;
+    /** True when an absorbing wall makes this the quasi-stationary distribution */
+    quasiStationary: boolean;
+    /** Exponential rate of loss to absorbing walls (1/generation, 0 without absorbing walls) */
+    absorptionRate: number;
+    sweeps: number;
+    converged: boolean;
+}
+
+const VARIABLES: BoundedVariable[] = ['C', 'D', 'A'];
+/** Floor for sigma^2 / 2 so a noiseless variable still gives a connected chain */
+const MIN_DIFFUSION = 1e-12;
+/** Cell Peclet numbers are clipped so exp() stays representable */
+const MAX_PECLET = 500;
+
+/**
+ * Bernoulli function B(z) = z / (e^z - 1)
+ */
+function bernoulli(z: number): number {
+    if (Math.abs(z) < 1e-10) return 1 - z / 2;
+    return z / Math.expm1(z);
+}
+
+/**
+ * Scharfetter-Gummel transfer rates across a face at distance `dist`:
+ * [forward (towards +x), backward (towards -x)] per unit mass of a cell of width h
+ */
+function faceRates(drift: number, diffusion: number, dist: number, h: number): [number, number] {
+    const peclet = Math.max(-MAX_PECLET, Math.min(MAX_PECLET, drift * dist / diffusion));
+    const scale = diffusion / (dist * h);
+    return [scale * bernoulli(-peclet), scale * bernoulli(peclet)];
+}
+
+/**
+ * Solve for the stationary (or quasi-stationary) distribution of C, D and A
+ */
+export function solveStationaryDistribution(
+    params: SimulationParameters,
+    control: ControlSignal,
+    options: StationaryOptions = {}
+): StationaryDistribution {
+    const n = Math.max(2, Math.floor(options.gridSize ?? 32));
+    const tolerance = options.tolerance ?? 1e-8;
+    const maxSweeps = Math.max(1, Math.floor(options.maxSweeps ?? 3000));
+    const h = 1 / n;
+    const cells = n * n * n;
+    const strides = [n * n, n, 1];
+    const centers = Array.from({ length: n }, (_, i) => (i + 0.5) * h);
+
+    const boundaries = resolveBoundaries(params);
+    const policies = VARIABLES.map(v => boundaries[v]);
+    const sigmas = [params.sigma_C, params.sigma_D, params.sigma_A];
+    const diffusions = sigmas.map(s => Math.max(MIN_DIFFUSION, (s * s) / 2));
+    const baseState: SimulationState = { C: 0, D: 0, A: 0, alertRate: 0, generation: 0 };
+    const system = createMacroSystem(baseState, params, control);
+
+    const driftAt = (point: number[], k: number): number => {
+        let rate = system.drift(point)[k];
+        if (policies[k] === 'logit') {
+            const x = point[k];
+            rate += (sigmas[k] * sigmas[k] * (1 - 2 * x)) / (2 * x * (1 - x));
+        }
+        return rate;
+    };
+
+    // up[k][c]: rate c -> c + stride_k, down[k][c]: rate c -> c - stride_k
+    const up = VARIABLES.map(() => new Float64Array(cells));
+    const down = VARIABLES.map(() => new Float64Array(cells));
+    const absorbed = new Float64Array(cells);
+    const outflow = new Float64Array(cells);
+
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            for (let l = 0; l < n; l++) {
+                const c = i * strides[0] + j * strides[1] + l;
+                const index = [i, j, l];
+                for (let k = 0; k < 3; k++) {
+                    const point = [centers[i], centers[j], centers[l]];
+                    if (index[k] < n - 1) {
+                        point[k] = (index[k] + 1) * h;
+                        const [forward, backward] = faceRates(driftAt(point, k), diffusions[k], h, h);
+                        up[k][c] = forward;
+                        down[k][c + strides[k]] = backward;
+                    }
+                    if (policies[k] !== 'absorb') continue;
+                    if (index[k] === 0) {
+                        point[k] = 0;
+                        absorbed[c] += faceRates(driftAt(point, k), diffusions[k], h / 2, h)[1];
+                    }
+                    if (index[k] === n - 1) {
+                        point[k] = 1;
+                        absorbed[c] += faceRates(driftAt(point, k), diffusions[k], h / 2, h)[0];
+                    }
+                }
+            }
+        }
+    }
+    for (let c = 0; c < cells; c++) {
+        outflow[c] = up[0][c] + up[1][c] + up[2][c] + down[0][c] + down[1][c] + down[2][c] + absorbed[c];
+    }
+
+    const quasiStationary = policies.includes('absorb');
+    let p = new Float64Array(cells).fill(1 / cells);
+    let previous = new Float64Array(cells);
+    let decay = 0;
+    let sweeps = 0;
+    let converged = false;
+
+    const [sC, sD] = strides;
+    const relax = (i: number, j: number, l: number) => {
+        const c = i * sC + j * sD + l;
+        let inflow = 0;
+        if (i > 0) inflow += p[c - sC] * up[0][c - sC];
+        if (i < n - 1) inflow += p[c + sC] * down[0][c + sC];
+        if (j > 0) inflow += p[c - sD] * up[1][c - sD];
+        if (j < n - 1) inflow += p[c + sD] * down[1][c + sD];
+        if (l > 0) inflow += p[c - 1] * up[2][c - 1];
+        if (l < n - 1) inflow += p[c + 1] * down[2][c + 1];
+        p[c] = inflow / Math.max(outflow[c] - decay, outflow[c] * 1e-6);
+    };
+
+    while (sweeps < maxSweeps) {
+        [previous, p] = [p, previous];
+        p.set(previous);
+        for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) for (let l = 0; l < n; l++) relax(i, j, l);
+        for (let i = n - 1; i >= 0; i--) for (let j = n - 1; j >= 0; j--) for (let l = n - 1; l >= 0; l--) relax(i, j, l);
+        sweeps++;
+
+        let total = 0;
+        for (let c = 0; c < cells; c++) total += p[c];
+        let lost = 0;
+        let largest = 0;
+        let change = 0;
+        for (let c = 0; c < cells; c++) {
+            p[c] /= total;
+            lost += p[c] * absorbed[c];
+            largest = Math.max(largest, p[c]);
+            change = Math.max(change, Math.abs(p[c] - previous[c]));
+        }
+        decay = lost;
+        if (change < tolerance * largest) {
+            converged = true;
+            break;
+        }
+    }
+
+    const marginals: Record<BoundedVariable, number[]> = {
+        C: new Array(n).fill(0),
+        D: new Array(n).fill(0),
+        A: new Array(n).fill(0)
+    };
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            for (let l = 0; l < n; l++) {
+                const mass = p[i * strides[0] + j * strides[1] + l];
+                marginals.C[i] += mass;
+                marginals.D[j] += mass;
+                marginals.A[l] += mass;
+            }
+        }
+    }
+
+    const mean = { C: 0, D: 0, A: 0 };
+    for (const variable of VARIABLES) {
+        mean[variable] = marginals[variable].reduce((sum, mass, i) => sum + mass * centers[i], 0);
+    }
+
+    // Mass of A above the threshold, splitting the cell that contains it linearly
+    const pAboveAlert = marginals.A.reduce((sum, mass, l) => {
+        const fraction = Math.max(0, Math.min(1, ((l + 1) * h - params.A_alert) / h));
+        return sum + mass * fraction;
+    }, 0);
+
+    for (const variable of VARIABLES) {
+        marginals[variable] = marginals[variable].map(mass => mass / h);
+    }
+
+    return {
+        gridSize: n,
+        centers,
+        marginals,
+        mean,
+        pAboveAlert,
+        quasiStationary,
+        absorptionRate: quasiStationary ? decay : 0,
+        sweeps,
+        converged
+    };
+}
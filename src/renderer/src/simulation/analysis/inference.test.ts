@@ -0,0 +1,104 @@
+import { DEFAULT_PARAMETERS, SimulationParameters, SimulationState, TelemetryPoint } from '../types';
+import { eulerMaruyamaLogDensity, integrateStep } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { inferParameters, InferredParameter } from './inference';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const TRUTH: SimulationParameters = {
+    ...DEFAULT_PARAMETERS,
+    sigma_C: 0.03,
+    sigma_D: 0.04,
+    sigma_A: 0.02,
+    dt: 0.1
+};
+
+/**
+ * Simulate telemetry with U switching every 20 generations so every coefficient is excited
+ */
+function simulate(params: SimulationParameters, steps: number, seed: number, schedule: (gen: number) => number): TelemetryPoint[] {
+    const prng = new PRNG(seed);
+    const rng = () => prng.next();
+    let state: SimulationState = { C: 0.3, D: 0.5, A: 0.2, alertRate: 0, generation: 0 };
+    const telemetry: TelemetryPoint[] = [];
+    for (let i = 0; i < steps; i++) {
+        const U = schedule(state.generation);
+        telemetry.push({ generation: state.generation, C: state.C, D: state.D, A: state.A, U, alertRate: state.alertRate });
+        state = integrateStep(state, params, { U }, rng, 'euler-maruyama');
+    }
+    return telemetry;
+}
+
+function testRecoversKnownParameters() {
+    // Levels keep A clear of the clamp at 0, which would bias the increments
+    const levels = [0.3, 0.9, 0.5, 0.7, 0.2, 1.0, 0.4, 0.6];
+    const telemetry = simulate(TRUTH, 200000, 2024, gen => levels[Math.floor(gen / 20) % levels.length]);
+    const result = inferParameters(telemetry);
+    assert(result !== null, 'fit returns a result');
+    if (!result) return;
+
+    assert(result.transitions + result.skipped === telemetry.length - 1 && result.skipped < telemetry.length / 100,
+        `wall-touching transitions are skipped (${result.skipped} of ${telemetry.length - 1})`);
+
+    const keys = Object.keys(result.estimates) as InferredParameter[];
+    const covered = keys.filter(key => {
+        const estimate = result.estimates[key];
+        const truth = TRUTH[key];
+        return estimate.lower <= truth && truth <= estimate.upper;
+    });
+    keys.forEach(key => {
+        const e = result.estimates[key];
+        console.log(`   ${key}: ${e.value.toFixed(4)} [${e.lower.toFixed(4)}, ${e.upper.toFixed(4)}] (truth ${TRUTH[key]})`);
+    });
+    assert(covered.length >= keys.length - 1, `95% intervals cover the truth for ${covered.length}/${keys.length} parameters`);
+
+    for (const key of ['sigma_C', 'sigma_D', 'sigma_A'] as const) {
+        const relative = Math.abs(result.estimates[key].value - TRUTH[key]) / TRUTH[key];
+        assert(relative < 0.02, `${key} is recovered within 2%`);
+    }
+
+    const truthLikelihood = telemetry.slice(1).reduce((sum, to, i) => {
+        const from = telemetry[i];
+        const state = { C: from.C, D: from.D, A: from.A, alertRate: 0, generation: from.generation };
+        return sum + eulerMaruyamaLogDensity(state, to, TRUTH, { U: from.U }, to.generation - from.generation);
+    }, 0);
+    assert(result.logLikelihood >= truthLikelihood, 'fitted parameters are at least as likely as the truth');
+
+    const parameterKeys = Object.keys(result.parameters);
+    assert(parameterKeys.length === 12 && Object.values(result.parameters).every(v => typeof v === 'number' && v >= 0),
+        'output is a non-negative parameter patch for updateParameters');
+}
+
+function testUnidentifiableCoefficients() {
+    const prior: SimulationParameters = { ...TRUTH, k_U: 0.5, k_DU: 0.6, k_AU: 0.7 };
+    const telemetry = simulate(TRUTH, 2000, 7, () => 0);
+    const result = inferParameters(telemetry, { prior });
+    assert(result !== null, 'fit with constant U returns a result');
+    if (!result) return;
+    for (const key of ['k_U', 'k_DU', 'k_AU'] as const) {
+        assert(!result.estimates[key].identifiable, `${key} is flagged unidentifiable when U is always 0`);
+        assert(result.parameters[key] === prior[key], `${key} falls back to the prior`);
+    }
+    assert(result.estimates.k_CD.identifiable, 'coefficients without U remain identifiable');
+}
+
+function testRejectsShortSeries() {
+    const telemetry = simulate(TRUTH, 5, 1, () => 0.3);
+    assert(inferParameters(telemetry) === null, 'too few transitions returns null');
+}
+
+function run() {
+    console.log('Starting Parameter Inference Tests...');
+    testRecoversKnownParameters();
+    testUnidentifiableCoefficients();
+    testRejectsShortSeries();
+    console.log('All inference tests passed!');
+}
+
+run();
@@ -0,0 +1,230 @@
+/**
+ * Parameter Inference - Fit the SDE macro-model to observed telemetry
+ *
+ * Maximizes the Euler-Maruyama likelihood of a TelemetryPoint series. Each of
+ * E1-E3 is linear in its three k_* coefficients, so the maximum-likelihood
+ * estimate is a least-squares fit per equation on increments scaled by
+ * 1/sqrt(dt); sigma follows from the residual variance. Regressors are taken
+ * from computeDriftRates itself (one coefficient switched on at a time), so the
+ * fit always matches the engine's drift.
+ *
+ * The result can be passed straight to updateParameters to run an SDE
+ * "macro twin" of an agent-based scenario.
+ */
+
+import { DEFAULT_PARAMETERS, SimulationParameters, SimulationState, TelemetryPoint } from '../types';
+import { BoundedVariable, computeDriftRates, eulerMaruyamaLogDensity } from '../sdeEngine';
+
+type DriftCoefficient =
+    | 'k_CD' | 'k_U' | 'k_C_decay'
+    | 'k_D_growth' | 'k_DU' | 'k_D_decay'
+    | 'k_AC' | 'k_AU' | 'k_A_decay';
+
+export type InferredParameter = DriftCoefficient | 'sigma_C' | 'sigma_D' | 'sigma_A';
+
+interface EquationSpec {
+    variable: BoundedVariable;
+    rate: 'dC' | 'dD' | 'dA';
+    coefficients: DriftCoefficient[];
+    sigma: 'sigma_C' | 'sigma_D' | 'sigma_A';
+}
+
+const EQUATIONS: EquationSpec[] = [
+    { variable: 'C', rate: 'dC', coefficients: ['k_CD', 'k_U', 'k_C_decay'], sigma: 'sigma_C' },
+    { variable: 'D', rate: 'dD', coefficients: ['k_D_growth', 'k_DU', 'k_D_decay'], sigma: 'sigma_D' },
+    { variable: 'A', rate: 'dA', coefficients: ['k_AC', 'k_AU', 'k_A_decay'], sigma: 'sigma_A' }
+];
+
+const DRIFT_COEFFICIENTS: DriftCoefficient[] = EQUATIONS.flatMap(eq => eq.coefficients);
+
+export interface ParameterEstimate {
+    value: number;
+    standardError: number;
+    /** Lower/upper bounds of the (asymptotic, Wald) confidence interval */
+    lower: number;
+    upper: number;
+    /** False when the data carries no information on this parameter (e.g. U never varies from 0) */
+    identifiable: boolean;
+}
+
+export interface InferenceOptions {
+    /** Confidence level for the intervals (default 0.95) */
+    confidence?: number;
+    /** Values used for unidentifiable parameters and for everything not fitted (default DEFAULT_PARAMETERS) */
+    prior?: SimulationParameters;
+    /** Skip transitions that start or end on a wall, where clamping distorts the increment (default true) */
+    excludeBoundary?: boolean;
+}
+
+export interface InferenceResult {
+    estimates: Record<InferredParameter, ParameterEstimate>;
+    /** Fitted coefficients (clamped to >= 0) and sigmas, ready for updateParameters */
+    parameters: Partial<SimulationParameters>;
+    /** Euler-Maruyama log-likelihood of the used transitions under `parameters` */
+    logLikelihood: number;
+    transitions: number;
+    skipped: number;
+    confidence: number;
+}
+
+/** Fewest usable transitions for a fit */
+export const MIN_TRANSITIONS = 10;
+
+/**
+ * Standard normal quantile (Abramowitz & Stegun 26.2.23, |error| < 4.5e-4)
+ */
+function normalQuantile(p: number): number {
+    if (p <= 0 || p >= 1) return p <= 0 ? -Infinity : Infinity;
+    const q = p < 0.5 ? p : 1 - p;
+    const t = Math.sqrt(-2 * Math.log(q));
+    const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+    return p < 0.5 ? -z : z;
+}
+
+/**
+ * Invert a small square matrix (Gauss-Jordan with partial pivoting); null if singular
+ */
+function invert(matrix: number[][]): number[][] | null {
+    const n = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-14) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        const scale = a[col][col];
+        for (let j = 0; j < 2 * n; j++) a[col][j] /= scale;
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = a[row][col];
+            for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+        }
+    }
+    return a.map(row => row.slice(n));
+}
+
+/**
+ * Regressors of one equation: the drift with a single coefficient set to 1
+ */
+function regressors(state: SimulationState, U: number, spec: EquationSpec, base: SimulationParameters): number[] {
+    const zeroed = { ...base };
+    for (const key of DRIFT_COEFFICIENTS) zeroed[key] = 0;
+    return spec.coefficients.map(key => computeDriftRates(state, { ...zeroed, [key]: 1 }, { U })[spec.rate]);
+}
+
+const toState = (point: TelemetryPoint): SimulationState => ({
+    C: point.C,
+    D: point.D,
+    A: point.A,
+    alertRate: point.alertRate,
+    generation: point.generation
+});
+
+const onWall = (point: TelemetryPoint) => [point.C, point.D, point.A].some(v => v <= 0 || v >= 1);
+
+/**
+ * Maximum-likelihood estimates of the k_* coefficients and sigmas from telemetry.
+ * dt for each transition is the generation gap; U is the control at the start of the step.
+ * Returns null when fewer than MIN_TRANSITIONS transitions are usable.
+ */
+export function inferParameters(telemetry: TelemetryPoint[], options: InferenceOptions = {}): InferenceResult | null {
+    const confidence = options.confidence ?? 0.95;
+    const prior = options.prior ?? DEFAULT_PARAMETERS;
+    const excludeBoundary = options.excludeBoundary ?? true;
+    const z = normalQuantile(0.5 + confidence / 2);
+
+    const transitions: Array<{ from: TelemetryPoint; to: TelemetryPoint; dt: number }> = [];
+    let skipped = 0;
+    for (let i = 1; i < telemetry.length; i++) {
+        const from = telemetry[i - 1];
+        const to = telemetry[i];
+        const dt = to.generation - from.generation;
+        const finite = [from.C, from.D, from.A, from.U, to.C, to.D, to.A].every(Number.isFinite);
+        if (!finite || !(dt > 0) || (excludeBoundary && (onWall(from) || onWall(to)))) {
+            skipped++;
+            continue;
+        }
+        transitions.push({ from, to, dt });
+    }
+    if (transitions.length < MIN_TRANSITIONS) return null;
+
+    const estimates = {} as Record<InferredParameter, ParameterEstimate>;
+    const parameters: Partial<SimulationParameters> = {};
+
+    for (const spec of EQUATIONS) {
+        const p = spec.coefficients.length;
+        // Rows z = phi * sqrt(dt), targets y = dx / sqrt(dt): y = z . theta + sigma * eps
+        const rows: number[][] = [];
+        const targets: number[] = [];
+        for (const { from, to, dt } of transitions) {
+            const sqrtDt = Math.sqrt(dt);
+            rows.push(regressors(toState(from), from.U, spec, prior).map(v => v * sqrtDt));
+            targets.push((to[spec.variable] - from[spec.variable]) / sqrtDt);
+        }
+
+        // Drop regressors that never move away from zero; their coefficients stay at the prior
+        const scale = Array.from({ length: p }, (_, j) => Math.sqrt(rows.reduce((sum, row) => sum + row[j] * row[j], 0)));
+        const largest = Math.max(...scale);
+        const active = spec.coefficients.map((_, j) => j).filter(j => scale[j] > 1e-9 * Math.max(1, largest));
+
+        const gram = active.map(a => active.map(b => rows.reduce((sum, row) => sum + row[a] * row[b], 0)));
+        const moment = active.map(a => rows.reduce((sum, row, i) => sum + row[a] * targets[i], 0));
+        const inverse = invert(gram);
+
+        const theta = spec.coefficients.map(key => prior[key]);
+        if (inverse) {
+            active.forEach((j, a) => {
+                theta[j] = inverse[a].reduce((sum, v, b) => sum + v * moment[b], 0);
+            });
+        }
+
+        const residualSquares = rows.reduce((sum, row, i) => {
+            const fitted = row.reduce((acc, v, j) => acc + v * theta[j], 0);
+            return sum + (targets[i] - fitted) ** 2;
+        }, 0);
+        const variance = residualSquares / rows.length;
+        const sigma = Math.sqrt(variance);
+
+        spec.coefficients.forEach((key, j) => {
+            const a = active.indexOf(j);
+            const identifiable = !!inverse && a >= 0;
+            const standardError = identifiable ? Math.sqrt(Math.max(0, variance * inverse![a][a])) : Infinity;
+            estimates[key] = {
+                value: theta[j],
+                standardError,
+                lower: identifiable ? theta[j] - z * standardError : -Infinity,
+                upper: identifiable ? theta[j] + z * standardError : Infinity,
+                identifiable
+            };
+            parameters[key] = Math.max(0, identifiable ? theta[j] : prior[key]);
+        });
+
+        // Asymptotic standard error of the MLE of sigma: sigma / sqrt(2N)
+        const sigmaError = sigma / Math.sqrt(2 * rows.length);
+        estimates[spec.sigma] = {
+            value: sigma,
+            standardError: sigmaError,
+            lower: Math.max(0, sigma - z * sigmaError),
+            upper: sigma + z * sigmaError,
+            identifiable: true
+        };
+        parameters[spec.sigma] = sigma;
+    }
+
+    const fitted: SimulationParameters = { ...prior, ...parameters };
+    const logLikelihood = transitions.reduce(
+        (sum, { from, to, dt }) => sum + eulerMaruyamaLogDensity(toState(from), to, fitted, { U: from.U }, dt),
+        0
+    );
+
+    return {
+        estimates,
+        parameters,
+        logLikelihood,
+        transitions: transitions.length,
+        skipped,
+        confidence
+    };
+}
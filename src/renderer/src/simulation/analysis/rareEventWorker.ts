@@ -0,0 +1,14 @@
+/**
+ * Web Worker entry for rare-event estimation: runs one estimate per worker, then is terminated
+ */
+
+import { RareEventJob, handleRareEventRequest } from './rareEvents';
+
+const context = self as unknown as {
+    onmessage: ((event: MessageEvent<RareEventJob>) => void) | null;
+    postMessage(message: unknown): void;
+};
+
+context.onmessage = event => {
+    context.postMessage(handleRareEventRequest(event.data));
+};
@@ -0,0 +1,99 @@
+import { DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, SimulationParameters } from '../types';
+import {
+    RareEventJob,
+    RareEventWorkerHandle,
+    RareEventWorkerResponse,
+    createRareEventWorkerExecutor,
+    estimateByDirectSimulation,
+    estimateFirstPassage,
+    handleRareEventRequest
+} from './rareEvents';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const PARAMS: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_A: 0.03 };
+
+function testAgreesWithDirectSimulation() {
+    const options = { horizon: 20, U: 0.3, threshold: 0.2 };
+    const direct = estimateByDirectSimulation(PARAMS, { ...options, seed: 3 }, 2000);
+    const ams = estimateFirstPassage(PARAMS, { ...options, seed: 4, replicas: 100, repetitions: 5 });
+    const gap = Math.abs(ams.probability - direct.probability);
+    const tolerance = 3 * Math.hypot(ams.stdError, direct.stdError);
+    assert(gap < tolerance, `AMS matches brute force (${ams.probability.toFixed(4)} vs ${direct.probability.toFixed(4)}, gap ${gap.toFixed(4)} < ${tolerance.toFixed(4)})`);
+    assert(ams.confidenceInterval[0] <= ams.probability && ams.probability <= ams.confidenceInterval[1], 'confidence interval brackets the estimate');
+
+    const cdf = ams.firstPassage.cdf;
+    assert(cdf.every((value, i) => i === 0 || value >= cdf[i - 1] - 1e-12), 'first-passage CDF is nondecreasing');
+    assert(Math.abs(cdf[cdf.length - 1] - ams.probability) < 1e-9, 'CDF at the horizon equals the passage probability');
+    assert(ams.meanPassageTime !== null && ams.meanPassageTime > 0 && ams.meanPassageTime <= ams.horizon, 'mean passage time lies inside the horizon');
+}
+
+function testRareEvent() {
+    const options = { horizon: 20, U: 0.3, threshold: 0.3 };
+    const direct = estimateByDirectSimulation(PARAMS, { ...options, seed: 3 }, 2000);
+    const ams = estimateFirstPassage(PARAMS, { ...options, seed: 4, replicas: 100, repetitions: 5 });
+    assert(direct.probability === 0, 'brute force never sees the rare crossing');
+    assert(ams.probability > 0 && ams.probability < 1e-3, `AMS resolves a rare probability (${ams.probability.toExponential(2)})`);
+    assert(ams.relativeError < 0.5, `relative error stays moderate (${ams.relativeError.toFixed(2)})`);
+    assert(ams.meanIterations > 100, 'rare events need many splitting levels');
+}
+
+function testEdgeCases() {
+    const already = estimateFirstPassage(PARAMS, { horizon: 5, U: 0.3, threshold: 0.2, initialState: { ...DEFAULT_INITIAL_STATE, A: 0.5 } });
+    assert(already.probability === 1 && already.meanPassageTime === 0, 'starting above the threshold is a certain, immediate passage');
+
+    const frozen = estimateFirstPassage({ ...PARAMS, sigma_A: 0, sigma_C: 0, sigma_D: 0 }, { horizon: 5, U: 0.3, threshold: 0.9, replicas: 10, repetitions: 2 });
+    assert(frozen.probability === 0 && frozen.meanPassageTime === null && frozen.relativeError === Infinity, 'unreachable threshold without noise has probability 0');
+}
+
+async function testWorkerExecutor() {
+    const job: RareEventJob = { params: PARAMS, options: { horizon: 5, U: 0.3, threshold: 0.2, seed: 2, replicas: 20, repetitions: 2 } };
+    let terminated = 0;
+    const execute = createRareEventWorkerExecutor((): RareEventWorkerHandle => {
+        let listener: ((response: RareEventWorkerResponse) => void) | null = null;
+        return {
+            post: posted => setTimeout(() => listener?.(structuredClone(handleRareEventRequest(structuredClone(posted)))), 0),
+            onMessage: next => { listener = next; },
+            onError: () => { },
+            terminate: () => { terminated++; }
+        };
+    });
+    const result = await execute(job);
+    assert(JSON.stringify(result) === JSON.stringify(estimateFirstPassage(job.params, job.options)), 'worker executor returns the same estimate as an inline run');
+    assert(terminated === 1, 'worker is terminated once the estimate arrives');
+
+    const abort = new AbortController();
+    const pending = execute(job, abort.signal);
+    abort.abort();
+    const aborted = await pending.then(() => false, () => true);
+    assert(aborted && terminated === 2, 'aborting rejects and terminates the worker');
+
+    const crashing = createRareEventWorkerExecutor(() => {
+        let fail: ((message: string) => void) | null = null;
+        return {
+            post: () => setTimeout(() => fail?.('worker crashed'), 0),
+            onMessage: () => { },
+            onError: next => { fail = next; },
+            terminate: () => { terminated++; }
+        };
+    });
+    const crashed = await crashing(job).then(() => '', (error: Error) => error.message);
+    assert(crashed === 'worker crashed' && terminated === 3, 'a crashed worker rejects the estimate and is terminated');
+}
+
+async function run() {
+    console.log('Starting Rare-Event Tests...');
+    testAgreesWithDirectSimulation();
+    testRareEvent();
+    testEdgeCases();
+    await testWorkerExecutor();
+    console.log('All rare-event tests passed!');
+}
+
+run();
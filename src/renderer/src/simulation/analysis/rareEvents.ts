@@ -0,0 +1,348 @@
+/**
+ * Rare-Event Estimation - first passage of agency to the alert threshold
+ *
+ * Adaptive multilevel splitting (AMS, Cérou & Guyader 2007) on the
+ * Euler-Maruyama dynamics. N replicas start from the current state and run
+ * until A reaches the threshold or the horizon T ends. Each iteration kills
+ * the replicas whose running maximum of A is lowest and re-branches them from
+ * a random survivor at the moment it first exceeded that level, so the
+ * ensemble climbs towards the threshold. With K_j replicas killed at
+ * iteration j and M replicas finally at the threshold,
+ *
+ *     P(max A >= A_alert before T) ≈ prod_j (1 - K_j / N) * M / N
+ *
+ * which is unbiased. Error bars come from independent repetitions. The
+ * crossing times of the final replicas, weighted the same way, give the
+ * first-passage-time distribution.
+ *
+ * An estimate steps replicas x repetitions paths over the whole horizon, so
+ * the app posts it to a Web Worker (rareEventWorker) through an executor.
+ */
+
+import { DEFAULT_INITIAL_STATE, SimulationParameters, SimulationState } from '../types';
+import { eulerMaruyamaStep } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+
+export interface RareEventOptions {
+    /** Horizon T in generations */
+    horizon: number;
+    /** Constant control during the runs */
+    U: number;
+    /** Agency level to reach (default params.A_alert) */
+    threshold?: number;
+    /** Replicas per splitting run (default 100) */
+    replicas?: number;
+    /** Independent splitting runs used for error bars (default 5) */
+    repetitions?: number;
+    /** Points of the first-passage CDF (default 40) */
+    timeBins?: number;
+    /** Safety cap on splitting iterations per run (default 5000) */
+    maxIterations?: number;
+    initialState?: SimulationState;
+    seed?: number;
+}
+
+export interface FirstPassageCurve {
+    /** Generations after the start */
+    times: number[];
+    /** P(first passage <= t) */
+    cdf: number[];
+    /** Standard error of each CDF point across repetitions */
+    stdError: number[];
+}
+
+export interface RareEventResult {
+    method: 'ams';
+    threshold: number;
+    horizon: number;
+    replicas: number;
+    /** Probability of reaching the threshold within the horizon (mean over repetitions) */
+    probability: number;
+    stdError: number;
+    /** 95% normal interval, clipped to [0, 1] */
+    confidenceInterval: [number, number];
+    /** stdError / probability (Infinity when nothing reached the threshold) */
+    relativeError: number;
+    /** Estimate of each repetition */
+    estimates: number[];
+    meanIterations: number;
+    /** E[first passage | passage before T]; null when no replica crossed */
+    meanPassageTime: number | null;
+    firstPassage: FirstPassageCurve;
+    /** Total Euler-Maruyama steps simulated */
+    evaluations: number;
+}
+
+/** One replica: its path up to now and where it stands */
+interface Replica {
+    path: SimulationState[];
+    /** Running maximum of A along the path */
+    level: number;
+    /** Step at which A first reached the threshold, or -1 */
+    hitStep: number;
+}
+
+/** Stateful counter of simulated steps shared by one estimation */
+interface StepBudget {
+    steps: number;
+}
+
+/**
+ * Continue a path (in place) until it hits the threshold or the horizon ends
+ */
+function extend(
+    replica: Replica,
+    params: SimulationParameters,
+    U: number,
+    threshold: number,
+    totalSteps: number,
+    rng: () => number,
+    budget: StepBudget
+) {
+    let state = replica.path[replica.path.length - 1];
+    while (replica.path.length - 1 < totalSteps) {
+        state = eulerMaruyamaStep(state, params, { U }, rng);
+        budget.steps++;
+        replica.path.push(state);
+        replica.level = Math.max(replica.level, state.A);
+        if (state.A >= threshold) {
+            replica.hitStep = replica.path.length - 1;
+            return;
+        }
+    }
+}
+
+/**
+ * One adaptive multilevel splitting run
+ */
+function splittingRun(
+    params: SimulationParameters,
+    start: SimulationState,
+    U: number,
+    threshold: number,
+    totalSteps: number,
+    replicas: number,
+    maxIterations: number,
+    rng: () => number,
+    budget: StepBudget
+): { probability: number; iterations: number; passages: Array<{ step: number; weight: number }> } {
+    const ensemble: Replica[] = Array.from({ length: replicas }, () => {
+        const replica: Replica = { path: [start], level: start.A, hitStep: -1 };
+        extend(replica, params, U, threshold, totalSteps, rng, budget);
+        return replica;
+    });
+
+    let weight = 1;
+    let iterations = 0;
+    while (iterations < maxIterations) {
+        const lowest = Math.min(...ensemble.map(replica => replica.level));
+        if (lowest >= threshold) break;
+
+        // Every replica tied at the lowest level is killed
+        const killed = ensemble.map((replica, i) => (replica.level <= lowest ? i : -1)).filter(i => i >= 0);
+        if (killed.length === replicas) {
+            weight = 0;
+            break;
+        }
+        const survivors = ensemble.filter(replica => replica.level > lowest);
+        weight *= 1 - killed.length / replicas;
+
+        for (const index of killed) {
+            const parent = survivors[Math.floor(rng() * survivors.length)];
+            const branch = parent.path.findIndex(state => state.A > lowest);
+            const path = parent.path.slice(0, branch + 1);
+            const child: Replica = {
+                path,
+                level: Math.max(...path.map(state => state.A)),
+                hitStep: path[branch].A >= threshold ? branch : -1
+            };
+            if (child.hitStep < 0) extend(child, params, U, threshold, totalSteps, rng, budget);
+            ensemble[index] = child;
+        }
+        iterations++;
+    }
+
+    const passages = ensemble
+        .filter(replica => replica.hitStep >= 0)
+        .map(replica => ({ step: replica.hitStep, weight: weight / replicas }));
+    return {
+        probability: passages.reduce((sum, passage) => sum + passage.weight, 0),
+        iterations,
+        passages
+    };
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const standardError = (values: number[]) => {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    const variance = values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1);
+    return Math.sqrt(variance / values.length);
+};
+
+/**
+ * Estimate the probability and timing of the first passage of A to the threshold
+ */
+export function estimateFirstPassage(params: SimulationParameters, options: RareEventOptions): RareEventResult {
+    const threshold = options.threshold ?? params.A_alert;
+    const replicas = Math.max(2, Math.floor(options.replicas ?? 100));
+    const repetitions = Math.max(1, Math.floor(options.repetitions ?? 5));
+    const timeBins = Math.max(1, Math.floor(options.timeBins ?? 40));
+    const maxIterations = Math.max(1, Math.floor(options.maxIterations ?? 5000));
+    const totalSteps = Math.max(1, Math.round(options.horizon / params.dt));
+    const horizon = totalSteps * params.dt;
+    const start: SimulationState = { ...(options.initialState ?? DEFAULT_INITIAL_STATE) };
+    const prng = new PRNG(options.seed ?? 1);
+    const rng = () => prng.next();
+    const budget: StepBudget = { steps: 0 };
+
+    const times = Array.from({ length: timeBins }, (_, k) => (horizon * (k + 1)) / timeBins);
+    const runs = Array.from({ length: repetitions }, () => {
+        if (start.A >= threshold) {
+            return { probability: 1, iterations: 0, passages: [{ step: 0, weight: 1 }] };
+        }
+        return splittingRun(params, start, options.U, threshold, totalSteps, replicas, maxIterations, rng, budget);
+    });
+
+    const estimates = runs.map(run => run.probability);
+    const probability = mean(estimates);
+    const stdError = standardError(estimates);
+    const cdfPerRun = runs.map(run => times.map(t => run.passages
+        .filter(passage => passage.step * params.dt <= t + 1e-9)
+        .reduce((sum, passage) => sum + passage.weight, 0)));
+
+    const pooled = runs.flatMap(run => run.passages);
+    const pooledWeight = pooled.reduce((sum, passage) => sum + passage.weight, 0);
+
+    return {
+        method: 'ams',
+        threshold,
+        horizon,
+        replicas,
+        probability,
+        stdError,
+        confidenceInterval: [Math.max(0, probability - 1.96 * stdError), Math.min(1, probability + 1.96 * stdError)],
+        relativeError: probability > 0 ? stdError / probability : Infinity,
+        estimates,
+        meanIterations: mean(runs.map(run => run.iterations)),
+        meanPassageTime: pooledWeight > 0
+            ? pooled.reduce((sum, passage) => sum + passage.step * params.dt * passage.weight, 0) / pooledWeight
+            : null,
+        firstPassage: {
+            times,
+            cdf: times.map((_, k) => mean(cdfPerRun.map(cdf => cdf[k]))),
+            stdError: times.map((_, k) => standardError(cdfPerRun.map(cdf => cdf[k])))
+        },
+        evaluations: budget.steps
+    };
+}
+
+/**
+ * Brute-force reference: fraction of independent runs reaching the threshold within the horizon
+ */
+export function estimateByDirectSimulation(
+    params: SimulationParameters,
+    options: Pick<RareEventOptions, 'horizon' | 'U' | 'threshold' | 'initialState' | 'seed'>,
+    runs: number
+): { probability: number; stdError: number } {
+    const threshold = options.threshold ?? params.A_alert;
+    const totalSteps = Math.max(1, Math.round(options.horizon / params.dt));
+    const prng = new PRNG(options.seed ?? 1);
+    const rng = () => prng.next();
+    let hits = 0;
+    for (let r = 0; r < runs; r++) {
+        let state: SimulationState = { ...(options.initialState ?? DEFAULT_INITIAL_STATE) };
+        for (let i = 0; i < totalSteps && state.A < threshold; i++) {
+            state = eulerMaruyamaStep(state, params, { U: options.U }, rng);
+        }
+        if (state.A >= threshold) hits++;
+    }
+    const probability = hits / runs;
+    return { probability, stdError: Math.sqrt((probability * (1 - probability)) / runs) };
+}
+
+/** A whole estimate, posted to a rare-event worker */
+export interface RareEventJob {
+    params: SimulationParameters;
+    options: RareEventOptions;
+}
+
+export interface RareEventWorkerResponse {
+    result?: RareEventResult;
+    error?: string;
+}
+
+/** Runs a job somewhere and resolves with its result; aborting rejects and stops the run */
+export type RareEventExecutor = (job: RareEventJob, signal?: AbortSignal) => Promise<RareEventResult>;
+
+/** Minimal interface over a Web Worker */
+export interface RareEventWorkerHandle {
+    post(job: RareEventJob): void;
+    onMessage(listener: (response: RareEventWorkerResponse) => void): void;
+    /** The worker failed to load, crashed or sent an unreadable message */
+    onError(listener: (message: string) => void): void;
+    terminate(): void;
+}
+
+/**
+ * Body of a rare-event worker: run the estimate and report the result or the failure
+ */
+export function handleRareEventRequest(job: RareEventJob): RareEventWorkerResponse {
+    try {
+        return { result: estimateFirstPassage(job.params, job.options) };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+const abortError = () => new Error('Rare-event estimate aborted');
+
+/** Runs on the calling thread after yielding once, for environments without workers */
+export const runRareEventInline: RareEventExecutor = (job, signal) => new Promise((resolve, reject) => {
+    setTimeout(() => {
+        if (signal?.aborted) return reject(abortError());
+        const response = handleRareEventRequest(job);
+        if (response.result) resolve(response.result);
+        else reject(new Error(response.error));
+    }, 0);
+});
+
+export function wrapRareEventWorker(worker: Worker): RareEventWorkerHandle {
+    return {
+        post: job => worker.postMessage(job),
+        onMessage: listener => worker.addEventListener('message', event => listener(event.data as RareEventWorkerResponse)),
+        onError: listener => {
+            worker.addEventListener('error', event => listener(event.message || 'Rare-event worker failed to load or crashed'));
+            worker.addEventListener('messageerror', () => listener('Rare-event worker sent a message that could not be read'));
+        },
+        terminate: () => worker.terminate()
+    };
+}
+
+/**
+ * Executor that spawns a worker per estimate and terminates it with the result,
+ * on a worker failure or on abort
+ */
+export function createRareEventWorkerExecutor(spawn: () => RareEventWorkerHandle): RareEventExecutor {
+    return (job, signal) => new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const worker = spawn();
+        let settled = false;
+        const settle = (outcome: () => void) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+            outcome();
+        };
+        const onAbort = () => settle(() => reject(abortError()));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        worker.onMessage(response => settle(() => {
+            if (response.result) resolve(response.result);
+            else reject(new Error(response.error ?? 'Rare-event worker failed'));
+        }));
+        worker.onError(message => settle(() => reject(new Error(message))));
+        worker.post(job);
+    });
+}
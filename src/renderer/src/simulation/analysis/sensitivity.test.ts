@@ -0,0 +1,118 @@
+import { DEFAULT_PARAMETERS, SimulationParameters } from '../types';
+import { PRNG } from '../../common/prng';
+import {
+    defaultRanges,
+    estimateMorrisEffects,
+    estimateSobolIndices,
+    createSensitivityWorkerExecutor,
+    handleSensitivityRequest,
+    runSensitivityAnalysis,
+    SensitivityJob,
+    SensitivityWorkerHandle,
+    SensitivityWorkerResponse
+} from './sensitivity';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const BASE: SimulationParameters = { ...DEFAULT_PARAMETERS, dt: 0.1 };
+
+function testAnalyticSobol() {
+    // y = x0 + 2 x1 with uniform inputs: Var = 1/12 + 4/12, so S0 = 0.2, S1 = 0.8, x2 is inert
+    const prng = new PRNG(7);
+    const sobol = estimateSobolIndices(x => [x[0] + 2 * x[1]], 3, 4000, () => prng.next());
+    const [s0, s1, s2] = sobol.firstOrder[0];
+    const [t0, t1, t2] = sobol.total[0];
+    assert(Math.abs(s0 - 0.2) < 0.05 && Math.abs(s1 - 0.8) < 0.05, `first-order indices match the additive model (${s0.toFixed(3)}, ${s1.toFixed(3)})`);
+    assert(Math.abs(t0 - 0.2) < 0.05 && Math.abs(t1 - 0.8) < 0.05, `total indices match the additive model (${t0.toFixed(3)}, ${t1.toFixed(3)})`);
+    assert(Math.abs(s2) < 1e-12 && t2 === 0, 'inert input has zero indices');
+    assert(sobol.evaluations === 4000 * 5, 'Saltelli design uses N(k + 2) evaluations');
+}
+
+function testAnalyticMorris() {
+    const prng = new PRNG(9);
+    const morris = estimateMorrisEffects(x => [3 * x[0] + x[1] * x[2]], 3, 40, 4, () => prng.next());
+    const [mu0, mu1, mu2] = morris.muStar[0];
+    const [sd0] = morris.sigma[0];
+    assert(Math.abs(mu0 - 3) < 1e-9 && sd0 < 1e-9, `linear input has constant elementary effect 3 (${mu0.toFixed(3)})`);
+    assert(mu1 > 0 && mu2 > 0 && morris.sigma[0][1] > 0, 'interacting inputs show non-zero mu* and sigma');
+    assert(morris.evaluations === 40 * 4, 'Morris design uses r(k + 1) evaluations');
+}
+
+function testSdeRanking() {
+    const ranges = defaultRanges(BASE, ['k_D_decay', 'k_DU', 'k_AC', 'k_A_decay']);
+    const result = runSensitivityAnalysis(BASE, ranges, { samples: 48, steps: 200, U: 0.5, seed: 3 });
+    const finalD = result.outputs.find(output => output.output === 'finalD')!;
+    const peakA = result.outputs.find(output => output.output === 'peakA')!;
+
+    const agencyOnly = finalD.indices.filter(index => index.parameter === 'k_AC' || index.parameter === 'k_A_decay');
+    assert(agencyOnly.every(index => index.total === 0), 'agency coefficients have zero total effect on final D');
+    assert(['k_D_decay', 'k_DU'].includes(finalD.indices[0].parameter), `final D is driven by a diversity coefficient (${finalD.indices[0].parameter})`);
+    assert(['k_AC', 'k_A_decay'].includes(peakA.indices[0].parameter), `peak A is driven by an agency coefficient (${peakA.indices[0].parameter})`);
+    assert(result.evaluations === 48 * 6, 'evaluation count is reported');
+
+    const again = runSensitivityAnalysis(BASE, ranges, { samples: 48, steps: 200, U: 0.5, seed: 3 });
+    assert(JSON.stringify(again) === JSON.stringify(result), 'analysis is deterministic for a fixed seed');
+
+    const morris = runSensitivityAnalysis(BASE, ranges, { method: 'morris', samples: 10, steps: 200, U: 0.5, seed: 3 });
+    const morrisD = morris.outputs.find(output => output.output === 'finalD')!;
+    assert(morrisD.indices.filter(index => index.parameter === 'k_AC').every(index => index.muStar === 0), 'Morris screening also finds k_AC inert for final D');
+}
+
+async function testWorkerExecutor() {
+    const job: SensitivityJob = { base: BASE, ranges: defaultRanges(BASE, ['k_DU', 'k_AC']), options: { samples: 8, steps: 50, seed: 2 } };
+    let terminated = 0;
+    const spawn = (): SensitivityWorkerHandle => {
+        let listener: ((response: SensitivityWorkerResponse) => void) | null = null;
+        return {
+            post: posted => setTimeout(() => listener?.(structuredClone(handleSensitivityRequest(structuredClone(posted)))), 0),
+            onMessage: next => { listener = next; },
+            onError: () => { },
+            terminate: () => { terminated++; }
+        };
+    };
+    const execute = createSensitivityWorkerExecutor(spawn);
+
+    const result = await execute(job);
+    assert(JSON.stringify(result) === JSON.stringify(runSensitivityAnalysis(job.base, job.ranges, job.options)), 'worker executor returns the same result as an inline run');
+    assert(terminated === 1, 'worker is terminated once the result arrives');
+
+    const abort = new AbortController();
+    const pending = execute(job, abort.signal);
+    abort.abort();
+    const aborted = await pending.then(() => false, () => true);
+    assert(aborted && terminated === 2, 'aborting rejects and terminates the worker');
+
+    const crashing = createSensitivityWorkerExecutor(() => {
+        let fail: ((message: string) => void) | null = null;
+        return {
+            post: () => setTimeout(() => fail?.('worker crashed'), 0),
+            onMessage: () => { },
+            onError: next => { fail = next; },
+            terminate: () => { terminated++; }
+        };
+    });
+    const crashAbort = new AbortController();
+    const crashed = await crashing(job, crashAbort.signal).then(() => '', (error: Error) => error.message);
+    crashAbort.abort();
+    assert(crashed === 'worker crashed' && terminated === 3, 'a crashed worker rejects the analysis and is terminated once');
+
+    const failed = handleSensitivityRequest({ ...job, ranges: null as unknown as SensitivityJob['ranges'] });
+    assert(failed.result === undefined && typeof failed.error === 'string', 'worker reports a failed analysis as an error');
+}
+
+async function run() {
+    console.log('Starting Sensitivity Analysis Tests...');
+    testAnalyticSobol();
+    testAnalyticMorris();
+    testSdeRanking();
+    await testWorkerExecutor();
+    console.log('All sensitivity tests passed!');
+}
+
+run();
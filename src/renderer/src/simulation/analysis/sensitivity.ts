@@ -0,0 +1,386 @@
+/**
+ * Global Sensitivity Analysis - Sobol and Morris screening of SimulationParameters
+ *
+ * Samples each selected coefficient uniformly inside a range, runs the CPU SDE
+ * engine headlessly for every design point and attributes the variance of the
+ * run outputs (peak A, time-to-alert, final D) to the parameters.
+ *
+ * Sobol: Saltelli design with N(k + 2) runs; first-order indices use the
+ * Saltelli (2010) estimator, total indices the Jansen estimator.
+ * Morris: r one-at-a-time trajectories on a p-level grid (r(k + 1) runs),
+ * reporting mu* (mean absolute elementary effect) and sigma.
+ *
+ * Every run of one Saltelli row or Morris trajectory shares its noise seed
+ * (common random numbers), so differences between them come from the
+ * parameters alone.
+ *
+ * A sweep is thousands of runs, so the app posts it to a Web Worker
+ * (sensitivityWorker) through an executor and keeps the UI thread free.
+ */
+
+import { DEFAULT_INITIAL_STATE, SimulationParameters, SimulationState } from '../types';
+import { integrateStep } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { ContinuationParameter } from './bifurcation';
+
+/** Parameter that can be varied: a drift coefficient or a noise scale */
+export type SensitivityParameter = Exclude<ContinuationParameter, 'U'> | 'sigma_C' | 'sigma_D' | 'sigma_A';
+
+export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
+    'k_CD', 'k_AC', 'k_DU', 'k_U',
+    'k_C_decay', 'k_D_growth', 'k_D_decay', 'k_AU', 'k_A_decay',
+    'sigma_C', 'sigma_D', 'sigma_A'
+];
+
+export type SensitivityOutput = 'peakA' | 'timeToAlert' | 'finalD';
+
+export const SENSITIVITY_OUTPUTS: SensitivityOutput[] = ['peakA', 'timeToAlert', 'finalD'];
+
+export type SensitivityMethod = 'sobol' | 'morris';
+
+export interface ParameterRange {
+    parameter: SensitivityParameter;
+    min: number;
+    max: number;
+}
+
+export interface SensitivityOptions {
+    /** Design to run (default sobol) */
+    method?: SensitivityMethod;
+    /** Sobol base samples N, or Morris trajectories r (default 64) */
+    samples?: number;
+    /** Morris grid levels p (default 4) */
+    levels?: number;
+    /** Integration steps per run (default 500) */
+    steps?: number;
+    /** Constant control applied during every run (default 0.2) */
+    U?: number;
+    /** Initial state of every run */
+    initialState?: SimulationState;
+    /** Seed for the design and the noise (default 1) */
+    seed?: number;
+}
+
+/** Importance of one parameter for one output */
+export interface SensitivityIndex {
+    parameter: SensitivityParameter;
+    /** Sobol first-order index S_i */
+    firstOrder?: number;
+    /** Sobol total-effect index S_Ti */
+    total?: number;
+    /** Morris mean absolute elementary effect, per unit of the normalized range */
+    muStar?: number;
+    /** Morris standard deviation of the elementary effects (interactions/non-linearity) */
+    sigma?: number;
+}
+
+export interface OutputSensitivity {
+    output: SensitivityOutput;
+    mean: number;
+    variance: number;
+    /** Ranked by total index (Sobol) or mu* (Morris), most influential first */
+    indices: SensitivityIndex[];
+}
+
+export interface SensitivityResult {
+    method: SensitivityMethod;
+    ranges: ParameterRange[];
+    samples: number;
+    steps: number;
+    U: number;
+    seed: number;
+    /** Number of SDE runs performed */
+    evaluations: number;
+    outputs: OutputSensitivity[];
+}
+
+/** Model on the unit hypercube returning one value per output */
+export type UnitModel = (x: number[], noiseSeed: number) => number[];
+
+/**
+ * Default ranges: +/-50% around the current value of each parameter
+ */
+export function defaultRanges(
+    params: SimulationParameters,
+    parameters: SensitivityParameter[] = SENSITIVITY_PARAMETERS
+): ParameterRange[] {
+    return parameters.map(parameter => {
+        const value = params[parameter];
+        return { parameter, min: Number((value * 0.5).toFixed(4)), max: Number((value * 1.5).toFixed(4)) };
+    });
+}
+
+/**
+ * Run one headless SDE trajectory and measure the outputs.
+ * Time-to-alert is the first generation with A >= A_alert, or the horizon when the alert is never reached.
+ */
+export function evaluateRun(
+    params: SimulationParameters,
+    options: { steps: number; U: number; initialState?: SimulationState; seed: number }
+): Record<SensitivityOutput, number> {
+    const prng = new PRNG(options.seed);
+    const rng = () => prng.next();
+    let state: SimulationState = { ...(options.initialState ?? DEFAULT_INITIAL_STATE), generation: 0 };
+    let peakA = state.A;
+    let timeToAlert: number | null = state.A >= params.A_alert ? 0 : null;
+
+    for (let i = 0; i < options.steps; i++) {
+        state = integrateStep(state, params, { U: options.U }, rng);
+        peakA = Math.max(peakA, state.A);
+        if (timeToAlert === null && state.A >= params.A_alert) {
+            timeToAlert = state.generation;
+        }
+    }
+
+    return {
+        peakA,
+        timeToAlert: timeToAlert ?? options.steps * params.dt,
+        finalD: state.D
+    };
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+
+const variance = (values: number[]) => {
+    const m = mean(values);
+    return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(1, values.length - 1);
+};
+
+/**
+ * Saltelli-design Sobol indices of a unit-cube model with `dims` inputs.
+ * Returns [output][parameter] first-order and total indices plus output mean/variance.
+ */
+export function estimateSobolIndices(
+    model: UnitModel,
+    dims: number,
+    samples: number,
+    rng: () => number
+): { mean: number[]; variance: number[]; firstOrder: number[][]; total: number[][]; evaluations: number } {
+    const A = Array.from({ length: samples }, () => Array.from({ length: dims }, rng));
+    const B = Array.from({ length: samples }, () => Array.from({ length: dims }, rng));
+    const noise = Array.from({ length: samples }, () => Math.floor(rng() * 0x7fffffff));
+
+    const fA = A.map((x, i) => model(x, noise[i]));
+    const fB = B.map((x, i) => model(x, noise[i]));
+    const fAB = Array.from({ length: dims }, (_, j) =>
+        A.map((row, i) => model(row.map((v, k) => (k === j ? B[i][j] : v)), noise[i]))
+    );
+
+    const outputs = fA[0]?.length ?? 0;
+    const result = { mean: [] as number[], variance: [] as number[], firstOrder: [] as number[][], total: [] as number[][] };
+    for (let o = 0; o < outputs; o++) {
+        const yA = fA.map(y => y[o]);
+        const yB = fB.map(y => y[o]);
+        const all = [...yA, ...yB];
+        const V = variance(all);
+        result.mean.push(mean(all));
+        result.variance.push(V);
+        result.firstOrder.push(fAB.map(rows => {
+            if (!(V > 0)) return 0;
+            return mean(rows.map((y, i) => yB[i] * (y[o] - yA[i]))) / V;
+        }));
+        result.total.push(fAB.map(rows => {
+            if (!(V > 0)) return 0;
+            return mean(rows.map((y, i) => (yA[i] - y[o]) ** 2)) / (2 * V);
+        }));
+    }
+
+    return { ...result, evaluations: samples * (dims + 2) };
+}
+
+/**
+ * Morris elementary effects of a unit-cube model from `trajectories` one-at-a-time paths
+ */
+export function estimateMorrisEffects(
+    model: UnitModel,
+    dims: number,
+    trajectories: number,
+    levels: number,
+    rng: () => number
+): { mean: number[]; variance: number[]; muStar: number[][]; sigma: number[][]; evaluations: number } {
+    const p = Math.max(2, Math.floor(levels));
+    const delta = p / (2 * (p - 1));
+    const baseLevels = Math.max(1, Math.floor(p / 2));
+    const effects: number[][][] = [];
+    const values: number[][] = [];
+
+    for (let t = 0; t < trajectories; t++) {
+        const seed = Math.floor(rng() * 0x7fffffff);
+        const order = Array.from({ length: dims }, (_, j) => j);
+        for (let j = dims - 1; j > 0; j--) {
+            const swap = Math.floor(rng() * (j + 1));
+            [order[j], order[swap]] = [order[swap], order[j]];
+        }
+        let x = Array.from({ length: dims }, () => Math.floor(rng() * baseLevels) / (p - 1));
+        let y = model(x, seed);
+        values.push(y);
+
+        for (const j of order) {
+            const next = [...x];
+            next[j] = x[j] + delta <= 1 + 1e-12 ? x[j] + delta : x[j] - delta;
+            const yNext = model(next, seed);
+            values.push(yNext);
+            const step = next[j] - x[j];
+            yNext.forEach((value, o) => {
+                effects[o] ??= Array.from({ length: dims }, () => []);
+                effects[o][j].push((value - y[o]) / step);
+            });
+            x = next;
+            y = yNext;
+        }
+    }
+
+    const outputs = values[0]?.length ?? 0;
+    const result = { mean: [] as number[], variance: [] as number[], muStar: [] as number[][], sigma: [] as number[][] };
+    for (let o = 0; o < outputs; o++) {
+        const column = values.map(v => v[o]);
+        result.mean.push(mean(column));
+        result.variance.push(variance(column));
+        result.muStar.push(effects[o].map(ee => mean(ee.map(Math.abs))));
+        result.sigma.push(effects[o].map(ee => Math.sqrt(variance(ee))));
+    }
+
+    return { ...result, evaluations: trajectories * (dims + 1) };
+}
+
+/**
+ * Rank how strongly each parameter range drives peak A, time-to-alert and final D
+ */
+export function runSensitivityAnalysis(
+    base: SimulationParameters,
+    ranges: ParameterRange[],
+    options: SensitivityOptions = {}
+): SensitivityResult {
+    const method = options.method ?? 'sobol';
+    const samples = Math.max(2, Math.floor(options.samples ?? 64));
+    const steps = Math.max(1, Math.floor(options.steps ?? 500));
+    const U = Math.min(1, Math.max(0, options.U ?? 0.2));
+    const seed = options.seed ?? 1;
+    const active = ranges.filter(range => Number.isFinite(range.min) && Number.isFinite(range.max) && range.max >= range.min);
+
+    const model: UnitModel = (x, noiseSeed) => {
+        const params: SimulationParameters = { ...base };
+        active.forEach((range, j) => {
+            params[range.parameter] = range.min + x[j] * (range.max - range.min);
+        });
+        const outputs = evaluateRun(params, { steps, U, initialState: options.initialState, seed: noiseSeed });
+        return SENSITIVITY_OUTPUTS.map(key => outputs[key]);
+    };
+
+    const prng = new PRNG(seed);
+    const rng = () => prng.next();
+    let evaluations: number;
+    let outputs: OutputSensitivity[];
+
+    if (method === 'morris') {
+        const morris = estimateMorrisEffects(model, active.length, samples, options.levels ?? 4, rng);
+        evaluations = morris.evaluations;
+        outputs = SENSITIVITY_OUTPUTS.map((output, o) => ({
+            output,
+            mean: morris.mean[o],
+            variance: morris.variance[o],
+            indices: active
+                .map((range, j) => ({ parameter: range.parameter, muStar: morris.muStar[o][j], sigma: morris.sigma[o][j] }))
+                .sort((a, b) => b.muStar - a.muStar)
+        }));
+    } else {
+        const sobol = estimateSobolIndices(model, active.length, samples, rng);
+        evaluations = sobol.evaluations;
+        outputs = SENSITIVITY_OUTPUTS.map((output, o) => ({
+            output,
+            mean: sobol.mean[o],
+            variance: sobol.variance[o],
+            indices: active
+                .map((range, j) => ({ parameter: range.parameter, firstOrder: sobol.firstOrder[o][j], total: sobol.total[o][j] }))
+                .sort((a, b) => b.total - a.total)
+        }));
+    }
+
+    return { method, ranges: active, samples, steps, U, seed, evaluations, outputs };
+}
+
+/** A whole analysis, posted to a sensitivity worker */
+export interface SensitivityJob {
+    base: SimulationParameters;
+    ranges: ParameterRange[];
+    options: SensitivityOptions;
+}
+
+export interface SensitivityWorkerResponse {
+    result?: SensitivityResult;
+    error?: string;
+}
+
+/** Runs a job somewhere and resolves with its result; aborting rejects and stops the run */
+export type SensitivityExecutor = (job: SensitivityJob, signal?: AbortSignal) => Promise<SensitivityResult>;
+
+/** Minimal interface over a Web Worker */
+export interface SensitivityWorkerHandle {
+    post(job: SensitivityJob): void;
+    onMessage(listener: (response: SensitivityWorkerResponse) => void): void;
+    /** The worker failed to load, crashed or sent an unreadable message */
+    onError(listener: (message: string) => void): void;
+    terminate(): void;
+}
+
+/**
+ * Body of a sensitivity worker: run the analysis and report the result or the failure
+ */
+export function handleSensitivityRequest(job: SensitivityJob): SensitivityWorkerResponse {
+    try {
+        return { result: runSensitivityAnalysis(job.base, job.ranges, job.options) };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+const abortError = () => new Error('Sensitivity analysis aborted');
+
+/** Runs on the calling thread after yielding once, for environments without workers */
+export const runSensitivityInline: SensitivityExecutor = (job, signal) => new Promise((resolve, reject) => {
+    setTimeout(() => {
+        if (signal?.aborted) return reject(abortError());
+        const response = handleSensitivityRequest(job);
+        if (response.result) resolve(response.result);
+        else reject(new Error(response.error));
+    }, 0);
+});
+
+export function wrapSensitivityWorker(worker: Worker): SensitivityWorkerHandle {
+    return {
+        post: job => worker.postMessage(job),
+        onMessage: listener => worker.addEventListener('message', event => listener(event.data as SensitivityWorkerResponse)),
+        onError: listener => {
+            worker.addEventListener('error', event => listener(event.message || 'Sensitivity worker failed to load or crashed'));
+            worker.addEventListener('messageerror', () => listener('Sensitivity worker sent a message that could not be read'));
+        },
+        terminate: () => worker.terminate()
+    };
+}
+
+/**
+ * Executor that spawns a worker per analysis and terminates it with the result,
+ * on a worker failure or on abort, so the sweep never blocks the UI thread
+ */
+export function createSensitivityWorkerExecutor(spawn: () => SensitivityWorkerHandle): SensitivityExecutor {
+    return (job, signal) => new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const worker = spawn();
+        let settled = false;
+        const settle = (outcome: () => void) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+            outcome();
+        };
+        const onAbort = () => settle(() => reject(abortError()));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        worker.onMessage(response => settle(() => {
+            if (response.result) resolve(response.result);
+            else reject(new Error(response.error ?? 'Sensitivity worker failed'));
+        }));
+        worker.onError(message => settle(() => reject(new Error(message))));
+        worker.post(job);
+    });
+}
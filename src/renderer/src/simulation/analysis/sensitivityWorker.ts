@@ -0,0 +1,14 @@
+/**
+ * Web Worker entry for global sensitivity analysis: runs one analysis per worker, then is terminated
+ */
+
+import { SensitivityJob, handleSensitivityRequest } from './sensitivity';
+
+const context = self as unknown as {
+    onmessage: ((event: MessageEvent<SensitivityJob>) => void) | null;
+    postMessage(message: unknown): void;
+};
+
+context.onmessage = event => {
+    context.postMessage(handleSensitivityRequest(event.data));
+};
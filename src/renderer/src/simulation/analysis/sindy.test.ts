@@ -0,0 +1,116 @@
+import { DEFAULT_PARAMETERS, SimulationParameters, SimulationState, TelemetryPoint } from '../types';
+import { computeDriftRates, integrateStep } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { buildLibrary, createRatePredictor, discoverEquations, DiscoveredEquation } from './sindy';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const PARAMS: SimulationParameters = {
+    ...DEFAULT_PARAMETERS,
+    sigma_C: 0.001,
+    sigma_D: 0.001,
+    sigma_A: 0.001,
+    dt: 0.05
+};
+
+/**
+ * Several short runs from scattered initial conditions with a switching U
+ */
+function simulateHistories(runs: number, steps: number, seed: number): TelemetryPoint[][] {
+    const prng = new PRNG(seed);
+    const rng = () => prng.next();
+    const histories: TelemetryPoint[][] = [];
+    for (let r = 0; r < runs; r++) {
+        let state: SimulationState = { C: 0.1 + 0.8 * rng(), D: 0.1 + 0.8 * rng(), A: 0.1 + 0.8 * rng(), alertRate: 0, generation: 0 };
+        let U = rng();
+        const history: TelemetryPoint[] = [];
+        for (let i = 0; i < steps; i++) {
+            if (i % 20 === 0) U = rng();
+            history.push({ generation: state.generation, C: state.C, D: state.D, A: state.A, U, alertRate: state.alertRate });
+            state = integrateStep(state, PARAMS, { U }, rng, 'euler-maruyama');
+        }
+        histories.push(history);
+    }
+    return histories;
+}
+
+function coefficient(equation: DiscoveredEquation, label: string): number {
+    return equation.terms.find(term => term.label === label)?.coefficient ?? 0;
+}
+
+function testLibrary() {
+    const library = buildLibrary(2);
+    assert(library.length === 15, 'degree-2 library over C, D, A, U has 15 monomials');
+    assert(library[0].label === '1' && library[1].label === 'C' && library.some(t => t.label === 'C^2'), 'library is ordered constant, linear, quadratic');
+    assert(buildLibrary(3).length === 35, 'degree-3 library has 35 monomials');
+}
+
+function testRecoversMacroEquations() {
+    const histories = simulateHistories(400, 60, 11);
+    const result = discoverEquations(histories, { degree: 3, threshold: 0.03 });
+    assert(result !== null, 'discovery returns a result');
+    if (!result) return;
+
+    const [eqC, eqD, eqA] = result.equations;
+    result.equations.forEach(eq => console.log(`   ${eq.latex}  (R² ${eq.rSquared.toFixed(4)})`));
+
+    // E1: k_CD D - k_CD C D + k_U U - k_U C U - k_C_decay C
+    const expectedC: Record<string, number> = { D: 0.12, 'C*D': -0.12, U: 0.08, 'C*U': -0.08, C: -0.3 };
+    // E2: k_D_growth - k_D_growth D - k_DU D U - k_D_decay D^2
+    const expectedD: Record<string, number> = { '1': 0.25, D: -0.25, 'D*U': -0.35, 'D^2': -0.15 };
+    // E3: k_AC C - k_AC C A + k_AU C U - k_AU C A U - k_A_decay A
+    const expectedA: Record<string, number> = { C: 0.1, 'C*A': -0.1, 'C*U': 0.4, 'C*A*U': -0.4, A: -0.35 };
+
+    for (const [equation, expected] of [[eqC, expectedC], [eqD, expectedD], [eqA, expectedA]] as const) {
+        const labels = equation.terms.map(t => t.label).sort();
+        assert(
+            JSON.stringify(labels) === JSON.stringify(Object.keys(expected).sort()),
+            `d${equation.variable}/dt support is recovered exactly (${labels.join(', ')})`
+        );
+        const worst = Math.max(...Object.entries(expected).map(([label, value]) => Math.abs(coefficient(equation, label) - value)));
+        assert(worst < 0.02, `d${equation.variable}/dt coefficients within 0.02 (worst ${worst.toFixed(4)})`);
+    }
+
+    const predict = createRatePredictor(result);
+    const point = { C: 0.4, D: 0.6, A: 0.3, U: 0.5 };
+    const predicted = predict(point);
+    const truth = computeDriftRates({ ...point, alertRate: 0, generation: 0 }, PARAMS, { U: point.U });
+    const predictionError = Math.max(Math.abs(predicted.C - truth.dC), Math.abs(predicted.D - truth.dD), Math.abs(predicted.A - truth.dA));
+    assert(predictionError < 0.01, `rate predictor reproduces the true drift (error ${predictionError.toFixed(4)})`);
+
+    assert(eqC.latex.startsWith('\\dot{C} = ') && eqC.latex.includes('\\,C D'), 'LaTeX uses dot notation and monomials');
+}
+
+function testRefitsFinalSupport() {
+    const histories = simulateHistories(400, 60, 11);
+    // One round: the full fit is pruned once and the survivors must still be refit
+    const result = discoverEquations(histories, { degree: 3, threshold: 0.03, maxIterations: 1 });
+    assert(result !== null, 'single-round discovery returns a result');
+    if (!result) return;
+    const eqD = result.equations[1];
+    const worst = Math.max(...Object.entries({ '1': 0.25, D: -0.25, 'D*U': -0.35, 'D^2': -0.15 })
+        .map(([label, value]) => Math.abs(coefficient(eqD, label) - value)));
+    assert(worst < 0.02, `coefficients after the last pruning are refit (worst ${worst.toFixed(4)})`);
+}
+
+function testTooFewSamples() {
+    const short = simulateHistories(1, 10, 3)[0];
+    assert(discoverEquations(short) === null, 'short history returns null');
+}
+
+function run() {
+    console.log('Starting Sparse Model Discovery Tests...');
+    testLibrary();
+    testRecoversMacroEquations();
+    testRefitsFinalSupport();
+    testTooFewSamples();
+    console.log('All SINDy tests passed!');
+}
+
+run();
@@ -0,0 +1,296 @@
+/**
+ * Sparse Model Discovery - SINDy-style regression of macro drift equations
+ *
+ * Learns dC/dt, dD/dt and dA/dt directly from telemetry instead of assuming
+ * E1-E3. Derivatives come from central differences along each history; the
+ * candidate library holds every monomial in C, D, A and U up to a chosen
+ * degree; sequentially thresholded least squares (STLSQ) prunes it to a
+ * sparse set of active terms per equation, whose coefficients are the least
+ * squares fit on that final support.
+ */
+
+import { TelemetryPoint } from '../types';
+
+export type SindyInput = 'C' | 'D' | 'A' | 'U';
+export type SindyTarget = 'C' | 'D' | 'A';
+
+const INPUTS: SindyInput[] = ['C', 'D', 'A', 'U'];
+const TARGETS: SindyTarget[] = ['C', 'D', 'A'];
+
+/** One candidate term: a monomial in the inputs */
+export interface SindyTerm {
+    /** Exponent per input, in INPUTS order */
+    powers: number[];
+    /** Plain-text name, e.g. "C*D" or "1" */
+    label: string;
+    latex: string;
+}
+
+export interface DiscoveredTerm {
+    label: string;
+    latex: string;
+    coefficient: number;
+}
+
+export interface DiscoveredEquation {
+    variable: SindyTarget;
+    terms: DiscoveredTerm[];
+    /** Fraction of derivative variance explained by the sparse model */
+    rSquared: number;
+    latex: string;
+}
+
+export interface SindyOptions {
+    /** Highest monomial degree in the library (default 2) */
+    degree?: number;
+    /** Terms with |coefficient| below this are pruned (default 0.02) */
+    threshold?: number;
+    /** Ridge penalty added to the normal equations (default 1e-8) */
+    ridge?: number;
+    /** STLSQ rounds (default 10) */
+    maxIterations?: number;
+}
+
+export interface SindyResult {
+    equations: DiscoveredEquation[];
+    library: string[];
+    samples: number;
+    degree: number;
+    threshold: number;
+}
+
+/** Fewest derivative samples for a fit */
+export const MIN_SINDY_SAMPLES = 20;
+
+/**
+ * All monomials in C, D, A, U with total degree <= degree (constant first)
+ */
+export function buildLibrary(degree: number): SindyTerm[] {
+    const terms: SindyTerm[] = [];
+    const recurse = (index: number, remaining: number, powers: number[]) => {
+        if (index === INPUTS.length) {
+            terms.push(describeTerm(powers));
+            return;
+        }
+        for (let p = 0; p <= remaining; p++) {
+            recurse(index + 1, remaining - p, [...powers, p]);
+        }
+    };
+    recurse(0, Math.max(0, Math.floor(degree)), []);
+
+    const total = (t: SindyTerm) => t.powers.reduce((a, b) => a + b, 0);
+    return terms.sort((a, b) => total(a) - total(b) || compareLex(b.powers, a.powers));
+}
+
+function compareLex(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+}
+
+function describeTerm(powers: number[]): SindyTerm {
+    const factors = INPUTS
+        .map((name, i) => ({ name, power: powers[i] }))
+        .filter(f => f.power > 0);
+    if (factors.length === 0) {
+        return { powers, label: '1', latex: '' };
+    }
+    return {
+        powers,
+        label: factors.map(f => (f.power === 1 ? f.name : `${f.name}^${f.power}`)).join('*'),
+        latex: factors.map(f => (f.power === 1 ? f.name : `${f.name}^{${f.power}}`)).join(' ')
+    };
+}
+
+function evaluateTerm(term: SindyTerm, values: number[]): number {
+    let result = 1;
+    for (let i = 0; i < values.length; i++) {
+        for (let p = 0; p < term.powers[i]; p++) result *= values[i];
+    }
+    return result;
+}
+
+/**
+ * Solve a square system by Gaussian elimination with partial pivoting; null if singular
+ */
+function solve(matrix: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-14) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let j = col; j <= n; j++) a[row][j] -= factor * a[col][j];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let j = row + 1; j < n; j++) sum -= a[row][j] * x[j];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+/**
+ * Ridge least squares restricted to the `active` columns
+ */
+function leastSquares(features: number[][], target: number[], active: number[], ridge: number): number[] | null {
+    const gram = active.map(a => active.map(b => {
+        let sum = 0;
+        for (const row of features) sum += row[a] * row[b];
+        return sum;
+    }));
+    const moment = active.map(a => {
+        let sum = 0;
+        features.forEach((row, i) => { sum += row[a] * target[i]; });
+        return sum;
+    });
+    const scale = gram.reduce((sum, row, i) => sum + row[i], 0) / Math.max(1, active.length);
+    active.forEach((_, i) => { gram[i][i] += ridge * scale; });
+    return solve(gram, moment);
+}
+
+/**
+ * Format a sparse right-hand side as LaTeX, e.g. "0.120\,D - 0.300\,C"
+ */
+function formatLatex(variable: SindyTarget, terms: DiscoveredTerm[]): string {
+    if (terms.length === 0) return `\\dot{${variable}} = 0`;
+    const body = terms.map((term, index) => {
+        const magnitude = Math.abs(term.coefficient).toFixed(3);
+        const sign = term.coefficient < 0 ? '-' : '+';
+        const factor = term.latex ? `${magnitude}\\,${term.latex}` : magnitude;
+        if (index === 0) return term.coefficient < 0 ? `-${factor}` : factor;
+        return `${sign} ${factor}`;
+    });
+    return `\\dot{${variable}} = ${body.join(' ')}`;
+}
+
+/**
+ * Central-difference derivative samples from one or more telemetry histories
+ */
+function derivativeSamples(histories: TelemetryPoint[][]): Array<{ inputs: number[]; rates: number[] }> {
+    const samples: Array<{ inputs: number[]; rates: number[] }> = [];
+    for (const history of histories) {
+        for (let i = 1; i < history.length - 1; i++) {
+            const prev = history[i - 1];
+            const point = history[i];
+            const next = history[i + 1];
+            const span = next.generation - prev.generation;
+            if (!(span > 0) || !(point.generation > prev.generation) || !(next.generation > point.generation)) continue;
+            const inputs = INPUTS.map(key => point[key]);
+            const rates = TARGETS.map(key => (next[key] - prev[key]) / span);
+            if ([...inputs, ...rates].every(Number.isFinite)) {
+                samples.push({ inputs, rates });
+            }
+        }
+    }
+    return samples;
+}
+
+/**
+ * Discover sparse drift equations for C, D and A from telemetry.
+ * Accepts a single history or several (derivatives never straddle histories).
+ * Returns null when fewer than MIN_SINDY_SAMPLES derivative samples are available.
+ */
+export function discoverEquations(
+    telemetry: TelemetryPoint[] | TelemetryPoint[][],
+    options: SindyOptions = {}
+): SindyResult | null {
+    const degree = Math.max(1, Math.floor(options.degree ?? 2));
+    const threshold = Math.max(0, options.threshold ?? 0.02);
+    const ridge = Math.max(0, options.ridge ?? 1e-8);
+    const maxIterations = Math.max(1, Math.floor(options.maxIterations ?? 10));
+
+    const histories = (telemetry.length > 0 && Array.isArray(telemetry[0]))
+        ? telemetry as TelemetryPoint[][]
+        : [telemetry as TelemetryPoint[]];
+    const samples = derivativeSamples(histories);
+    if (samples.length < MIN_SINDY_SAMPLES) return null;
+
+    const library = buildLibrary(degree);
+    const features = samples.map(sample => library.map(term => evaluateTerm(term, sample.inputs)));
+
+    const equations = TARGETS.map((variable, targetIndex) => {
+        const target = samples.map(sample => sample.rates[targetIndex]);
+        let active = library.map((_, j) => j);
+        let coefficients = new Array(library.length).fill(0);
+        // Whether `coefficients` is the least-squares fit on the current support
+        let fitted = false;
+        const fit = () => {
+            const solution = leastSquares(features, target, active, ridge);
+            if (!solution) return false;
+            coefficients = new Array(library.length).fill(0);
+            active.forEach((j, i) => { coefficients[j] = solution[i]; });
+            fitted = true;
+            return true;
+        };
+
+        for (let iter = 0; iter < maxIterations && active.length > 0; iter++) {
+            if (!fit()) break;
+            const kept = active.filter(j => Math.abs(coefficients[j]) >= threshold);
+            if (kept.length === active.length) break;
+            active.filter(j => !kept.includes(j)).forEach(j => { coefficients[j] = 0; });
+            active = kept;
+            fitted = false;
+        }
+        // The last round may end on a pruning step: refit the surviving terms on the final support
+        if (!fitted && active.length > 0) fit();
+
+        const mean = target.reduce((a, b) => a + b, 0) / target.length;
+        let residual = 0;
+        let totalVariance = 0;
+        features.forEach((row, i) => {
+            const predicted = row.reduce((sum, v, j) => sum + v * coefficients[j], 0);
+            residual += (target[i] - predicted) ** 2;
+            totalVariance += (target[i] - mean) ** 2;
+        });
+
+        const terms: DiscoveredTerm[] = library
+            .map((term, j) => ({ label: term.label, latex: term.latex, coefficient: coefficients[j] }))
+            .filter(term => term.coefficient !== 0);
+
+        return {
+            variable,
+            terms,
+            rSquared: totalVariance > 0 ? 1 - residual / totalVariance : 1,
+            latex: formatLatex(variable, terms)
+        };
+    });
+
+    return {
+        equations,
+        library: library.map(term => term.label),
+        samples: samples.length,
+        degree,
+        threshold
+    };
+}
+
+/**
+ * Turn a discovered model into a function predicting the drift rates of C, D and A
+ */
+export function createRatePredictor(result: SindyResult): (point: Record<SindyInput, number>) => Record<SindyTarget, number> {
+    const termsByLabel = new Map(buildLibrary(result.degree).map(term => [term.label, term]));
+    const equations = result.equations.map(equation => ({
+        variable: equation.variable,
+        terms: equation.terms
+            .filter(term => termsByLabel.has(term.label))
+            .map(term => ({ term: termsByLabel.get(term.label)!, coefficient: term.coefficient }))
+    }));
+
+    return (point) => {
+        const values = INPUTS.map(name => point[name]);
+        const rates: Record<SindyTarget, number> = { C: 0, D: 0, A: 0 };
+        equations.forEach(({ variable, terms }) => {
+            rates[variable] = terms.reduce((sum, { term, coefficient }) => sum + coefficient * evaluateTerm(term, values), 0);
+        });
+        return rates;
+    };
+}
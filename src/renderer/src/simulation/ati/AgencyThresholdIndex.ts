@@ -8,6 +8,14 @@ import { EntropyCalculator } from './EntropyCalculator';
 import { CausalDensityCalculator } from './CausalDensityCalculator';
 import { PersistenceCalculator } from './PersistenceCalculator';
 
+/** Windows of the three components, for snapshots that must resume exactly */
+export interface AgencyThresholdIndexState {
+    entropy: string[];
+    causal: { states: number[][]; actions: number[] };
+    persistence: { actions: string[]; rewards: number[] };
+    history: number[];
+}
+
 export class AgencyThresholdIndex {
     private entropyCalc: EntropyCalculator;
     private causalCalc: CausalDensityCalculator;
@@ -74,4 +82,20 @@ export class AgencyThresholdIndex {
         this.persistenceCalc.reset();
         this.atiHistory = [];
     }
+
+    public getState(): AgencyThresholdIndexState {
+        return {
+            entropy: this.entropyCalc.getState(),
+            causal: this.causalCalc.getState(),
+            persistence: this.persistenceCalc.getState(),
+            history: [...this.atiHistory]
+        };
+    }
+
+    public restore(state: AgencyThresholdIndexState): void {
+        this.entropyCalc.restore(state.entropy);
+        this.causalCalc.restore(state.causal);
+        this.persistenceCalc.restore(state.persistence);
+        this.atiHistory = [...state.history];
+    }
 }
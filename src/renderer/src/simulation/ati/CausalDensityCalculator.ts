@@ -98,4 +98,13 @@ export class CausalDensityCalculator {
         this.stateHistory = [];
         this.actionHistory = [];
     }
+
+    public getState(): { states: number[][]; actions: number[] } {
+        return { states: this.stateHistory.map(state => [...state]), actions: [...this.actionHistory] };
+    }
+
+    public restore(state: { states: number[][]; actions: number[] }): void {
+        this.stateHistory = state.states.map(vector => [...vector]);
+        this.actionHistory = [...state.actions];
+    }
 }
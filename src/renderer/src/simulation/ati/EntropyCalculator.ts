@@ -54,4 +54,17 @@ export class EntropyCalculator {
         this.history = [];
         this.histogram.clear();
     }
+
+    /** Actions in the window, oldest first */
+    public getState(): string[] {
+        return [...this.history];
+    }
+
+    public restore(history: string[]): void {
+        this.reset();
+        history.slice(-this.windowSize).forEach(action => {
+            this.history.push(action);
+            this.histogram.set(action, (this.histogram.get(action) || 0) + 1);
+        });
+    }
 }
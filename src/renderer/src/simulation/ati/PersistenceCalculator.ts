@@ -67,4 +67,13 @@ export class PersistenceCalculator {
         this.actionHistory = [];
         this.rewardHistory = [];
     }
+
+    public getState(): { actions: string[]; rewards: number[] } {
+        return { actions: [...this.actionHistory], rewards: [...this.rewardHistory] };
+    }
+
+    public restore(state: { actions: string[]; rewards: number[] }): void {
+        this.actionHistory = [...state.actions];
+        this.rewardHistory = [...state.rewards];
+    }
 }
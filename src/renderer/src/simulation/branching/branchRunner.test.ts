@@ -0,0 +1,126 @@
+import { HeadlessRunner } from '../runner/HeadlessRunner';
+import { createBatchScenario } from '../runner/batchRunner';
+import { BranchJob, BranchWorkerHandle, BranchWorkerResponse, MAX_BRANCH_POINTS, createWorkerExecutor, handleBranchRequest, runBranchJob } from './branchRunner';
+import { RunBranch, findBaseline, flattenTree, removeBranch } from './branchTree';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+/** Step a run for a while and take its state as the fork point */
+function forkPoint(scenarioId: string) {
+    const { scenario } = createBatchScenario(scenarioId, 11, {});
+    const runner = new HeadlessRunner({});
+    runner.setScenario(scenario);
+    runner.setControl({ U: 0.3 });
+    runner.stepBatch(30);
+    return { scenario, runner, snapshot: runner.snapshot()! };
+}
+
+function testSameStream() {
+    ['sde-v1', 'bio', 'alignment'].forEach(scenarioId => {
+        const { scenario, runner, snapshot } = forkPoint(scenarioId);
+        const job: BranchJob = { scenarioId, data: snapshot.data, control: snapshot.control, config: null, generations: 5 };
+        const baseline = runBranchJob(job);
+
+        // The original run, continued with the same control
+        runner.stepBatch(baseline.ticks);
+        const last = baseline.telemetry[baseline.telemetry.length - 1];
+        assert(JSON.stringify(last) === JSON.stringify(scenario.getMetrics()), `${scenarioId}: the baseline reproduces the original run`);
+        assert(baseline.telemetry[0].generation === snapshot.generation, `${scenarioId}: the trajectory starts at the fork point`);
+
+        const again = runBranchJob({ ...job, control: { ...snapshot.control } });
+        assert(JSON.stringify(again.telemetry) === JSON.stringify(baseline.telemetry), `${scenarioId}: the same branch runs identically twice`);
+
+        const forked = runBranchJob({ ...job, control: { U: 0.9 } });
+        assert(JSON.stringify(forked.telemetry) !== JSON.stringify(baseline.telemetry), `${scenarioId}: a different U diverges from the baseline`);
+    });
+
+    const { snapshot } = forkPoint('sde-v1');
+    const job: BranchJob = { scenarioId: 'sde-v1', data: snapshot.data, control: snapshot.control, config: null, generations: 200 };
+    const long = runBranchJob(job);
+    const reconfigured = runBranchJob({ ...job, config: { sigma_A: 0.2 } });
+    assert(long.telemetry.length === MAX_BRANCH_POINTS && long.ticks === 2000, 'long branches are thinned to the point budget');
+    assert(long.telemetry[long.telemetry.length - 1].A !== reconfigured.telemetry[reconfigured.telemetry.length - 1].A, 'a config change diverges from the baseline');
+    assert(JSON.parse(reconfigured.finalData).params.sigma_A === 0.2, 'the change is kept in the final state, so the branch can be forked again');
+
+    const response = handleBranchRequest({ ...job, scenarioId: 'nope' });
+    assert(!response.result && response.error === "Unknown scenario 'nope'", 'failures are reported to the caller');
+}
+
+async function testWorkerExecutor() {
+    const spawned: string[] = [];
+    const spawn = (): BranchWorkerHandle => {
+        const name = `worker-${spawned.length}`;
+        spawned.push(name);
+        let listener: ((response: BranchWorkerResponse) => void) | null = null;
+        return {
+            post: job => setTimeout(() => listener?.(structuredClone(handleBranchRequest(job))), 0),
+            onMessage: next => { listener = next; },
+            onError: () => { },
+            terminate: () => { spawned[spawned.indexOf(name)] = `${name} (terminated)`; }
+        };
+    };
+    const execute = createWorkerExecutor(spawn);
+    const { snapshot } = forkPoint('sde-v1');
+    const job: BranchJob = { scenarioId: 'sde-v1', data: snapshot.data, control: snapshot.control, config: null, generations: 2 };
+
+    const [a, b] = await Promise.all([execute(job), execute({ ...job, control: { U: 0.8 } })]);
+    assert(spawned.length === 2 && spawned.every(name => name.endsWith('(terminated)')), 'each branch gets its own worker, terminated with the result');
+    assert(JSON.stringify(a) === JSON.stringify(runBranchJob(job)) && a.telemetry[0].A === b.telemetry[0].A, 'workers return the inline result');
+
+    let message = '';
+    await execute({ ...job, scenarioId: 'nope' }).catch(error => { message = error.message; });
+    assert(message === "Unknown scenario 'nope'", 'worker failures reject');
+
+    // A worker that dies instead of answering
+    let terminated = false;
+    const crashing = createWorkerExecutor(() => {
+        let fail: ((message: string) => void) | null = null;
+        return {
+            post: () => setTimeout(() => fail?.('worker crashed'), 0),
+            onMessage: () => { },
+            onError: listener => { fail = listener; },
+            terminate: () => { terminated = true; }
+        };
+    });
+    message = '';
+    await crashing(job).catch(error => { message = error.message; });
+    assert(message === 'worker crashed' && terminated, 'a crashed worker rejects the branch and is terminated');
+}
+
+function testTree() {
+    const branch = (id: string, parentId: string | null, U?: number): RunBranch => ({
+        id,
+        parentId,
+        label: id,
+        scenarioId: 'sde-v1',
+        forkTick: parentId ? 200 : 100,
+        forkGeneration: 10,
+        intervention: U === undefined ? {} : { U },
+        control: { U: U ?? 0.5 },
+        status: 'done',
+        telemetry: [],
+        ticks: 100,
+        visible: true
+    });
+    const branches = [branch('base', null), branch('a', null, 0.2), branch('a-base', 'a'), branch('a-b', 'a', 0.9), branch('c', null, 0.7)];
+
+    assert(flattenTree(branches).map(row => `${row.branch.id}:${row.depth}`).join() === 'base:0,a:0,a-base:1,a-b:1,c:0', 'the tree is listed depth first');
+    assert(findBaseline(branches, branches[1])?.id === 'base' && findBaseline(branches, branches[3])?.id === 'a-base', 'interventions find the baseline of their fork point');
+    assert(removeBranch(branches, 'a').map(b => b.id).join() === 'base,c', 'removing a branch removes its forks');
+}
+
+async function run() {
+    console.log('Starting Branching Tests...');
+    testSameStream();
+    await testWorkerExecutor();
+    testTree();
+    console.log('All branching tests passed!');
+}
+
+run();
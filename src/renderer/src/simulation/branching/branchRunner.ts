@@ -0,0 +1,139 @@
+/**
+ * Branch Runner - steps one branch headlessly from its fork point
+ *
+ * A job carries the serialized fork state, so it runs the same in the renderer,
+ * a Web Worker or Node. Executors decide where: inline yields once and runs on
+ * the calling thread; the worker executor spawns a worker per job, so the
+ * branches of a fork are stepped in parallel and each worker exits when done.
+ */
+
+import { ControlSignal, TelemetryPoint } from '../types';
+import { HeadlessRunner } from '../runner/HeadlessRunner';
+import { createScenarioInstance } from '../runner/batchRunner';
+import { BranchConfigValue } from './branchTree';
+
+/** Telemetry kept per branch; longer trajectories are thinned evenly */
+export const MAX_BRANCH_POINTS = 400;
+const DEFAULT_MAX_TICKS = 1_000_000;
+
+export interface BranchJob {
+    scenarioId: string;
+    /** scenario.serialize() at the fork point, PRNG position included */
+    data: string;
+    control: ControlSignal;
+    /** Configuration values applied at the fork point, null to keep the parent's */
+    config: Record<string, BranchConfigValue> | null;
+    /** Generations to run past the fork point */
+    generations: number;
+    /** Give up after this many ticks (default one million) */
+    maxTicks?: number;
+}
+
+export interface BranchResult {
+    /** From the fork point (inclusive) to the end of the branch */
+    telemetry: TelemetryPoint[];
+    finalData: string;
+    ticks: number;
+}
+
+export interface BranchWorkerResponse {
+    result?: BranchResult;
+    error?: string;
+}
+
+/** Runs a job somewhere and resolves with its result */
+export type BranchExecutor = (job: BranchJob) => Promise<BranchResult>;
+
+/** Minimal interface over a Web Worker or a worker_threads Worker */
+export interface BranchWorkerHandle {
+    post(job: BranchJob): void;
+    onMessage(listener: (response: BranchWorkerResponse) => void): void;
+    /** The worker failed to load, crashed or sent an unreadable message */
+    onError(listener: (message: string) => void): void;
+    terminate(): void;
+}
+
+const thin = (points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] => {
+    if (points.length <= maxPoints) return points;
+    const stride = (points.length - 1) / (maxPoints - 1);
+    return Array.from({ length: maxPoints }, (_, i) => points[Math.round(i * stride)]);
+};
+
+/**
+ * Restore the fork state, apply the intervention and step until the horizon
+ */
+export function runBranchJob(job: BranchJob): BranchResult {
+    const scenario = createScenarioInstance(job.scenarioId);
+    scenario.deserialize(job.data);
+    if (job.config) scenario.updateConfig(job.config);
+
+    const runner = new HeadlessRunner({});
+    runner.setScenario(scenario);
+    runner.setControl(job.control);
+
+    const start = scenario.getMetrics();
+    const target = start.generation + job.generations;
+    const maxTicks = job.maxTicks ?? DEFAULT_MAX_TICKS;
+    const telemetry: TelemetryPoint[] = [start];
+    let metrics = start;
+    let ticks = 0;
+    while (metrics.generation < target - 1e-9 && ticks < maxTicks) {
+        metrics = runner.stepBatch(1)!;
+        telemetry.push(metrics);
+        ticks++;
+    }
+    return { telemetry: thin(telemetry, MAX_BRANCH_POINTS), finalData: scenario.serialize(), ticks };
+}
+
+/**
+ * Body of a branch worker: run the job and report the result or the failure
+ */
+export function handleBranchRequest(job: BranchJob): BranchWorkerResponse {
+    try {
+        return { result: runBranchJob(job) };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/** Runs on the calling thread after yielding once, for environments without workers */
+export const runBranchInline: BranchExecutor = job => new Promise((resolve, reject) => {
+    setTimeout(() => {
+        const response = handleBranchRequest(job);
+        if (response.result) resolve(response.result);
+        else reject(new Error(response.error));
+    }, 0);
+});
+
+export function wrapBranchWorker(worker: Worker): BranchWorkerHandle {
+    return {
+        post: job => worker.postMessage(job),
+        onMessage: listener => worker.addEventListener('message', event => listener(event.data as BranchWorkerResponse)),
+        onError: listener => {
+            worker.addEventListener('error', event => listener(event.message || 'Branch worker failed to load or crashed'));
+            worker.addEventListener('messageerror', () => listener('Branch worker sent a message that could not be read'));
+        },
+        terminate: () => worker.terminate()
+    };
+}
+
+/**
+ * Executor that spawns a worker per job and terminates it with the result,
+ * or with the error when the worker itself fails
+ */
+export function createWorkerExecutor(spawn: () => BranchWorkerHandle): BranchExecutor {
+    return job => new Promise((resolve, reject) => {
+        const worker = spawn();
+        let settled = false;
+        const settle = (response: BranchWorkerResponse) => {
+            if (settled) return;
+            settled = true;
+            worker.terminate();
+            if (response.result) resolve(response.result);
+            else reject(new Error(response.error ?? 'Branch worker failed'));
+        };
+        worker.onMessage(settle);
+        worker.onError(error => settle({ error }));
+        worker.post(job);
+    });
+}
@@ -0,0 +1,109 @@
+/**
+ * Branch Tree - counterfactual forks of a run
+ *
+ * A fork starts from the live run's (or another branch's) serialized state and
+ * steps a copy with one intervention applied: a different U held from the fork
+ * point on, or changed configuration values. Each fork point also gets an
+ * unmodified baseline branch. Both restore the same serialized PRNG position,
+ * so they draw the same random stream and any divergence between them is the
+ * causal effect of the intervention.
+ */
+
+import { ControlSignal, TelemetryPoint } from '../types';
+
+export type BranchConfigValue = number | boolean | string;
+
+export interface BranchIntervention {
+    /** Control held from the fork point on; the parent's control when absent */
+    U?: number;
+    /** Configuration values replaced at the fork point */
+    config?: Record<string, BranchConfigValue>;
+}
+
+export type BranchStatus = 'running' | 'done' | 'failed';
+
+export interface RunBranch {
+    id: string;
+    /** Branch this one was forked from; null for forks of the live run */
+    parentId: string | null;
+    label: string;
+    scenarioId: string;
+    /** Tick and generation of the fork point in the parent's timeline */
+    forkTick: number;
+    forkGeneration: number;
+    /** Empty for the baseline of a fork point */
+    intervention: BranchIntervention;
+    /** Control the branch was stepped with (configuration changes travel in its serialized state) */
+    control: ControlSignal;
+    status: BranchStatus;
+    /** Starts with the fork point's metrics */
+    telemetry: TelemetryPoint[];
+    /** Ticks stepped past the fork point */
+    ticks: number;
+    /** Serialized state at the end of the branch, to fork from it again */
+    finalData?: string;
+    error?: string;
+    /** Drawn in the metrics chart */
+    visible: boolean;
+}
+
+export function isBaseline(intervention: BranchIntervention): boolean {
+    return intervention.U === undefined && Object.keys(intervention.config ?? {}).length === 0;
+}
+
+export function describeIntervention(intervention: BranchIntervention): string {
+    const parts: string[] = [];
+    if (intervention.U !== undefined) parts.push(`U = ${intervention.U.toFixed(2)}`);
+    Object.entries(intervention.config ?? {}).forEach(([key, value]) => parts.push(`${key} = ${value}`));
+    return parts.length > 0 ? parts.join(', ') : 'baseline';
+}
+
+/** Same parent and fork point: branches that share a starting state and can be compared */
+export function isSameForkPoint(a: RunBranch, b: RunBranch): boolean {
+    return a.parentId === b.parentId && a.scenarioId === b.scenarioId && a.forkTick === b.forkTick;
+}
+
+/** Baseline already forked at this point, so another intervention can be compared against it */
+export function findBaseline(branches: RunBranch[], branch: RunBranch): RunBranch | undefined {
+    return branches.find(candidate => candidate.id !== branch.id
+        && isBaseline(candidate.intervention)
+        && candidate.status !== 'failed'
+        && isSameForkPoint(candidate, branch));
+}
+
+export function childrenOf(branches: RunBranch[], parentId: string | null): RunBranch[] {
+    return branches.filter(branch => branch.parentId === parentId);
+}
+
+/** Depth-first order with nesting depth, for drawing the tree */
+export function flattenTree(branches: RunBranch[]): Array<{ branch: RunBranch; depth: number }> {
+    const rows: Array<{ branch: RunBranch; depth: number }> = [];
+    const visit = (parentId: string | null, depth: number) => {
+        childrenOf(branches, parentId).forEach(branch => {
+            rows.push({ branch, depth });
+            visit(branch.id, depth + 1);
+        });
+    };
+    visit(null, 0);
+    return rows;
+}
+
+/** Remove a branch together with everything forked from it */
+export function removeBranch(branches: RunBranch[], id: string): RunBranch[] {
+    const removed = new Set([id]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        branches.forEach(branch => {
+            if (branch.parentId !== null && removed.has(branch.parentId) && !removed.has(branch.id)) {
+                removed.add(branch.id);
+                grew = true;
+            }
+        });
+    }
+    return branches.filter(branch => !removed.has(branch.id));
+}
+
+export function updateBranch(branches: RunBranch[], id: string, patch: Partial<RunBranch>): RunBranch[] {
+    return branches.map(branch => branch.id === id ? { ...branch, ...patch } : branch);
+}
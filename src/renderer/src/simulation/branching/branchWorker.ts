@@ -0,0 +1,15 @@
+/**
+ * Web Worker entry for branching: steps one branch per worker, then is terminated
+ */
+
+import '../scenarios/localPlugins';
+import { BranchJob, handleBranchRequest } from './branchRunner';
+
+const context = self as unknown as {
+    onmessage: ((event: MessageEvent<BranchJob>) => void) | null;
+    postMessage(message: unknown): void;
+};
+
+context.onmessage = event => {
+    context.postMessage(handleBranchRequest(event.data));
+};
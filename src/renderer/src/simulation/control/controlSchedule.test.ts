@@ -0,0 +1,79 @@
+import { ControlSchedule } from '../types';
+import {
+    CONTROL_SCHEDULE_KINDS,
+    createDefaultSchedule,
+    describeSchedule,
+    evaluateActiveSchedule,
+    evaluateSchedule,
+    sanitizeSchedule
+} from './controlSchedule';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+function testPiecewise() {
+    const ramp: ControlSchedule = { kind: 'linear', points: [{ generation: 0, U: 0.1 }, { generation: 200, U: 0.8 }] };
+    assert(close(evaluateSchedule(ramp, 0), 0.1), 'ramp starts at its first breakpoint');
+    assert(close(evaluateSchedule(ramp, 100), 0.45), 'ramp interpolates linearly');
+    assert(close(evaluateSchedule(ramp, 500), 0.8), 'ramp holds its last value');
+
+    const steps: ControlSchedule = { kind: 'step', points: [{ generation: 0, U: 0.2 }, { generation: 50, U: 0.6 }] };
+    assert(close(evaluateSchedule(steps, 49.9), 0.2) && close(evaluateSchedule(steps, 50), 0.6), 'step switches exactly at the breakpoint');
+}
+
+function testPeriodic() {
+    const sine: ControlSchedule = { kind: 'sine', mean: 0.5, amplitude: 0.3, period: 100, phase: 0 };
+    assert(close(evaluateSchedule(sine, 25), 0.8) && close(evaluateSchedule(sine, 75), 0.2), 'sine peaks and troughs at quarter periods');
+
+    const loud: ControlSchedule = { kind: 'sine', mean: 0.5, amplitude: 2, period: 10, phase: 0 };
+    assert(evaluateSchedule(loud, 2.5) === 1 && evaluateSchedule(loud, 7.5) === 0, 'values are clamped to [0, 1]');
+
+    const pulse: ControlSchedule = { kind: 'pulse', base: 0.2, peak: 0.9, period: 100, width: 10, delay: 20 };
+    assert(evaluateSchedule(pulse, 10) === 0.2, 'pulse waits for its delay');
+    assert(evaluateSchedule(pulse, 25) === 0.9 && evaluateSchedule(pulse, 35) === 0.2, 'pulse is high for its width');
+    assert(evaluateSchedule(pulse, 125) === 0.9, 'pulse repeats every period');
+}
+
+function testSequence() {
+    const protocol: ControlSchedule = {
+        kind: 'sequence',
+        segments: [
+            { duration: 200, schedule: { kind: 'linear', points: [{ generation: 0, U: 0.1 }, { generation: 200, U: 0.8 }] } },
+            { duration: 50, schedule: { kind: 'pulse', base: 0.8, peak: 1, period: 50, width: 5, delay: 0 } }
+        ]
+    };
+    assert(close(evaluateSchedule(protocol, 100), 0.45), 'sequence plays the first segment');
+    assert(evaluateSchedule(protocol, 202) === 1 && evaluateSchedule(protocol, 210) === 0.8, 'second segment runs on its own clock');
+    assert(evaluateSchedule(protocol, 402) === 1, 'last segment keeps running past its duration');
+    assert(close(evaluateActiveSchedule({ schedule: protocol, startGeneration: 1000 }, 1100), 0.45), 'active schedule is anchored at its start generation');
+    assert(describeSchedule(protocol).includes(' then '), 'sequence description lists its segments');
+}
+
+function testSanitize() {
+    CONTROL_SCHEDULE_KINDS.forEach(kind => {
+        const schedule = createDefaultSchedule(kind);
+        assert(JSON.stringify(sanitizeSchedule(JSON.parse(JSON.stringify(schedule)))) === JSON.stringify(schedule), `default ${kind} schedule survives sanitizing`);
+    });
+    const unsorted = sanitizeSchedule({ kind: 'step', points: [{ generation: 50, U: 3 }, { generation: 0, U: 0.1 }, { generation: 'x', U: 0 }] });
+    assert(unsorted?.kind === 'step' && unsorted.points.length === 2 && unsorted.points[0].generation === 0 && unsorted.points[1].U === 1, 'breakpoints are filtered, sorted and clamped');
+    assert(sanitizeSchedule({ kind: 'pulse', period: 0 }) === null, 'non-positive period is rejected');
+    assert(sanitizeSchedule({ kind: 'teleport' }) === null, 'unknown kind is rejected');
+}
+
+function run() {
+    console.log('Starting Control Schedule Tests...');
+    testPiecewise();
+    testPeriodic();
+    testSequence();
+    testSanitize();
+    console.log('All control schedule tests passed!');
+}
+
+run();
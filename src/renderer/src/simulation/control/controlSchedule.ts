@@ -0,0 +1,205 @@
+/**
+ * Control Schedules - time-varying protocols for the environment control U(t)
+ *
+ * A schedule is plain data (so it can be saved in snapshots) evaluated at the
+ * number of generations elapsed since it took over. The ScenarioRunner
+ * evaluates the active schedule every tick before stepping the scenario.
+ */
+
+import { ActiveControlSchedule, ControlSchedule, ScheduleBreakpoint, ScheduleSegment } from '../types';
+
+export type ControlScheduleKind = ControlSchedule['kind'];
+
+export const CONTROL_SCHEDULE_KINDS: ControlScheduleKind[] = ['linear', 'step', 'sine', 'pulse', 'sequence'];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+/** Position inside the current period, in [0, period) */
+const phaseOf = (t: number, period: number) => ((t % period) + period) % period;
+
+/**
+ * Value of U at `elapsed` generations after the schedule started, clamped to [0, 1]
+ */
+export function evaluateSchedule(schedule: ControlSchedule, elapsed: number): number {
+    const t = Math.max(0, elapsed);
+    switch (schedule.kind) {
+        case 'linear': {
+            const points = schedule.points;
+            if (points.length === 0) return 0;
+            if (t <= points[0].generation) return clamp01(points[0].U);
+            for (let i = 1; i < points.length; i++) {
+                const prev = points[i - 1];
+                const next = points[i];
+                if (t <= next.generation) {
+                    const span = next.generation - prev.generation;
+                    const w = span > 0 ? (t - prev.generation) / span : 1;
+                    return clamp01(prev.U + w * (next.U - prev.U));
+                }
+            }
+            return clamp01(points[points.length - 1].U);
+        }
+        case 'step': {
+            const points = schedule.points;
+            if (points.length === 0) return 0;
+            let value = points[0].U;
+            for (const point of points) {
+                if (point.generation > t) break;
+                value = point.U;
+            }
+            return clamp01(value);
+        }
+        case 'sine':
+            return clamp01(schedule.mean + schedule.amplitude * Math.sin(2 * Math.PI * t / schedule.period + schedule.phase));
+        case 'pulse': {
+            if (t < schedule.delay) return clamp01(schedule.base);
+            const inPulse = phaseOf(t - schedule.delay, schedule.period) < schedule.width;
+            return clamp01(inPulse ? schedule.peak : schedule.base);
+        }
+        case 'sequence': {
+            const segments = schedule.segments;
+            if (segments.length === 0) return 0;
+            let start = 0;
+            for (let i = 0; i < segments.length - 1; i++) {
+                if (t < start + segments[i].duration) {
+                    return evaluateSchedule(segments[i].schedule, t - start);
+                }
+                start += segments[i].duration;
+            }
+            return evaluateSchedule(segments[segments.length - 1].schedule, t - start);
+        }
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Value of an anchored schedule at an absolute generation
+ */
+export function evaluateActiveSchedule(active: ActiveControlSchedule, generation: number): number {
+    return evaluateSchedule(active.schedule, generation - active.startGeneration);
+}
+
+/**
+ * Sensible starting schedule for each kind (used by the editor)
+ */
+export function createDefaultSchedule(kind: ControlScheduleKind, U = 0.2): ControlSchedule {
+    switch (kind) {
+        case 'linear':
+            return { kind, points: [{ generation: 0, U: 0.1 }, { generation: 200, U: 0.8 }] };
+        case 'step':
+            return { kind, points: [{ generation: 0, U }, { generation: 100, U: clamp01(U + 0.3) }] };
+        case 'sine':
+            return { kind, mean: 0.5, amplitude: 0.3, period: 100, phase: 0 };
+        case 'pulse':
+            return { kind, base: U, peak: 0.9, period: 100, width: 10, delay: 0 };
+        case 'sequence':
+        default:
+            return {
+                kind: 'sequence',
+                segments: [
+                    { duration: 200, schedule: createDefaultSchedule('linear') },
+                    { duration: 100, schedule: createDefaultSchedule('pulse', 0.8) }
+                ]
+            };
+    }
+}
+
+const formatPoints = (points: ScheduleBreakpoint[]) => points.map(p => `${p.generation}:${p.U.toFixed(2)}`).join(', ');
+
+/**
+ * One-line human-readable summary, used in the intervention log
+ */
+export function describeSchedule(schedule: ControlSchedule): string {
+    switch (schedule.kind) {
+        case 'linear':
+            return `ramp [${formatPoints(schedule.points)}]`;
+        case 'step':
+            return `steps [${formatPoints(schedule.points)}]`;
+        case 'sine':
+            return `sine ${schedule.mean.toFixed(2)} ± ${schedule.amplitude.toFixed(2)}, period ${schedule.period}`;
+        case 'pulse':
+            return `pulse ${schedule.base.toFixed(2)}→${schedule.peak.toFixed(2)} for ${schedule.width} every ${schedule.period}`;
+        case 'sequence':
+            return schedule.segments.map(segment => `${describeSchedule(segment.schedule)} (${segment.duration} gen)`).join(' then ');
+        default:
+            return 'unknown schedule';
+    }
+}
+
+const sanitizePoints = (value: unknown): ScheduleBreakpoint[] | null => {
+    if (!Array.isArray(value)) return null;
+    const points = value
+        .filter(isRecord)
+        .filter(point => isFiniteNumber(point.generation) && isFiniteNumber(point.U))
+        .map(point => ({ generation: Math.max(0, point.generation as number), U: clamp01(point.U as number) }))
+        .sort((a, b) => a.generation - b.generation);
+    return points.length > 0 ? points : null;
+};
+
+/**
+ * Validate an untrusted schedule (snapshot, editor input); null when unusable
+ */
+export function sanitizeSchedule(value: unknown, depth = 0): ControlSchedule | null {
+    if (!isRecord(value) || depth > 4) return null;
+    switch (value.kind) {
+        case 'linear':
+        case 'step': {
+            const points = sanitizePoints(value.points);
+            return points ? { kind: value.kind, points } : null;
+        }
+        case 'sine': {
+            if (!isFiniteNumber(value.period) || value.period <= 0) return null;
+            return {
+                kind: 'sine',
+                mean: isFiniteNumber(value.mean) ? clamp01(value.mean) : 0.5,
+                amplitude: isFiniteNumber(value.amplitude) ? Math.max(0, value.amplitude) : 0,
+                period: value.period,
+                phase: isFiniteNumber(value.phase) ? value.phase : 0
+            };
+        }
+        case 'pulse': {
+            if (!isFiniteNumber(value.period) || value.period <= 0) return null;
+            return {
+                kind: 'pulse',
+                base: isFiniteNumber(value.base) ? clamp01(value.base) : 0,
+                peak: isFiniteNumber(value.peak) ? clamp01(value.peak) : 1,
+                period: value.period,
+                width: isFiniteNumber(value.width) ? Math.max(0, Math.min(value.period, value.width)) : value.period / 2,
+                delay: isFiniteNumber(value.delay) ? Math.max(0, value.delay) : 0
+            };
+        }
+        case 'sequence': {
+            if (!Array.isArray(value.segments)) return null;
+            const segments: ScheduleSegment[] = [];
+            for (const segment of value.segments) {
+                if (!isRecord(segment) || !isFiniteNumber(segment.duration) || segment.duration <= 0) continue;
+                const schedule = sanitizeSchedule(segment.schedule, depth + 1);
+                if (schedule) segments.push({ duration: segment.duration, schedule });
+            }
+            return segments.length > 0 ? { kind: 'sequence', segments } : null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Validate an anchored schedule from a snapshot
+ */
+export function sanitizeActiveSchedule(value: unknown): ActiveControlSchedule | null {
+    if (!isRecord(value)) return null;
+    const schedule = sanitizeSchedule(value.schedule);
+    if (!schedule) return null;
+    return {
+        schedule,
+        startGeneration: isFiniteNumber(value.startGeneration) ? value.startGeneration : 0
+    };
+}
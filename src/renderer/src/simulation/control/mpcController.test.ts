@@ -0,0 +1,90 @@
+import { DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, SimulationParameters, SimulationState, TelemetryPoint } from '../types';
+import { integrateStep } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { planSdeControl, planTelemetryControl } from './mpcController';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const QUIET: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_C: 0.001, sigma_D: 0.001, sigma_A: 0.001 };
+
+function testBandAndDeterminism() {
+    const state: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.4, D: 0.6, A: 0.2 };
+    const decision = planSdeControl(state, QUIET, { U: 0.3 }, { maxDeltaU: 0.15 });
+    assert(decision.u >= 0.15 - 1e-9 && decision.u <= 0.45 + 1e-9, `U stays within the per-decision band (${decision.u.toFixed(3)})`);
+    assert(decision.candidates.some(c => Math.abs(c.U - 0.3) < 1e-9), 'holding U is among the candidates');
+    assert(JSON.stringify(planSdeControl(state, QUIET, { U: 0.3 }, { maxDeltaU: 0.15 })) === JSON.stringify(decision), 'planning is deterministic');
+    assert(decision.reasoning.startsWith('MPC over 40 generations'), 'decision explains its rollout');
+
+    const edge = planSdeControl(state, QUIET, { U: 1 }, { maxDeltaU: 0.3 });
+    assert(edge.candidates.every(c => c.U >= 0.7 - 1e-9 && c.U <= 1), 'candidates are clipped to [0, 1]');
+}
+
+function testDiversityFloor() {
+    // Harsh control erodes diversity (k_DU U D), so a strict floor should hold U back
+    const fragile: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.6, D: 0.5, A: 0.3 };
+    const greedy = planSdeControl(fragile, QUIET, { U: 0.5 }, { maxDeltaU: 0.5, diversityWeight: 0, moveWeight: 0, nudgeParameters: false, diversityFloor: 0.45 });
+    const careful = planSdeControl(fragile, QUIET, { U: 0.5 }, { maxDeltaU: 0.5, diversityWeight: 100, moveWeight: 0, nudgeParameters: false, diversityFloor: 0.45 });
+    assert(careful.u < greedy.u, `diversity penalty lowers U (${greedy.u.toFixed(2)} → ${careful.u.toFixed(2)})`);
+    assert(careful.predicted.minD > greedy.predicted.minD, 'penalized plan keeps more diversity');
+}
+
+function testParameterNudges() {
+    const state: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.4, D: 0.6, A: 0.2 };
+    const nudged = planSdeControl(state, QUIET, { U: 0.3 });
+    const keys = Object.keys(nudged.params ?? {});
+    assert(keys.length === 1 && ['k_CD', 'k_AC', 'k_AU'].includes(keys[0]), `one coupling rate is nudged (${keys.join(', ')})`);
+    const [key] = keys as (keyof SimulationParameters)[];
+    const ratio = (nudged.params![key] as number) / (QUIET[key] as number);
+    assert(Math.abs(Math.abs(ratio - 1) - 0.1) < 1e-9, 'nudge is 10% of the current value');
+    assert(nudged.reasoning.includes(`Nudging ${key}`), 'nudge is explained');
+    assert(planSdeControl(state, QUIET, { U: 0.3 }, { nudgeParameters: false }).params === undefined, 'nudges can be disabled');
+}
+
+function simulate(params: SimulationParameters, steps: number, seed: number, policy: (state: SimulationState, U: number) => number): { telemetry: TelemetryPoint[]; meanA: number } {
+    const prng = new PRNG(seed);
+    let state: SimulationState = { ...DEFAULT_INITIAL_STATE };
+    let U = 0.2;
+    let sumA = 0;
+    const telemetry: TelemetryPoint[] = [];
+    for (let i = 0; i < steps; i++) {
+        if (i % 100 === 0) U = policy(state, U);
+        state = integrateStep(state, params, { U }, () => prng.next());
+        sumA += state.A;
+        telemetry.push({ generation: state.generation, C: state.C, D: state.D, A: state.A, U, alertRate: state.alertRate });
+    }
+    return { telemetry, meanA: sumA / steps };
+}
+
+function testClosedLoop() {
+    const fixed = simulate(QUIET, 2000, 5, (_, U) => U);
+    const controlled = simulate(QUIET, 2000, 5, (state, U) => planSdeControl(state, QUIET, { U }, { nudgeParameters: false }).u);
+    assert(controlled.meanA > fixed.meanA, `closed-loop MPC raises mean agency (${fixed.meanA.toFixed(3)} → ${controlled.meanA.toFixed(3)})`);
+}
+
+function testTelemetryModel() {
+    assert(planTelemetryControl([], { U: 0.2 }) === null, 'too little telemetry returns null');
+
+    const wandering = simulate(QUIET, 1500, 9, (_, U) => (U > 0.5 ? 0.1 : U + 0.2)).telemetry;
+    const decision = planTelemetryControl(wandering, { U: 0.3 });
+    assert(decision !== null && decision.model === 'sindy', 'telemetry fit yields a decision');
+    assert(decision!.u >= 0.1 - 1e-9 && decision!.u <= 0.5 + 1e-9 && decision!.params === undefined, 'fitted plan only moves U within the band');
+    assert(decision!.reasoning.includes('SINDy fit'), 'fitted plan names its model');
+}
+
+function run() {
+    console.log('Starting MPC Controller Tests...');
+    testBandAndDeterminism();
+    testDiversityFloor();
+    testParameterNudges();
+    testClosedLoop();
+    testTelemetryModel();
+    console.log('All MPC controller tests passed!');
+}
+
+run();
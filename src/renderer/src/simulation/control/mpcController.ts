@@ -0,0 +1,274 @@
+/**
+ * Model-Predictive Controller - an offline alternative to the LLM researcher
+ *
+ * Each decision rolls the noise-free macro drift forward over a horizon for a
+ * band of candidate U values around the current one and keeps the value with
+ * the best predicted agency, penalizing diversity below the floor and large
+ * control moves. SDE scenarios roll out their own equations (E1-E3 or a custom
+ * equation model) and may also nudge a coupling rate; other scenarios roll out
+ * a SINDy model fitted to their telemetry. Decisions have the same shape as
+ * the LLM service response so they flow through the store's triggerAI path.
+ */
+
+import { ControlSignal, SimulationParameters, SimulationState, TelemetryPoint } from '../types';
+import { createMacroSystem, createModelSystem, resolveEquationModel } from '../sdeEngine';
+import { createRatePredictor, discoverEquations } from '../analysis/sindy';
+import { SDE_CONFIG_SCHEMA } from '../scenarios/sde/sdePlugin';
+
+export interface MpcOptions {
+    /** Lookahead in generations (default 40) */
+    horizon?: number;
+    /** Candidate U values spread over the allowed band (default 11) */
+    candidates?: number;
+    /** Largest change of U per decision (default 0.2) */
+    maxDeltaU?: number;
+    /** Diversity below this is penalized (default 0.2, the validation floor) */
+    diversityFloor?: number;
+    /** Weight of the mean diversity shortfall below the floor (default 10) */
+    diversityWeight?: number;
+    /** Weight of the squared control move (default 0.1) */
+    moveWeight?: number;
+    /** Try +/- nudgeFraction on the coupling rates (SDE only, default true) */
+    nudgeParameters?: boolean;
+    /** Relative size of a parameter nudge (default 0.1) */
+    nudgeFraction?: number;
+}
+
+export interface MpcPrediction {
+    U: number;
+    finalA: number;
+    meanA: number;
+    minD: number;
+    score: number;
+}
+
+export interface MpcDecision {
+    u: number;
+    params?: Partial<SimulationParameters>;
+    reasoning: string;
+    /** Which model produced the rollouts */
+    model: 'sde' | 'sindy';
+    predicted: MpcPrediction;
+    /** Every U candidate evaluated (with the chosen parameters) */
+    candidates: MpcPrediction[];
+}
+
+/** Drift rates of a state vector whose first three entries are C, D, A */
+type RateModel = (x: number[], U: number) => number[];
+
+const schemaRange = (key: 'k_CD' | 'k_AC' | 'k_AU'): [number, number] => {
+    const field = SDE_CONFIG_SCHEMA[key];
+    return field.type === 'number' ? [field.min, field.max] : [0, 1];
+};
+
+/** Coupling rates the controller may nudge, within their SDE_CONFIG_SCHEMA ranges */
+const NUDGE_LIMITS: Partial<Record<keyof SimulationParameters, [number, number]>> = {
+    k_CD: schemaRange('k_CD'),
+    k_AC: schemaRange('k_AC'),
+    k_AU: schemaRange('k_AU')
+};
+
+/** Most rollout steps per candidate; longer horizons use coarser steps */
+const MAX_ROLLOUT_STEPS = 200;
+
+/** Smallest score gain for a parameter nudge to be proposed */
+const NUDGE_MIN_GAIN = 1e-3;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+interface ResolvedOptions {
+    horizon: number;
+    candidates: number;
+    maxDeltaU: number;
+    diversityFloor: number;
+    diversityWeight: number;
+    moveWeight: number;
+    nudgeParameters: boolean;
+    nudgeFraction: number;
+}
+
+function resolveOptions(options: MpcOptions): ResolvedOptions {
+    return {
+        horizon: Math.max(1, options.horizon ?? 40),
+        candidates: Math.max(2, Math.floor(options.candidates ?? 11)),
+        maxDeltaU: clamp(options.maxDeltaU ?? 0.2, 0, 1),
+        diversityFloor: clamp(options.diversityFloor ?? 0.2, 0, 1),
+        diversityWeight: Math.max(0, options.diversityWeight ?? 10),
+        moveWeight: Math.max(0, options.moveWeight ?? 0.1),
+        nudgeParameters: options.nudgeParameters ?? true,
+        nudgeFraction: clamp(options.nudgeFraction ?? 0.1, 0, 1)
+    };
+}
+
+/**
+ * Noise-free Euler rollout at constant U, scored by predicted agency and diversity margin
+ */
+function rollout(
+    rates: RateModel,
+    start: number[],
+    U: number,
+    U0: number,
+    stepSize: number,
+    steps: number,
+    bounds: Array<[number, number] | null>,
+    options: ResolvedOptions
+): MpcPrediction {
+    let x = [...start];
+    let sumA = 0;
+    let minD = x[1];
+    let shortfall = 0;
+    for (let i = 0; i < steps; i++) {
+        const a = rates(x, U);
+        x = x.map((value, k) => {
+            const next = value + a[k] * stepSize;
+            const range = bounds[k];
+            if (!Number.isFinite(next)) return value;
+            return range ? clamp(next, range[0], range[1]) : next;
+        });
+        sumA += x[2];
+        minD = Math.min(minD, x[1]);
+        shortfall += Math.max(0, options.diversityFloor - x[1]);
+    }
+    const finalA = x[2];
+    const meanA = sumA / steps;
+    const score = 0.5 * (finalA + meanA)
+        - options.diversityWeight * (shortfall / steps)
+        - options.moveWeight * (U - U0) * (U - U0);
+    return { U, finalA, meanA, minD, score };
+}
+
+function candidateValues(U0: number, options: ResolvedOptions): number[] {
+    const low = clamp(U0 - options.maxDeltaU, 0, 1);
+    const high = clamp(U0 + options.maxDeltaU, 0, 1);
+    if (high - low < 1e-9) return [U0];
+    const values = Array.from({ length: options.candidates }, (_, i) => low + ((high - low) * i) / (options.candidates - 1));
+    // Holding U is always an option
+    return values.some(value => Math.abs(value - U0) < 1e-9) ? values : [...values, U0].sort((a, b) => a - b);
+}
+
+function searchControl(
+    rates: RateModel,
+    start: number[],
+    U0: number,
+    stepSize: number,
+    steps: number,
+    bounds: Array<[number, number] | null>,
+    options: ResolvedOptions
+): { best: MpcPrediction; all: MpcPrediction[] } {
+    const all = candidateValues(U0, options).map(U => rollout(rates, start, U, U0, stepSize, steps, bounds, options));
+    const best = all.reduce((a, b) => (b.score > a.score ? b : a));
+    return { best, all };
+}
+
+function rolloutGrid(horizon: number, baseStep: number): { stepSize: number; steps: number } {
+    const steps = Math.max(1, Math.min(MAX_ROLLOUT_STEPS, Math.ceil(horizon / baseStep)));
+    return { stepSize: horizon / steps, steps };
+}
+
+function describeDecision(
+    source: string,
+    U0: number,
+    best: MpcPrediction,
+    options: ResolvedOptions,
+    nudge: { key: string; value: number; previous: number; gain: number } | null
+): string {
+    const direction = Math.abs(best.U - U0) < 1e-9 ? `holding U at ${U0.toFixed(2)}` : `U ${U0.toFixed(2)} → ${best.U.toFixed(2)}`;
+    const floor = best.minD >= options.diversityFloor
+        ? `min D ${best.minD.toFixed(3)} stays above the ${options.diversityFloor.toFixed(2)} floor`
+        : `min D ${best.minD.toFixed(3)} dips below the ${options.diversityFloor.toFixed(2)} floor (least violation among candidates)`;
+    const parts = [
+        `MPC over ${options.horizon} generations using ${source}: ${direction} predicts A ${best.finalA.toFixed(3)} (mean ${best.meanA.toFixed(3)}); ${floor}.`
+    ];
+    if (nudge) {
+        const change = ((nudge.value - nudge.previous) / Math.max(1e-12, nudge.previous)) * 100;
+        parts.push(`Nudging ${nudge.key} ${change >= 0 ? '+' : ''}${change.toFixed(0)}% (${nudge.previous.toFixed(3)} → ${nudge.value.toFixed(3)}) improves the objective by ${nudge.gain.toFixed(3)}.`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Plan U (and optionally one coupling-rate nudge) for the SDE macro-model
+ */
+export function planSdeControl(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal,
+    options: MpcOptions = {}
+): MpcDecision {
+    const resolved = resolveOptions(options);
+    const model = resolveEquationModel(params);
+    const extras = model ? model.variables.slice(3) : [];
+    const start = [state.C, state.D, state.A, ...extras.map(variable => state.extra?.[variable.name] ?? variable.initial)];
+    const bounds: Array<[number, number] | null> = [[0, 1], [0, 1], [0, 1], ...extras.map(variable => variable.bounds)];
+    const { stepSize, steps } = rolloutGrid(resolved.horizon, params.dt);
+
+    const ratesFor = (candidate: SimulationParameters): RateModel => (x, U) => {
+        const system = model
+            ? createModelSystem(model, state, candidate, { U })
+            : createMacroSystem(state, candidate, { U });
+        return system.drift(x);
+    };
+
+    let { best, all } = searchControl(ratesFor(params), start, control.U, stepSize, steps, bounds, resolved);
+    let nudge: { key: keyof SimulationParameters; value: number; previous: number; gain: number } | null = null;
+
+    if (resolved.nudgeParameters && resolved.nudgeFraction > 0) {
+        for (const [key, range] of Object.entries(NUDGE_LIMITS) as [keyof SimulationParameters, [number, number]][]) {
+            const previous = params[key] as number;
+            for (const sign of [1, -1]) {
+                const value = clamp(previous * (1 + sign * resolved.nudgeFraction), range[0], range[1]);
+                if (Math.abs(value - previous) < 1e-12) continue;
+                const trial = searchControl(ratesFor({ ...params, [key]: value }), start, control.U, stepSize, steps, bounds, resolved);
+                const gain = trial.best.score - best.score;
+                if (gain > NUDGE_MIN_GAIN && gain > (nudge?.gain ?? 0)) {
+                    nudge = { key, value, previous, gain };
+                }
+            }
+        }
+        if (nudge) {
+            ({ best, all } = searchControl(ratesFor({ ...params, [nudge.key]: nudge.value }), start, control.U, stepSize, steps, bounds, resolved));
+        }
+    }
+
+    return {
+        u: best.U,
+        params: nudge ? { [nudge.key]: nudge.value } : undefined,
+        reasoning: describeDecision(model ? 'the custom equation model' : 'the E1-E3 drift', control.U, best, resolved, nudge),
+        model: 'sde',
+        predicted: best,
+        candidates: all
+    };
+}
+
+/**
+ * Plan U for any scenario from a SINDy model of its telemetry; null when there is too little history
+ */
+export function planTelemetryControl(
+    telemetry: TelemetryPoint[],
+    control: ControlSignal,
+    options: MpcOptions = {}
+): MpcDecision | null {
+    const fit = discoverEquations(telemetry);
+    if (!fit) return null;
+
+    const resolved = resolveOptions(options);
+    const predict = createRatePredictor(fit);
+    const rates: RateModel = ([C, D, A], U) => {
+        const r = predict({ C, D, A, U });
+        return [r.C, r.D, r.A];
+    };
+
+    const last = telemetry[telemetry.length - 1];
+    const spacing = telemetry.length > 1 ? Math.max(1e-6, (last.generation - telemetry[0].generation) / (telemetry.length - 1)) : 1;
+    const { stepSize, steps } = rolloutGrid(resolved.horizon, spacing);
+    const { best, all } = searchControl(rates, [last.C, last.D, last.A], control.U, stepSize, steps, [[0, 1], [0, 1], [0, 1]], resolved);
+    const fitQuality = Math.min(...fit.equations.map(equation => equation.rSquared));
+
+    return {
+        u: best.U,
+        reasoning: describeDecision(`a SINDy fit of ${fit.samples} telemetry samples (worst R² ${fitQuality.toFixed(2)})`, control.U, best, resolved, null),
+        model: 'sindy',
+        predicted: best,
+        candidates: all
+    };
+}
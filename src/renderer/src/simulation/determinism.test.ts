@@ -1,5 +1,9 @@
 import { AgentsScenario } from './scenarios/agents/AgentsScenario';
 import { MathScenario } from './scenarios/math/MathScenario';
+import { createBatchScenario, createScenarioInstance } from './runner/batchRunner';
+import { listScenarioIds } from './scenarios/scenarioRegistry';
+import { hashState } from './runner/replayLog';
+import { fnv1a } from '../common/hash';
 
 function assert(condition: boolean, message: string) {
     if (!condition) {
@@ -9,22 +13,13 @@ function assert(condition: boolean, message: string) {
     console.log(`✅ PASSED: ${message}`);
 }
 
-function hashString(input: string): string {
-    let hash = 2166136261;
-    for (let i = 0; i < input.length; i++) {
-        hash ^= input.charCodeAt(i);
-        hash = Math.imul(hash, 16777619);
-    }
-    return (hash >>> 0).toString(16).padStart(8, '0');
-}
-
 function runMath(seed: number, steps: number): string {
     const scenario = new MathScenario();
     scenario.initialize(seed, { populationSize: 20, tasksPerGen: 8, enableTheorems: true });
     for (let i = 0; i < steps; i++) {
         scenario.step({ U: 0.35 });
     }
-    return hashString(scenario.serialize());
+    return fnv1a(scenario.serialize());
 }
 
 function runAgents(seed: number, steps: number): string {
@@ -33,7 +28,23 @@ function runAgents(seed: number, steps: number): string {
     for (let i = 0; i < steps; i++) {
         scenario.step({ U: 0.4 });
     }
-    return hashString(scenario.serialize());
+    return fnv1a(scenario.serialize());
+}
+
+/** A scenario restored from serialize() must continue exactly like the original */
+function testRestoreContinues() {
+    listScenarioIds().forEach(id => {
+        const { scenario } = createBatchScenario(id, 42, {});
+        for (let i = 0; i < 20; i++) scenario.step({ U: 0.5 });
+        const restored = createScenarioInstance(id);
+        restored.deserialize(scenario.serialize());
+        for (let i = 0; i < 20; i++) {
+            scenario.step({ U: 0.6 });
+            restored.step({ U: 0.6 });
+        }
+        // Erdos stamps artifacts with the wall clock, which hashState ignores; everything else must match
+        assert(hashState(restored.serialize()) === hashState(scenario.serialize()), `${id} continues identically after a serialize round trip`);
+    });
 }
 
 function run() {
@@ -48,6 +59,8 @@ function run() {
     const mathDifferentSeed = runMath(1338, 30);
     assert(mathA !== mathDifferentSeed, 'MathScenario hash changes when seed changes');
 
+    testRestoreContinues();
+
     console.log('Determinism regression tests passed.');
 }
 
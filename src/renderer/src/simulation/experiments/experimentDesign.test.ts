@@ -0,0 +1,95 @@
+import { ExperimentSpec, countPoints, experimentKey, generateDesign, generateJobs, getSweepableKeys, parseExperimentSpec } from './experimentDesign';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+function throws(action: () => unknown, pattern: RegExp): boolean {
+    try {
+        action();
+        return false;
+    } catch (error) {
+        return pattern.test((error as Error).message);
+    }
+}
+
+const GRID = {
+    scenarioId: 'bio',
+    design: 'grid',
+    factors: [
+        { key: 'mutationRate', min: 0, max: 0.2, levels: 3 },
+        { key: 'maxPopulation', min: 100, max: 200, levels: 2, integer: true }
+    ],
+    seeds: '1..2'
+};
+
+function testParse() {
+    const spec = parseExperimentSpec(GRID);
+    assert(spec.name === 'experiment' && spec.steps === 500 && spec.control === 0.2, 'defaults fill the optional fields');
+    assert(spec.seeds.join() === '1,2' && spec.factors[0].integer === false, 'seed ranges and factor flags are parsed');
+    assert(getSweepableKeys('sde-v1').includes('k_AU') && !getSweepableKeys('sde-v1').includes('integrator'), 'only numeric config keys are sweepable');
+
+    assert(throws(() => parseExperimentSpec({ ...GRID, scenarioId: 'chess' }), /scenarioId/), 'unknown scenarios are rejected');
+    assert(throws(() => parseExperimentSpec({ ...GRID, factors: [] }), /at least one/), 'a spec needs factors');
+    assert(throws(() => parseExperimentSpec({ ...GRID, factors: [{ key: 'wings', min: 0, max: 1 }] }), /factors\[0\]\.key/), 'factor keys must be numeric config keys');
+    assert(throws(() => parseExperimentSpec({ ...GRID, factors: [{ key: 'mutationRate', min: 1, max: 0 }] }), /min <= max/), 'factor ranges must be ordered');
+    assert(throws(() => parseExperimentSpec({ ...GRID, factors: [GRID.factors[0], GRID.factors[0]] }), /twice/), 'factors cannot repeat');
+    assert(throws(() => parseExperimentSpec({ ...GRID, design: 'sobol' }), /design/), 'unknown designs are rejected');
+    assert(throws(() => parseExperimentSpec({ ...GRID, control: 3 }), /control/), 'control must lie in [0, 1]');
+    assert(throws(() => parseExperimentSpec({ ...GRID, factors: [{ key: 'mutationRate', min: 0, max: 1, levels: 200 }], seeds: '1..200' }), /limit/), 'oversized experiments are rejected');
+}
+
+function testGrid() {
+    const spec = parseExperimentSpec(GRID);
+    const points = generateDesign(spec);
+    assert(points.length === 6 && countPoints(spec) === 6, 'grid has the product of the levels');
+    assert(points[0].values.mutationRate === 0 && points[0].values.maxPopulation === 100, 'grid starts at the minimum corner');
+    assert(points[1].values.maxPopulation === 200 && points[1].values.mutationRate === 0, 'last factor varies fastest');
+    assert(Math.abs(points[5].values.mutationRate - 0.2) < 1e-12, 'grid ends at the maximum corner');
+    assert(Object.keys(points[3].values).join() === 'mutationRate,maxPopulation', 'values follow the factor order');
+
+    const jobs = generateJobs(spec);
+    assert(jobs.length === 12 && jobs[1].id === '0:2' && jobs[2].pointIndex === 1, 'jobs run every point for every seed');
+}
+
+function testSampledDesigns() {
+    const base: ExperimentSpec = parseExperimentSpec({
+        scenarioId: 'sde-v1',
+        design: 'lhs',
+        samples: 20,
+        factors: [{ key: 'k_AU', min: 0, max: 1 }, { key: 'k_A_decay', min: 2, max: 4 }]
+    });
+    const lhs = generateDesign(base);
+    const strata = new Set(lhs.map(point => Math.floor(point.values.k_AU * 20)));
+    assert(strata.size === 20, 'latin hypercube puts one sample in every stratum');
+    const decay = lhs.map(point => point.values.k_A_decay);
+    assert(Math.min(...decay) >= 2 && Math.max(...decay) <= 4, 'samples stay inside the factor range');
+
+    const again = generateDesign(base);
+    assert(JSON.stringify(again) === JSON.stringify(lhs), 'designs are reproducible from the design seed');
+    const other = generateDesign({ ...base, designSeed: 2 });
+    assert(JSON.stringify(other) !== JSON.stringify(lhs), 'another design seed gives another design');
+
+    const random = generateDesign({ ...base, design: 'random' });
+    assert(random.length === 20 && random.every(point => point.values.k_AU >= 0 && point.values.k_AU <= 1), 'random design draws the requested samples');
+
+    const integer = generateDesign(parseExperimentSpec({ scenarioId: 'bio', design: 'random', samples: 10, factors: [{ key: 'maxPopulation', min: 10, max: 30, integer: true }] }));
+    assert(integer.every(point => Number.isInteger(point.values.maxPopulation)), 'integer factors are rounded');
+
+    assert(experimentKey(base) === experimentKey(parseExperimentSpec(JSON.parse(JSON.stringify(base)))), 'the key survives a JSON round trip');
+    assert(experimentKey(base) !== experimentKey({ ...base, steps: 501 }), 'the key changes with the spec');
+}
+
+function run() {
+    console.log('Starting Experiment Design Tests...');
+    testParse();
+    testGrid();
+    testSampledDesigns();
+    console.log('All experiment design tests passed!');
+}
+
+run();
@@ -0,0 +1,253 @@
+/**
+ * Experiment Design - sweep specifications over scenario configurations
+ *
+ * An experiment varies numeric configuration keys of one scenario (factors)
+ * over a design of points: a full grid of levels, a Latin hypercube, or plain
+ * uniform random samples. Every point runs once per seed, so the job list is
+ * points x seeds. Specs are plain JSON so they can be saved, shared and run
+ * from the app or with `npm run experiment`.
+ */
+
+import { ControlSchedule, DEFAULT_CONTROL } from '../types';
+import { PRNG } from '../../common/prng';
+import { fnv1a } from '../../common/hash';
+import { sanitizeSchedule } from '../control/controlSchedule';
+import { getBatchScenarioDefaults, parseSeeds } from '../runner/batchRunner';
+import { isRegisteredScenario, listScenarioIds } from '../scenarios/scenarioRegistry';
+
+export type ExperimentDesignKind = 'grid' | 'lhs' | 'random';
+
+export const EXPERIMENT_DESIGNS: ExperimentDesignKind[] = ['grid', 'lhs', 'random'];
+
+export interface ExperimentFactor {
+    /** Numeric configuration key of the scenario, e.g. mutationRate or k_AU */
+    key: string;
+    min: number;
+    max: number;
+    /** Levels of a grid design (default 5) */
+    levels: number;
+    /** Round values to integers (population sizes and other counts) */
+    integer: boolean;
+}
+
+export interface ExperimentSpec {
+    name: string;
+    scenarioId: string;
+    design: ExperimentDesignKind;
+    factors: ExperimentFactor[];
+    /** Points of an lhs or random design; a grid has the product of the factor levels */
+    samples: number;
+    seeds: number[];
+    /** Ticks per run */
+    steps: number;
+    /** Configuration shared by every run, merged over the scenario defaults */
+    baseConfig: Record<string, unknown>;
+    /** Constant control U, unless a schedule is given */
+    control: number;
+    schedule: ControlSchedule | null;
+    /** Seed of the lhs/random sampling, independent of the run seeds */
+    designSeed: number;
+}
+
+/** One configuration of the factors */
+export interface ExperimentPoint {
+    index: number;
+    values: Record<string, number>;
+}
+
+/** One run: a design point under one seed */
+export interface ExperimentJob {
+    id: string;
+    pointIndex: number;
+    seed: number;
+    values: Record<string, number>;
+}
+
+export const DEFAULT_GRID_LEVELS = 5;
+
+/** Upper bound on points x seeds, so a typo does not queue millions of runs */
+export const MAX_EXPERIMENT_JOBS = 20000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+const positiveInteger = (field: string, value: unknown, fallback: number): number => {
+    if (value === undefined) return fallback;
+    if (!isFiniteNumber(value) || !Number.isInteger(value) || value < 1) {
+        throw new Error(`${field} must be a positive integer`);
+    }
+    return value;
+};
+
+/**
+ * Numeric configuration keys a sweep can vary for the scenario
+ */
+export function getSweepableKeys(scenarioId: string): string[] {
+    const defaults = getBatchScenarioDefaults(scenarioId);
+    if (!defaults) return [];
+    return Object.keys(defaults).filter(key => isFiniteNumber(defaults[key]));
+}
+
+const parseFactor = (value: unknown, index: number, sweepable: string[]): ExperimentFactor => {
+    const field = `factors[${index}]`;
+    if (!isRecord(value)) throw new Error(`${field} must be an object`);
+    if (typeof value.key !== 'string' || !sweepable.includes(value.key)) {
+        throw new Error(`${field}.key must be one of ${sweepable.join(', ')}`);
+    }
+    if (!isFiniteNumber(value.min) || !isFiniteNumber(value.max) || value.min > value.max) {
+        throw new Error(`${field} needs finite min <= max`);
+    }
+    return {
+        key: value.key,
+        min: value.min,
+        max: value.max,
+        levels: positiveInteger(`${field}.levels`, value.levels, DEFAULT_GRID_LEVELS),
+        integer: value.integer === true
+    };
+};
+
+const parseSpecSeeds = (value: unknown): number[] => {
+    if (value === undefined) return [1];
+    if (typeof value === 'string') return parseSeeds(value);
+    if (Array.isArray(value) && value.length > 0 && value.every(seed => Number.isSafeInteger(seed))) {
+        return value as number[];
+    }
+    throw new Error('seeds must be a list of integers or a string such as "1..10"');
+};
+
+/**
+ * Validate an experiment spec from JSON; throws with a message for the user
+ */
+export function parseExperimentSpec(value: unknown): ExperimentSpec {
+    if (!isRecord(value)) throw new Error('Experiment spec must be a JSON object');
+
+    const scenarioId = value.scenarioId;
+    if (!isRegisteredScenario(scenarioId)) {
+        throw new Error(`scenarioId must be one of ${listScenarioIds().join(', ')}`);
+    }
+    const design = value.design ?? 'grid';
+    if (!EXPERIMENT_DESIGNS.includes(design as ExperimentDesignKind)) {
+        throw new Error(`design must be one of ${EXPERIMENT_DESIGNS.join(', ')}`);
+    }
+    if (!Array.isArray(value.factors) || value.factors.length === 0) {
+        throw new Error('factors must list at least one configuration key');
+    }
+    const sweepable = getSweepableKeys(scenarioId);
+    const factors = value.factors.map((factor, index) => parseFactor(factor, index, sweepable));
+    const duplicate = factors.find((factor, index) => factors.findIndex(other => other.key === factor.key) !== index);
+    if (duplicate) throw new Error(`factor ${duplicate.key} is listed twice`);
+
+    if (value.baseConfig !== undefined && !isRecord(value.baseConfig)) {
+        throw new Error('baseConfig must be a JSON object');
+    }
+    if (value.control !== undefined && (!isFiniteNumber(value.control) || value.control < 0 || value.control > 1)) {
+        throw new Error('control must be a number in [0, 1]');
+    }
+    let schedule: ControlSchedule | null = null;
+    if (value.schedule !== undefined && value.schedule !== null) {
+        schedule = sanitizeSchedule(value.schedule);
+        if (!schedule) throw new Error('schedule is not a valid control schedule');
+    }
+
+    const spec: ExperimentSpec = {
+        name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : 'experiment',
+        scenarioId,
+        design: design as ExperimentDesignKind,
+        factors,
+        samples: positiveInteger('samples', value.samples, 16),
+        seeds: parseSpecSeeds(value.seeds),
+        steps: positiveInteger('steps', value.steps, 500),
+        baseConfig: (value.baseConfig as Record<string, unknown> | undefined) ?? {},
+        control: (value.control as number | undefined) ?? DEFAULT_CONTROL.U,
+        schedule,
+        designSeed: isFiniteNumber(value.designSeed) ? Math.floor(value.designSeed) : 1
+    };
+    const jobs = countPoints(spec) * spec.seeds.length;
+    if (jobs > MAX_EXPERIMENT_JOBS) {
+        throw new Error(`Experiment needs ${jobs} runs; the limit is ${MAX_EXPERIMENT_JOBS}`);
+    }
+    return spec;
+}
+
+/**
+ * Number of design points, without generating them
+ */
+export function countPoints(spec: ExperimentSpec): number {
+    if (spec.design !== 'grid') return spec.samples;
+    return spec.factors.reduce((product, factor) => product * factor.levels, 1);
+}
+
+const scale = (factor: ExperimentFactor, unit: number) => {
+    const value = factor.min + unit * (factor.max - factor.min);
+    return factor.integer ? Math.round(value) : value;
+};
+
+/**
+ * Design points of the spec. Grid points vary the last factor fastest; lhs places
+ * exactly one sample in each of `samples` equal strata of every factor.
+ */
+export function generateDesign(spec: ExperimentSpec): ExperimentPoint[] {
+    const prng = new PRNG(spec.designSeed);
+    const rng = () => prng.next();
+    const points: ExperimentPoint[] = [];
+
+    if (spec.design === 'grid') {
+        const total = countPoints(spec);
+        for (let index = 0; index < total; index++) {
+            const values: Record<string, number> = {};
+            let rest = index;
+            for (let f = spec.factors.length - 1; f >= 0; f--) {
+                const factor = spec.factors[f];
+                const level = rest % factor.levels;
+                rest = Math.floor(rest / factor.levels);
+                values[factor.key] = scale(factor, factor.levels > 1 ? level / (factor.levels - 1) : 0);
+            }
+            points.push({ index, values: Object.fromEntries(spec.factors.map(factor => [factor.key, values[factor.key]])) });
+        }
+        return points;
+    }
+
+    const n = spec.samples;
+    const strata = spec.factors.map(() => {
+        const order = Array.from({ length: n }, (_, i) => i);
+        // Fisher-Yates shuffle: each factor visits its strata in an independent random order
+        for (let i = n - 1; i > 0; i--) {
+            const j = Math.floor(rng() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        return order;
+    });
+    for (let index = 0; index < n; index++) {
+        const values: Record<string, number> = {};
+        spec.factors.forEach((factor, f) => {
+            const unit = spec.design === 'lhs' ? (strata[f][index] + rng()) / n : rng();
+            values[factor.key] = scale(factor, unit);
+        });
+        points.push({ index, values });
+    }
+    return points;
+}
+
+/**
+ * Every run of the experiment, point by point and seed by seed
+ */
+export function generateJobs(spec: ExperimentSpec): ExperimentJob[] {
+    return generateDesign(spec).flatMap(point => spec.seeds.map(seed => ({
+        id: `${point.index}:${seed}`,
+        pointIndex: point.index,
+        seed,
+        values: point.values
+    })));
+}
+
+/**
+ * Short fingerprint of a spec; saved progress only resumes under the same fingerprint
+ */
+export function experimentKey(spec: ExperimentSpec): string {
+    return fnv1a(JSON.stringify(spec));
+}
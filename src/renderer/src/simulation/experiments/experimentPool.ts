@@ -0,0 +1,132 @@
+/**
+ * Experiment Pool - fans experiment jobs out to worker threads
+ *
+ * The pool logic is shared by browser Web Workers (the Experiments section)
+ * and Node worker_threads (`npm run experiment`); each environment wraps its
+ * worker in an ExperimentWorkerHandle, and every worker answers requests with
+ * handleWorkerRequest.
+ */
+
+import { ExperimentJob, ExperimentSpec } from './experimentDesign';
+import { ExperimentPool, ExperimentRow, runExperimentJob } from './experimentRunner';
+
+export interface ExperimentWorkerRequest {
+    id: number;
+    spec: ExperimentSpec;
+    job: ExperimentJob;
+}
+
+export interface ExperimentWorkerResponse {
+    id: number;
+    row?: ExperimentRow;
+    error?: string;
+}
+
+/** Minimal interface over a Web Worker or a worker_threads Worker */
+export interface ExperimentWorkerHandle {
+    post(request: ExperimentWorkerRequest): void;
+    onMessage(listener: (response: ExperimentWorkerResponse) => void): void;
+    /** The worker failed to load, crashed, exited or sent an unreadable message */
+    onError(listener: (message: string) => void): void;
+    terminate(): void;
+}
+
+/**
+ * Body of a worker: run the requested job and report the row or the failure
+ */
+export function handleWorkerRequest(request: ExperimentWorkerRequest): ExperimentWorkerResponse {
+    try {
+        return { id: request.id, row: runExperimentJob(request.spec, request.job) };
+    } catch (error) {
+        return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export function wrapWebWorker(worker: Worker): ExperimentWorkerHandle {
+    return {
+        post: request => worker.postMessage(request),
+        onMessage: listener => worker.addEventListener('message', event => listener(event.data as ExperimentWorkerResponse)),
+        onError: listener => {
+            worker.addEventListener('error', event => listener(event.message || 'Experiment worker failed to load or crashed'));
+            worker.addEventListener('messageerror', () => listener('Experiment worker sent a message that could not be read'));
+        },
+        terminate: () => worker.terminate()
+    };
+}
+
+interface PendingRequest {
+    request: ExperimentWorkerRequest;
+    resolve: (row: ExperimentRow) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Pool of up to `size` workers, spawned on first use; each runs one job at a time.
+ * A worker that dies rejects its job and is replaced for the jobs still waiting.
+ */
+export function createWorkerPool(spawn: () => ExperimentWorkerHandle, size: number): ExperimentPool {
+    const idle: ExperimentWorkerHandle[] = [];
+    const busy = new Map<ExperimentWorkerHandle, PendingRequest>();
+    const waiting: PendingRequest[] = [];
+    let spawned = 0;
+    let nextId = 0;
+
+    const dispatch = (worker: ExperimentWorkerHandle) => {
+        const next = waiting.shift();
+        if (!next) {
+            idle.push(worker);
+            return;
+        }
+        busy.set(worker, next);
+        worker.post(next.request);
+    };
+
+    const acquire = (): ExperimentWorkerHandle | null => {
+        const worker = idle.pop();
+        if (worker) return worker;
+        if (spawned >= size) return null;
+        spawned++;
+        const created = spawn();
+        created.onMessage(response => {
+            const pending = busy.get(created);
+            busy.delete(created);
+            if (pending && response.id === pending.request.id) {
+                if (response.row) pending.resolve(response.row);
+                else pending.reject(new Error(response.error ?? 'Experiment worker failed'));
+            }
+            dispatch(created);
+        });
+        created.onError(message => {
+            const pending = busy.get(created);
+            const idleIndex = idle.indexOf(created);
+            // Already retired, or terminated by dispose
+            if (!pending && idleIndex < 0) return;
+            busy.delete(created);
+            if (idleIndex >= 0) idle.splice(idleIndex, 1);
+            spawned--;
+            created.terminate();
+            pending?.reject(new Error(message));
+            if (waiting.length > 0) {
+                const replacement = acquire();
+                if (replacement) dispatch(replacement);
+            }
+        });
+        return created;
+    };
+
+    return {
+        size,
+        run: (spec, job) => new Promise<ExperimentRow>((resolve, reject) => {
+            waiting.push({ request: { id: nextId++, spec, job }, resolve, reject });
+            const worker = acquire();
+            if (worker) dispatch(worker);
+        }),
+        dispose: () => {
+            [...idle, ...busy.keys()].forEach(worker => worker.terminate());
+            busy.forEach(pending => pending.reject(new Error('Experiment pool disposed')));
+            waiting.splice(0).forEach(pending => pending.reject(new Error('Experiment pool disposed')));
+            idle.length = 0;
+            busy.clear();
+        }
+    };
+}
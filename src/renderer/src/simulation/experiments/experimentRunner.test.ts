@@ -0,0 +1,193 @@
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import { DEFAULT_PARAMETERS } from '../types';
+import { generateJobs, parseExperimentSpec } from './experimentDesign';
+import {
+    ExperimentPool,
+    createExperimentProgress,
+    createInlinePool,
+    experimentToCsv,
+    resumeExperimentProgress,
+    runExperiment,
+    runExperimentJob,
+    summarizeExperiment
+} from './experimentRunner';
+import { ExperimentWorkerHandle, ExperimentWorkerRequest, ExperimentWorkerResponse, createWorkerPool, handleWorkerRequest } from './experimentPool';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const SDE_SPEC = parseExperimentSpec({
+    name: 'alert-sweep',
+    scenarioId: 'sde-v1',
+    factors: [{ key: 'A_alert', min: 0.1, max: 0.9, levels: 3 }],
+    seeds: [1, 2],
+    steps: 200,
+    control: 0.8,
+    baseConfig: { k_AU: 1.5 }
+});
+
+/** In-process stand-in for a worker thread: answers asynchronously and records concurrency */
+function fakeWorkers() {
+    const stats = { spawned: 0, active: 0, maxActive: 0 };
+    const spawn = (): ExperimentWorkerHandle => {
+        stats.spawned++;
+        let listener: (response: ExperimentWorkerResponse) => void = () => { };
+        return {
+            post: (request: ExperimentWorkerRequest) => {
+                stats.active++;
+                stats.maxActive = Math.max(stats.maxActive, stats.active);
+                setTimeout(() => {
+                    stats.active--;
+                    listener(handleWorkerRequest(request));
+                }, 1);
+            },
+            onMessage: next => { listener = next; },
+            onError: () => { },
+            terminate: () => { }
+        };
+    };
+    return { spawn, stats };
+}
+
+function testJobMetrics() {
+    const [job] = generateJobs(SDE_SPEC);
+    const row = runExperimentJob(SDE_SPEC, job);
+
+    const manual = new SDEScenario();
+    manual.initialize(1, { ...DEFAULT_PARAMETERS, k_AU: 1.5, A_alert: 0.1 });
+    let peakA = manual.getMetrics().A;
+    for (let i = 0; i < 200; i++) {
+        manual.step({ U: 0.8 });
+        peakA = Math.max(peakA, manual.getMetrics().A);
+    }
+    assert(row.metrics!.finalA === manual.getMetrics().A && row.metrics!.peakA === peakA, 'job applies the factor values over the base config');
+    assert(row.metrics!.timeToAlert !== null && row.metrics!.alerts >= 1, 'a low threshold is crossed and timed');
+
+    const high = runExperimentJob(SDE_SPEC, generateJobs(SDE_SPEC)[5]);
+    assert(high.values.A_alert === 0.9 && high.metrics!.timeToAlert === null && high.metrics!.alerts === 0, 'an unreachable threshold has no time-to-alert');
+
+    const failed = handleWorkerRequest({ id: 3, spec: { ...SDE_SPEC, scenarioId: 'chess' }, job });
+    assert(failed.id === 3 && !failed.row && /Unknown scenario/.test(failed.error ?? ''), 'worker failures are reported, not thrown');
+}
+
+async function testWorkerPool() {
+    const { spawn, stats } = fakeWorkers();
+    const pool = createWorkerPool(spawn, 3);
+    const progress = createExperimentProgress(SDE_SPEC);
+    const status = await runExperiment(SDE_SPEC, progress, pool);
+    pool.dispose();
+
+    assert(status === 'complete' && progress.rows.length === 6, 'pool runs every job');
+    assert(stats.spawned === 3 && stats.maxActive === 3, 'jobs run on three workers at once');
+
+    const inline = createExperimentProgress(SDE_SPEC);
+    await runExperiment(SDE_SPEC, inline, createInlinePool());
+    const byId = (rows: typeof inline.rows) => JSON.stringify([...rows].sort((a, b) => a.jobId.localeCompare(b.jobId)).map(row => row.metrics));
+    assert(byId(inline.rows) === byId(progress.rows), 'worker and inline runs agree');
+
+    const failing = createWorkerPool(spawn, 1);
+    let rejected = false;
+    await failing.run({ ...SDE_SPEC, scenarioId: 'chess' }, generateJobs(SDE_SPEC)[0]).catch(() => { rejected = true; });
+    assert(rejected, 'a failed job rejects its promise');
+
+    // One job throws: the others still finish and the failure becomes a row
+    const flaky: ExperimentPool = {
+        size: 2,
+        run: async (spec, job) => {
+            if (job.pointIndex === 1 && job.seed === 2) throw new Error('solver diverged, "A" is NaN');
+            return runExperimentJob(spec, job);
+        },
+        dispose: () => { }
+    };
+    const partial = createExperimentProgress(SDE_SPEC);
+    const outcome = await runExperiment(SDE_SPEC, partial, flaky);
+    const broken = partial.rows.filter(row => row.error);
+    assert(outcome === 'complete' && partial.rows.length === 6 && broken.length === 1, 'a failing job does not lose the other rows');
+    assert(broken[0].metrics === null && broken[0].pointIndex === 1 && broken[0].seed === 2, 'the failed row keeps its job and has no metrics');
+    assert(summarizeExperiment(partial.rows)[1].runs === 1, 'summaries skip failed runs');
+    const failedLine = experimentToCsv(SDE_SPEC, partial.rows).trim().split('\n')[4];
+    assert(failedLine.startsWith('1,2,0.5,,,,,,,') && failedLine.endsWith(',"solver diverged, ""A"" is NaN"'), 'CSV lists the failed run with its error');
+    assert(resumeExperimentProgress(SDE_SPEC, partial).rows.length === 5, 'failed runs are retried on resume');
+
+    // The first worker dies on its first job: the job fails and a new worker takes the rest
+    let spawnedCrashing = 0;
+    let terminatedCrashing = 0;
+    const crashing = createWorkerPool(() => {
+        const crashes = spawnedCrashing++ === 0;
+        let listener: (response: ExperimentWorkerResponse) => void = () => { };
+        let fail: (message: string) => void = () => { };
+        return {
+            post: request => setTimeout(() => (crashes ? fail('worker exited with code 1') : listener(handleWorkerRequest(request))), 1),
+            onMessage: next => { listener = next; },
+            onError: next => { fail = next; },
+            terminate: () => { terminatedCrashing++; }
+        };
+    }, 1);
+    const survived = createExperimentProgress(SDE_SPEC);
+    const crashOutcome = await runExperiment(SDE_SPEC, survived, crashing);
+    crashing.dispose();
+    const lost = survived.rows.filter(row => row.error);
+    assert(crashOutcome === 'complete' && survived.rows.length === 6, 'a crashed worker does not stall the experiment');
+    assert(lost.length === 1 && lost[0].error === 'worker exited with code 1', 'the job in flight on the crashed worker becomes an error row');
+    assert(spawnedCrashing === 2 && terminatedCrashing === 2, 'the dead worker is dropped and replaced');
+}
+
+async function testResume() {
+    const controller = new AbortController();
+    const progress = createExperimentProgress(SDE_SPEC);
+    const status = await runExperiment(SDE_SPEC, progress, createInlinePool(), {
+        signal: controller.signal,
+        onRow: (_, current) => { if (current.rows.length === 2) controller.abort(); }
+    });
+    assert(status === 'cancelled' && progress.rows.length === 2, 'aborting stops after the job in flight');
+
+    const saved = JSON.parse(JSON.stringify(progress));
+    const resumed = resumeExperimentProgress(SDE_SPEC, saved);
+    assert(resumed.rows.length === 2 && resumed.total === 6, 'saved rows resume under the same spec');
+    const ran: string[] = [];
+    const counting: ExperimentPool = {
+        size: 2,
+        run: async (spec, job) => {
+            ran.push(job.id);
+            return runExperimentJob(spec, job);
+        },
+        dispose: () => { }
+    };
+    assert(await runExperiment(SDE_SPEC, resumed, counting) === 'complete', 'resumed experiment completes');
+    assert(ran.length === 4 && !ran.includes(saved.rows[0].jobId), 'finished jobs are not run again');
+
+    const changed = resumeExperimentProgress({ ...SDE_SPEC, steps: 100 }, saved);
+    assert(changed.rows.length === 0, 'progress of another spec is discarded');
+    assert(resumeExperimentProgress(SDE_SPEC, { ...saved, rows: [...saved.rows, saved.rows[0], { jobId: 'x' }] }).rows.length === 2, 'duplicate and malformed rows are dropped');
+}
+
+async function testSummary() {
+    const progress = createExperimentProgress(SDE_SPEC);
+    await runExperiment(SDE_SPEC, progress, createInlinePool());
+    const summary = summarizeExperiment(progress.rows);
+    assert(summary.length === 3 && summary.every(point => point.runs === 2), 'summary has one entry per point');
+    const low = summary[0];
+    const lowRows = progress.rows.filter(row => row.pointIndex === 0);
+    assert(Math.abs(low.mean.peakA! - (lowRows[0].metrics!.peakA + lowRows[1].metrics!.peakA) / 2) < 1e-12, 'summary averages over seeds');
+    assert(low.alertFraction === 1 && summary[2].alertFraction === 0 && summary[2].mean.timeToAlert === null, 'alert fraction and time-to-alert ignore runs without alerts');
+
+    const csv = experimentToCsv(SDE_SPEC, progress.rows).trim().split('\n');
+    assert(csv[0] === 'point,seed,A_alert,peakA,timeToAlert,alerts,extinctions,finalA,finalD,durationMs,error', 'CSV header lists factors and metrics');
+    assert(csv.length === 7 && csv[1].startsWith('0,1,0.1,') && csv[6].split(',')[4] === '', 'CSV rows are ordered and blank when the alert never fired');
+}
+
+async function run() {
+    console.log('Starting Experiment Runner Tests...');
+    testJobMetrics();
+    await testWorkerPool();
+    await testResume();
+    await testSummary();
+    console.log('All experiment runner tests passed!');
+}
+
+run();
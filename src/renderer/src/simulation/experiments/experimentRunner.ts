@@ -0,0 +1,239 @@
+/**
+ * Experiment Runner - executes the jobs of an experiment spec and collects metrics
+ *
+ * Jobs are handed to an ExperimentPool (worker threads, or the calling thread)
+ * with at most `pool.size` in flight. Finished rows are appended to an
+ * ExperimentProgress, which the caller persists; running the same spec again
+ * with that progress skips the jobs that already have a row. A job that throws
+ * is recorded as a row with its error and no metrics, and is retried on resume.
+ */
+
+import { createBatchScenario } from '../runner/batchRunner';
+import { HeadlessRunner } from '../runner/HeadlessRunner';
+import { isRecord } from '../scenarios/scenarioPlugin';
+import { ExperimentJob, ExperimentSpec, experimentKey, generateJobs } from './experimentDesign';
+
+/** Summary of one run */
+export interface ExperimentMetrics {
+    peakA: number;
+    /** Generation of the first threshold crossing, null when the run never alerted */
+    timeToAlert: number | null;
+    alerts: number;
+    extinctions: number;
+    finalA: number;
+    finalD: number;
+}
+
+export type ExperimentMetric = keyof ExperimentMetrics;
+
+export const EXPERIMENT_METRICS: ExperimentMetric[] = ['peakA', 'timeToAlert', 'alerts', 'extinctions', 'finalA', 'finalD'];
+
+export interface ExperimentRow {
+    jobId: string;
+    pointIndex: number;
+    seed: number;
+    values: Record<string, number>;
+    /** Null when the job failed */
+    metrics: ExperimentMetrics | null;
+    durationMs: number;
+    /** Why the job failed */
+    error?: string;
+}
+
+/** Rows finished so far; persisted by the caller to resume an interrupted experiment */
+export interface ExperimentProgress {
+    key: string;
+    total: number;
+    rows: ExperimentRow[];
+}
+
+/** Runs jobs somewhere (worker threads or inline), at most `size` at a time */
+export interface ExperimentPool {
+    size: number;
+    run(spec: ExperimentSpec, job: ExperimentJob): Promise<ExperimentRow>;
+    dispose(): void;
+}
+
+/** Per design point: metric means over its seeds */
+export interface ExperimentPointSummary {
+    pointIndex: number;
+    values: Record<string, number>;
+    runs: number;
+    /** Mean of each metric; timeToAlert averages the runs that alerted and is null when none did */
+    mean: Record<ExperimentMetric, number | null>;
+    /** Fraction of the runs that crossed the alert threshold */
+    alertFraction: number;
+}
+
+/** Let timers and UI events run between inline jobs */
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Run one job synchronously on the calling thread
+ */
+export function runExperimentJob(spec: ExperimentSpec, job: ExperimentJob): ExperimentRow {
+    const start = Date.now();
+    const { scenario } = createBatchScenario(spec.scenarioId, job.seed, { ...spec.baseConfig, ...job.values });
+
+    let alerts = 0;
+    let extinctions = 0;
+    let timeToAlert: number | null = null;
+    const runner = new HeadlessRunner({
+        onEvent: event => {
+            if (event.type === 'threshold_crossed') {
+                alerts++;
+                timeToAlert ??= event.timestamp;
+            } else if (event.type === 'extinction') {
+                extinctions++;
+            }
+        }
+    });
+    runner.setScenario(scenario);
+    runner.setControl({ U: spec.control });
+    if (spec.schedule) {
+        runner.setSchedule({ schedule: spec.schedule, startGeneration: scenario.getMetrics().generation });
+    }
+
+    let peakA = scenario.getMetrics().A;
+    let final = scenario.getMetrics();
+    for (let i = 0; i < spec.steps; i++) {
+        final = runner.stepBatch(1)!;
+        peakA = Math.max(peakA, final.A);
+    }
+
+    return {
+        jobId: job.id,
+        pointIndex: job.pointIndex,
+        seed: job.seed,
+        values: job.values,
+        metrics: { peakA, timeToAlert, alerts, extinctions, finalA: final.A, finalD: final.D },
+        durationMs: Date.now() - start
+    };
+}
+
+/**
+ * Pool that runs one job at a time on the calling thread, yielding between jobs
+ */
+export function createInlinePool(): ExperimentPool {
+    return {
+        size: 1,
+        run: async (spec, job) => {
+            await yieldToEventLoop();
+            return runExperimentJob(spec, job);
+        },
+        dispose: () => { }
+    };
+}
+
+export function createExperimentProgress(spec: ExperimentSpec): ExperimentProgress {
+    return { key: experimentKey(spec), total: generateJobs(spec).length, rows: [] };
+}
+
+/** A finished row; failed rows are not kept, so their jobs run again */
+const isRow = (value: unknown): value is ExperimentRow => (
+    isRecord(value)
+    && typeof value.jobId === 'string'
+    && typeof value.seed === 'number'
+    && typeof value.pointIndex === 'number'
+    && isRecord(value.metrics)
+    && typeof value.metrics.peakA === 'number'
+);
+
+/**
+ * Progress to continue from: the saved finished rows when they belong to this spec, otherwise a fresh start
+ */
+export function resumeExperimentProgress(spec: ExperimentSpec, saved: unknown): ExperimentProgress {
+    const fresh = createExperimentProgress(spec);
+    const candidate = saved as Partial<ExperimentProgress> | null;
+    if (!candidate || candidate.key !== fresh.key || !Array.isArray(candidate.rows)) return fresh;
+    const rows = new Map<string, ExperimentRow>();
+    candidate.rows.forEach(row => {
+        if (isRow(row) && !rows.has(row.jobId)) rows.set(row.jobId, row);
+    });
+    return { ...fresh, rows: [...rows.values()] };
+}
+
+/**
+ * Run every job without a row yet. Resolves 'cancelled' when the signal aborts
+ * (jobs already in flight still finish and are recorded). A failing job does not
+ * stop the others; it gets a row with the error instead of metrics.
+ */
+export async function runExperiment(
+    spec: ExperimentSpec,
+    progress: ExperimentProgress,
+    pool: ExperimentPool,
+    options: { signal?: AbortSignal; onRow?: (row: ExperimentRow, progress: ExperimentProgress) => void } = {}
+): Promise<'complete' | 'cancelled'> {
+    const done = new Set(progress.rows.map(row => row.jobId));
+    const queue = generateJobs(spec).filter(job => !done.has(job.id));
+
+    const worker = async () => {
+        for (let job = queue.shift(); job; job = queue.shift()) {
+            if (options.signal?.aborted) return;
+            const start = Date.now();
+            const row = await pool.run(spec, job).catch((error: unknown): ExperimentRow => ({
+                jobId: job.id,
+                pointIndex: job.pointIndex,
+                seed: job.seed,
+                values: job.values,
+                metrics: null,
+                durationMs: Date.now() - start,
+                error: error instanceof Error ? error.message : String(error)
+            }));
+            progress.rows.push(row);
+            options.onRow?.(row, progress);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, pool.size) }, worker));
+    return progress.rows.length >= progress.total ? 'complete' : 'cancelled';
+}
+
+const average = (values: number[]) => (
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+);
+
+/**
+ * Aggregate the finished rows per design point, ordered by point
+ */
+export function summarizeExperiment(rows: ExperimentRow[]): ExperimentPointSummary[] {
+    const finished = rows.filter((row): row is ExperimentRow & { metrics: ExperimentMetrics } => row.metrics !== null);
+    const byPoint = new Map<number, typeof finished>();
+    finished.forEach(row => byPoint.set(row.pointIndex, [...(byPoint.get(row.pointIndex) ?? []), row]));
+    return [...byPoint.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([pointIndex, pointRows]) => {
+            const mean = Object.fromEntries(EXPERIMENT_METRICS.map(metric => [
+                metric,
+                average(pointRows.map(row => row.metrics[metric]).filter((value): value is number => value !== null))
+            ])) as Record<ExperimentMetric, number | null>;
+            return {
+                pointIndex,
+                values: pointRows[0].values,
+                runs: pointRows.length,
+                mean,
+                alertFraction: pointRows.filter(row => row.metrics.timeToAlert !== null).length / pointRows.length
+            };
+        });
+}
+
+const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * One CSV line per run: job, factor values, metrics (empty when time-to-alert is
+ * undefined or the run failed) and the error of a failed run
+ */
+export function experimentToCsv(spec: ExperimentSpec, rows: ExperimentRow[]): string {
+    const keys = spec.factors.map(factor => factor.key);
+    const header = ['point', 'seed', ...keys, ...EXPERIMENT_METRICS, 'durationMs', 'error'].join(',');
+    const lines = [...rows]
+        .sort((a, b) => a.pointIndex - b.pointIndex || a.seed - b.seed)
+        .map(row => [
+            row.pointIndex,
+            row.seed,
+            ...keys.map(key => row.values[key]),
+            ...EXPERIMENT_METRICS.map(metric => row.metrics?.[metric] ?? ''),
+            row.durationMs,
+            row.error ? csvText(row.error) : ''
+        ].join(','));
+    return [header, ...lines].join('\n') + '\n';
+}
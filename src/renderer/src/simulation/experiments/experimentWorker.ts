@@ -0,0 +1,15 @@
+/**
+ * Web Worker entry for the Experiments section: runs one experiment job per message
+ */
+
+import '../scenarios/localPlugins';
+import { ExperimentWorkerRequest, handleWorkerRequest } from './experimentPool';
+
+const context = self as unknown as {
+    onmessage: ((event: MessageEvent<ExperimentWorkerRequest>) => void) | null;
+    postMessage(message: unknown): void;
+};
+
+context.onmessage = event => {
+    context.postMessage(handleWorkerRequest(event.data));
+};
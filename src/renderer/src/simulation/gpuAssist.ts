@@ -11,7 +11,7 @@ class GpuAssist {
         if (this.initialized) return;
         this.initialized = true;
 
-        if (!navigator.gpu) {
+        if (typeof navigator === 'undefined' || !navigator.gpu) {
             return;
         }
 
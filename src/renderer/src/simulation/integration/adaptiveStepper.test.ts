@@ -0,0 +1,160 @@
+import { AdaptiveStepConfig, DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, SimulationParameters, SimulationState } from '../types';
+import { advanceState, sampleBrownianIncrement } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import {
+    BrownianSegment,
+    advanceAdaptive,
+    createAdaptiveStepper,
+    resolveAdaptiveConfig,
+    sanitizeAdaptiveConfig,
+    splitSegment
+} from './adaptiveStepper';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+/** Stiff diversity: the equilibrium near 0.6 relaxes at rate ~90, so Euler-Maruyama at dt = 0.1 is unstable */
+const STIFF: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_C: 0, sigma_D: 0, sigma_A: 0, k_D_growth: 40, k_D_decay: 40 };
+const START: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.6, D: 0.2, A: 0.5 };
+
+const CONFIG: AdaptiveStepConfig = { enabled: true, tolerance: 1e-4, dtMin: 1e-5, dtMax: 0.1 };
+
+/** Stiff Ornstein-Uhlenbeck process around 0.5 with stationary variance 0.1^2 / 80 */
+const OU_MODEL = [
+    'dC = -40*(C - 0.5) dt + 0.1 dW',
+    'dD = -40*(D - 0.5) dt + 0.1 dW',
+    'dA = -40*(A - 0.5) dt + 0.1 dW'
+].join('\n');
+
+function moments(values: number[]): { mean: number; variance: number } {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return { mean, variance: values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1) };
+}
+
+function testSplit() {
+    const rng = new PRNG(4);
+    const n = 20000;
+    const q = 0.3;
+    let exact = true;
+    const w1: number[] = [];
+    const z1: number[] = [];
+    const bridge: number[] = [];
+    for (let i = 0; i < n; i++) {
+        const segment: BrownianSegment = { dt: 2, ...sampleBrownianIncrement(1, 2, true, () => rng.next()) };
+        const [first, second] = splitSegment(segment, 2 * q, () => rng.next());
+        exact = exact
+            && Math.abs(first.dW[0] + second.dW[0] - segment.dW[0]) < 1e-12
+            && Math.abs(first.dZ[0] + first.dW[0] * second.dt + second.dZ[0] - segment.dZ[0]) < 1e-12;
+        w1.push(first.dW[0]);
+        z1.push(first.dZ[0]);
+
+        const plain: BrownianSegment = { dt: 2, ...sampleBrownianIncrement(1, 2, false, () => rng.next()) };
+        const [head] = splitSegment(plain, 2 * q, () => rng.next());
+        bridge.push(head.dW[0] - q * plain.dW[0]);
+    }
+    const h1 = 2 * q;
+    assert(exact, 'split pieces add up to the segment increments');
+    const w = moments(w1);
+    const z = moments(z1);
+    const covariance = w1.reduce((sum, value, i) => sum + value * z1[i], 0) / n;
+    assert(Math.abs(w.variance / h1 - 1) < 0.05, `first piece has Var(dW) = h1 (${w.variance.toFixed(4)} vs ${h1})`);
+    assert(Math.abs(z.variance / (h1 ** 3 / 3) - 1) < 0.06, `first piece has Var(dZ) = h1^3/3 (${z.variance.toFixed(4)})`);
+    assert(Math.abs(covariance / (h1 ** 2 / 2) - 1) < 0.06, `first piece has Cov(dW, dZ) = h1^2/2 (${covariance.toFixed(4)})`);
+    const b = moments(bridge);
+    assert(Math.abs(b.variance / (q * (1 - q) * 2) - 1) < 0.05, 'Brownian bridge variance is q(1-q)h');
+}
+
+function testStiffAccuracy() {
+    const ticks = 20;
+    let fixed = START;
+    let reference = START;
+    let adaptive = START;
+    const stepper = createAdaptiveStepper(CONFIG);
+    const fine = { ...STIFF, dt: 1e-4 };
+    for (let i = 0; i < ticks; i++) {
+        fixed = advanceState(fixed, STIFF, { U: 0.3 }).state;
+        adaptive = advanceAdaptive(adaptive, STIFF, { U: 0.3 }, stepper, CONFIG).state;
+        for (let j = 0; j < 1000; j++) reference = advanceState(reference, fine, { U: 0.3 }).state;
+    }
+    const adaptiveError = Math.abs(adaptive.D - reference.D);
+    const fixedError = Math.abs(fixed.D - reference.D);
+    assert(fixedError > 0.05, `fixed dt is unstable in the stiff region (error ${fixedError.toFixed(3)})`);
+    assert(adaptiveError < 2e-3, `adaptive steps track the fine reference (error ${adaptiveError.toExponential(2)})`);
+    assert(Math.abs(adaptive.generation - ticks * STIFF.dt) < 1e-12, 'each call advances exactly one dt');
+    assert(stepper.stats.rejected > 0 && stepper.stats.accepted > ticks, 'stiff dynamics force rejected and extra substeps');
+    assert(stepper.stats.minDt >= CONFIG.dtMin && stepper.stats.maxDt <= CONFIG.dtMax, 'substeps stay within the bounds');
+}
+
+function testGentleRegion() {
+    const stepper = createAdaptiveStepper({ ...CONFIG, dtMax: 0.05 });
+    let state = START;
+    for (let i = 0; i < 50; i++) state = advanceAdaptive(state, { ...DEFAULT_PARAMETERS, sigma_C: 0, sigma_D: 0, sigma_A: 0 }, { U: 0.3 }, stepper, { ...CONFIG, dtMax: 0.05 }).state;
+    assert(stepper.stats.maxDt === 0.05 && stepper.stats.dt === 0.05, 'smooth dynamics grow the substep to dt max');
+    assert(stepper.stats.accepted <= 2 * 50 + 20, 'smooth dynamics need few substeps');
+
+    const floor = createAdaptiveStepper(CONFIG);
+    const coarse = { ...CONFIG, tolerance: 1e-12, dtMin: 0.02 };
+    advanceAdaptive(START, STIFF, { U: 0.3 }, floor, coarse);
+    assert(floor.stats.forced > 0, 'substeps at dt min are accepted and counted when the error is still too large');
+}
+
+function testNoiseConsistency() {
+    const params: SimulationParameters = { ...DEFAULT_PARAMETERS, model: OU_MODEL };
+    const config: AdaptiveStepConfig = { ...CONFIG, tolerance: 2e-3 };
+    const rng = new PRNG(17);
+    const samples: number[] = [];
+    let rejected = 0;
+    for (let path = 0; path < 300; path++) {
+        const stepper = createAdaptiveStepper(config);
+        let state: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.5, D: 0.5, A: 0.5 };
+        for (let i = 0; i < 5; i++) state = advanceAdaptive(state, params, { U: 0.3 }, stepper, config, () => rng.next()).state;
+        samples.push(state.C, state.D, state.A);
+        rejected += stepper.stats.rejected;
+    }
+    const { mean, variance } = moments(samples);
+    const stationary = 0.01 / 80;
+    assert(rejected > 0, 'noisy stiff paths reject substeps');
+    assert(Math.abs(mean - 0.5) < 0.002, `adaptive OU paths stay centered (${mean.toFixed(4)})`);
+    assert(Math.abs(variance / stationary - 1) < 0.25, `rejections keep the noise unbiased (variance ${variance.toExponential(2)} vs ${stationary.toExponential(2)})`);
+}
+
+function testConfig() {
+    assert(resolveAdaptiveConfig(DEFAULT_PARAMETERS) === null, 'adaptive stepping is off by default');
+    const resolved = resolveAdaptiveConfig({ ...DEFAULT_PARAMETERS, adaptive: { enabled: true, tolerance: -1, dtMin: 0.5, dtMax: 0.1 } });
+    assert(resolved !== null && resolved.tolerance > 0 && resolved.dtMax === 0.5, 'invalid bounds are repaired');
+    assert(sanitizeAdaptiveConfig('fast') === undefined, 'non-object adaptive config is dropped');
+    const sanitized = sanitizeAdaptiveConfig({ enabled: true, tolerance: 'tight', dtMin: 0.001, dtMax: Infinity });
+    assert(sanitized?.enabled === true && sanitized.tolerance === 1e-3 && sanitized.dtMax === 0.1, 'invalid adaptive fields fall back to defaults');
+}
+
+function testScenario() {
+    const scenario = new SDEScenario();
+    scenario.initialize(3, { ...STIFF, adaptive: CONFIG });
+    for (let i = 0; i < 10; i++) scenario.step({ U: 0.3 });
+    const stats = scenario.getState().stepStats;
+    assert(stats !== null && stats.accepted > 10, 'scenario reports adaptive step statistics');
+    assert(Math.abs(scenario.getMetrics().generation - 1) < 1e-9, 'scenario telemetry keeps the dt grid');
+
+    scenario.initialize(3, STIFF);
+    scenario.step({ U: 0.3 });
+    assert(scenario.getState().stepStats === null, 'fixed-step runs have no step statistics');
+}
+
+function run() {
+    console.log('Starting Adaptive Stepper Tests...');
+    testSplit();
+    testStiffAccuracy();
+    testGentleRegion();
+    testNoiseConsistency();
+    testConfig();
+    testScenario();
+    console.log('All adaptive stepper tests passed!');
+}
+
+run();
@@ -0,0 +1,255 @@
+/**
+ * Adaptive Stepper - local error control for the CPU SDE engine
+ *
+ * Each dt tick is integrated in substeps h within [dtMin, dtMax]. A substep is
+ * tried twice on the same Brownian path, as one step of h and as two steps of
+ * h/2, and the difference of the two results estimates the local error. The
+ * two half steps are kept when the error is within tolerance; otherwise the
+ * step is retried with a smaller h.
+ *
+ * A rejected step must not redraw its noise, or the path would be biased
+ * towards small increments. The Brownian path already sampled past the current
+ * time is kept as a queue of segments; shorter steps split a segment with the
+ * Brownian bridge, conditioned on both dW and the double integral dZ when the
+ * scheme uses it, so every accepted step sees one consistent realization.
+ */
+
+import { AdaptiveStepConfig, ControlSignal, SdeIntegrator, SimulationParameters, SimulationState } from '../types';
+import { BoundaryHit, BrownianIncrement, StepResult, gaussianRandom, planStep, sampleBrownianIncrement } from '../sdeEngine';
+
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveStepConfig = {
+    enabled: false,
+    tolerance: 1e-3,
+    dtMin: 1e-4,
+    dtMax: 0.1
+};
+
+/** Step size controller: safety factor and the bounds of the change per substep */
+const SAFETY = 0.9;
+const MIN_FACTOR = 0.2;
+const MAX_FACTOR = 2;
+
+/** A stretch of the Brownian path that has been sampled but not integrated yet */
+export interface BrownianSegment extends BrownianIncrement {
+    dt: number;
+}
+
+/** Accepted/rejected substep counts since the run started */
+export interface AdaptiveStepStats {
+    accepted: number;
+    rejected: number;
+    /** Substeps accepted at dtMin with the error still above tolerance */
+    forced: number;
+    /** Shortest and longest accepted substeps (0 before the first one) */
+    minDt: number;
+    maxDt: number;
+    /** Substep proposed for the next attempt */
+    dt: number;
+    /** Error of the last accepted substep relative to the tolerance */
+    lastError: number;
+}
+
+/** State carried by the adaptive driver from one tick to the next */
+export interface AdaptiveStepper {
+    /** Sampled Brownian path ahead of the current time, earliest first */
+    pending: BrownianSegment[];
+    stats: AdaptiveStepStats;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/** Schemes without the double integral sample dZ as zeros */
+const hasDoubleIntegral = (segment: BrownianIncrement) => segment.dZ.some(value => value !== 0);
+
+/**
+ * Enabled adaptive configuration with consistent bounds, or null for fixed steps.
+ * Lattice runs always take fixed steps: the coupling between cells lands once per dt.
+ */
+export function resolveAdaptiveConfig(params: SimulationParameters): AdaptiveStepConfig | null {
+    const config = params.adaptive;
+    if (!config?.enabled || params.lattice?.enabled) return null;
+    const dtMin = config.dtMin > 0 ? config.dtMin : DEFAULT_ADAPTIVE_CONFIG.dtMin;
+    return {
+        enabled: true,
+        tolerance: config.tolerance > 0 ? config.tolerance : DEFAULT_ADAPTIVE_CONFIG.tolerance,
+        dtMin,
+        dtMax: Math.max(dtMin, config.dtMax > 0 ? config.dtMax : DEFAULT_ADAPTIVE_CONFIG.dtMax)
+    };
+}
+
+export function createAdaptiveStepper(config: AdaptiveStepConfig): AdaptiveStepper {
+    return {
+        pending: [],
+        stats: { accepted: 0, rejected: 0, forced: 0, minDt: 0, maxDt: 0, dt: config.dtMax, lastError: 0 }
+    };
+}
+
+/**
+ * Split a Brownian segment at `first` (0 < first < dt) given its increments.
+ *
+ * Without a double integral, W(first) is the bridge W(first) = q dW + sqrt(q (1-q) dt) xi.
+ * With one, (W1, Z1) is drawn from its Gaussian law conditioned on (dW, dZ), worked out on
+ * the unit interval and rescaled; the second piece is what remains:
+ * dW = W1 + W2 and dZ = Z1 + W1 (dt - first) + Z2.
+ */
+export function splitSegment(
+    segment: BrownianSegment,
+    first: number,
+    rng: () => number
+): [BrownianSegment, BrownianSegment] {
+    const h = segment.dt;
+    const q = first / h;
+    const rest = h - first;
+    const sqrtH = Math.sqrt(h);
+
+    const dW1: number[] = [];
+    const dZ1: number[] = [];
+    if (!hasDoubleIntegral(segment)) {
+        const spread = Math.sqrt(q * (1 - q) * h);
+        segment.dW.forEach(dW => {
+            dW1.push(q * dW + spread * gaussianRandom(rng));
+            dZ1.push(0);
+        });
+    } else {
+        // Unit interval: Cov(W, Z) = [[1, 1/2], [1/2, 1/3]] has inverse [[4, -6], [-6, 12]]
+        const c11 = q;
+        const c12 = q * q / 2 + (1 - q) * q;
+        const c21 = q * q / 2;
+        const c22 = q * q * q / 3 + (1 - q) * q * q / 2;
+        const k11 = 4 * c11 - 6 * c12;
+        const k12 = -6 * c11 + 12 * c12;
+        const k21 = 4 * c21 - 6 * c22;
+        const k22 = -6 * c21 + 12 * c22;
+        const v11 = q - (k11 * c11 + k12 * c12);
+        const v21 = q * q / 2 - (k21 * c11 + k22 * c12);
+        const v22 = q * q * q / 3 - (k21 * c21 + k22 * c22);
+        const l11 = Math.sqrt(Math.max(0, v11));
+        const l21 = l11 > 0 ? v21 / l11 : 0;
+        const l22 = Math.sqrt(Math.max(0, v22 - l21 * l21));
+        segment.dW.forEach((dW, k) => {
+            const w = dW / sqrtH;
+            const z = segment.dZ[k] / (h * sqrtH);
+            const xi1 = gaussianRandom(rng);
+            const xi2 = gaussianRandom(rng);
+            dW1.push(sqrtH * (k11 * w + k12 * z + l11 * xi1));
+            dZ1.push(h * sqrtH * (k21 * w + k22 * z + l21 * xi1 + l22 * xi2));
+        });
+    }
+
+    return [
+        { dt: first, dW: dW1, dZ: dZ1 },
+        {
+            dt: rest,
+            dW: segment.dW.map((dW, k) => dW - dW1[k]),
+            dZ: segment.dZ.map((dZ, k) => dZ - dZ1[k] - dW1[k] * rest)
+        }
+    ];
+}
+
+/**
+ * Brownian path for the next `dt` (or the shorter segment already waiting at the front of the queue)
+ */
+function takeSegment(
+    stepper: AdaptiveStepper,
+    dt: number,
+    dimension: number,
+    needsDoubleIntegral: boolean,
+    rng: () => number
+): BrownianSegment {
+    const next = stepper.pending.shift();
+    if (!next) return { dt, ...sampleBrownianIncrement(dimension, dt, needsDoubleIntegral, rng) };
+    if (dt >= next.dt * (1 - 1e-9)) return next;
+    const [head, tail] = splitSegment(next, dt, rng);
+    stepper.pending.unshift(tail);
+    return head;
+}
+
+/**
+ * Advance the state by params.dt in adaptive substeps.
+ * Jumps are drawn once per accepted substep and are not part of the error estimate.
+ */
+export function advanceAdaptive(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal,
+    stepper: AdaptiveStepper,
+    config: AdaptiveStepConfig,
+    rng: () => number = Math.random,
+    integrator: SdeIntegrator = params.integrator ?? 'euler-maruyama'
+): StepResult {
+    const { stats } = stepper;
+    const absorbed: BoundaryHit[] = [];
+    let current = state;
+    let remaining = params.dt;
+
+    while (remaining > params.dt * 1e-9) {
+        const plan = planStep(current, params, control, integrator);
+        const dimension = plan.start.length;
+        const needsDoubleIntegral = plan.scheme.needsDoubleIntegral;
+        // A model or integrator change leaves queued segments of the wrong shape
+        const stale = stepper.pending.some(segment => (
+            segment.dW.length !== dimension || hasDoubleIntegral(segment) !== needsDoubleIntegral
+        ));
+        if (stale) stepper.pending = [];
+        const exponent = -1 / (plan.scheme.strongOrder + 0.5);
+
+        let h = Math.min(remaining, clamp(stats.dt, config.dtMin, config.dtMax));
+        for (;;) {
+            const segment = takeSegment(stepper, h, dimension, needsDoubleIntegral, rng);
+            h = segment.dt;
+            const [first, second] = splitSegment(segment, h / 2, rng);
+            const coarse = plan.toModel(plan.integrate(plan.start, h, segment));
+            const fineY = plan.integrate(plan.integrate(plan.start, h / 2, first), h / 2, second);
+            const fine = plan.toModel(fineY);
+            const difference = Math.max(...fine.map((value, k) => Math.abs(value - coarse[k])));
+            const error = Number.isFinite(difference) ? difference / config.tolerance : Infinity;
+            const factor = error === 0 ? MAX_FACTOR : clamp(SAFETY * Math.pow(error, exponent), MIN_FACTOR, MAX_FACTOR);
+            const atFloor = h <= config.dtMin * (1 + 1e-9);
+
+            if (error <= 1 || atFloor) {
+                if (error > 1) stats.forced++;
+                stats.accepted++;
+                stats.minDt = stats.minDt === 0 ? h : Math.min(stats.minDt, h);
+                stats.maxDt = Math.max(stats.maxDt, h);
+                stats.lastError = error;
+                const proposal = clamp(h * factor, config.dtMin, config.dtMax);
+                // A substep cut short by the end of the tick says nothing against longer ones
+                stats.dt = h < remaining * (1 - 1e-9) ? proposal : Math.max(stats.dt, proposal);
+                const result = plan.finish(fineY, h, rng);
+                current = result.state;
+                absorbed.push(...result.absorbed);
+                remaining -= h;
+                break;
+            }
+
+            stats.rejected++;
+            // Keep the refined path so the retry integrates the same noise
+            stepper.pending.unshift(first, second);
+            h = Math.max(config.dtMin, h * factor);
+        }
+    }
+
+    return { state: { ...current, generation: state.generation + params.dt }, absorbed };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const positiveOr = (value: unknown, fallback: number) => (
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback
+);
+
+/**
+ * Rebuild an adaptive configuration from untrusted input (snapshots); undefined when absent
+ */
+export function sanitizeAdaptiveConfig(value: unknown): AdaptiveStepConfig | undefined {
+    if (!isRecord(value)) return undefined;
+    const dtMin = positiveOr(value.dtMin, DEFAULT_ADAPTIVE_CONFIG.dtMin);
+    return {
+        enabled: value.enabled === true,
+        tolerance: positiveOr(value.tolerance, DEFAULT_ADAPTIVE_CONFIG.tolerance),
+        dtMin,
+        dtMax: Math.max(dtMin, positiveOr(value.dtMax, DEFAULT_ADAPTIVE_CONFIG.dtMax))
+    };
+}
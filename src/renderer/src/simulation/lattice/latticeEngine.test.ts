@@ -0,0 +1,208 @@
+import { BoundaryPolicy, DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, LatticeConfig, SimulationParameters } from '../types';
+import { PRNG } from '../../common/prng';
+import { advanceState } from '../sdeEngine';
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import { resolveAdaptiveConfig } from '../integration/adaptiveStepper';
+import {
+    CELL_STRIDE,
+    DEFAULT_LATTICE_CONFIG,
+    MAX_LATTICE_SIDE,
+    aggregateLattice,
+    cellControl,
+    createLattice,
+    hotspotFraction,
+    latticeField,
+    resolveLatticeConfig,
+    sanitizeLatticeConfig,
+    stepLattice
+} from './latticeEngine';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const QUIET: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_C: 0, sigma_D: 0, sigma_A: 0 };
+
+function config(patch: Partial<LatticeConfig> = {}): LatticeConfig {
+    return { ...DEFAULT_LATTICE_CONFIG, enabled: true, controlPattern: 'uniform', initialJitter: 0, ...patch };
+}
+
+function variance(values: number[]): number {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+}
+
+function testSingleCell() {
+    const cfg = config({ width: 1, height: 1 });
+    const rngA = new PRNG(5);
+    const rngB = new PRNG(5);
+    let lattice = createLattice(cfg, DEFAULT_INITIAL_STATE);
+    let state = DEFAULT_INITIAL_STATE;
+    for (let i = 0; i < 200; i++) {
+        lattice = stepLattice(lattice, DEFAULT_PARAMETERS, cfg, { U: 0.4 }, () => rngA.next()).lattice;
+        state = advanceState(state, DEFAULT_PARAMETERS, { U: 0.4 }, () => rngB.next()).state;
+    }
+    const mean = aggregateLattice(lattice);
+    assert(mean.C === state.C && mean.D === state.D && mean.A === state.A, 'a 1x1 lattice reproduces the well-mixed SDE');
+    assert(Math.abs(mean.generation - state.generation) < 1e-9, 'lattice generation advances by dt');
+}
+
+function testDiffusionSmooths() {
+    const rng = new PRNG(3);
+    const coupled = createLattice(config({ width: 12, height: 12, initialJitter: 0.2 }), { ...DEFAULT_INITIAL_STATE, A: 0.5 }, () => rng.next());
+    let withCoupling = coupled;
+    let withoutCoupling = coupled;
+    const cfg = config({ width: 12, height: 12, coupling: { C: 1, D: 1, A: 1 } });
+    const isolated = config({ width: 12, height: 12, coupling: { C: 0, D: 0, A: 0 } });
+    for (let i = 0; i < 50; i++) {
+        withCoupling = stepLattice(withCoupling, QUIET, cfg, { U: 0.3 }).lattice;
+        withoutCoupling = stepLattice(withoutCoupling, QUIET, isolated, { U: 0.3 }).lattice;
+    }
+    const smooth = variance(latticeField(withCoupling, 'A'));
+    const rough = variance(latticeField(withoutCoupling, 'A'));
+    assert(smooth < 0.25 * rough, `diffusion coupling shrinks the spatial variance (${smooth.toExponential(2)} vs ${rough.toExponential(2)})`);
+}
+
+function testHotspotSpreads() {
+    const cfg = config({ width: 5, height: 5, coupling: { C: 0, D: 0, A: 1 } });
+    const lattice = createLattice(cfg, { ...DEFAULT_INITIAL_STATE, A: 0.1 });
+    const center = 2 * 5 + 2;
+    lattice.cells[center * CELL_STRIDE + 2] = 0.9;
+    const isolated = stepLattice(lattice, QUIET, { ...cfg, coupling: { C: 0, D: 0, A: 0 } }, { U: 0.3 }).lattice;
+    const next = stepLattice(lattice, QUIET, cfg, { U: 0.3 }).lattice;
+    const A = latticeField(next, 'A');
+    const baseline = latticeField(isolated, 'A');
+    assert([center - 1, center + 1, center - 5, center + 5].every(i => A[i] > baseline[i]), 'all four neighbors gain agency');
+    assert(A[center] < baseline[center], 'the hotspot loses agency to its neighbors');
+    assert(Math.abs(A[0] - baseline[0]) < 1e-12, 'cells away from the hotspot are untouched after one step');
+}
+
+function testTopology() {
+    const bounded = config({ width: 4, height: 1, coupling: { C: 0, D: 0, A: 1 } });
+    const torus = { ...bounded, topology: 'torus' as const };
+    const lattice = createLattice(bounded, { ...DEFAULT_INITIAL_STATE, A: 0.1 });
+    // Hotspot in the first cell, whose only torus neighbor across the edge is the last one
+    lattice.cells[2] = 0.9;
+    const isolated = latticeField(stepLattice(lattice, QUIET, { ...bounded, coupling: { C: 0, D: 0, A: 0 } }, { U: 0.3 }).lattice, 'A');
+    const walled = latticeField(stepLattice(lattice, QUIET, bounded, { U: 0.3 }).lattice, 'A');
+    const wrapped = latticeField(stepLattice(lattice, QUIET, torus, { U: 0.3 }).lattice, 'A');
+    assert(Math.abs(walled[3] - isolated[3]) < 1e-12, 'bounded edges do not connect opposite walls');
+    assert(wrapped[3] > isolated[3], 'torus edges wrap around');
+    const total = (field: number[]) => field.reduce((sum, value) => sum + value, 0);
+    assert(Math.abs(total(walled) - total(isolated)) < 1e-12, 'no-flux walls conserve the coupled quantity');
+}
+
+function testControlPattern() {
+    const cfg = config({ width: 9, height: 9, controlPattern: 'center', controlSpread: 0.6 });
+    assert(cellControl(cfg, 0.3, 4, 4) > cellControl(cfg, 0.3, 0, 0), 'center pattern raises the local control at the center');
+    assert(Math.abs(cellControl(cfg, 0.3, 4, 4) - 0.6) < 1e-12, 'center cell gets U + spread/2');
+    const gradient = { ...cfg, controlPattern: 'gradient' as const };
+    assert(cellControl(gradient, 0.5, 0, 3) < cellControl(gradient, 0.5, 8, 3), 'gradient pattern increases left to right');
+    assert(cellControl(config(), 0.42, 3, 7) === 0.42, 'uniform pattern keeps the global control');
+
+    let lattice = createLattice({ ...cfg, coupling: { C: 0, D: 0, A: 0 } }, DEFAULT_INITIAL_STATE);
+    for (let i = 0; i < 300; i++) lattice = stepLattice(lattice, QUIET, { ...cfg, coupling: { C: 0, D: 0, A: 0 } }, { U: 0.3 }).lattice;
+    const A = latticeField(lattice, 'A');
+    assert(A[4 * 9 + 4] !== A[0], 'local controls drive cells apart');
+}
+
+function testAbsorption() {
+    // Strong diversity suppression with loud noise drives D into the lower wall, as in the well-mixed test
+    const params = {
+        ...DEFAULT_PARAMETERS,
+        sigma_D: 0.2,
+        k_DU: 1.0,
+        k_D_growth: 0.02,
+        boundaries: { C: 'clamp' as BoundaryPolicy, D: 'absorb' as BoundaryPolicy, A: 'clamp' as BoundaryPolicy }
+    };
+    const cfg = config({ width: 4, height: 4 });
+    const rng = new PRNG(31);
+    let lattice = createLattice(cfg, { ...DEFAULT_INITIAL_STATE, D: 0.05 });
+    let hits = 0;
+    for (let i = 0; i < 400; i++) {
+        const result = stepLattice(lattice, params, cfg, { U: 1 }, () => rng.next());
+        lattice = result.lattice;
+        result.absorbed.forEach(hit => {
+            assert(hit.variable === 'D' && hit.boundary === 0, 'only D is absorbed, at its lower wall');
+            hits += hit.cells;
+        });
+    }
+    const D = latticeField(lattice, 'D');
+    const frozen = D.filter(value => value === 0).length;
+    assert(frozen > 0 && hits === frozen, `every absorbed cell is reported exactly once (${hits} of ${D.length})`);
+}
+
+function testAggregate() {
+    const rng = new PRNG(9);
+    const cfg = config({ width: 6, height: 4, initialJitter: 0.3 });
+    const lattice = createLattice(cfg, { ...DEFAULT_INITIAL_STATE, A: 0.5 }, () => rng.next());
+    const A = latticeField(lattice, 'A');
+    const mean = aggregateLattice(lattice);
+    assert(Math.abs(mean.A - A.reduce((sum, value) => sum + value, 0) / A.length) < 1e-12, 'aggregate is the mean over cells');
+    assert(hotspotFraction(lattice, 0.5) === A.filter(value => value >= 0.5).length / A.length, 'hotspot fraction counts cells above the threshold');
+}
+
+function testConfig() {
+    assert(resolveLatticeConfig(DEFAULT_PARAMETERS) === null, 'lattice mode is off by default');
+    const resolved = resolveLatticeConfig({ ...DEFAULT_PARAMETERS, lattice: config({ coupling: { C: 100, D: 0.1, A: -1 } }) });
+    assert(resolved !== null && resolved.coupling.C === 0.25 / DEFAULT_PARAMETERS.dt, 'coupling is capped at the stability limit');
+    assert(resolved !== null && resolved.coupling.A === 0, 'negative coupling is dropped');
+    const adaptive = { enabled: true, tolerance: 1e-3, dtMin: 1e-4, dtMax: 0.1 };
+    assert(resolveAdaptiveConfig({ ...DEFAULT_PARAMETERS, adaptive, lattice: config() }) === null, 'lattice mode keeps fixed steps');
+
+    assert(sanitizeLatticeConfig(undefined) === undefined, 'missing lattice config stays absent');
+    const sanitized = sanitizeLatticeConfig({ enabled: true, width: 1000, height: -3, coupling: { C: 'x' }, topology: 'sphere', controlPattern: 'gradient' });
+    assert(sanitized?.width === MAX_LATTICE_SIDE && sanitized.height === 1, 'lattice sides are clamped');
+    assert(sanitized?.coupling.C === DEFAULT_LATTICE_CONFIG.coupling.C, 'invalid couplings fall back to defaults');
+    assert(sanitized?.topology === 'bounded' && sanitized.controlPattern === 'gradient', 'unknown topology falls back, known pattern is kept');
+}
+
+function testScenario() {
+    const scenario = new SDEScenario();
+    scenario.initialize(21, { ...DEFAULT_PARAMETERS, lattice: config({ width: 8, height: 8, initialJitter: 0.05 }) });
+    for (let i = 0; i < 20; i++) scenario.step({ U: 0.4 });
+    const state = scenario.getState();
+    assert(state.lattice?.width === 8 && state.lattice.cells.length === 8 * 8 * CELL_STRIDE, 'scenario keeps an 8x8 lattice');
+    assert(Math.abs(scenario.getMetrics().A - aggregateLattice(state.lattice).A) < 1e-12, 'scenario telemetry is the lattice mean');
+
+    const restored = new SDEScenario();
+    restored.deserialize(scenario.serialize());
+    assert(restored.getState().lattice?.cells.every((value: number, i: number) => value === state.lattice.cells[i]), 'snapshot restores every cell');
+
+    const walled = new SDEScenario();
+    walled.initialize(31, {
+        ...DEFAULT_PARAMETERS,
+        sigma_D: 0.2,
+        k_DU: 1.0,
+        k_D_growth: 0.02,
+        boundaries: { C: 'clamp', D: 'absorb', A: 'clamp' },
+        lattice: config({ width: 4, height: 4 })
+    });
+    for (let i = 0; i < 400; i++) walled.step({ U: 1 });
+    const extinctions = walled.getEvents().filter(event => event.type === 'extinction');
+    assert(extinctions.length > 0 && extinctions.every(event => event.data.variable === 'D' && event.data.cells > 0), 'absorbed cells raise extinction events in lattice mode');
+
+    scenario.updateConfig({ lattice: { ...config(), enabled: false } });
+    scenario.step({ U: 0.4 });
+    assert(!scenario.getState().lattice, 'disabling the lattice returns to the well-mixed model');
+}
+
+function run() {
+    console.log('Starting Lattice Engine Tests...');
+    testSingleCell();
+    testDiffusionSmooths();
+    testHotspotSpreads();
+    testTopology();
+    testControlPattern();
+    testAbsorption();
+    testAggregate();
+    testConfig();
+    testScenario();
+    console.log('All lattice engine tests passed!');
+}
+
+run();
@@ -0,0 +1,309 @@
+/**
+ * Lattice Engine - spatially extended SDE on a width x height grid
+ *
+ * Each cell runs the local SDE (E1-E3, or the custom equation model, with the
+ * configured integrator, noise model and boundaries) under its own control
+ * U_i and is coupled to its four nearest neighbors by diffusion:
+ *
+ *     X_i <- step(X_i, U_i) + k_X * sum_j (X_j - X_i) * dt
+ *
+ * The coupling uses the pre-step field and lands after the local update, then
+ * the value is kept in [0, 1]. Bounded lattices have no-flux walls (missing
+ * neighbors are skipped), tori wrap around. Cells are stored interleaved as
+ * C, D, A, alertRate. Cells always take the fixed step dt: adaptive substeps
+ * are off in lattice mode, since the coupling lands once per dt.
+ */
+
+import {
+    ControlSignal,
+    DEFAULT_INITIAL_STATE,
+    LatticeConfig,
+    LatticeControlPattern,
+    LatticeTopology,
+    SimulationParameters,
+    SimulationState
+} from '../types';
+import { BoundaryHit, BoundedVariable, advanceState, resolveBoundaries } from '../sdeEngine';
+
+/** Floats per cell: C, D, A, alertRate */
+export const CELL_STRIDE = 4;
+
+/**
+ * Largest side the lattice may have. Cells are stepped one by one on the CPU,
+ * so the grid stays small enough to keep up with the default tick rate.
+ */
+export const MAX_LATTICE_SIDE = 64;
+
+export const LATTICE_TOPOLOGIES: LatticeTopology[] = ['bounded', 'torus'];
+
+export const LATTICE_CONTROL_PATTERNS: LatticeControlPattern[] = ['uniform', 'gradient', 'center'];
+
+export const DEFAULT_LATTICE_CONFIG: LatticeConfig = {
+    enabled: false,
+    width: 24,
+    height: 24,
+    coupling: { C: 0.05, D: 0.05, A: 0.1 },
+    topology: 'bounded',
+    controlPattern: 'center',
+    controlSpread: 0.4,
+    initialJitter: 0.02
+};
+
+export interface LatticeState {
+    width: number;
+    height: number;
+    /** Interleaved C, D, A, alertRate per cell, row-major */
+    cells: number[];
+    /** Extra variables of a custom model, per cell */
+    extra?: Array<Record<string, number> | undefined>;
+    generation: number;
+}
+
+/** A variable absorbed at a wall during one lattice step, with the number of cells it hit */
+export interface LatticeBoundaryHit extends BoundaryHit {
+    cells: number;
+}
+
+export interface LatticeStepResult {
+    lattice: LatticeState;
+    absorbed: LatticeBoundaryHit[];
+}
+
+export type LatticeVariable = 'C' | 'D' | 'A' | 'alertRate';
+
+const VARIABLE_OFFSET: Record<LatticeVariable, number> = { C: 0, D: 1, A: 2, alertRate: 3 };
+
+const COUPLED_VARIABLES: BoundedVariable[] = ['C', 'D', 'A'];
+
+const NEIGHBOR_OFFSETS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Enabled lattice configuration with its couplings capped at the explicit-scheme
+ * stability limit 0.25/dt, or null for the well-mixed model
+ */
+export function resolveLatticeConfig(params: SimulationParameters): LatticeConfig | null {
+    const config = params.lattice;
+    if (!config?.enabled) return null;
+    const limit = 0.25 / params.dt;
+    return {
+        ...config,
+        width: Math.max(1, Math.min(MAX_LATTICE_SIDE, Math.floor(config.width))),
+        height: Math.max(1, Math.min(MAX_LATTICE_SIDE, Math.floor(config.height))),
+        coupling: {
+            C: Math.max(0, Math.min(limit, config.coupling.C)),
+            D: Math.max(0, Math.min(limit, config.coupling.D)),
+            A: Math.max(0, Math.min(limit, config.coupling.A))
+        }
+    };
+}
+
+/**
+ * Local control of the cell at (x, y)
+ */
+export function cellControl(config: LatticeConfig, U: number, x: number, y: number): number {
+    if (config.controlPattern === 'uniform') return U;
+    let profile: number;
+    if (config.controlPattern === 'gradient') {
+        profile = config.width > 1 ? x / (config.width - 1) : 0.5;
+    } else {
+        const cx = 0.5 * (config.width - 1);
+        const cy = 0.5 * (config.height - 1);
+        const reach = Math.max(Math.hypot(cx, cy), 1e-6);
+        profile = 1 - Math.hypot(x - cx, y - cy) / reach;
+    }
+    return clamp01(U + config.controlSpread * (profile - 0.5));
+}
+
+/**
+ * Fill a lattice with copies of a state, each C, D, A offset by up to +/- initialJitter
+ */
+export function createLattice(
+    config: LatticeConfig,
+    initial: SimulationState = DEFAULT_INITIAL_STATE,
+    rng: () => number = Math.random
+): LatticeState {
+    const count = config.width * config.height;
+    const cells = new Array<number>(count * CELL_STRIDE);
+    const jitter = () => (config.initialJitter > 0 ? config.initialJitter * (2 * rng() - 1) : 0);
+    for (let i = 0; i < count; i++) {
+        cells[i * CELL_STRIDE] = clamp01(initial.C + jitter());
+        cells[i * CELL_STRIDE + 1] = clamp01(initial.D + jitter());
+        cells[i * CELL_STRIDE + 2] = clamp01(initial.A + jitter());
+        cells[i * CELL_STRIDE + 3] = initial.alertRate;
+    }
+    const lattice: LatticeState = { width: config.width, height: config.height, cells, generation: initial.generation };
+    if (initial.extra) lattice.extra = Array.from({ length: count }, () => ({ ...initial.extra }));
+    return lattice;
+}
+
+/** Nearest-neighbor coupling increments (per dt) of C, D, A for every cell */
+function couplingField(lattice: LatticeState, config: LatticeConfig): Float64Array {
+    const { width, height, cells } = lattice;
+    const field = new Float64Array(width * height * 3);
+    const rates = [config.coupling.C, config.coupling.D, config.coupling.A];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+                let nx = x + dx;
+                let ny = y + dy;
+                if (config.topology === 'torus') {
+                    nx = (nx + width) % width;
+                    ny = (ny + height) % height;
+                } else if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
+                    continue;
+                }
+                const neighbor = ny * width + nx;
+                for (let k = 0; k < 3; k++) {
+                    field[index * 3 + k] += rates[k] * (cells[neighbor * CELL_STRIDE + k] - cells[index * CELL_STRIDE + k]);
+                }
+            }
+        }
+    }
+    return field;
+}
+
+/**
+ * Read one cell as a simulation state
+ */
+export function latticeCell(lattice: LatticeState, index: number): SimulationState {
+    const base = index * CELL_STRIDE;
+    const state: SimulationState = {
+        C: lattice.cells[base],
+        D: lattice.cells[base + 1],
+        A: lattice.cells[base + 2],
+        alertRate: lattice.cells[base + 3],
+        generation: lattice.generation
+    };
+    const extra = lattice.extra?.[index];
+    if (extra) state.extra = extra;
+    return state;
+}
+
+/**
+ * Advance every cell one step: local SDE update under the local control, then diffusion coupling.
+ * Cells newly absorbed at a wall are reported per variable and boundary.
+ */
+export function stepLattice(
+    lattice: LatticeState,
+    params: SimulationParameters,
+    config: LatticeConfig,
+    control: ControlSignal,
+    rng: () => number = Math.random
+): LatticeStepResult {
+    const { width, height } = lattice;
+    const coupling = couplingField(lattice, config);
+    const boundaries = resolveBoundaries(params);
+    const absorbing = [boundaries.C === 'absorb', boundaries.D === 'absorb', boundaries.A === 'absorb'];
+    const cells = new Array<number>(lattice.cells.length);
+    const extra: Array<Record<string, number> | undefined> = [];
+    const absorbed: LatticeBoundaryHit[] = [];
+    const countHit = (hit: BoundaryHit) => {
+        const entry = absorbed.find(other => other.variable === hit.variable && other.boundary === hit.boundary);
+        if (entry) entry.cells += 1;
+        else absorbed.push({ ...hit, cells: 1 });
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            const current = latticeCell(lattice, index);
+            const next = advanceState(current, params, { U: cellControl(config, control.U, x, y) }, rng).state;
+            const base = index * CELL_STRIDE;
+            [next.C, next.D, next.A].forEach((value, k) => {
+                const previous = lattice.cells[base + k];
+                const kick = coupling[index * 3 + k] * params.dt;
+                // Absorbed cells stay on their wall
+                const frozen = absorbing[k] && (previous <= 0 || previous >= 1);
+                cells[base + k] = frozen || kick === 0 ? value : clamp01(value + kick);
+                // Local update or coupling may carry a cell onto an absorbing wall
+                if (absorbing[k] && !frozen && (cells[base + k] <= 0 || cells[base + k] >= 1)) {
+                    countHit({ variable: COUPLED_VARIABLES[k], boundary: cells[base + k] <= 0 ? 0 : 1 });
+                }
+            });
+            cells[base + 3] = next.alertRate;
+            extra.push(next.extra);
+        }
+    }
+
+    const result: LatticeState = { width, height, cells, generation: lattice.generation + params.dt };
+    if (extra.some(entry => entry !== undefined)) result.extra = extra;
+    return { lattice: result, absorbed };
+}
+
+/**
+ * Global state: the mean of each variable over all cells
+ */
+export function aggregateLattice(lattice: LatticeState): SimulationState {
+    const count = lattice.width * lattice.height;
+    const sums = [0, 0, 0, 0];
+    for (let i = 0; i < count; i++) {
+        for (let k = 0; k < CELL_STRIDE; k++) sums[k] += lattice.cells[i * CELL_STRIDE + k];
+    }
+    const state: SimulationState = {
+        C: sums[0] / count,
+        D: sums[1] / count,
+        A: sums[2] / count,
+        alertRate: sums[3] / count,
+        generation: lattice.generation
+    };
+    if (lattice.extra) {
+        const names = Object.keys(lattice.extra.find(entry => entry) ?? {});
+        state.extra = Object.fromEntries(names.map(name => [
+            name,
+            lattice.extra!.reduce((sum, entry) => sum + (entry?.[name] ?? 0), 0) / count
+        ]));
+    }
+    return state;
+}
+
+/**
+ * One variable over the grid, row-major
+ */
+export function latticeField(lattice: LatticeState, variable: LatticeVariable): number[] {
+    const offset = VARIABLE_OFFSET[variable];
+    const count = lattice.width * lattice.height;
+    return Array.from({ length: count }, (_, i) => lattice.cells[i * CELL_STRIDE + offset]);
+}
+
+/**
+ * Fraction of cells with agency at or above the threshold
+ */
+export function hotspotFraction(lattice: LatticeState, threshold: number): number {
+    const field = latticeField(lattice, 'A');
+    return field.filter(value => value >= threshold).length / field.length;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const finiteOr = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+/**
+ * Rebuild a lattice configuration from untrusted input (snapshots); undefined when absent
+ */
+export function sanitizeLatticeConfig(value: unknown): LatticeConfig | undefined {
+    if (!isRecord(value)) return undefined;
+    const defaults = DEFAULT_LATTICE_CONFIG;
+    const coupling = isRecord(value.coupling) ? value.coupling : {};
+    const side = (raw: unknown, fallback: number) => Math.max(1, Math.min(MAX_LATTICE_SIDE, Math.floor(finiteOr(raw, fallback))));
+    return {
+        enabled: value.enabled === true,
+        width: side(value.width, defaults.width),
+        height: side(value.height, defaults.height),
+        coupling: {
+            C: Math.max(0, finiteOr(coupling.C, defaults.coupling.C)),
+            D: Math.max(0, finiteOr(coupling.D, defaults.coupling.D)),
+            A: Math.max(0, finiteOr(coupling.A, defaults.coupling.A))
+        },
+        topology: LATTICE_TOPOLOGIES.includes(value.topology as LatticeTopology) ? value.topology as LatticeTopology : defaults.topology,
+        controlPattern: LATTICE_CONTROL_PATTERNS.includes(value.controlPattern as LatticeControlPattern)
+            ? value.controlPattern as LatticeControlPattern
+            : defaults.controlPattern,
+        controlSpread: Math.max(0, Math.min(1, finiteOr(value.controlSpread, defaults.controlSpread))),
+        initialJitter: Math.max(0, Math.min(0.5, finiteOr(value.initialJitter, defaults.initialJitter)))
+    };
+}
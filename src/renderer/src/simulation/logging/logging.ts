@@ -1,4 +1,5 @@
 import { ScenarioEvent, TelemetryPoint, ScenarioMetadata } from '../types';
+import { SnapshotData } from '../snapshot';
 
 export interface RunManifest {
     appVersion: string;
@@ -33,6 +34,11 @@ export class EventLogService {
     private maxEvents: number = 2000;
     private maxTelemetry: number = 10000;
 
+    // Summary metrics, tracked on the fly so pruning does not lose them
+    private peakAgency: number = 0;
+    private alertCount: number = 0;
+    private lastPoint: TelemetryPoint | null = null;
+
     constructor(scenarioMetadata: ScenarioMetadata, seed: number, config: any) {
         this.manifest = {
             appVersion: '2.0.0',
@@ -51,10 +57,14 @@ export class EventLogService {
             this.events.shift();
         }
 
-        // Update summary metrics on fly if needed
+        if (event.type === 'threshold_crossed') {
+            this.alertCount++;
+        }
     }
 
     public logTelemetry(point: TelemetryPoint) {
+        this.peakAgency = Math.max(this.peakAgency, point.A);
+        this.lastPoint = point;
         this.telemetryBuffer.push(point);
         if (this.telemetryBuffer.length > this.maxTelemetry) {
             this.telemetryBuffer.shift();
@@ -70,19 +80,28 @@ export class EventLogService {
     }
 
     public endRun() {
-        this.manifest.endTimestamp = new Date().toISOString();
-        // Calculate summary metrics
+        const end = new Date();
+        this.manifest.endTimestamp = end.toISOString();
+        this.manifest.runDurationSeconds = (end.getTime() - Date.parse(this.manifest.startTimestamp)) / 1000;
+        this.manifest.summaryMetrics = {
+            peakAgency: this.peakAgency,
+            finalDiversity: this.lastPoint?.D ?? 0,
+            totalGenerations: this.lastPoint?.generation ?? 0,
+            alertCount: this.alertCount
+        };
     }
 
     public getManifest(): RunManifest {
         return this.manifest;
     }
 
-    public exportBundle(): string {
+    /** Run bundle as JSON; the final snapshot is included when given */
+    public exportBundle(snapshot?: SnapshotData): string {
         return JSON.stringify({
             manifest: this.manifest,
             events: this.events,
-            telemetry: this.telemetryBuffer
+            telemetry: this.telemetryBuffer,
+            ...(snapshot ? { snapshot } : {})
         }, null, 2);
     }
 }
@@ -0,0 +1,108 @@
+import { DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, SimulationState } from '../types';
+import { advanceState } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { buildSdeShader } from '../webGpuEngine';
+import { DEFAULT_MODEL_SOURCE, getEquationModel, parseEquationModel, resolveModelParameters } from './equationDsl';
+import { generateModelKernel } from './equationWgsl';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const CUSTOM_MODEL = [
+    'param k_B = 0.2 [0, 1]',
+    'var B = 0.3 [0, 0.5]',
+    'dC = (k_CD*D*(1 - C) - k_C_decay*C) dt + sigma_C dW',
+    'dD = (k_D_growth*(1 - D) - k_D_decay*D^2) dt + sigma_D dW',
+    'dA = (k_AC*C*(1 - A) - k_A_decay*A + 0.1*B) dt + sigma_A dW',
+    'dB = (k_B*A*U - 0.05*B) dt + 0.02*sqrt(B) dW'
+].join('\n');
+
+function testParsing() {
+    const result = parseEquationModel(DEFAULT_MODEL_SOURCE);
+    assert(result.success, 'built-in model source parses');
+
+    const precedence = parseEquationModel('dC = -2^2 dt\ndD = 1 - 2 - 3 dt\ndA = 2^3^2 dt');
+    if (!precedence.success) return assert(false, 'precedence model parses');
+    const rates = precedence.model.drift([0, 0, 0], { params: DEFAULT_PARAMETERS, modelParameters: {}, U: 0, t: 0 });
+    assert(rates[0] === -4 && rates[1] === -4 && rates[2] === 512, 'unary minus, left-associative minus and right-associative power');
+
+    const broken = parseEquationModel('dC = (k_CD*D dt\ndD = k_nope*D dt\ndA = -A dt + 0.1 dW + 0.2 dW');
+    if (broken.success) return assert(false, 'broken model is rejected');
+    assert(broken.errors.length === 3, 'every broken line is reported');
+    assert(broken.errors[0].line === 1 && broken.errors[0].message.includes("')'"), 'unclosed parenthesis is located');
+    assert(broken.errors[1].line === 2 && broken.errors[1].column === 6 && broken.errors[1].message.includes('k_nope'), 'unknown identifier is located');
+    assert(broken.errors[2].line === 3 && broken.errors[2].message.includes('dW'), 'duplicate noise term is rejected');
+
+    const incomplete = parseEquationModel('var B = 0.1\nparam k_CD = 1\ndC = -C dt\ndD = -D dt');
+    assert(!incomplete.success && incomplete.errors.some(e => e.message.includes('k_CD')), 'declarations cannot shadow built-in parameters');
+    assert(!incomplete.success && incomplete.errors.some(e => e.message.includes('Missing equation for A'))
+        && incomplete.errors.some(e => e.message.includes('Missing equation for B')), 'missing equations are reported');
+
+    const huge = parseEquationModel('param p = 1 [0, 1e400]\ndC = 2e999 * C dt\ndD = -D dt\ndA = -A dt');
+    if (huge.success) return assert(false, 'non-finite literals are rejected');
+    assert(huge.errors.some(e => e.line === 1 && e.column === 17 && e.message.includes('1e400'))
+        && huge.errors.some(e => e.line === 2 && e.column === 6 && e.message.includes('2e999')), 'non-finite literals are located in declarations and equations');
+}
+
+function testBuiltinEquivalence() {
+    let builtin: SimulationState = { ...DEFAULT_INITIAL_STATE };
+    let dsl: SimulationState = { ...DEFAULT_INITIAL_STATE };
+    const rngA = new PRNG(7);
+    const rngB = new PRNG(7);
+    const params = { ...DEFAULT_PARAMETERS, integrator: 'milstein' as const };
+    const modelParams = { ...params, model: DEFAULT_MODEL_SOURCE };
+    let maxError = 0;
+    for (let i = 0; i < 500; i++) {
+        builtin = advanceState(builtin, params, { U: 0.6 }, () => rngA.next()).state;
+        dsl = advanceState(dsl, modelParams, { U: 0.6 }, () => rngB.next()).state;
+        maxError = Math.max(maxError, Math.abs(builtin.C - dsl.C), Math.abs(builtin.D - dsl.D), Math.abs(builtin.A - dsl.A));
+    }
+    assert(maxError < 1e-12, `DSL form of E1-E3 reproduces the built-in path (max error ${maxError.toExponential(1)})`);
+    assert(Math.abs(builtin.alertRate - dsl.alertRate) < 1e-12, 'E4 stays built-in under a custom model');
+}
+
+function testExtraVariables() {
+    const model = getEquationModel(CUSTOM_MODEL);
+    if (!model) return assert(false, 'custom model compiles');
+    assert(getEquationModel(CUSTOM_MODEL) === model, 'compiled models are cached by source');
+    assert(model.variables.map(v => v.name).join(',') === 'C,D,A,B', 'extra variables follow C, D, A');
+    assert(JSON.stringify(resolveModelParameters(model, { k_B: 0.7, other: 1 })) === JSON.stringify({ k_B: 0.7 }), 'declared parameters resolve from stored values');
+
+    const params = { ...DEFAULT_PARAMETERS, model: CUSTOM_MODEL, modelParameters: { k_B: 1 } };
+    const rng = new PRNG(3);
+    let state: SimulationState = { ...DEFAULT_INITIAL_STATE, A: 0.9 };
+    for (let i = 0; i < 2000; i++) {
+        state = advanceState(state, params, { U: 1 }, () => rng.next()).state;
+    }
+    assert(state.extra?.B !== undefined, 'extra variable is carried in the state');
+    assert(state.extra!.B <= 0.5 && state.extra!.B > 0.3, 'extra variable grows and is clamped to its declared bounds');
+}
+
+function testWgsl() {
+    const builtin = generateModelKernel(getEquationModel(DEFAULT_MODEL_SOURCE)!);
+    if (!builtin) return assert(false, 'built-in model runs on the GPU');
+    assert(builtin.body.includes('(current.D * current.D)'), 'small integer powers are expanded for WGSL');
+    assert(builtin.body.includes('let noiseA = params.sigma_A'), 'noise terms read the sigma uniforms');
+
+    const withParam = getEquationModel('param k_X = 0.5\ndC = (k_X - C) dt\ndD = -D dt + 0.1 dW\ndA = -A dt');
+    const shader = buildSdeShader(generateModelKernel(withParam!)!);
+    assert(shader.fields.includes('m_k_X') && shader.code.includes('params.m_k_X'), 'declared parameters become uniform fields');
+    assert(shader.paramBufferSize % 16 === 0 && shader.paramBufferSize >= shader.fields.length * 4, 'uniform buffer is sized for every field');
+    assert(generateModelKernel(getEquationModel(CUSTOM_MODEL)!) === null, 'models with extra variables stay on the CPU');
+}
+
+function run() {
+    console.log('Starting Equation DSL Tests...');
+    testParsing();
+    testBuiltinEquivalence();
+    testExtraVariables();
+    testWgsl();
+    console.log('All equation DSL tests passed!');
+}
+
+run();
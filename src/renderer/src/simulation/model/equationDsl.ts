@@ -0,0 +1,591 @@
+/**
+ * Equation DSL - user-defined SDE macro-models
+ *
+ * A model is written one statement per line, equations in Ito form:
+ *
+ *     param k_B = 0.2 [0, 1]
+ *     var B = 0.3 [0, 1]
+ *     dC = (k_CD*D*(1-C) + k_U*U*(1-C) - k_C_decay*C) dt + sigma_C dW
+ *     dB = (k_B*A - B) dt + 0.01 dW
+ *
+ * `param` declares an extra coefficient (default value, optional slider range)
+ * and `var` an extra state variable (initial value, optional bounds it is
+ * clamped to). C, D and A always exist and need an equation. Expressions may
+ * use the state variables, every numeric SimulationParameters key, declared
+ * params, U, t (generation), + - * / ^ and the functions in DSL_FUNCTIONS.
+ *
+ * Source is parsed into an AST, validated, and compiled to closures for the
+ * CPU engine; equationWgsl.ts emits the same AST as WGSL for the GPU shader.
+ */
+
+import { DEFAULT_PARAMETERS, SimulationParameters } from '../types';
+
+export const DSL_FUNCTIONS = {
+    exp: 1,
+    log: 1,
+    sqrt: 1,
+    abs: 1,
+    sin: 1,
+    cos: 1,
+    tanh: 1,
+    sigmoid: 1,
+    min: 2,
+    max: 2,
+    pow: 2
+} as const;
+
+export type DslFunction = keyof typeof DSL_FUNCTIONS;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+export type Expr =
+    | { type: 'number'; value: number }
+    | { type: 'ident'; name: string; line: number; column: number }
+    | { type: 'negate'; arg: Expr }
+    | { type: 'binary'; op: BinaryOperator; left: Expr; right: Expr }
+    | { type: 'call'; fn: DslFunction; args: Expr[] };
+
+export interface EquationError {
+    /** 1-based source line */
+    line: number;
+    /** 1-based column */
+    column: number;
+    message: string;
+}
+
+export interface ModelVariable {
+    name: string;
+    initial: number;
+    /** Range the variable is clamped to; null for C/D/A (boundary policies) and unbounded extras */
+    bounds: [number, number] | null;
+    builtin: boolean;
+}
+
+export interface ModelParameter {
+    name: string;
+    defaultValue: number;
+    min: number;
+    max: number;
+}
+
+export interface ModelEquation {
+    variable: string;
+    drift: Expr;
+    /** Noise amplitude multiplying dW; null for a deterministic equation */
+    diffusion: Expr | null;
+}
+
+/** Values the compiled expressions read besides the state vector */
+export interface ModelContext {
+    params: SimulationParameters;
+    modelParameters: Record<string, number>;
+    U: number;
+    t: number;
+}
+
+export interface EquationModel {
+    source: string;
+    /** C, D, A, then declared variables in declaration order (state vector layout) */
+    variables: ModelVariable[];
+    parameters: ModelParameter[];
+    /** One equation per variable, in `variables` order */
+    equations: ModelEquation[];
+    drift(x: number[], context: ModelContext): number[];
+    diffusion(x: number[], context: ModelContext): number[];
+}
+
+export type ModelParseResult =
+    | { success: true; model: EquationModel }
+    | { success: false; errors: EquationError[] };
+
+/** E1-E3 of the built-in macro-model written in the DSL */
+export const DEFAULT_MODEL_SOURCE = [
+    '# E1: complexity',
+    'dC = (k_CD*D*(1 - C) + k_U*U*(1 - C) - k_C_decay*C) dt + sigma_C dW',
+    '# E2: diversity',
+    'dD = (k_D_growth*(1 - D) - k_DU*U*D - k_D_decay*D^2) dt + sigma_D dW',
+    '# E3: agency',
+    'dA = (k_AC*C*(1 - A) + k_AU*U*C*(1 - A) - k_A_decay*A) dt + sigma_A dW'
+].join('\n');
+
+const BUILTIN_VARIABLES = ['C', 'D', 'A'];
+
+/** Numeric SimulationParameters keys usable in expressions */
+export const BUILTIN_PARAMETERS = (Object.keys(DEFAULT_PARAMETERS) as (keyof SimulationParameters)[])
+    .filter(key => typeof DEFAULT_PARAMETERS[key] === 'number');
+
+const RESERVED = new Set(['U', 't', 'dt', 'dW', 'param', 'var']);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenKind = 'number' | 'ident' | 'op' | '(' | ')' | '[' | ']' | ',' | '=' | 'eof';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    column: number;
+}
+
+class DslSyntaxError extends Error {
+    constructor(message: string, public column: number) {
+        super(message);
+    }
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        const column = i + 1;
+        const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+        if (number) {
+            if (!Number.isFinite(parseFloat(number[0]))) throw new DslSyntaxError(`Number ${number[0]} is too large`, column);
+            tokens.push({ kind: 'number', text: number[0], column });
+            i += number[0].length;
+            continue;
+        }
+        const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i));
+        if (ident) {
+            tokens.push({ kind: 'ident', text: ident[0], column });
+            i += ident[0].length;
+            continue;
+        }
+        if ('+-*/^'.includes(ch)) {
+            tokens.push({ kind: 'op', text: ch, column });
+        } else if ('()[],='.includes(ch)) {
+            tokens.push({ kind: ch as TokenKind, text: ch, column });
+        } else {
+            throw new DslSyntaxError(`Unexpected character '${ch}'`, column);
+        }
+        i++;
+    }
+    tokens.push({ kind: 'eof', text: '', column: text.length + 1 });
+    return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+type Statement =
+    | { kind: 'param' | 'var'; name: string; value: number; range: [number, number] | null; line: number; column: number }
+    | { kind: 'equation'; variable: string; drift: Expr; diffusion: Expr | null; line: number; column: number };
+
+const PRECEDENCE: Record<BinaryOperator, number> = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 };
+const UNARY_PRECEDENCE = 3;
+
+class LineParser {
+    private pos = 0;
+
+    constructor(private tokens: Token[], private line: number) { }
+
+    private peek(): Token {
+        return this.tokens[this.pos];
+    }
+
+    private next(): Token {
+        return this.tokens[this.pos++];
+    }
+
+    private expect(kind: TokenKind, what: string): Token {
+        const token = this.peek();
+        if (token.kind !== kind) {
+            throw new DslSyntaxError(`Expected ${what} but found '${token.text || 'end of line'}'`, token.column);
+        }
+        return this.next();
+    }
+
+    public parseStatement(): Statement {
+        const head = this.expect('ident', 'a declaration or equation');
+        if (head.text === 'param' || head.text === 'var') {
+            return this.parseDeclaration(head.text);
+        }
+        if (head.text.length < 2 || !head.text.startsWith('d')) {
+            throw new DslSyntaxError(`Equations start with d<variable>, e.g. dC = ...`, head.column);
+        }
+        this.expect('=', "'='");
+        const { drift, diffusion } = this.parseTerms();
+        return { kind: 'equation', variable: head.text.slice(1), drift, diffusion, line: this.line, column: head.column };
+    }
+
+    private parseDeclaration(kind: 'param' | 'var'): Statement {
+        const name = this.expect('ident', 'a name');
+        this.expect('=', "'='");
+        const value = this.parseSignedNumber();
+        let range: [number, number] | null = null;
+        if (this.peek().kind === '[') {
+            this.next();
+            const min = this.parseSignedNumber();
+            this.expect(',', "','");
+            const max = this.parseSignedNumber();
+            this.expect(']', "']'");
+            if (!(max > min)) throw new DslSyntaxError(`Range [${min}, ${max}] is empty`, name.column);
+            range = [min, max];
+        }
+        this.expect('eof', 'end of line');
+        return { kind, name: name.text, value, range, line: this.line, column: name.column };
+    }
+
+    private parseSignedNumber(): number {
+        let sign = 1;
+        if (this.peek().kind === 'op' && this.peek().text === '-') {
+            this.next();
+            sign = -1;
+        }
+        return sign * parseFloat(this.expect('number', 'a number').text);
+    }
+
+    /** `<expr> dt [+ <expr> dW]`, in either order */
+    private parseTerms(): { drift: Expr; diffusion: Expr | null } {
+        let drift: Expr | null = null;
+        let diffusion: Expr | null = null;
+        let negate = false;
+        for (;;) {
+            const start = this.peek();
+            let expr = this.parseExpression(0);
+            if (negate) expr = { type: 'negate', arg: expr };
+            const differential = this.peek();
+            if (differential.kind !== 'ident' || (differential.text !== 'dt' && differential.text !== 'dW')) {
+                throw new DslSyntaxError(`Expected 'dt' or 'dW' after the term`, differential.column);
+            }
+            this.next();
+            if (differential.text === 'dt') {
+                if (drift) throw new DslSyntaxError(`Only one dt term is allowed`, start.column);
+                drift = expr;
+            } else {
+                if (diffusion) throw new DslSyntaxError(`Only one dW term is allowed`, start.column);
+                diffusion = expr;
+            }
+            const sep = this.peek();
+            if (sep.kind === 'eof') break;
+            if (sep.kind === 'op' && (sep.text === '+' || sep.text === '-')) {
+                this.next();
+                negate = sep.text === '-';
+                continue;
+            }
+            throw new DslSyntaxError(`Unexpected '${sep.text}'`, sep.column);
+        }
+        if (!drift) throw new DslSyntaxError(`Equation needs a drift term ending in dt`, 1);
+        return { drift, diffusion };
+    }
+
+    private parseExpression(minPrecedence: number): Expr {
+        let left = this.parseUnary();
+        for (;;) {
+            const token = this.peek();
+            if (token.kind !== 'op') return left;
+            const op = token.text as BinaryOperator;
+            const precedence = PRECEDENCE[op];
+            if (precedence < minPrecedence) return left;
+            this.next();
+            // ^ is right-associative: parse its right side at the same level
+            const right = this.parseExpression(op === '^' ? precedence : precedence + 1);
+            left = { type: 'binary', op, left, right };
+        }
+    }
+
+    private parseUnary(): Expr {
+        const token = this.peek();
+        if (token.kind === 'op' && token.text === '-') {
+            this.next();
+            return { type: 'negate', arg: this.parseExpression(UNARY_PRECEDENCE) };
+        }
+        if (token.kind === 'op' && token.text === '+') {
+            this.next();
+            return this.parseExpression(UNARY_PRECEDENCE);
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Expr {
+        const token = this.next();
+        if (token.kind === 'number') {
+            return { type: 'number', value: parseFloat(token.text) };
+        }
+        if (token.kind === '(') {
+            const inner = this.parseExpression(0);
+            this.expect(')', "')'");
+            return inner;
+        }
+        if (token.kind === 'ident') {
+            if (token.text === 'dt' || token.text === 'dW') {
+                throw new DslSyntaxError(`'${token.text}' must follow a term`, token.column);
+            }
+            if (this.peek().kind === '(') {
+                return this.parseCall(token);
+            }
+            return { type: 'ident', name: token.text, line: this.line, column: token.column };
+        }
+        throw new DslSyntaxError(`Unexpected '${token.text || 'end of line'}'`, token.column);
+    }
+
+    private parseCall(name: Token): Expr {
+        if (!Object.prototype.hasOwnProperty.call(DSL_FUNCTIONS, name.text)) {
+            throw new DslSyntaxError(`Unknown function '${name.text}'`, name.column);
+        }
+        const fn = name.text as DslFunction;
+        this.expect('(', "'('");
+        const args: Expr[] = [];
+        if (this.peek().kind !== ')') {
+            args.push(this.parseExpression(0));
+            while (this.peek().kind === ',') {
+                this.next();
+                args.push(this.parseExpression(0));
+            }
+        }
+        this.expect(')', "')'");
+        if (args.length !== DSL_FUNCTIONS[fn]) {
+            throw new DslSyntaxError(`${fn} takes ${DSL_FUNCTIONS[fn]} argument(s), got ${args.length}`, name.column);
+        }
+        return { type: 'call', fn, args };
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Validation and compilation
+// ---------------------------------------------------------------------------
+
+type Resolved =
+    | { kind: 'state'; index: number }
+    | { kind: 'param'; name: keyof SimulationParameters }
+    | { kind: 'model-param'; name: string; fallback: number }
+    | { kind: 'control' }
+    | { kind: 'time' };
+
+type Compiled = (x: number[], context: ModelContext) => number;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const FUNCTION_IMPLS: Record<DslFunction, (...args: number[]) => number> = {
+    exp: Math.exp,
+    log: Math.log,
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    sin: Math.sin,
+    cos: Math.cos,
+    tanh: Math.tanh,
+    sigmoid,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow
+};
+
+function collectIdentifiers(expr: Expr, out: Extract<Expr, { type: 'ident' }>[] = []) {
+    switch (expr.type) {
+        case 'ident':
+            out.push(expr);
+            break;
+        case 'negate':
+            collectIdentifiers(expr.arg, out);
+            break;
+        case 'binary':
+            collectIdentifiers(expr.left, out);
+            collectIdentifiers(expr.right, out);
+            break;
+        case 'call':
+            expr.args.forEach(arg => collectIdentifiers(arg, out));
+            break;
+    }
+    return out;
+}
+
+function compileExpression(expr: Expr, resolve: (name: string) => Resolved): Compiled {
+    switch (expr.type) {
+        case 'number': {
+            const value = expr.value;
+            return () => value;
+        }
+        case 'ident': {
+            const target = resolve(expr.name);
+            switch (target.kind) {
+                case 'state': {
+                    const index = target.index;
+                    return (x) => x[index];
+                }
+                case 'param': {
+                    const key = target.name;
+                    return (_, context) => context.params[key] as number;
+                }
+                case 'model-param': {
+                    const { name, fallback } = target;
+                    return (_, context) => context.modelParameters[name] ?? fallback;
+                }
+                case 'control':
+                    return (_, context) => context.U;
+                case 'time':
+                    return (_, context) => context.t;
+            }
+            break;
+        }
+        case 'negate': {
+            const arg = compileExpression(expr.arg, resolve);
+            return (x, context) => -arg(x, context);
+        }
+        case 'binary': {
+            const left = compileExpression(expr.left, resolve);
+            const right = compileExpression(expr.right, resolve);
+            switch (expr.op) {
+                case '+': return (x, c) => left(x, c) + right(x, c);
+                case '-': return (x, c) => left(x, c) - right(x, c);
+                case '*': return (x, c) => left(x, c) * right(x, c);
+                case '/': return (x, c) => left(x, c) / right(x, c);
+                case '^': return (x, c) => Math.pow(left(x, c), right(x, c));
+            }
+            break;
+        }
+        case 'call': {
+            const impl = FUNCTION_IMPLS[expr.fn];
+            const args = expr.args.map(arg => compileExpression(arg, resolve));
+            if (args.length === 1) {
+                const [a] = args;
+                return (x, c) => impl(a(x, c));
+            }
+            return (x, c) => impl(...args.map(arg => arg(x, c)));
+        }
+    }
+    throw new Error(`Cannot compile expression of type ${(expr as Expr).type}`);
+}
+
+/**
+ * Parse, validate and compile a model. Errors carry line/column positions.
+ */
+export function parseEquationModel(source: string): ModelParseResult {
+    const errors: EquationError[] = [];
+    const statements: Statement[] = [];
+
+    source.split(/\r?\n/).forEach((rawLine, index) => {
+        const text = rawLine.replace(/(#|\/\/).*$/, '');
+        if (!text.trim()) return;
+        try {
+            const tokens = tokenize(text);
+            statements.push(new LineParser(tokens, index + 1).parseStatement());
+        } catch (error) {
+            if (error instanceof DslSyntaxError) {
+                errors.push({ line: index + 1, column: error.column, message: error.message });
+            } else {
+                throw error;
+            }
+        }
+    });
+
+    // A line that failed to parse may hold the "missing" equation, so only report those on clean parses
+    const hasSyntaxErrors = errors.length > 0;
+    const variables: ModelVariable[] = BUILTIN_VARIABLES.map(name => ({ name, initial: 0, bounds: null, builtin: true }));
+    const parameters: ModelParameter[] = [];
+    const taken = new Set<string>([...BUILTIN_VARIABLES, ...BUILTIN_PARAMETERS, ...RESERVED]);
+
+    for (const statement of statements) {
+        if (statement.kind === 'equation') continue;
+        if (taken.has(statement.name) || Object.prototype.hasOwnProperty.call(DSL_FUNCTIONS, statement.name)) {
+            errors.push({ line: statement.line, column: statement.column, message: `'${statement.name}' is already defined` });
+            continue;
+        }
+        taken.add(statement.name);
+        if (statement.kind === 'var') {
+            const initial = statement.range
+                ? Math.max(statement.range[0], Math.min(statement.range[1], statement.value))
+                : statement.value;
+            variables.push({ name: statement.name, initial, bounds: statement.range, builtin: false });
+        } else {
+            const spread = Math.max(1, Math.abs(statement.value) * 2);
+            const [min, max] = statement.range ?? [Math.min(0, statement.value), Math.max(statement.value, spread)];
+            parameters.push({ name: statement.name, defaultValue: statement.value, min, max });
+        }
+    }
+
+    const variableIndex = new Map(variables.map((variable, index) => [variable.name, index]));
+    const parameterDefaults = new Map(parameters.map(parameter => [parameter.name, parameter.defaultValue]));
+    const builtinParameters = new Set<string>(BUILTIN_PARAMETERS);
+
+    const resolve = (name: string): Resolved => {
+        if (variableIndex.has(name)) return { kind: 'state', index: variableIndex.get(name)! };
+        if (parameterDefaults.has(name)) return { kind: 'model-param', name, fallback: parameterDefaults.get(name)! };
+        if (builtinParameters.has(name)) return { kind: 'param', name: name as keyof SimulationParameters };
+        if (name === 'U') return { kind: 'control' };
+        return { kind: 'time' };
+    };
+    const isKnown = (name: string) => variableIndex.has(name) || parameterDefaults.has(name) || builtinParameters.has(name) || name === 'U' || name === 't';
+
+    const equations = new Map<string, Extract<Statement, { kind: 'equation' }>>();
+    for (const statement of statements) {
+        if (statement.kind !== 'equation') continue;
+        if (!variableIndex.has(statement.variable)) {
+            errors.push({ line: statement.line, column: statement.column, message: `Unknown variable '${statement.variable}' (declare it with var)` });
+            continue;
+        }
+        if (equations.has(statement.variable)) {
+            errors.push({ line: statement.line, column: statement.column, message: `Duplicate equation for ${statement.variable}` });
+            continue;
+        }
+        equations.set(statement.variable, statement);
+        const idents = collectIdentifiers(statement.drift);
+        if (statement.diffusion) collectIdentifiers(statement.diffusion, idents);
+        idents.filter(ident => !isKnown(ident.name)).forEach(ident => {
+            errors.push({ line: ident.line, column: ident.column, message: `Unknown identifier '${ident.name}'` });
+        });
+    }
+
+    variables.forEach(variable => {
+        if (!hasSyntaxErrors && !equations.has(variable.name)) {
+            errors.push({ line: 1, column: 1, message: `Missing equation for ${variable.name} (d${variable.name} = ... dt)` });
+        }
+    });
+
+    if (errors.length > 0) {
+        return { success: false, errors: errors.sort((a, b) => a.line - b.line || a.column - b.column) };
+    }
+
+    const ordered: ModelEquation[] = variables.map(variable => {
+        const statement = equations.get(variable.name)!;
+        return { variable: variable.name, drift: statement.drift, diffusion: statement.diffusion };
+    });
+    const driftFns = ordered.map(equation => compileExpression(equation.drift, resolve));
+    const diffusionFns = ordered.map(equation => (equation.diffusion ? compileExpression(equation.diffusion, resolve) : () => 0));
+
+    return {
+        success: true,
+        model: {
+            source,
+            variables,
+            parameters,
+            equations: ordered,
+            drift: (x, context) => driftFns.map(fn => fn(x, context)),
+            diffusion: (x, context) => diffusionFns.map(fn => fn(x, context))
+        }
+    };
+}
+
+const MODEL_CACHE_SIZE = 16;
+const modelCache = new Map<string, EquationModel | null>();
+
+/**
+ * Compiled model for a source string (cached), or null when it does not validate
+ */
+export function getEquationModel(source: string): EquationModel | null {
+    if (modelCache.has(source)) return modelCache.get(source)!;
+    const result = parseEquationModel(source);
+    const model = result.success ? result.model : null;
+    if (modelCache.size >= MODEL_CACHE_SIZE) {
+        modelCache.delete(modelCache.keys().next().value as string);
+    }
+    modelCache.set(source, model);
+    return model;
+}
+
+/**
+ * Values for every declared parameter: finite entries of `values`, defaults otherwise
+ */
+export function resolveModelParameters(model: EquationModel, values: unknown): Record<string, number> {
+    const record = typeof values === 'object' && values !== null ? values as Record<string, unknown> : {};
+    return Object.fromEntries(model.parameters.map(parameter => {
+        const value = record[parameter.name];
+        return [parameter.name, typeof value === 'number' && Number.isFinite(value) ? value : parameter.defaultValue];
+    }));
+}
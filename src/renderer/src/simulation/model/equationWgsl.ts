@@ -0,0 +1,81 @@
+/**
+ * WGSL code generation for equation-DSL models
+ *
+ * Emits the drift and noise of each equation as WGSL statements for the
+ * ensemble compute shader in webGpuEngine.ts. Only models without extra state
+ * variables can run on the GPU, because the agent buffer layout (C, D, A,
+ * alertRate) and the reduction shader are fixed.
+ */
+
+import { Expr, EquationModel } from './equationDsl';
+
+/** Prefix of the uniform fields holding model-declared parameters */
+export const MODEL_PARAM_PREFIX = 'm_';
+
+export interface ModelKernel {
+    /** Extra f32 uniform fields, one per declared parameter, in declaration order */
+    paramFields: string[];
+    /** WGSL statements defining dC/dD/dA (scaled by dt) and noiseC/noiseD/noiseA from the shader's wC/wD/wA normals */
+    body: string;
+}
+
+/** f32 literals need a decimal point or exponent */
+function formatLiteral(value: number): string {
+    return Number.isInteger(value) && Math.abs(value) < 1e21 ? value.toFixed(1) : String(value);
+}
+
+/**
+ * Translate an expression; identifiers are mapped by `resolve`
+ */
+export function expressionToWgsl(expr: Expr, resolve: (name: string) => string): string {
+    switch (expr.type) {
+        case 'number':
+            return formatLiteral(expr.value);
+        case 'ident':
+            return resolve(expr.name);
+        case 'negate':
+            return `(-${expressionToWgsl(expr.arg, resolve)})`;
+        case 'binary': {
+            const left = expressionToWgsl(expr.left, resolve);
+            if (expr.op === '^') {
+                // WGSL pow is undefined for negative bases, so small integer powers are expanded
+                if (expr.right.type === 'number' && (expr.right.value === 2 || expr.right.value === 3)) {
+                    return `(${Array(expr.right.value).fill(left).join(' * ')})`;
+                }
+                return `pow(${left}, ${expressionToWgsl(expr.right, resolve)})`;
+            }
+            return `(${left} ${expr.op} ${expressionToWgsl(expr.right, resolve)})`;
+        }
+        case 'call':
+            return `${expr.fn}(${expr.args.map(arg => expressionToWgsl(arg, resolve)).join(', ')})`;
+    }
+}
+
+/**
+ * Shader code for a model, or null when it cannot run on the GPU
+ */
+export function generateModelKernel(model: EquationModel): ModelKernel | null {
+    if (model.variables.some(variable => !variable.builtin)) return null;
+
+    const declared = new Set(model.parameters.map(parameter => parameter.name));
+    const resolve = (name: string): string => {
+        if (name === 'C' || name === 'D' || name === 'A') return `current.${name}`;
+        if (name === 'U') return 'params.U';
+        if (name === 't') return 'params.generation';
+        if (declared.has(name)) return `params.${MODEL_PARAM_PREFIX}${name}`;
+        return `params.${name}`;
+    };
+
+    const lines = model.equations.map(equation => {
+        const diffusion = equation.diffusion ? expressionToWgsl(equation.diffusion, resolve) : '0.0';
+        return [
+            `    let d${equation.variable} = ${expressionToWgsl(equation.drift, resolve)} * params.dt;`,
+            `    let noise${equation.variable} = ${diffusion} * w${equation.variable} * sqrt(params.dt);`
+        ].join('\n');
+    });
+
+    return {
+        paramFields: model.parameters.map(parameter => `${MODEL_PARAM_PREFIX}${parameter.name}`),
+        body: lines.join('\n')
+    };
+}
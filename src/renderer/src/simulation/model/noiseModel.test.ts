@@ -0,0 +1,129 @@
+import { DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS, SimulationParameters, SimulationState } from '../types';
+import { advanceState, computeDriftRates, correlateIncrement, sampleBrownianIncrement, sampleJumps, samplePoisson } from '../sdeEngine';
+import { PRNG } from '../../common/prng';
+import { buildSdeShader } from '../webGpuEngine';
+import { DEFAULT_MODEL_SOURCE, getEquationModel } from './equationDsl';
+import { generateModelKernel } from './equationWgsl';
+import { choleskyFactor, correlationMatrix, resolveNoiseModel } from './noiseModel';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const MID: SimulationState = { ...DEFAULT_INITIAL_STATE, C: 0.5, D: 0.5, A: 0.5 };
+
+/** Increment of each variable beyond its drift over one step from `from` */
+function residuals(from: SimulationState, to: SimulationState, params: SimulationParameters): number[] {
+    const rates = computeDriftRates(from, params, { U: 0.3 });
+    return [to.C - from.C - rates.dC * params.dt, to.D - from.D - rates.dD * params.dt, to.A - from.A - rates.dA * params.dt];
+}
+
+function testCholesky() {
+    const matrix = correlationMatrix({ CD: 0.6, CA: -0.3, DA: 0.2 });
+    const L = choleskyFactor(matrix);
+    if (!L) return assert(false, 'valid correlation matrix factors');
+    const maxError = Math.max(...matrix.flatMap((row, i) => row.map((value, j) => Math.abs(L[i].reduce((sum, l, k) => sum + l * L[j][k], 0) - value))));
+    assert(maxError < 1e-12, 'L L^T reproduces the correlation matrix');
+    assert(choleskyFactor(correlationMatrix({ CD: 1, CA: 1, DA: 1 })) !== null, 'perfect correlation is semi-definite');
+    assert(choleskyFactor(correlationMatrix({ CD: 0.9, CA: 0.9, DA: -0.9 })) === null, 'inconsistent correlations are rejected');
+    assert(resolveNoiseModel({ ...DEFAULT_PARAMETERS, noise: { correlation: { CD: 0, CA: 0, DA: 0 } } }).cholesky === null, 'zero correlations resolve to independent noise');
+}
+
+function testCorrelatedIncrements() {
+    const rng = new PRNG(11);
+    const L = choleskyFactor(correlationMatrix({ CD: 0.8, CA: -0.5, DA: -0.4 }))!;
+    const n = 20000;
+    const sums = { cd: 0, ca: 0, cc: 0, dd: 0, aa: 0 };
+    for (let i = 0; i < n; i++) {
+        const [c, d, a] = correlateIncrement(sampleBrownianIncrement(3, 1, false, () => rng.next()), L).dW;
+        sums.cd += c * d;
+        sums.ca += c * a;
+        sums.cc += c * c;
+        sums.dd += d * d;
+        sums.aa += a * a;
+    }
+    const rhoCD = sums.cd / Math.sqrt(sums.cc * sums.dd);
+    const rhoCA = sums.ca / Math.sqrt(sums.cc * sums.aa);
+    assert(Math.abs(rhoCD - 0.8) < 0.02 && Math.abs(rhoCA + 0.5) < 0.03, `sampled increments carry the target correlations (${rhoCD.toFixed(3)}, ${rhoCA.toFixed(3)})`);
+    assert(Math.abs(sums.dd / n - 1) < 0.05, 'correlated increments keep unit variance');
+
+    // Perfectly correlated channels with equal sigmas move together in the engine
+    const params: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_C: 0.05, sigma_D: 0.05, noise: { correlation: { CD: 1, CA: 0, DA: 0 } } };
+    const engineRng = new PRNG(5);
+    let maxGap = 0;
+    for (let i = 0; i < 200; i++) {
+        const [c, d] = residuals(MID, advanceState(MID, params, { U: 0.3 }, () => engineRng.next()).state, params);
+        maxGap = Math.max(maxGap, Math.abs(c - d));
+    }
+    assert(maxGap < 1e-12, 'perfectly correlated C and D share their Wiener increment');
+}
+
+function testJumps() {
+    const rng = new PRNG(21);
+    let total = 0;
+    for (let i = 0; i < 20000; i++) total += samplePoisson(0.3, () => rng.next());
+    assert(Math.abs(total / 20000 - 0.3) < 0.015, `Poisson draws have the requested mean (${(total / 20000).toFixed(3)})`);
+
+    let size = 0;
+    let jumpsSeen = 0;
+    for (let i = 0; i < 20000; i++) {
+        const [, , jump] = sampleJumps([null, null, { rate: 5, distribution: 'exponential', location: 0, scale: -0.02 }], 0.1, () => rng.next());
+        if (jump !== 0) jumpsSeen++;
+        size += jump;
+    }
+    assert(Math.abs(size / 20000 - 0.5 * -0.02) < 0.001, 'exponential jumps with a negative scale push downwards');
+    assert(Math.abs(jumpsSeen / 20000 - (1 - Math.exp(-0.5))) < 0.015, 'jump steps occur at the Poisson rate');
+
+    const quiet: SimulationParameters = { ...DEFAULT_PARAMETERS, sigma_C: 0, sigma_D: 0, sigma_A: 0 };
+    const jumpy: SimulationParameters = { ...quiet, noise: { jumps: { A: { rate: 2, distribution: 'uniform', location: 0.1, scale: 0 } } } };
+    const engineRng = new PRNG(8);
+    const steps = 5000;
+    let hits = 0;
+    let offGrid = 0;
+    for (let i = 0; i < steps; i++) {
+        const [c, d, a] = residuals(MID, advanceState(MID, jumpy, { U: 0.3 }, () => engineRng.next()).state, jumpy);
+        if (Math.abs(c) > 1e-12 || Math.abs(d) > 1e-12) offGrid++;
+        if (Math.abs(a) > 1e-12) hits++;
+        if (Math.abs(a / 0.1 - Math.round(a / 0.1)) > 1e-9) offGrid++;
+    }
+    const expected = steps * (1 - Math.exp(-0.2));
+    assert(offGrid === 0, 'jumps only move the configured variable, in whole jump sizes');
+    assert(Math.abs(hits - expected) < 4 * Math.sqrt(expected), `engine applies jumps at the configured rate (${hits} vs ${expected.toFixed(0)})`);
+}
+
+function testDefaultStream() {
+    const plain = { ...DEFAULT_PARAMETERS };
+    const inert: SimulationParameters = { ...plain, noise: { correlation: { CD: 0, CA: 0, DA: 0 }, jumps: { C: { rate: 0, distribution: 'normal', location: 0, scale: 0.1 } } } };
+    const rngA = new PRNG(3);
+    const rngB = new PRNG(3);
+    let a = { ...DEFAULT_INITIAL_STATE };
+    let b = { ...DEFAULT_INITIAL_STATE };
+    for (let i = 0; i < 300; i++) {
+        a = advanceState(a, plain, { U: 0.4 }, () => rngA.next()).state;
+        b = advanceState(b, inert, { U: 0.4 }, () => rngB.next()).state;
+    }
+    assert(a.C === b.C && a.D === b.D && a.A === b.A, 'an inactive noise model leaves the random stream unchanged');
+}
+
+function testShader() {
+    const shader = buildSdeShader(generateModelKernel(getEquationModel(DEFAULT_MODEL_SOURCE)!)!);
+    assert(['noise_L10', 'noise_L22', 'jump_rate_A', 'jump_scale_C'].every(field => shader.fields.includes(field)), 'noise model uniforms are part of the shader layout');
+    assert(shader.code.includes('let noiseA = params.sigma_A * wA'), 'shader noise uses the correlated normals');
+    assert(shader.code.includes('jump_total(params.jump_rate_D'), 'shader adds compound-Poisson jumps');
+}
+
+function run() {
+    console.log('Starting Noise Model Tests...');
+    testCholesky();
+    testCorrelatedIncrements();
+    testJumps();
+    testDefaultStream();
+    testShader();
+    console.log('All noise model tests passed!');
+}
+
+run();
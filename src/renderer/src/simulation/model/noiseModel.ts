@@ -0,0 +1,139 @@
+/**
+ * Noise Model - correlated Wiener increments and compound-Poisson jumps
+ *
+ * The built-in SDE draws independent increments for C, D and A. A noise model
+ * couples them through a correlation matrix R (covariance sigma_i sigma_j R_ij),
+ * sampled as dW = L xi sqrt(dt) with L the Cholesky factor of R, and adds
+ * jumps: N ~ Poisson(rate dt) jumps per step, each of size location + scale Z.
+ * sdeEngine.ts samples both on the CPU; webGpuEngine.ts passes the factor and
+ * jump settings to the shader as uniforms.
+ */
+
+import { JumpProcess, JumpSizeDistribution, NoiseCorrelation, SdeNoiseModel, SimulationParameters } from '../types';
+
+export const NOISE_VARIABLES = ['C', 'D', 'A'] as const;
+
+export type NoiseVariable = typeof NOISE_VARIABLES[number];
+
+export const JUMP_DISTRIBUTIONS: JumpSizeDistribution[] = ['normal', 'uniform', 'exponential'];
+
+export const isJumpDistribution = (value: unknown): value is JumpSizeDistribution => {
+    return typeof value === 'string' && (JUMP_DISTRIBUTIONS as string[]).includes(value);
+};
+
+/** Noise model with the correlation factored and inactive jumps dropped */
+export interface ResolvedNoiseModel {
+    /** Lower-triangular Cholesky factor of the correlation matrix; null for independent noise */
+    cholesky: number[][] | null;
+    /** Jump process of C, D and A (null when the variable has none) */
+    jumps: Array<JumpProcess | null>;
+}
+
+/** Symmetric correlation matrix in C, D, A order */
+export function correlationMatrix(correlation: NoiseCorrelation): number[][] {
+    return [
+        [1, correlation.CD, correlation.CA],
+        [correlation.CD, 1, correlation.DA],
+        [correlation.CA, correlation.DA, 1]
+    ];
+}
+
+/**
+ * Cholesky factor L with L L^T = matrix, or null when the matrix is not positive semi-definite.
+ * Zero pivots (perfect correlation) leave their column at zero.
+ */
+export function choleskyFactor(matrix: number[][]): number[][] | null {
+    const n = matrix.length;
+    const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (let j = 0; j < n; j++) {
+        let pivot = matrix[j][j];
+        for (let k = 0; k < j; k++) pivot -= L[j][k] * L[j][k];
+        if (pivot < -1e-10) return null;
+        const diagonal = Math.sqrt(Math.max(0, pivot));
+        L[j][j] = diagonal;
+        for (let i = j + 1; i < n; i++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            if (diagonal < 1e-10) {
+                // Singular direction: the remainder must vanish too
+                if (Math.abs(sum) > 1e-8) return null;
+                continue;
+            }
+            L[i][j] = sum / diagonal;
+        }
+    }
+    return L;
+}
+
+const isActiveJump = (process: JumpProcess | undefined): process is JumpProcess => {
+    return !!process && process.rate > 0 && (process.scale !== 0 || process.location !== 0);
+};
+
+/**
+ * Resolve the configured noise model; correlations that are all zero or do not form a valid
+ * correlation matrix fall back to independent noise
+ */
+export function resolveNoiseModel(params: SimulationParameters): ResolvedNoiseModel {
+    const correlation = params.noise?.correlation;
+    const correlated = !!correlation && (correlation.CD !== 0 || correlation.CA !== 0 || correlation.DA !== 0);
+    return {
+        cholesky: correlated ? choleskyFactor(correlationMatrix(correlation)) : null,
+        jumps: NOISE_VARIABLES.map(variable => {
+            const process = params.noise?.jumps?.[variable];
+            return isActiveJump(process) ? process : null;
+        })
+    };
+}
+
+/** Whether the correlations form a valid (positive semi-definite) correlation matrix */
+export function isValidCorrelation(correlation: NoiseCorrelation): boolean {
+    return choleskyFactor(correlationMatrix(correlation)) !== null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+const sanitizeJump = (value: unknown): JumpProcess | null => {
+    if (!isRecord(value)) return null;
+    if (!isFiniteNumber(value.rate) || !isFiniteNumber(value.location) || !isFiniteNumber(value.scale)) return null;
+    if (!isJumpDistribution(value.distribution)) return null;
+    return {
+        rate: Math.max(0, value.rate),
+        distribution: value.distribution,
+        location: value.location,
+        scale: value.scale
+    };
+};
+
+/**
+ * Rebuild a noise model from untrusted input (snapshots); undefined when nothing valid remains
+ */
+export function sanitizeNoiseModel(value: unknown): SdeNoiseModel | undefined {
+    if (!isRecord(value)) return undefined;
+    const noise: SdeNoiseModel = {};
+
+    if (isRecord(value.correlation)) {
+        const entry = (key: keyof NoiseCorrelation) => {
+            const raw = (value.correlation as Record<string, unknown>)[key];
+            return isFiniteNumber(raw) ? Math.max(-1, Math.min(1, raw)) : 0;
+        };
+        const correlation: NoiseCorrelation = { CD: entry('CD'), CA: entry('CA'), DA: entry('DA') };
+        if (isValidCorrelation(correlation)) noise.correlation = correlation;
+    }
+
+    if (isRecord(value.jumps)) {
+        const jumps: SdeNoiseModel['jumps'] = {};
+        for (const variable of NOISE_VARIABLES) {
+            const process = sanitizeJump(value.jumps[variable]);
+            if (process) jumps[variable] = process;
+        }
+        if (Object.keys(jumps).length > 0) noise.jumps = jumps;
+    }
+
+    return noise.correlation || noise.jumps ? noise : undefined;
+}
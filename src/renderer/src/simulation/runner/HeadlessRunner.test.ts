@@ -0,0 +1,102 @@
+import { DEFAULT_PARAMETERS, TelemetryPoint } from '../types';
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import { BioScenario } from '../scenarios/bio/BioScenario';
+import { HeadlessRunner } from './HeadlessRunner';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+function sdeScenario(seed: number): SDEScenario {
+    const scenario = new SDEScenario();
+    scenario.initialize(seed, { ...DEFAULT_PARAMETERS });
+    return scenario;
+}
+
+async function testRunToGeneration() {
+    const telemetry: TelemetryPoint[] = [];
+    const runner = new HeadlessRunner({ onTelemetry: point => telemetry.push(point) });
+    runner.setScenario(sdeScenario(7));
+    runner.setControl({ U: 0.4 });
+    const result = await runner.runUntil(50, { batchSize: 100 });
+
+    assert(result.reason === 'reached' && result.ticks === 500, `runs 500 ticks of dt 0.1 to generation 50 (${result.ticks})`);
+    assert(telemetry.length === 5, 'telemetry is reported once per batch');
+    assert(runner.getStatus() === 'paused', 'runner pauses when the target is reached');
+
+    const manual = sdeScenario(7);
+    for (let i = 0; i < 500; i++) manual.step({ U: 0.4 });
+    assert(manual.getMetrics().A === telemetry[telemetry.length - 1].A, 'headless run matches stepping the scenario by hand');
+
+    const again = await runner.runUntil(50);
+    assert(again.reason === 'reached' && again.ticks === 0, 'a target already reached runs no ticks');
+}
+
+async function testPredicateAndYield() {
+    const bio = new BioScenario();
+    bio.initialize(3);
+    const runner = new HeadlessRunner({});
+    runner.setScenario(bio);
+
+    let timerFired = false;
+    setTimeout(() => { timerFired = true; }, 0);
+    const result = await runner.runUntil(metrics => metrics.generation >= 40, { batchSize: 5 });
+    assert(result.reason === 'reached' && result.generation === 40, 'predicate target stops the Bio run at generation 40');
+    assert(timerFired, 'runUntil yields to pending timers between batches');
+}
+
+async function testCancelAndLimit() {
+    let runner: HeadlessRunner;
+    const statuses: string[] = [];
+    runner = new HeadlessRunner({
+        onTelemetry: point => { if (point.generation > 9.5) runner.pause(); },
+        onStatusChange: status => statuses.push(status)
+    });
+    runner.setScenario(sdeScenario(1));
+    const cancelled = await runner.runUntil(1000, { batchSize: 100 });
+    assert(cancelled.reason === 'cancelled' && cancelled.ticks === 100, 'pausing from a hook cancels the run after the batch');
+    assert(statuses.includes('running') && statuses[statuses.length - 1] === 'paused', 'status changes are reported');
+
+    runner = new HeadlessRunner({});
+    runner.setScenario(sdeScenario(1));
+    const limited = await runner.runUntil(() => false, { maxTicks: 250, batchSize: 100 });
+    assert(limited.reason === 'limit' && limited.ticks === 250, 'maxTicks bounds a run whose predicate never holds');
+
+    const first = runner.runUntil(1e6, { batchSize: 10 });
+    const second = runner.runUntil(runner.stepBatch(0)!.generation + 5);
+    const [superseded, latest] = await Promise.all([first, second]);
+    assert(superseded.reason === 'cancelled' && latest.reason === 'reached', 'a new run supersedes the previous one');
+}
+
+async function testTimeSlicedRun() {
+    const runner = new HeadlessRunner({});
+    runner.setScenario(sdeScenario(2));
+    const result = await runner.runUntil(200, { sliceMs: 1 });
+    assert(result.reason === 'reached' && Math.abs(result.generation - 200) < 1e-6, 'time-sliced run reaches the target generation');
+}
+
+function testScheduleAndBatch() {
+    const controls: number[] = [];
+    const runner = new HeadlessRunner({ onControl: control => controls.push(control.U) });
+    runner.setScenario(sdeScenario(5));
+    runner.setSchedule({ schedule: { kind: 'step', points: [{ generation: 0, U: 0.2 }, { generation: 1, U: 0.7 }] }, startGeneration: 0 });
+    const point = runner.stepBatch(20);
+    assert(point !== null && Math.abs(point.generation - 2) < 1e-9, 'stepBatch runs a fixed number of ticks synchronously');
+    assert(controls.length === 1 && controls[0] === 0.7 && runner.getControl().U === 0.7, 'scheduled control is applied and reported');
+}
+
+async function run() {
+    console.log('Starting Headless Runner Tests...');
+    await testRunToGeneration();
+    await testPredicateAndYield();
+    await testCancelAndLimit();
+    await testTimeSlicedRun();
+    testScheduleAndBatch();
+    console.log('All headless runner tests passed!');
+}
+
+run();
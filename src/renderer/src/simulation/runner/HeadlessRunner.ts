@@ -0,0 +1,379 @@
+import { Scenario, ControlSignal, DEFAULT_CONTROL, TelemetryPoint, ScenarioEvent, ActiveControlSchedule } from '../types';
+import { evaluateActiveSchedule } from '../control/controlSchedule';
+import { Checkpoint, CheckpointOptions, CheckpointRing, CheckpointSummary, RewindResult } from './checkpoints';
+import { Breakpoint, BreakpointHit, BreakpointMonitor } from './breakpoints';
+import { ReplayLog, ReplayRecorder } from './replayLog';
+
+export type RunnerStatus = 'idle' | 'running' | 'paused';
+
+export interface RunnerHooks {
+    onTelemetry: (data: TelemetryPoint) => void;
+    onStatusChange: (status: RunnerStatus) => void;
+    onEvent: (event: ScenarioEvent) => void;
+    /** Called once per frame (or batch) when an active schedule changed the control */
+    onControl: (control: ControlSignal) => void;
+    /** Called after a checkpoint was recorded (only while checkpointing is enabled) */
+    onCheckpoint: (checkpoint: CheckpointSummary) => void;
+    /** Called when a breakpoint fired; the runner has paused on that tick */
+    onBreakpoint: (hit: BreakpointHit) => void;
+}
+
+/** Where runUntil stops: a generation to reach, or a predicate on the latest metrics */
+export type RunTarget = number | ((metrics: TelemetryPoint) => boolean);
+
+export interface RunUntilOptions {
+    /** Ticks per batch between yields; without it each batch runs for about `sliceMs` */
+    batchSize?: number;
+    /** Wall-clock length of a batch when no batchSize is given (default 12 ms) */
+    sliceMs?: number;
+    /** Give up after this many ticks (default 10 million) */
+    maxTicks?: number;
+}
+
+export interface RunUntilResult {
+    ticks: number;
+    generation: number;
+    /** reached: the target was met; limit: maxTicks ran out; breakpoint: one fired; cancelled: paused, stopped or superseded */
+    reason: 'reached' | 'limit' | 'breakpoint' | 'cancelled';
+}
+
+const DEFAULT_SLICE_MS = 12;
+const DEFAULT_MAX_TICKS = 10_000_000;
+
+const sameChannels = (a: Record<string, number> = {}, b: Record<string, number> = {}) => (
+    Object.keys(a).length === Object.keys(b).length && Object.keys(b).every(key => a[key] === b[key])
+);
+
+const sameControl = (a: ControlSignal | null, b: ControlSignal) => (
+    a !== null && a.U === b.U && sameChannels(a.channels, b.channels)
+);
+
+/** Let timers, UI events and other tasks run before the next batch (browser and Node) */
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Steps a scenario without requestAnimationFrame: fixed batches on demand, or as fast
+ * as possible towards a target with cooperative yields. Works in the renderer and in Node.
+ */
+export class HeadlessRunner {
+    protected scenario: Scenario | null = null;
+    protected status: RunnerStatus = 'idle';
+    protected hooks: RunnerHooks;
+
+    // Control signal maintained by runner
+    protected currentControl: ControlSignal = { ...DEFAULT_CONTROL };
+    // Time-varying protocol that overrides U each tick while set
+    protected schedule: ActiveControlSchedule | null = null;
+
+    /** Incremented by every runUntil so an older run notices it was superseded */
+    private runToken = 0;
+
+    /** Ticks stepped since the scenario was set */
+    protected ticks = 0;
+    private checkpoints: CheckpointRing | null = null;
+    /** Control used by the previous tick, to journal only changes */
+    private lastControl: ControlSignal | null = null;
+
+    private replay: ReplayRecorder | null = null;
+    private breakpoints = new BreakpointMonitor();
+    /** Breakpoints fired so far; batches stop when it changes */
+    private breakpointHits = 0;
+
+    constructor(hooks: Partial<RunnerHooks>) {
+        this.hooks = {
+            onTelemetry: hooks.onTelemetry || (() => { }),
+            onStatusChange: hooks.onStatusChange || (() => { }),
+            onEvent: hooks.onEvent || (() => { }),
+            onControl: hooks.onControl || (() => { }),
+            onCheckpoint: hooks.onCheckpoint || (() => { }),
+            onBreakpoint: hooks.onBreakpoint || (() => { })
+        };
+    }
+
+    public setScenario(scenario: Scenario) {
+        this.stop();
+        this.scenario = scenario;
+        this.ticks = 0;
+        this.lastControl = null;
+        this.checkpoints?.clear();
+        this.recordCheckpoint();
+        this.replay?.begin(scenario.metadata.id, scenario.serialize());
+        this.breakpoints.prime(scenario);
+    }
+
+    /**
+     * Initialize the scenario with a seed and configuration, then make it the current one
+     */
+    public initializeScenario(scenario: Scenario, seed: number, config?: unknown) {
+        scenario.initialize(seed, config);
+        this.setScenario(scenario);
+    }
+
+    /** Forward a configuration change to the current scenario */
+    public updateConfig(config: object) {
+        if (!this.scenario) return;
+        this.scenario.updateConfig(config);
+        this.checkpoints?.log({ tick: this.ticks, config });
+        this.replay?.log({ tick: this.ticks, config });
+    }
+
+    /**
+     * Keep checkpoints for rewinding (off by default); null turns checkpointing off
+     */
+    public setCheckpointing(options: CheckpointOptions | null) {
+        this.checkpoints = options ? new CheckpointRing(options) : null;
+        this.lastControl = null;
+        this.recordCheckpoint();
+    }
+
+    /**
+     * Record inputs and state hashes for replaying the session (off by default);
+     * takes effect from the next scenario load, null turns recording off
+     */
+    public setReplayRecording(options: { hashEvery: number } | null) {
+        this.replay = options ? new ReplayRecorder(options.hashEvery) : null;
+    }
+
+    /** Inputs and hashes since the scenario was loaded, null when not recording */
+    public getReplayLog(): ReplayLog | null {
+        return this.replay?.getLog() ?? null;
+    }
+
+    /**
+     * Pause whenever one of the enabled conditions becomes true (see breakpoints.ts)
+     */
+    public setBreakpoints(breakpoints: Breakpoint[]) {
+        this.breakpoints.set(breakpoints, this.scenario);
+    }
+
+    public getTick(): number {
+        return this.ticks;
+    }
+
+    public getCheckpoints(): CheckpointSummary[] {
+        return this.checkpoints?.summaries() ?? [];
+    }
+
+    /**
+     * Current state in checkpoint form (not recorded), e.g. to fork the run from here
+     */
+    public snapshot(): Checkpoint | null {
+        if (!this.scenario) return null;
+        return {
+            tick: this.ticks,
+            generation: this.scenario.getMetrics().generation,
+            data: this.scenario.serialize(),
+            control: { ...this.currentControl }
+        };
+    }
+
+    /**
+     * Restore the latest checkpoint at or before the tick and re-step to it with the
+     * journaled controls and configuration updates. Pauses the runner; later
+     * checkpoints are dropped and the run continues from the restored tick.
+     * Returns null when the tick lies before the oldest checkpoint.
+     */
+    public rewindTo(tick: number): RewindResult | null {
+        const scenario = this.scenario;
+        const target = Math.min(Math.floor(tick), this.ticks);
+        const checkpoint = this.checkpoints?.latestAtOrBefore(target);
+        if (!scenario || !this.checkpoints || !checkpoint) return null;
+
+        if (this.status === 'running') this.pause();
+        scenario.deserialize(checkpoint.data);
+        scenario.clearEvents();
+
+        let control = { ...checkpoint.control };
+        const inputs = this.checkpoints.inputsBetween(checkpoint.tick, target);
+        let next = 0;
+        for (let t = checkpoint.tick; t < target; t++) {
+            for (; next < inputs.length && inputs[next].tick === t; next++) {
+                const input = inputs[next];
+                if ('control' in input) control = { ...input.control };
+                else scenario.updateConfig(input.config);
+            }
+            scenario.step(control);
+            scenario.clearEvents();
+        }
+
+        this.ticks = target;
+        this.currentControl = control;
+        this.lastControl = { ...control };
+        this.checkpoints.truncateAfter(target);
+        this.replay?.truncateAfter(target);
+        this.breakpoints.prime(scenario);
+        this.hooks.onControl({ ...control });
+        return { tick: target, generation: scenario.getMetrics().generation, control: { ...control } };
+    }
+
+    public pause() {
+        this.status = 'paused';
+        this.hooks.onStatusChange('paused');
+    }
+
+    public stop() {
+        this.pause();
+        this.status = 'idle';
+        this.hooks.onStatusChange('idle');
+    }
+
+    /** Merge into the current control; `channels` is replaced as a whole (undefined clears it) */
+    public setControl(control: Partial<ControlSignal>) {
+        this.currentControl = { ...this.currentControl, ...control };
+    }
+
+    public getControl(): ControlSignal {
+        return { ...this.currentControl };
+    }
+
+    public setSchedule(schedule: ActiveControlSchedule | null) {
+        this.schedule = schedule;
+    }
+
+    public getSchedule(): ActiveControlSchedule | null {
+        return this.schedule;
+    }
+
+    public getStatus(): RunnerStatus {
+        return this.status;
+    }
+
+    /**
+     * Advance the scenario one tick under the (scheduled) control and forward its events
+     */
+    protected tick(scenario: Scenario) {
+        if (this.schedule) {
+            const U = evaluateActiveSchedule(this.schedule, scenario.getMetrics().generation);
+            this.currentControl = { ...this.currentControl, U };
+        }
+        if (!sameControl(this.lastControl, this.currentControl)) {
+            this.checkpoints?.log({ tick: this.ticks, control: { ...this.currentControl } });
+            this.replay?.log({ tick: this.ticks, control: { ...this.currentControl } });
+        }
+        this.lastControl = { ...this.currentControl };
+        scenario.step(this.currentControl);
+
+        const events = scenario.getEvents();
+        if (events.length > 0) {
+            events.forEach(e => this.hooks.onEvent(e));
+            scenario.clearEvents();
+        }
+
+        this.ticks++;
+        // Checkpoints and replay hashes fall on the same ticks by default; serialize once
+        let data: string | null = null;
+        const serialize = () => data ??= scenario.serialize();
+        if (this.checkpoints?.isDue(this.ticks)) this.recordCheckpoint(serialize());
+        this.replay?.advance(this.ticks, serialize);
+        if (!this.breakpoints.isEmpty()) {
+            const fired = this.breakpoints.check(scenario, events);
+            if (fired) this.hitBreakpoint({ ...fired, breakpointId: fired.breakpoint.id, expression: fired.breakpoint.expression });
+        }
+    }
+
+    private hitBreakpoint({ breakpointId, expression, metrics, event }: Omit<BreakpointHit, 'tick' | 'generation' | 'snapshot'>) {
+        this.breakpointHits++;
+        if (this.status === 'running') this.pause();
+        const snapshot = this.snapshot()!;
+        this.hooks.onBreakpoint({
+            breakpointId,
+            expression,
+            tick: this.ticks,
+            generation: metrics.generation,
+            metrics,
+            ...(event ? { event } : {}),
+            snapshot
+        });
+    }
+
+    private recordCheckpoint(data?: string) {
+        if (!this.scenario || !this.checkpoints) return;
+        const checkpoint: Checkpoint = {
+            tick: this.ticks,
+            generation: this.scenario.getMetrics().generation,
+            data: data ?? this.scenario.serialize(),
+            control: { ...this.currentControl }
+        };
+        this.checkpoints.record(checkpoint);
+        this.hooks.onCheckpoint({ tick: checkpoint.tick, generation: checkpoint.generation });
+    }
+
+    /**
+     * Run `count` ticks synchronously, then report the control and telemetry once
+     */
+    public stepBatch(count: number): TelemetryPoint | null {
+        if (!this.scenario) {
+            console.error("No scenario loaded");
+            return null;
+        }
+        const controlBefore = this.currentControl.U;
+        const hits = this.breakpointHits;
+        for (let i = 0; i < count && this.breakpointHits === hits; i++) this.tick(this.scenario);
+        return this.report(controlBefore);
+    }
+
+    /**
+     * Step until the target generation or predicate is reached, yielding to the event loop
+     * between batches. Pausing or stopping the runner cancels the run.
+     */
+    public async runUntil(target: RunTarget, options: RunUntilOptions = {}): Promise<RunUntilResult> {
+        const scenario = this.scenario;
+        if (!scenario) {
+            console.error("No scenario loaded");
+            return { ticks: 0, generation: 0, reason: 'cancelled' };
+        }
+        const reached = typeof target === 'number'
+            ? (metrics: TelemetryPoint) => metrics.generation >= target - 1e-9
+            : target;
+        const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+        const sliceMs = options.sliceMs ?? DEFAULT_SLICE_MS;
+        const token = ++this.runToken;
+
+        this.status = 'running';
+        this.hooks.onStatusChange('running');
+
+        let ticks = 0;
+        let reason: RunUntilResult['reason'] = 'limit';
+        const hits = this.breakpointHits;
+        let metrics = scenario.getMetrics();
+        const isCurrent = () => token === this.runToken && this.status === 'running' && this.scenario === scenario;
+
+        while (isCurrent()) {
+            if (reached(metrics)) {
+                reason = 'reached';
+                break;
+            }
+            if (ticks >= maxTicks) break;
+
+            const controlBefore = this.currentControl.U;
+            const batchEnd = options.batchSize ? ticks + options.batchSize : maxTicks;
+            const deadline = performance.now() + sliceMs;
+            while (ticks < batchEnd && ticks < maxTicks) {
+                this.tick(scenario);
+                ticks++;
+                metrics = scenario.getMetrics();
+                if (reached(metrics) || this.breakpointHits !== hits) break;
+                if (!options.batchSize && performance.now() >= deadline) break;
+            }
+            this.report(controlBefore);
+
+            if (!reached(metrics) && ticks < maxTicks) await yieldToEventLoop();
+        }
+        if (!isCurrent() && reason !== 'reached') reason = this.breakpointHits !== hits ? 'breakpoint' : 'cancelled';
+
+        if (token === this.runToken && this.status === 'running') {
+            this.status = 'paused';
+            this.hooks.onStatusChange('paused');
+        }
+        return { ticks, generation: metrics.generation, reason };
+    }
+
+    private report(controlBefore: number): TelemetryPoint {
+        if (this.currentControl.U !== controlBefore) {
+            this.hooks.onControl({ ...this.currentControl });
+        }
+        const metrics = this.scenario!.getMetrics();
+        this.hooks.onTelemetry(metrics);
+        return metrics;
+    }
+}
@@ -1,44 +1,71 @@
-import { Scenario, ControlSignal, DEFAULT_CONTROL, TelemetryPoint, ScenarioEvent } from '../types';
 import { gpuAssist } from '../gpuAssist';
-
-export type RunnerStatus = 'idle' | 'running' | 'paused';
-
-export interface RunnerHooks {
-    onTelemetry: (data: TelemetryPoint) => void;
-    onStatusChange: (status: RunnerStatus) => void;
-    onEvent: (event: ScenarioEvent) => void;
+import { ActiveControlSchedule, ControlSignal, Scenario } from '../types';
+import { HeadlessRunner, RunnerHooks, RunnerStatus, RunTarget, RunUntilOptions, RunUntilResult } from './HeadlessRunner';
+import { Checkpoint, CheckpointSummary, DEFAULT_CHECKPOINT_CAPACITY, DEFAULT_CHECKPOINT_EVERY, RewindResult } from './checkpoints';
+import { Breakpoint } from './breakpoints';
+import { DEFAULT_HASH_EVERY, ReplayLog } from './replayLog';
+
+export type { RunnerHooks, RunnerStatus } from './HeadlessRunner';
+
+/**
+ * What the store drives: the in-thread ScenarioRunner or the WorkerScenarioRunner proxy
+ */
+export interface SimulationRunner {
+    setScenario(scenario: Scenario): void;
+    initializeScenario(scenario: Scenario, seed: number, config?: unknown): void;
+    updateConfig(config: object): void;
+    start(): void;
+    pause(): void;
+    stop(): void;
+    setTPS(tps: number): void;
+    setControl(control: Partial<ControlSignal>): void;
+    getControl(): ControlSignal;
+    setSchedule(schedule: ActiveControlSchedule | null): void;
+    getStatus(): RunnerStatus;
+    runUntil(target: number, options?: RunUntilOptions): Promise<RunUntilResult>;
+    /** Ticks stepped since the scenario was set */
+    getTick(): number;
+    getCheckpoints(): CheckpointSummary[];
+    rewindTo(tick: number): RewindResult | null | Promise<RewindResult | null>;
+    /** Current state in checkpoint form, for forking the run */
+    snapshot(): Checkpoint | null | Promise<Checkpoint | null>;
+    setBreakpoints(breakpoints: Breakpoint[]): void;
+    /** Inputs and state hashes since the scenario was loaded */
+    getReplayLog(): ReplayLog | null | Promise<ReplayLog | null>;
 }
 
-export class ScenarioRunner {
-    private scenario: Scenario | null = null;
-    private status: RunnerStatus = 'idle';
+/** requestAnimationFrame where there is one; dedicated workers without it fall back to a 60 Hz timer */
+const requestFrame = (callback: () => void): number => (
+    typeof requestAnimationFrame === 'function'
+        ? requestAnimationFrame(callback)
+        : setTimeout(callback, 16) as unknown as number
+);
+
+const cancelFrame = (handle: number) => {
+    if (typeof cancelAnimationFrame === 'function') cancelAnimationFrame(handle);
+    else clearTimeout(handle);
+};
+
+/**
+ * Real-time runner: steps the scenario from requestAnimationFrame at a fixed tick rate.
+ * runUntil (inherited) fast-forwards headlessly and leaves the runner paused.
+ * Keeps checkpoints so the run can be rewound, and a replay log of the session.
+ */
+export class ScenarioRunner extends HeadlessRunner implements SimulationRunner {
     private animationFrameId: number | null = null;
-    private hooks: RunnerHooks;
 
     // Time control
     private tps: number = 20; // Default ticks per second
     private lastFrameTime: number = 0;
     private accumulatedTime: number = 0;
 
-    // Control signal maintained by runner
-    private currentControl: ControlSignal = { ...DEFAULT_CONTROL };
-
     constructor(hooks: Partial<RunnerHooks>) {
-        this.hooks = {
-            onTelemetry: hooks.onTelemetry || (() => { }),
-            onStatusChange: hooks.onStatusChange || (() => { }),
-            onEvent: hooks.onEvent || (() => { })
-        };
-
+        super(hooks);
+        this.setCheckpointing({ every: DEFAULT_CHECKPOINT_EVERY, capacity: DEFAULT_CHECKPOINT_CAPACITY });
+        this.setReplayRecording({ hashEvery: DEFAULT_HASH_EVERY });
         void gpuAssist.initialize();
     }
 
-    public setScenario(scenario: Scenario) {
-        this.stop();
-        this.scenario = scenario;
-        // Reset state?
-    }
-
     public start() {
         if (!this.scenario) {
             console.error("No scenario loaded");
@@ -55,26 +82,24 @@ export class ScenarioRunner {
     }
 
     public pause() {
-        this.status = 'paused';
-        this.hooks.onStatusChange('paused');
+        super.pause();
         if (this.animationFrameId !== null) {
-            cancelAnimationFrame(this.animationFrameId);
+            cancelFrame(this.animationFrameId);
             this.animationFrameId = null;
         }
     }
 
-    public stop() {
-        this.pause();
-        this.status = 'idle';
-        this.hooks.onStatusChange('idle');
-    }
-
     public setTPS(tps: number) {
         this.tps = Math.max(1, Math.min(60, tps));
     }
 
-    public setControl(control: Partial<ControlSignal>) {
-        this.currentControl = { ...this.currentControl, ...control };
+    public runUntil(target: RunTarget, options?: RunUntilOptions): Promise<RunUntilResult> {
+        // The frame loop must not step alongside the fast-forward
+        if (this.animationFrameId !== null) {
+            cancelFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        return super.runUntil(target, options);
     }
 
     private loop = () => {
@@ -90,8 +115,11 @@ export class ScenarioRunner {
 
         const timePerTick = 1000 / this.tps;
 
-        while (this.accumulatedTime >= timePerTick) {
-            this.scenario.step(this.currentControl);
+        const controlBefore = this.currentControl.U;
+
+        // A breakpoint pauses the runner mid-frame; the rest of the frame is not stepped
+        while (this.accumulatedTime >= timePerTick && this.status === 'running') {
+            this.tick(this.scenario);
             const metrics = this.scenario.getMetrics();
             gpuAssist.tick({
                 control: this.currentControl.U,
@@ -100,23 +128,16 @@ export class ScenarioRunner {
                 A: metrics.A
             });
             this.accumulatedTime -= timePerTick;
+        }
 
-            // Check for events
-            const events = this.scenario.getEvents();
-            if (events.length > 0) {
-                events.forEach(e => this.hooks.onEvent(e));
-                this.scenario.clearEvents();
-            }
+        if (this.currentControl.U !== controlBefore) {
+            this.hooks.onControl({ ...this.currentControl });
         }
 
         // Emit telemetry every frame (or could throttle this to TPS)
         // For smooth UI, maybe interpolate? For now, just get latest.
         this.hooks.onTelemetry(this.scenario.getMetrics());
 
-        this.animationFrameId = requestAnimationFrame(this.loop);
+        if (this.status === 'running') this.animationFrameId = requestFrame(this.loop);
     };
-
-    public getStatus(): RunnerStatus {
-        return this.status;
-    }
 }
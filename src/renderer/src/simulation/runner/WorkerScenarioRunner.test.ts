@@ -0,0 +1,190 @@
+import { DEFAULT_PARAMETERS, TelemetryPoint } from '../types';
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import { HeadlessRunner } from './HeadlessRunner';
+import { WorkerScenarioRunner } from './WorkerScenarioRunner';
+import { attachScenarioWorker } from './scenarioWorkerHost';
+import { MessagePortLike, ScenarioWorkerCommand, ScenarioWorkerMessage } from './workerProtocol';
+import { BreakpointHit } from './breakpoints';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** In-process stand-in for a Worker: messages are cloned and delivered asynchronously */
+function createWorkerPair() {
+    const sent: ScenarioWorkerMessage[] = [];
+    const deliver = <T>(port: MessagePortLike<T, unknown>, message: T) => {
+        const data = structuredClone(message);
+        setTimeout(() => port.onmessage?.({ data } as MessageEvent<T>), 0);
+    };
+    const main: MessagePortLike<ScenarioWorkerMessage, ScenarioWorkerCommand> = {
+        onmessage: null,
+        postMessage: command => deliver(worker, command)
+    };
+    const worker: MessagePortLike<ScenarioWorkerCommand, ScenarioWorkerMessage> = {
+        onmessage: null,
+        postMessage: message => {
+            sent.push(message);
+            deliver(main, message);
+        }
+    };
+    attachScenarioWorker(worker);
+    return { main, sent };
+}
+
+function createRunner() {
+    const telemetry: TelemetryPoint[] = [];
+    const { main, sent } = createWorkerPair();
+    const runner = new WorkerScenarioRunner({ onTelemetry: point => telemetry.push(point) }, main);
+    const mirror = new SDEScenario();
+    runner.initializeScenario(mirror, 7, { ...DEFAULT_PARAMETERS });
+    runner.setControl({ U: 0.4 });
+    return { runner, mirror, telemetry, sent };
+}
+
+async function testRunUntilMatchesInThread() {
+    const { runner, mirror, telemetry } = createRunner();
+    const result = await runner.runUntil(50);
+    await wait(20);
+
+    const reference = new SDEScenario();
+    reference.initialize(7, { ...DEFAULT_PARAMETERS });
+    const headless = new HeadlessRunner({});
+    headless.setScenario(reference);
+    headless.setControl({ U: 0.4 });
+    const expected = await headless.runUntil(50);
+
+    assert(result.reason === 'reached' && result.ticks === expected.ticks, `worker runs the same ticks as the in-thread runner (${result.ticks})`);
+    assert(telemetry[telemetry.length - 1].A === reference.getMetrics().A, 'telemetry matches the in-thread run');
+    assert(mirror.getMetrics().generation === reference.getMetrics().generation && mirror.getMetrics().A === reference.getMetrics().A, 'the mirror is synced once the run ends');
+    assert(runner.getStatus() === 'paused', 'runner pauses when the worker reaches the target');
+}
+
+async function testBatchedRealtime() {
+    const { runner, mirror, telemetry, sent } = createRunner();
+    runner.setTPS(60);
+    runner.start();
+    await wait(400);
+    runner.pause();
+    await wait(100);
+
+    const batches = sent.filter(message => message.type === 'batch').length;
+    assert(telemetry.length > 5, `real-time stepping reports telemetry (${telemetry.length} frames)`);
+    assert(batches < telemetry.length, `telemetry is batched (${batches} messages)`);
+    assert(telemetry.every((point, i) => i === 0 || point.generation >= telemetry[i - 1].generation), 'batches arrive in order');
+    assert(mirror.getMetrics().generation === telemetry[telemetry.length - 1].generation, 'pausing syncs the mirror to the last frame');
+
+    const count = telemetry.length;
+    await wait(100);
+    assert(telemetry.length === count, 'nothing is stepped while paused');
+}
+
+async function testReloadDropsStaleReports() {
+    const { runner, mirror, telemetry } = createRunner();
+    runner.setTPS(60);
+    runner.start();
+    await wait(120);
+    telemetry.length = 0;
+    runner.initializeScenario(mirror, 8, { ...DEFAULT_PARAMETERS });
+    await wait(150);
+
+    assert(telemetry.length === 0, 'reports of the replaced run are dropped');
+    assert(mirror.getMetrics().generation === 0 && runner.getStatus() === 'idle', 'reload starts from generation 0');
+}
+
+async function testCommands() {
+    const { runner, mirror } = createRunner();
+    runner.updateConfig({ ...DEFAULT_PARAMETERS, k_AU: 2.5 });
+    const state = JSON.parse(await runner.serialize());
+    assert(state.params.k_AU === 2.5, 'config updates reach the worker');
+
+    runner.stepBatch(10);
+    await wait(20);
+    assert(Math.abs(mirror.getMetrics().generation - 1) < 1e-9, 'step runs a batch of ticks');
+
+    const pending = runner.runUntil(1e6);
+    await wait(50);
+    runner.pause();
+    const result = await pending;
+    assert(result.reason === 'cancelled' && result.ticks > 0, 'pausing cancels a fast-forward');
+}
+
+async function testRewind() {
+    const { runner, mirror } = createRunner();
+    await runner.runUntil(25);
+    await wait(20);
+    assert(runner.getTick() === 250 && runner.getCheckpoints().map(checkpoint => checkpoint.tick).join() === '0,100,200', 'tick and checkpoints are relayed from the worker');
+
+    const reference = new SDEScenario();
+    reference.initialize(7, { ...DEFAULT_PARAMETERS });
+    for (let i = 0; i < 150; i++) reference.step({ U: 0.4 });
+
+    const result = await runner.rewindTo(150);
+    assert(result?.tick === 150 && runner.getTick() === 150, 'rewind resolves with the restored tick');
+    assert(mirror.getMetrics().A === reference.getMetrics().A, 'the mirror holds the rewound state');
+    assert(runner.getCheckpoints().map(checkpoint => checkpoint.tick).join() === '0,100', 'later checkpoints are dropped');
+}
+
+async function testBreakpointRelay() {
+    const hits: BreakpointHit[] = [];
+    const { main } = createWorkerPair();
+    const runner = new WorkerScenarioRunner({ onBreakpoint: hit => hits.push(hit) }, main);
+    const mirror = new SDEScenario();
+    runner.initializeScenario(mirror, 7, { ...DEFAULT_PARAMETERS });
+    runner.setBreakpoints([{ id: 'three', expression: 'generation >= 3', enabled: true }]);
+    const result = await runner.runUntil(50);
+    await wait(20);
+
+    assert(result.reason === 'breakpoint' && runner.getStatus() === 'paused', 'a breakpoint in the worker stops the fast-forward');
+    assert(hits.length === 1 && hits[0].tick === 30 && runner.getTick() === 30, 'the hit is relayed with its tick');
+    assert(Math.abs(mirror.getMetrics().generation - 3) < 1e-9, 'the mirror holds the triggering tick');
+}
+
+async function testWorkerFailure() {
+    const errors: string[] = [];
+    // A worker that never answers, as if its script failed to load
+    const posted: ScenarioWorkerCommand[] = [];
+    const main: MessagePortLike<ScenarioWorkerMessage, ScenarioWorkerCommand> = {
+        onmessage: null,
+        postMessage: command => posted.push(command)
+    };
+    const runner = new WorkerScenarioRunner({ onWorkerError: message => errors.push(message) }, main);
+    runner.initializeScenario(new SDEScenario(), 7, { ...DEFAULT_PARAMETERS });
+    const pendingRun = runner.runUntil(50);
+    const serialized = runner.serialize().then(() => 'resolved', (error: Error) => error.message);
+    const rewound = runner.rewindTo(0);
+    const log = runner.getReplayLog();
+
+    main.onerror?.({ message: 'boom' } as ErrorEvent);
+    assert((await pendingRun).reason === 'cancelled' && runner.getStatus() === 'paused', 'a pending run is cancelled when the worker dies');
+    assert(await serialized === 'boom', 'a pending serialize is rejected with the worker error');
+    assert(await rewound === null && await log === null, 'pending rewinds and replay logs resolve empty');
+    assert(errors.length === 1 && errors[0] === 'boom', 'the failure is reported once through the hook');
+
+    const count = posted.length;
+    runner.start();
+    assert(runner.getStatus() === 'paused' && posted.length === count, 'a dead worker is not started again');
+    assert(await runner.snapshot() === null, 'later snapshots settle without the worker');
+    main.onmessageerror?.({} as MessageEvent);
+    assert(errors.length === 1, 'later worker errors are not reported again');
+}
+
+async function run() {
+    console.log('Starting Worker Scenario Runner Tests...');
+    await testRunUntilMatchesInThread();
+    await testBatchedRealtime();
+    await testReloadDropsStaleReports();
+    await testCommands();
+    await testRewind();
+    await testBreakpointRelay();
+    await testWorkerFailure();
+    console.log('All worker scenario runner tests passed!');
+}
+
+run();
@@ -0,0 +1,298 @@
+import { ActiveControlSchedule, ControlSignal, DEFAULT_CONTROL, Scenario } from '../types';
+import { RunnerHooks, RunnerStatus, RunUntilOptions, RunUntilResult } from './HeadlessRunner';
+import { SimulationRunner } from './ScenarioRunner';
+import { Checkpoint, CheckpointSummary, RewindResult } from './checkpoints';
+import { Breakpoint } from './breakpoints';
+import { ReplayLog } from './replayLog';
+import { MessagePortLike, ScenarioLoad, ScenarioWorkerCommand, ScenarioWorkerMessage } from './workerProtocol';
+
+export interface WorkerRunnerHooks extends RunnerHooks {
+    /** The worker failed to load or crashed; every pending request has been settled */
+    onWorkerError: (message: string) => void;
+}
+
+/**
+ * Renderer-side proxy for a scenario stepped in a worker (see scenarioWorkerHost).
+ *
+ * Exposes the ScenarioRunner surface and replays the worker's batched hook calls
+ * in order. The Scenario handed to setScenario/initializeScenario stays on this
+ * thread as a read-only mirror: it is never stepped here, but is overwritten with
+ * the worker's serialized state as it arrives, so getState() and serialize() on
+ * it trail the worker by at most one sync interval.
+ *
+ * If the worker dies, pending and later requests settle at once (runs as
+ * cancelled, rewinds and replay logs as null, serializes as errors) and
+ * onWorkerError reports why.
+ */
+export class WorkerScenarioRunner implements SimulationRunner {
+    private scenario: Scenario | null = null;
+    private status: RunnerStatus = 'idle';
+    private hooks: WorkerRunnerHooks;
+    private currentControl: ControlSignal = { ...DEFAULT_CONTROL };
+    /** Tick count and checkpoints as of the latest batch */
+    private tick = 0;
+    private checkpoints: CheckpointSummary[] = [];
+
+    /** Messages tagged with an older load belong to a replaced scenario and are dropped */
+    private loadId = 0;
+    private nextRequestId = 0;
+    /** Latest runUntil; only its completion pauses the runner */
+    private runRequestId = -1;
+    private pendingRuns = new Map<number, (result: RunUntilResult) => void>();
+    private pendingSerializes = new Map<number, { resolve: (data: string) => void; reject: (error: Error) => void }>();
+    private pendingRewinds = new Map<number, (result: RewindResult | null) => void>();
+    private pendingReplayLogs = new Map<number, (log: ReplayLog | null) => void>();
+    /** Why the worker died; set once, after which nothing is posted to it */
+    private failure: string | null = null;
+
+    constructor(hooks: Partial<WorkerRunnerHooks>, private worker: MessagePortLike<ScenarioWorkerMessage, ScenarioWorkerCommand>) {
+        this.hooks = {
+            onTelemetry: hooks.onTelemetry || (() => { }),
+            onStatusChange: hooks.onStatusChange || (() => { }),
+            onEvent: hooks.onEvent || (() => { }),
+            onControl: hooks.onControl || (() => { }),
+            onCheckpoint: hooks.onCheckpoint || (() => { }),
+            onBreakpoint: hooks.onBreakpoint || (() => { }),
+            onWorkerError: hooks.onWorkerError || (() => { })
+        };
+        this.worker.onmessage = event => this.receive(event.data);
+        this.worker.onerror = event => this.fail(event.message || 'Scenario worker failed to load or crashed');
+        this.worker.onmessageerror = () => this.fail('Scenario worker sent a message that could not be read');
+    }
+
+    public setScenario(scenario: Scenario) {
+        this.load(scenario, { scenarioId: scenario.metadata.id, data: scenario.serialize() });
+    }
+
+    /**
+     * Initialize the mirror here and the stepped copy in the worker with the same seed and configuration
+     */
+    public initializeScenario(scenario: Scenario, seed: number, config?: unknown) {
+        scenario.initialize(seed, config);
+        this.load(scenario, { scenarioId: scenario.metadata.id, seed, config });
+    }
+
+    public updateConfig(config: object) {
+        this.scenario?.updateConfig(config);
+        this.post({ type: 'updateConfig', config });
+    }
+
+    public start() {
+        if (!this.scenario) {
+            console.error("No scenario loaded");
+            return;
+        }
+        if (this.status === 'running' || this.failure) return;
+        this.setStatus('running');
+        this.post({ type: 'start' });
+    }
+
+    public pause() {
+        this.setStatus('paused');
+        this.post({ type: 'pause' });
+    }
+
+    public stop() {
+        this.setStatus('paused');
+        this.setStatus('idle');
+        this.post({ type: 'stop' });
+    }
+
+    /** Run `count` ticks in the worker; telemetry arrives through the hooks */
+    public stepBatch(count: number) {
+        this.post({ type: 'step', count });
+    }
+
+    public setTPS(tps: number) {
+        this.post({ type: 'setTPS', tps });
+    }
+
+    public setControl(control: Partial<ControlSignal>) {
+        this.currentControl = { ...this.currentControl, ...control };
+        this.post({ type: 'setControl', control });
+    }
+
+    public getControl(): ControlSignal {
+        return { ...this.currentControl };
+    }
+
+    public setSchedule(schedule: ActiveControlSchedule | null) {
+        this.post({ type: 'setSchedule', schedule });
+    }
+
+    public setBreakpoints(breakpoints: Breakpoint[]) {
+        this.post({ type: 'setBreakpoints', breakpoints });
+    }
+
+    /** The worker runner's replay log */
+    public getReplayLog(): Promise<ReplayLog | null> {
+        if (this.failure) return Promise.resolve(null);
+        const requestId = this.nextRequestId++;
+        return new Promise(resolve => {
+            this.pendingReplayLogs.set(requestId, resolve);
+            this.post({ type: 'replayLog', requestId });
+        });
+    }
+
+    public getStatus(): RunnerStatus {
+        return this.status;
+    }
+
+    /**
+     * Current state straight from the worker (the mirror is updated with it too)
+     */
+    public serialize(): Promise<string> {
+        if (this.failure) return Promise.reject(new Error(this.failure));
+        const requestId = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.pendingSerializes.set(requestId, { resolve, reject });
+            this.post({ type: 'serialize', requestId });
+        });
+    }
+
+    /**
+     * Fast-forward in the worker to the target generation. Pausing, stopping or
+     * another runUntil cancels it, as with the in-thread runner.
+     */
+    public runUntil(target: number, options?: RunUntilOptions): Promise<RunUntilResult> {
+        if (!this.scenario) {
+            console.error("No scenario loaded");
+            return Promise.resolve({ ticks: 0, generation: 0, reason: 'cancelled' });
+        }
+        if (this.failure) return Promise.resolve(this.cancelledRun());
+        const requestId = this.nextRequestId++;
+        this.runRequestId = requestId;
+        this.setStatus('running');
+        return new Promise(resolve => {
+            this.pendingRuns.set(requestId, resolve);
+            this.post({ type: 'runUntil', requestId, target, options });
+        });
+    }
+
+    public getTick(): number {
+        return this.tick;
+    }
+
+    public getCheckpoints(): CheckpointSummary[] {
+        return [...this.checkpoints];
+    }
+
+    /**
+     * Current state straight from the worker with the tick and control it belongs to
+     */
+    public async snapshot(): Promise<Checkpoint | null> {
+        if (!this.scenario) return null;
+        const scenario = this.scenario;
+        // The worker flushes its batch before the state, so tick and control are current once it resolves
+        const data = await this.serialize().catch(() => null);
+        if (data === null) return null;
+        return { tick: this.tick, generation: scenario.getMetrics().generation, data, control: this.getControl() };
+    }
+
+    /**
+     * Rewind the worker's run to the tick (see HeadlessRunner.rewindTo); the runner is paused
+     */
+    public rewindTo(tick: number): Promise<RewindResult | null> {
+        if (this.failure) return Promise.resolve(null);
+        const requestId = this.nextRequestId++;
+        if (this.status === 'running') this.setStatus('paused');
+        return new Promise(resolve => {
+            this.pendingRewinds.set(requestId, resolve);
+            this.post({ type: 'rewind', requestId, tick });
+        });
+    }
+
+    private load(scenario: Scenario, load: ScenarioLoad) {
+        this.stop();
+        this.scenario = scenario;
+        this.tick = 0;
+        this.checkpoints = [];
+        this.loadId++;
+        this.post({ type: 'load', loadId: this.loadId, load });
+    }
+
+    private setStatus(status: RunnerStatus) {
+        this.status = status;
+        this.hooks.onStatusChange(status);
+    }
+
+    private post(command: ScenarioWorkerCommand) {
+        if (this.failure) return;
+        this.worker.postMessage(command);
+    }
+
+    private cancelledRun(): RunUntilResult {
+        return { ticks: 0, generation: this.scenario?.getMetrics().generation ?? 0, reason: 'cancelled' };
+    }
+
+    /**
+     * The worker is gone: pause, settle every pending request and report the failure once
+     */
+    private fail(message: string) {
+        if (this.failure) return;
+        this.failure = message;
+        if (this.status === 'running') this.setStatus('paused');
+        this.pendingRuns.forEach(resolve => resolve(this.cancelledRun()));
+        this.pendingSerializes.forEach(pending => pending.reject(new Error(message)));
+        this.pendingRewinds.forEach(resolve => resolve(null));
+        this.pendingReplayLogs.forEach(resolve => resolve(null));
+        this.pendingRuns.clear();
+        this.pendingSerializes.clear();
+        this.pendingRewinds.clear();
+        this.pendingReplayLogs.clear();
+        this.hooks.onWorkerError(message);
+    }
+
+    private receive(message: ScenarioWorkerMessage) {
+        switch (message.type) {
+            case 'batch':
+                if (message.loadId !== this.loadId) return;
+                message.reports.forEach(report => {
+                    if (report.kind === 'telemetry') {
+                        this.hooks.onTelemetry(report.point);
+                    } else if (report.kind === 'event') {
+                        this.hooks.onEvent(report.event);
+                    } else if (report.kind === 'breakpoint') {
+                        // The worker has paused; a pending runUntil resolves with reason 'breakpoint'
+                        if (this.status === 'running') this.setStatus('paused');
+                        this.hooks.onBreakpoint(report.hit);
+                    } else {
+                        this.currentControl = { ...report.control };
+                        this.hooks.onControl(report.control);
+                    }
+                });
+                this.tick = message.tick;
+                if (message.checkpoints) {
+                    const added = message.checkpoints.filter(checkpoint => !this.checkpoints.some(known => known.tick === checkpoint.tick));
+                    this.checkpoints = message.checkpoints;
+                    added.forEach(checkpoint => this.hooks.onCheckpoint(checkpoint));
+                }
+                break;
+            case 'state':
+                if (message.loadId === this.loadId) this.scenario?.deserialize(message.data);
+                if (message.requestId !== undefined) {
+                    this.pendingSerializes.get(message.requestId)?.resolve(message.data);
+                    this.pendingSerializes.delete(message.requestId);
+                }
+                break;
+            case 'runUntilDone':
+                if (message.requestId === this.runRequestId && this.status === 'running') {
+                    this.setStatus('paused');
+                }
+                this.pendingRuns.get(message.requestId)?.(message.result);
+                this.pendingRuns.delete(message.requestId);
+                break;
+            case 'rewound':
+                this.pendingRewinds.get(message.requestId)?.(message.result);
+                this.pendingRewinds.delete(message.requestId);
+                break;
+            case 'replayLog':
+                this.pendingReplayLogs.get(message.requestId)?.(message.log);
+                this.pendingReplayLogs.delete(message.requestId);
+                break;
+            case 'error':
+                console.error('[ScenarioWorker]', message.message);
+                break;
+        }
+    }
+}
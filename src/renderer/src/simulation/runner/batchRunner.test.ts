@@ -0,0 +1,138 @@
+import { parseSnapshot } from '../snapshot';
+import { EventLogService } from '../logging/logging';
+import { SDEScenario } from '../scenarios/sde/SDEScenario';
+import { BioScenario } from '../scenarios/bio/BioScenario';
+import { DEFAULT_BIO_CONFIG } from '../scenarios/bio/BioTypes';
+import { DEFAULT_PARAMETERS } from '../types';
+import { DEFAULT_SIM_OUT_DIR, SimOptions, parseSeeds, parseSimArgs, runSimulation } from './batchRunner';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+function throws(action: () => unknown, pattern: RegExp): boolean {
+    try {
+        action();
+        return false;
+    } catch (error) {
+        return pattern.test((error as Error).message);
+    }
+}
+
+const FILES: Record<string, string> = {
+    'config.json': '{ "mutationRate": 0.2 }',
+    'schedule.json': '{ "kind": "step", "points": [{ "generation": 0, "U": 0.1 }, { "generation": 5, "U": 0.9 }] }'
+};
+const readFile = (path: string) => {
+    if (!(path in FILES)) throw new Error(`ENOENT: ${path}`);
+    return FILES[path];
+};
+
+/** Drop the wall-clock fields so bundles of identical runs compare equal */
+function withoutClock(bundle: string) {
+    const parsed = JSON.parse(bundle);
+    delete parsed.manifest.startTimestamp;
+    delete parsed.manifest.endTimestamp;
+    delete parsed.manifest.runDurationSeconds;
+    return JSON.stringify(parsed);
+}
+
+function testParseArgs() {
+    const options = parseSimArgs(['--scenario', 'bio', '--seed=3..5', '--steps', '50', '--config', 'config.json', '--control', '0.6'], readFile)!;
+    assert(options.scenarioId === 'bio' && options.steps === 50 && options.control.U === 0.6, 'flags are parsed in both forms');
+    assert(options.seeds.join(',') === '3,4,5', 'seed ranges are inclusive');
+    assert(options.config.mutationRate === 0.2, 'config is read from a file path');
+    assert(options.outDir === DEFAULT_SIM_OUT_DIR && options.telemetryEvery === 1 && options.schedule === null, 'defaults fill the remaining options');
+
+    const inline = parseSimArgs(['--scenario', 'sde-v1', '--config', '{"dt":0.05}', '--schedule', 'schedule.json'], readFile)!;
+    assert(inline.config.dt === 0.05 && inline.seeds[0] === 1, 'inline JSON config is accepted');
+    assert(inline.schedule?.kind === 'step', 'schedule files are sanitized into a control schedule');
+
+    assert(parseSimArgs(['--scenario', 'bio', '--help'], readFile) === null, '--help returns no options');
+    assert(parseSeeds('7').join() === '7' && parseSeeds('1,4,9').join() === '1,4,9', 'single seeds and lists are accepted');
+    assert(throws(() => parseSimArgs([], readFile), /--scenario is required/), 'scenario is required');
+    assert(throws(() => parseSimArgs(['--scenario', 'chess'], readFile), /Unknown scenario 'chess'/), 'unknown scenarios are rejected');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--steps', '1.5'], readFile), /positive integer/), 'step counts must be positive integers');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--config', '[1]'], readFile), /JSON object/), 'config must be an object');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--schedule', '{"kind":"spiral"}'], readFile), /valid control schedule/), 'invalid schedules are rejected');
+    assert(throws(() => parseSimArgs(['--scenario', 'sde-v1', '--config', '{"dt":"abc"}'], readFile), /dt must be a number/), 'config settings must have the type of their default');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--config', '{"mutationRate":3}'], readFile), /mutationRate must be within/), 'config fields must lie in their schema range');
+    assert(throws(() => parseSimArgs(['--scenario', 'sde-v1', '--config', '{"speed":2}'], readFile), /speed is not a valid setting/), 'unknown config keys are rejected');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--control', '2'], readFile), /\[0, 1\]/), 'control must lie in [0, 1]');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--speed', '2'], readFile), /Unknown option --speed/), 'unknown flags are rejected');
+
+    const channels = parseSimArgs(['--scenario', 'bio', '--channels', '{"sunInflux":1.5}'], readFile)!;
+    assert(channels.control.channels?.sunInflux === 1.5 && channels.control.U === 0.2, 'control channels are set next to U');
+    assert(throws(() => parseSimArgs(['--scenario', 'bio', '--channels', '{"sunInflux":5}'], readFile), /sunInflux must be within \[0, 2\]/), 'channel values must lie in their range');
+    assert(throws(() => parseSimArgs(['--scenario', 'math', '--channels', '{"toxicity":0.5}'], readFile), /no control channels/), 'channels need a scenario that declares them');
+    assert(throws(() => parseSeeds('5..1'), /empty/), 'empty seed ranges are rejected');
+}
+
+function testSdeRun() {
+    const options: SimOptions = {
+        ...parseSimArgs(['--scenario', 'sde-v1', '--steps', '200', '--every', '20', '--control', '0.4'], readFile)!,
+        config: { sigma_A: 0.02 }
+    };
+    const run = runSimulation(options, 11);
+    const bundle = JSON.parse(run.bundle);
+
+    const manual = new SDEScenario();
+    manual.initialize(11, { ...DEFAULT_PARAMETERS, sigma_A: 0.02 });
+    for (let i = 0; i < 200; i++) manual.step({ U: 0.4 });
+    assert(manual.getMetrics().A === run.final.A, 'batch run matches stepping the scenario by hand');
+
+    assert(bundle.telemetry.length === 11, 'telemetry holds the initial point and one point per 20 ticks');
+    assert(bundle.manifest.seed === 11 && bundle.manifest.scenarioId === 'sde-v1', 'manifest records the scenario and seed');
+    const peak = Math.max(...bundle.telemetry.map((point: { A: number }) => point.A));
+    assert(bundle.manifest.summaryMetrics.peakAgency === peak, 'summary reports the peak agency');
+    assert(Math.abs(bundle.manifest.summaryMetrics.totalGenerations - 20) < 1e-9, 'summary reports the generations run');
+
+    const snapshot = parseSnapshot(JSON.stringify(bundle.snapshot));
+    assert(snapshot !== null && snapshot.store.sdeParameters.sigma_A === 0.02, 'bundle snapshot parses with the run parameters');
+    const restored = new SDEScenario();
+    restored.deserialize(snapshot!.scenarioData);
+    assert(restored.getMetrics().A === run.final.A, 'snapshot restores the final state');
+}
+
+function testBioRunsAcrossSeeds() {
+    const options = parseSimArgs(['--scenario', 'bio', '--seed', '1,2', '--steps', '30', '--schedule', 'schedule.json'], readFile)!;
+    const [first, second] = options.seeds.map(seed => runSimulation(options, seed));
+    const repeat = runSimulation(options, 1);
+    assert(withoutClock(first.bundle) === withoutClock(repeat.bundle), 'the same seed reproduces the bundle');
+    assert(withoutClock(first.bundle) !== withoutClock(second.bundle), 'different seeds give different bundles');
+
+    const snapshot = parseSnapshot(JSON.stringify(JSON.parse(first.bundle).snapshot))!;
+    assert(snapshot.meta.scenarioId === 'bio' && snapshot.store.scenarioConfigs.bio.maxPopulation === DEFAULT_BIO_CONFIG.maxPopulation, 'snapshot carries the bio config');
+    assert(snapshot.store.control.U === 0.9 && snapshot.store.controlSchedule?.schedule.kind === 'step', 'snapshot carries the scheduled control');
+    const restored = new BioScenario();
+    restored.deserialize(snapshot.scenarioData);
+    assert(restored.getMetrics().generation === 30, 'bio snapshot restores the final generation');
+}
+
+function testSummaryMetrics() {
+    const log = new EventLogService(new SDEScenario().metadata, 1, {});
+    log.logTelemetry({ generation: 1, C: 0.1, D: 0.5, A: 0.7, U: 0.2, alertRate: 0 });
+    log.logTelemetry({ generation: 2, C: 0.1, D: 0.4, A: 0.3, U: 0.2, alertRate: 0 });
+    log.logEvent({ type: 'threshold_crossed', timestamp: 1, data: {}, message: 'alert' });
+    log.logEvent({ type: 'custom', timestamp: 2, data: {}, message: 'note' });
+    log.endRun();
+    const summary = log.getManifest().summaryMetrics!;
+    assert(summary.peakAgency === 0.7 && summary.finalDiversity === 0.4 && summary.totalGenerations === 2, 'summary metrics follow the telemetry');
+    assert(summary.alertCount === 1, 'only threshold crossings count as alerts');
+    assert(!('snapshot' in JSON.parse(log.exportBundle())), 'bundles without a snapshot keep the old shape');
+}
+
+function run() {
+    console.log('Starting Batch Runner Tests...');
+    testParseArgs();
+    testSdeRun();
+    testBioRunsAcrossSeeds();
+    testSummaryMetrics();
+    console.log('All batch runner tests passed!');
+}
+
+run();
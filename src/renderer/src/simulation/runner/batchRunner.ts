@@ -0,0 +1,308 @@
+/**
+ * Batch Runner - headless scenario runs driven from the command line
+ *
+ * Parses the `npm run sim` arguments and runs a registered scenario for a fixed
+ * number of ticks per seed. Each run is recorded by an EventLogService and ends
+ * with a snapshot of the scenario, so the resulting bundle can be replayed in
+ * the app or compared with another run. File access is left to the caller.
+ */
+
+import {
+    ControlSchedule,
+    ControlSignal,
+    DEFAULT_CONTROL,
+    DEFAULT_PARAMETERS,
+    Scenario,
+    TelemetryPoint
+} from '../types';
+import { sanitizeSchedule } from '../control/controlSchedule';
+import { EventLogService, RunManifest } from '../logging/logging';
+import { SNAPSHOT_VERSION, SnapshotStore, createSnapshot } from '../snapshot';
+import {
+    DEFAULT_SCENARIO_ID,
+    getScenarioPlugin,
+    isRegisteredScenario,
+    listScenarioIds,
+    requireScenarioPlugin,
+    sanitizeScenarioConfigs
+} from '../scenarios/scenarioRegistry';
+import { sanitizeSdeParameters } from '../scenarios/sde/sdePlugin';
+import { validateConfigPatch } from '../../../../shared/schemas/configSchema';
+import { HeadlessRunner } from './HeadlessRunner';
+import { validateControlPatch } from '../../../../shared/schemas/controlSchema';
+
+/**
+ * Default configuration of a registered scenario (a copy), or null for unknown ids
+ */
+export function getBatchScenarioDefaults(scenarioId: string): Record<string, unknown> | null {
+    const plugin = getScenarioPlugin(scenarioId);
+    return plugin ? { ...plugin.defaultConfig } : null;
+}
+
+/**
+ * Uninitialized instance of a registered scenario, ready for initialize() or deserialize()
+ */
+export function createScenarioInstance(scenarioId: string): Scenario {
+    return requireScenarioPlugin(scenarioId).create();
+}
+
+/**
+ * New scenario initialized with the seed and the configuration merged over its defaults
+ */
+export function createBatchScenario(
+    scenarioId: string,
+    seed: number,
+    overrides: Record<string, unknown>
+): { scenario: Scenario; config: Record<string, unknown> } {
+    const scenario = createScenarioInstance(scenarioId);
+    const config = { ...getBatchScenarioDefaults(scenarioId), ...overrides };
+    scenario.initialize(seed, config);
+    return { scenario, config };
+}
+
+export const DEFAULT_SIM_OUT_DIR = 'artifacts/runs';
+
+/**
+ * Problems of configuration overrides for a scenario: schema fields are checked
+ * against their type and range, other settings (the SDE integrator, noise
+ * model, dt, ...) must survive the plugin's sanitizer with the type of their
+ * default. Empty when the overrides are valid.
+ */
+export function validateBatchConfig(scenarioId: string, overrides: Record<string, unknown>): string[] {
+    const plugin = requireScenarioPlugin(scenarioId);
+    const sanitized = plugin.sanitizeConfig({ ...plugin.defaultConfig, ...overrides });
+    return Object.entries(overrides).flatMap(([key, value]) => {
+        if (key in plugin.configSchema) return validateConfigPatch(plugin.configSchema, { [key]: value });
+        if (!(key in sanitized)) return [`${key} is not a valid setting of this scenario`];
+        const fallback = plugin.defaultConfig[key];
+        if (fallback !== undefined && typeof fallback !== typeof value) return [`${key} must be a ${typeof fallback}`];
+        if (typeof value === 'number' && !Number.isFinite(value)) return [`${key} must be a finite number`];
+        return [];
+    });
+}
+
+/** Upper bound on the seeds a single range may expand to */
+const MAX_SEEDS = 1000;
+
+export interface SimOptions {
+    scenarioId: string;
+    seeds: number[];
+    /** Scenario configuration, merged over the scenario defaults */
+    config: Record<string, unknown>;
+    /** Time-varying control protocol; overrides `control.U` every tick when set */
+    schedule: ControlSchedule | null;
+    /** U and the scenario's control channels set with --channels */
+    control: ControlSignal;
+    steps: number;
+    /** Record telemetry every this many ticks */
+    telemetryEvery: number;
+    outDir: string;
+}
+
+export interface SimRun {
+    seed: number;
+    manifest: RunManifest;
+    final: TelemetryPoint;
+    eventCount: number;
+    /** Run bundle JSON: manifest, events, telemetry and the final snapshot */
+    bundle: string;
+}
+
+export const SIM_USAGE = `Usage: npm run sim -- --scenario <id> [options]
+
+  --scenario <id>     ${listScenarioIds().join(' | ')}
+  --seed <seeds>      one seed, a list (1,2,3) or an inclusive range (1..10); default 1
+  --steps <n>         ticks per run; default 1000
+  --config <json>     scenario config as JSON, or the path of a JSON file
+  --schedule <json>   control schedule as JSON, or the path of a JSON file
+  --control <U>       constant control in [0, 1]; default ${DEFAULT_CONTROL.U}
+  --channels <json>   constant values of the scenario's control channels as JSON,
+                      e.g. '{"toxicity":0.6,"sunInflux":1.5}'; unset channels follow U
+  --every <n>         record telemetry every n ticks; default 1
+  --out <dir>         bundle directory; default ${DEFAULT_SIM_OUT_DIR}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const parsePositiveInteger = (flag: string, value: string): number => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`${flag} must be a positive integer, got '${value}'`);
+    }
+    return parsed;
+};
+
+const parseSeedInteger = (value: string): number => {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isSafeInteger(parsed)) {
+        throw new Error(`--seed expects integers, got '${value}'`);
+    }
+    return parsed;
+};
+
+/**
+ * Seeds from "7", "1,2,3" or the inclusive range "1..10"
+ */
+export function parseSeeds(value: string): number[] {
+    const range = value.match(/^\s*(-?\d+)\s*\.\.\s*(-?\d+)\s*$/);
+    if (range) {
+        const from = parseSeedInteger(range[1]);
+        const to = parseSeedInteger(range[2]);
+        if (to < from) throw new Error(`--seed range '${value}' is empty`);
+        if (to - from + 1 > MAX_SEEDS) throw new Error(`--seed range '${value}' exceeds ${MAX_SEEDS} seeds`);
+        return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    }
+    return value.split(',').map(parseSeedInteger);
+}
+
+/** Inline JSON when the argument looks like JSON, otherwise the contents of the named file */
+const readJsonArgument = (flag: string, value: string, readFile: (path: string) => string): unknown => {
+    const trimmed = value.trim();
+    const text = trimmed.startsWith('{') || trimmed.startsWith('[') ? trimmed : readFile(trimmed);
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(`${flag} is not valid JSON: ${(error as Error).message}`);
+    }
+};
+
+/**
+ * Parse `npm run sim` arguments (after the script name). Both `--flag value` and
+ * `--flag=value` are accepted; invalid input throws with a message for the user.
+ * Returns null when help was requested.
+ */
+export function parseSimArgs(argv: string[], readFile: (path: string) => string): SimOptions | null {
+    const values = new Map<string, string>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') return null;
+        if (!arg.startsWith('--')) throw new Error(`Unexpected argument '${arg}'`);
+        const eq = arg.indexOf('=');
+        const flag = eq >= 0 ? arg.slice(0, eq) : arg;
+        let value = eq >= 0 ? arg.slice(eq + 1) : argv[i + 1];
+        if (eq < 0) i++;
+        if (value === undefined) throw new Error(`${flag} needs a value`);
+        values.set(flag, value);
+    }
+
+    const known = ['--scenario', '--seed', '--steps', '--config', '--schedule', '--control', '--channels', '--every', '--out'];
+    const unknown = [...values.keys()].find(flag => !known.includes(flag));
+    if (unknown) throw new Error(`Unknown option ${unknown}`);
+
+    const scenarioId = values.get('--scenario');
+    if (!scenarioId) throw new Error('--scenario is required');
+    if (!isRegisteredScenario(scenarioId)) {
+        throw new Error(`Unknown scenario '${scenarioId}'. Available: ${listScenarioIds().join(', ')}`);
+    }
+
+    let config: Record<string, unknown> = {};
+    if (values.has('--config')) {
+        const parsed = readJsonArgument('--config', values.get('--config')!, readFile);
+        if (!isRecord(parsed)) throw new Error('--config must be a JSON object');
+        const problems = validateBatchConfig(scenarioId, parsed);
+        if (problems.length > 0) throw new Error(`--config: ${problems.join('; ')}`);
+        config = parsed;
+    }
+
+    let schedule: ControlSchedule | null = null;
+    if (values.has('--schedule')) {
+        schedule = sanitizeSchedule(readJsonArgument('--schedule', values.get('--schedule')!, readFile));
+        if (!schedule) throw new Error('--schedule is not a valid control schedule');
+    }
+
+    const control = { ...DEFAULT_CONTROL };
+    if (values.has('--control')) {
+        const U = Number(values.get('--control'));
+        if (!Number.isFinite(U) || U < 0 || U > 1) {
+            throw new Error(`--control must be a number in [0, 1], got '${values.get('--control')}'`);
+        }
+        control.U = U;
+    }
+    if (values.has('--channels')) {
+        const channels = readJsonArgument('--channels', values.get('--channels')!, readFile);
+        if (!isRecord(channels)) throw new Error('--channels must be a JSON object');
+        const schema = requireScenarioPlugin(scenarioId).controls;
+        if (!schema) throw new Error(`Scenario '${scenarioId}' has no control channels`);
+        const problems = validateControlPatch(schema, channels);
+        if (problems.length > 0) throw new Error(`--channels: ${problems.join('; ')}`);
+        control.channels = channels as Record<string, number>;
+    }
+
+    return {
+        scenarioId,
+        seeds: values.has('--seed') ? parseSeeds(values.get('--seed')!) : [1],
+        config,
+        schedule,
+        control,
+        steps: values.has('--steps') ? parsePositiveInteger('--steps', values.get('--steps')!) : 1000,
+        telemetryEvery: values.has('--every') ? parsePositiveInteger('--every', values.get('--every')!) : 1,
+        outDir: values.get('--out') || DEFAULT_SIM_OUT_DIR
+    };
+}
+
+/** Store half of the snapshot: defaults everywhere except the configuration of this run */
+const buildSnapshotStore = (
+    options: SimOptions,
+    config: Record<string, unknown>,
+    control: ControlSignal,
+    final: TelemetryPoint,
+    peakAgency: number
+): SnapshotStore => {
+    const isSde = options.scenarioId === DEFAULT_SCENARIO_ID;
+    const scenarioConfigs = sanitizeScenarioConfigs(isSde ? {} : { [options.scenarioId]: config });
+    return {
+        sdeParameters: isSde ? sanitizeSdeParameters(config) : { ...DEFAULT_PARAMETERS },
+        control,
+        controlSchedule: options.schedule ? { schedule: options.schedule, startGeneration: 0 } : null,
+        bestAgency: peakAgency,
+        aiHistory: [],
+        interventionLog: [],
+        currentState: { C: final.C, D: final.D, A: final.A, alertRate: final.alertRate, generation: final.generation },
+        scenarioConfigs
+    };
+};
+
+/**
+ * Run the scenario for one seed and build its bundle
+ */
+export function runSimulation(options: SimOptions, seed: number): SimRun {
+    const { scenario, config } = createBatchScenario(options.scenarioId, seed, options.config);
+
+    const log = new EventLogService(scenario.metadata, seed, config);
+    let eventCount = 0;
+    const runner = new HeadlessRunner({
+        onTelemetry: point => log.logTelemetry(point),
+        onEvent: event => {
+            eventCount++;
+            log.logEvent(event);
+        }
+    });
+    runner.setScenario(scenario);
+    runner.setControl(options.control);
+    if (options.schedule) {
+        runner.setSchedule({ schedule: options.schedule, startGeneration: scenario.getMetrics().generation });
+    }
+
+    log.logTelemetry(scenario.getMetrics());
+    let final = scenario.getMetrics();
+    for (let done = 0; done < options.steps;) {
+        const count = Math.min(options.telemetryEvery, options.steps - done);
+        final = runner.stepBatch(count)!;
+        done += count;
+    }
+    log.endRun();
+
+    const manifest = log.getManifest();
+    const snapshot = createSnapshot({
+        meta: {
+            version: SNAPSHOT_VERSION,
+            timestamp: final.generation,
+            scenarioId: options.scenarioId
+        },
+        store: buildSnapshotStore(options, config, runner.getControl(), final, manifest.summaryMetrics?.peakAgency ?? final.A),
+        scenarioData: scenario.serialize()
+    });
+
+    return { seed, manifest, final, eventCount, bundle: log.exportBundle(snapshot) };
+}
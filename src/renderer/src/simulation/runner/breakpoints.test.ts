@@ -0,0 +1,93 @@
+import { HeadlessRunner } from './HeadlessRunner';
+import { createBatchScenario } from './batchRunner';
+import { BreakpointHit, evaluateWatch, parseCondition, validateCondition } from './breakpoints';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+function testParsing() {
+    const clauses = parseCondition('A > 0.6 && D < 0.3 and event extinction "COLLAPSE"');
+    assert(JSON.stringify(clauses) === JSON.stringify([
+        { kind: 'metric', path: 'A', op: '>', value: 0.6 },
+        { kind: 'metric', path: 'D', op: '<', value: 0.3 },
+        { kind: 'event', eventType: 'extinction', text: 'COLLAPSE' }
+    ]), 'conditions parse into clauses');
+    assert(validateCondition('metrics.deceptionScore >= 1e-1') === null, 'paths and exponents are accepted');
+    assert(validateCondition('A >') !== null && validateCondition('') !== null, 'incomplete conditions are rejected');
+    assert(validateCondition('event meltdown')!.includes('Unknown event type'), 'unknown event types are rejected');
+
+    const metrics = { generation: 4, C: 0.1, D: 0.2, A: 0.7, U: 0.5, alertRate: 0 };
+    const state = { metrics: { deceptionScore: 0.4 }, population: [1, 2, 3], flag: true };
+    assert(evaluateWatch('metrics.deceptionScore', metrics, state) === 0.4, 'watches read the scenario state');
+    assert(evaluateWatch('population.length', metrics, state) === 3 && evaluateWatch('flag', metrics, state) === 1, 'array lengths and flags are numbers');
+    assert(evaluateWatch('A > 0.6 && D < 0.3', metrics, state) === true && evaluateWatch('missing.path', metrics, state) === null, 'conditions evaluate to booleans, unknown paths to null');
+    assert(evaluateWatch('controls.toxicity', { ...metrics, controls: { toxicity: 0.8 } }, state) === 0.8, 'watches read control channels from the telemetry');
+}
+
+function testMetricBreakpoint() {
+    const { scenario } = createBatchScenario('alignment', 3, {});
+    const hits: BreakpointHit[] = [];
+    const runner = new HeadlessRunner({ onBreakpoint: hit => hits.push(hit) });
+    runner.setScenario(scenario);
+    runner.setControl({ U: 0.5 });
+    runner.setBreakpoints([{ id: 'deception', expression: 'metrics.deceptionScore > 0.4', enabled: true }]);
+
+    runner.stepBatch(50);
+    const hit = hits[0];
+    assert(hits.length === 1 && runner.getTick() === hit.tick, `the batch stops on the triggering tick (${hit?.tick})`);
+    assert(scenario.getState().metrics.deceptionScore > 0.4, 'the condition holds at the hit');
+    assert(hit.snapshot.data === scenario.serialize() && hit.snapshot.tick === hit.tick, 'the hit carries a snapshot of that tick');
+
+    runner.setBreakpoints([{ id: 'deception', expression: 'metrics.deceptionScore > 0.4', enabled: false }]);
+    runner.stepBatch(50);
+    assert(hits.length === 1 && runner.getTick() === hit.tick + 50, 'disabled breakpoints do not fire');
+
+    const sde = createBatchScenario('sde-v1', 3, {}).scenario;
+    const fired: BreakpointHit[] = [];
+    const sdeRunner = new HeadlessRunner({ onBreakpoint: next => fired.push(next) });
+    sdeRunner.setScenario(sde);
+    sdeRunner.setBreakpoints([{ id: 'late', expression: 'generation >= 2', enabled: true }]);
+    sdeRunner.stepBatch(100);
+    assert(fired.length === 1 && Math.abs(fired[0].generation - 2) < 1e-9, 'the breakpoint fires when the condition turns true');
+    sdeRunner.stepBatch(100);
+    assert(fired.length === 1 && sdeRunner.getTick() === fired[0].tick + 100, 'a condition that still holds does not fire again');
+}
+
+async function testEventBreakpoint() {
+    // Reference: the first Bio extinction for this seed and control
+    const reference = createBatchScenario('bio', 3, {}).scenario;
+    let extinctionTick = -1;
+    let ticks = 0;
+    const probe = new HeadlessRunner({ onEvent: event => { if (event.type === 'extinction' && extinctionTick < 0) extinctionTick = ticks + 1; } });
+    probe.setScenario(reference);
+    probe.setControl({ U: 0.5 });
+    for (; ticks < 3000 && extinctionTick < 0; ticks++) probe.stepBatch(1);
+    assert(extinctionTick > 0, `the reference run goes extinct (tick ${extinctionTick})`);
+
+    const { scenario } = createBatchScenario('bio', 3, {});
+    const hits: BreakpointHit[] = [];
+    const runner = new HeadlessRunner({ onBreakpoint: hit => hits.push(hit) });
+    runner.setScenario(scenario);
+    runner.setControl({ U: 0.5 });
+    runner.setBreakpoints([{ id: 'extinct', expression: 'event extinction', enabled: true }]);
+    const result = await runner.runUntil(1e6);
+
+    assert(result.reason === 'breakpoint' && runner.getStatus() === 'paused', 'a fast-forward stops at the breakpoint');
+    assert(hits.length === 1 && hits[0].tick === extinctionTick && runner.getTick() === extinctionTick, 'it pauses on the first extinction');
+    assert(hits[0].event?.type === 'extinction', 'the triggering event is reported');
+}
+
+async function run() {
+    console.log('Starting Breakpoint Tests...');
+    testParsing();
+    testMetricBreakpoint();
+    await testEventBreakpoint();
+    console.log('All breakpoint tests passed!');
+}
+
+run();
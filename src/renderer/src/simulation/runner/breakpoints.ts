@@ -0,0 +1,226 @@
+/**
+ * Breakpoints - conditions that pause a run when they become true
+ *
+ * A condition is one or more clauses joined with `&&` (or `and`):
+ *   - `<path> <op> <number>` compares a value, e.g. `A > 0.6 && D < 0.3`.
+ *     Paths name a TelemetryPoint field (generation, C, D, A, U, alertRate), a
+ *     control channel (`controls.toxicity` in Bio) or walk the scenario's
+ *     getState(), e.g. `metrics.totalProvenTheorems`
+ *     (Math) or `metrics.deceptionScore` (Alignment); arrays expose `length`.
+ *   - `event <type> ["text"]` matches a ScenarioEvent emitted by the tick,
+ *     optionally one whose message contains the text, e.g. `event extinction`.
+ * A breakpoint fires on the tick its condition turns from false to true, so a
+ * run resumed while the condition still holds is not paused again. Watch
+ * expressions use the same paths (or a whole condition) to show live values.
+ */
+
+import { Scenario, ScenarioEvent, ScenarioEventType, TelemetryPoint } from '../types';
+import { Checkpoint } from './checkpoints';
+
+export type ComparisonOp = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export type BreakpointClause =
+    | { kind: 'metric'; path: string; op: ComparisonOp; value: number }
+    | { kind: 'event'; eventType: ScenarioEventType; text?: string };
+
+export interface Breakpoint {
+    id: string;
+    /** Condition as typed; parsed by the runner */
+    expression: string;
+    enabled: boolean;
+}
+
+export interface BreakpointHit {
+    breakpointId: string;
+    expression: string;
+    /** Runner tick the condition became true on */
+    tick: number;
+    generation: number;
+    metrics: TelemetryPoint;
+    /** First matching event, for conditions with event clauses */
+    event?: ScenarioEvent;
+    /** Scenario state at the triggering tick */
+    snapshot: Checkpoint;
+}
+
+export const EVENT_TYPES: ScenarioEventType[] = [
+    'threshold_crossed',
+    'sustained_high',
+    'peak',
+    'task_solved',
+    'constraint_violated',
+    'extinction',
+    'intervention',
+    'custom',
+    'agent_emerged'
+];
+
+const TELEMETRY_FIELDS = ['generation', 'C', 'D', 'A', 'U', 'alertRate'];
+const COMPARISON = /^([A-Za-z_][\w.]*)\s*(>=|<=|==|!=|>|<)\s*(-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)$/i;
+const EVENT_CLAUSE = /^event\s+([a-z_]+)(?:\s+"([^"]*)")?$/i;
+const PATH = /^[A-Za-z_][\w.]*$/;
+
+/**
+ * Parse a condition into its clauses; throws with a message naming the bad clause
+ */
+export function parseCondition(expression: string): BreakpointClause[] {
+    const parts = expression.split(/&&|\band\b/).map(part => part.trim());
+    if (parts.length === 0 || parts.some(part => part.length === 0)) {
+        throw new Error('Condition is empty');
+    }
+    return parts.map(part => {
+        const event = EVENT_CLAUSE.exec(part);
+        if (event) {
+            const eventType = event[1] as ScenarioEventType;
+            if (!EVENT_TYPES.includes(eventType)) {
+                throw new Error(`Unknown event type '${event[1]}' (one of ${EVENT_TYPES.join(', ')})`);
+            }
+            return event[2] !== undefined ? { kind: 'event', eventType, text: event[2] } : { kind: 'event', eventType };
+        }
+        const comparison = COMPARISON.exec(part);
+        if (!comparison) {
+            throw new Error(`Cannot read '${part}': expected '<path> <op> <number>' or 'event <type>'`);
+        }
+        return { kind: 'metric', path: comparison[1], op: comparison[2] as ComparisonOp, value: Number(comparison[3]) };
+    });
+}
+
+/** Parse error of a condition, or null when it is valid */
+export function validateCondition(expression: string): string | null {
+    try {
+        parseCondition(expression);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Numeric value at a path: telemetry fields and control channels first, then the scenario state
+ * (booleans count as 0/1); null when the path does not lead to a number
+ */
+export function resolvePath(path: string, metrics: TelemetryPoint, state: unknown): number | null {
+    if (TELEMETRY_FIELDS.includes(path)) return metrics[path as keyof TelemetryPoint] as number;
+    const channel = path.startsWith('controls.') ? metrics.controls?.[path.slice('controls.'.length)] : undefined;
+    if (channel !== undefined) return channel;
+    let value: unknown = state;
+    for (const key of path.split('.')) {
+        if (value === null || typeof value !== 'object') return null;
+        value = (value as Record<string, unknown>)[key];
+    }
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+const compare = (left: number, op: ComparisonOp, right: number): boolean => {
+    switch (op) {
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+    }
+};
+
+const matchesEvent = (clause: Extract<BreakpointClause, { kind: 'event' }>, event: ScenarioEvent) => (
+    event.type === clause.eventType && (clause.text === undefined || event.message.includes(clause.text))
+);
+
+/**
+ * Whether every clause holds for the metrics, state and the tick's events;
+ * returns the first matching event along with the verdict
+ */
+export function evaluateClauses(
+    clauses: BreakpointClause[],
+    metrics: TelemetryPoint,
+    state: unknown,
+    events: ScenarioEvent[]
+): { met: boolean; event?: ScenarioEvent } {
+    let matched: ScenarioEvent | undefined;
+    for (const clause of clauses) {
+        if (clause.kind === 'event') {
+            const event = events.find(candidate => matchesEvent(clause, candidate));
+            if (!event) return { met: false };
+            matched = matched ?? event;
+        } else {
+            const value = resolvePath(clause.path, metrics, state);
+            if (value === null || !compare(value, clause.op, clause.value)) return { met: false };
+        }
+    }
+    return { met: true, event: matched };
+}
+
+/**
+ * Current value of a watch expression: a path gives its number, a condition
+ * whether it holds (event clauses never do outside a tick); null when unknown
+ */
+export function evaluateWatch(expression: string, metrics: TelemetryPoint, state: unknown): number | boolean | null {
+    const trimmed = expression.trim();
+    if (PATH.test(trimmed)) return resolvePath(trimmed, metrics, state);
+    try {
+        return evaluateClauses(parseCondition(trimmed), metrics, state, []).met;
+    } catch {
+        return null;
+    }
+}
+
+interface ArmedBreakpoint {
+    breakpoint: Breakpoint;
+    clauses: BreakpointClause[];
+    /** Verdict on the previous tick; fires only on a false-to-true transition */
+    wasMet: boolean;
+}
+
+/**
+ * The runner's view of the enabled breakpoints. Conditions that do not parse
+ * are skipped; each is primed with the current state so one that already
+ * holds when it is set does not fire until it becomes true again.
+ */
+export class BreakpointMonitor {
+    private armed: ArmedBreakpoint[] = [];
+
+    public set(breakpoints: Breakpoint[], scenario: Scenario | null) {
+        this.armed = breakpoints.filter(breakpoint => breakpoint.enabled).flatMap(breakpoint => {
+            try {
+                return [{ breakpoint, clauses: parseCondition(breakpoint.expression), wasMet: false }];
+            } catch {
+                return [];
+            }
+        });
+        if (scenario) this.prime(scenario);
+    }
+
+    public isEmpty(): boolean {
+        return this.armed.length === 0;
+    }
+
+    /** Re-evaluate without firing, e.g. after the scenario was replaced or rewound */
+    public prime(scenario: Scenario) {
+        const metrics = scenario.getMetrics();
+        const state = this.needsState() ? scenario.getState() : null;
+        this.armed.forEach(entry => {
+            entry.wasMet = evaluateClauses(entry.clauses, metrics, state, []).met;
+        });
+    }
+
+    /**
+     * Evaluate after a tick; returns the first breakpoint that became true
+     */
+    public check(scenario: Scenario, events: ScenarioEvent[]): { breakpoint: Breakpoint; metrics: TelemetryPoint; event?: ScenarioEvent } | null {
+        const metrics = scenario.getMetrics();
+        const state = this.needsState() ? scenario.getState() : null;
+        let fired: { breakpoint: Breakpoint; metrics: TelemetryPoint; event?: ScenarioEvent } | null = null;
+        for (const entry of this.armed) {
+            const { met, event } = evaluateClauses(entry.clauses, metrics, state, events);
+            if (met && !entry.wasMet && !fired) fired = { breakpoint: entry.breakpoint, metrics, event };
+            entry.wasMet = met;
+        }
+        return fired;
+    }
+
+    /** getState() is only read when a clause looks past the telemetry */
+    private needsState(): boolean {
+        return this.armed.some(entry => entry.clauses.some(clause => clause.kind === 'metric' && !TELEMETRY_FIELDS.includes(clause.path)));
+    }
+}
@@ -0,0 +1,82 @@
+import { TelemetryPoint } from '../types';
+import { HeadlessRunner } from './HeadlessRunner';
+import { createBatchScenario } from './batchRunner';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+/** Steps one tick at a time with a varying control and a mid-run config change, recording each tick */
+function runWithInputs(scenarioId: string, ticks: number, config: Record<string, unknown>) {
+    const { scenario } = createBatchScenario(scenarioId, 5, {});
+    const runner = new HeadlessRunner({});
+    runner.setCheckpointing({ every: 10, capacity: 100 });
+    runner.setScenario(scenario);
+    const trajectory: TelemetryPoint[] = [scenario.getMetrics()];
+    for (let t = 0; t < ticks; t++) {
+        runner.setControl({ U: 0.2 + 0.6 * ((t * 7) % 10) / 10 });
+        if (t === 23) runner.updateConfig(config);
+        trajectory.push(runner.stepBatch(1)!);
+    }
+    return { runner, scenario, trajectory };
+}
+
+function testExactRewind() {
+    const cases: Array<[string, Record<string, unknown>]> = [
+        ['sde-v1', { sigma_A: 0.05 }],
+        ['bio', { mutationRate: 0.2 }],
+        ['alignment', { mutationRate: 0.3 }],
+        ['erdos', { mutationRate: 0.3 }]
+    ];
+    cases.forEach(([scenarioId, config]) => {
+        const { runner, scenario, trajectory } = runWithInputs(scenarioId, 40, config);
+        const result = runner.rewindTo(27)!;
+        const metrics = scenario.getMetrics();
+        assert(result.tick === 27 && runner.getTick() === 27, `${scenarioId}: rewinds to the requested tick`);
+        assert(JSON.stringify(metrics) === JSON.stringify(trajectory[27]), `${scenarioId}: re-stepping reproduces the tick exactly`);
+        assert(result.control.U === 0.2 + 0.6 * ((26 * 7) % 10) / 10, `${scenarioId}: the control in effect at the tick is restored`);
+
+        for (let t = 27; t < 40; t++) {
+            runner.setControl({ U: 0.2 + 0.6 * ((t * 7) % 10) / 10 });
+            runner.stepBatch(1);
+        }
+        assert(JSON.stringify(scenario.getMetrics()) === JSON.stringify(trajectory[40]), `${scenarioId}: the run continues deterministically from the restored tick`);
+    });
+}
+
+function testRingAndTruncation() {
+    const { scenario } = createBatchScenario('sde-v1', 3, {});
+    const recorded: number[] = [];
+    const runner = new HeadlessRunner({ onCheckpoint: checkpoint => recorded.push(checkpoint.tick) });
+    runner.setCheckpointing({ every: 10, capacity: 4 });
+    runner.setScenario(scenario);
+    runner.stepBatch(75);
+
+    assert(recorded.join() === '0,10,20,30,40,50,60,70', 'a checkpoint is taken at load and every 10 ticks');
+    assert(runner.getCheckpoints().map(checkpoint => checkpoint.tick).join() === '40,50,60,70', 'the ring keeps the latest four');
+    assert(runner.rewindTo(35) === null && runner.getTick() === 75, 'ticks before the oldest checkpoint cannot be restored');
+
+    const result = runner.rewindTo(52)!;
+    assert(result.tick === 52 && runner.getCheckpoints().map(checkpoint => checkpoint.tick).join() === '40,50', 'later checkpoints are dropped on rewind');
+    assert(runner.rewindTo(500)!.tick === 52, 'the future cannot be rewound to');
+    runner.stepBatch(8);
+    assert(runner.getCheckpoints().map(checkpoint => checkpoint.tick).join() === '40,50,60', 'checkpoints resume on the new timeline');
+
+    const plain = new HeadlessRunner({});
+    plain.setScenario(createBatchScenario('sde-v1', 3, {}).scenario);
+    plain.stepBatch(20);
+    assert(plain.getCheckpoints().length === 0 && plain.rewindTo(0) === null, 'checkpointing is off unless enabled');
+}
+
+function run() {
+    console.log('Starting Checkpoint Tests...');
+    testExactRewind();
+    testRingAndTruncation();
+    console.log('All checkpoint tests passed!');
+}
+
+run();
@@ -0,0 +1,107 @@
+/**
+ * Checkpoints - bounded history of serialized scenario states for rewinding a run
+ *
+ * The runner serializes the scenario every `every` ticks into a ring of
+ * `capacity` checkpoints (scenario-owned RunContext state, such as the
+ * PRNG position and id counter, travels inside serialize()). Between
+ * checkpoints it journals the inputs it applied: the control used by each tick
+ * when it changed, and configuration updates. Restoring the latest checkpoint
+ * at or before a tick and re-applying the journal reproduces that tick exactly.
+ */
+
+import { ControlSignal } from '../types';
+
+export const DEFAULT_CHECKPOINT_EVERY = 100;
+export const DEFAULT_CHECKPOINT_CAPACITY = 60;
+
+export interface CheckpointOptions {
+    /** Ticks between checkpoints */
+    every: number;
+    /** Checkpoints kept; the oldest is dropped first */
+    capacity: number;
+}
+
+export interface Checkpoint {
+    /** Ticks since the scenario was loaded */
+    tick: number;
+    generation: number;
+    /** scenario.serialize() after `tick` ticks */
+    data: string;
+    /** Control in effect when the checkpoint was taken */
+    control: ControlSignal;
+}
+
+/** What the timeline needs to draw a checkpoint */
+export type CheckpointSummary = Pick<Checkpoint, 'tick' | 'generation'>;
+
+/** An input applied before the tick with this number was stepped */
+export type JournalEntry =
+    | { tick: number; control: ControlSignal }
+    | { tick: number; config: object };
+
+export interface RewindResult {
+    tick: number;
+    generation: number;
+    control: ControlSignal;
+}
+
+export class CheckpointRing {
+    private checkpoints: Checkpoint[] = [];
+    private journal: JournalEntry[] = [];
+
+    constructor(private options: CheckpointOptions) { }
+
+    public getOptions(): CheckpointOptions {
+        return { ...this.options };
+    }
+
+    /** Whether a checkpoint is due after `tick` ticks */
+    public isDue(tick: number): boolean {
+        return tick % this.options.every === 0;
+    }
+
+    public record(checkpoint: Checkpoint) {
+        this.checkpoints = this.checkpoints.filter(existing => existing.tick < checkpoint.tick);
+        this.checkpoints.push(checkpoint);
+        if (this.checkpoints.length > this.options.capacity) {
+            this.checkpoints.shift();
+            // Inputs before the oldest checkpoint can no longer be replayed
+            const oldest = this.checkpoints[0].tick;
+            this.journal = this.journal.filter(entry => entry.tick >= oldest);
+        }
+    }
+
+    public log(entry: JournalEntry) {
+        this.journal.push(entry);
+    }
+
+    /** Latest checkpoint at or before the tick, null when it lies before the oldest one */
+    public latestAtOrBefore(tick: number): Checkpoint | null {
+        for (let i = this.checkpoints.length - 1; i >= 0; i--) {
+            if (this.checkpoints[i].tick <= tick) return this.checkpoints[i];
+        }
+        return null;
+    }
+
+    /** Journal entries for ticks in [from, to), in the order they were applied */
+    public inputsBetween(from: number, to: number): JournalEntry[] {
+        return this.journal.filter(entry => entry.tick >= from && entry.tick < to);
+    }
+
+    /**
+     * Forget everything after the tick: the run continues from there on a new timeline
+     */
+    public truncateAfter(tick: number) {
+        this.checkpoints = this.checkpoints.filter(checkpoint => checkpoint.tick <= tick);
+        this.journal = this.journal.filter(entry => entry.tick < tick);
+    }
+
+    public clear() {
+        this.checkpoints = [];
+        this.journal = [];
+    }
+
+    public summaries(): CheckpointSummary[] {
+        return this.checkpoints.map(({ tick, generation }) => ({ tick, generation }));
+    }
+}
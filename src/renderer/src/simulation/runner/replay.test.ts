@@ -0,0 +1,96 @@
+import { HeadlessRunner } from './HeadlessRunner';
+import { createBatchScenario, getBatchScenarioDefaults } from './batchRunner';
+import { listScenarioIds } from '../scenarios/scenarioRegistry';
+import { replayLog } from './replay';
+import { ReplayLog, parseReplayLog } from './replayLog';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+/** An interactive-style session: manual U changes, a config update and a time-varying schedule */
+function recordSession(scenarioId: string, ticks: number) {
+    const { scenario } = createBatchScenario(scenarioId, 21, {});
+    const runner = new HeadlessRunner({});
+    runner.setReplayRecording({ hashEvery: 10 });
+    runner.setCheckpointing({ every: 20, capacity: 10 });
+    runner.setScenario(scenario);
+
+    const defaults = getBatchScenarioDefaults(scenarioId)!;
+    const numericKey = Object.keys(defaults).find(key => key === 'mutationRate' || key === 'sigma_A');
+    for (let t = 0; t < ticks; t++) {
+        if (t % 7 === 0) runner.setControl({ U: 0.2 + ((t * 3) % 10) / 15 });
+        if (t === 15 && numericKey) runner.updateConfig({ [numericKey]: (defaults[numericKey] as number) * 1.5 });
+        if (t === 30) runner.setSchedule({ schedule: { kind: 'linear', points: [{ generation: 0, U: 0.1 }, { generation: 5, U: 0.9 }] }, startGeneration: scenario.getMetrics().generation });
+        runner.stepBatch(1);
+    }
+    return { runner, scenario };
+}
+
+const roundTrip = (log: ReplayLog) => parseReplayLog(JSON.stringify(log));
+
+function testReproduces() {
+    listScenarioIds().forEach(scenarioId => {
+        const { runner } = recordSession(scenarioId, 45);
+        const log = roundTrip(runner.getReplayLog()!);
+        const report = replayLog(log);
+        assert(log.ticks === 45 && log.hashes.length === 5 && log.inputs.length > 6, `${scenarioId}: inputs and hashes are recorded (${log.inputs.length} inputs)`);
+        assert(report.divergence === null && report.checked === 5, `${scenarioId}: the session replays identically`);
+    });
+}
+
+function testDivergence() {
+    const { runner } = recordSession('sde-v1', 45);
+    const log = runner.getReplayLog()!;
+    const tampered: ReplayLog = {
+        ...log,
+        inputs: log.inputs.map(entry => ('control' in entry && entry.tick === 21 ? { tick: 21, control: { U: 0.99 } } : entry))
+    };
+    const report = replayLog(tampered);
+    assert(report.divergence?.tick === 30 && report.lastMatch === 20, `a changed input is reported at the first hash after it (tick ${report.divergence?.tick})`);
+
+    const missing = replayLog({ ...log, inputs: log.inputs.filter(entry => !('config' in entry)) });
+    assert(missing.divergence?.tick === 20, 'a missing config update is caught');
+}
+
+function testRewind() {
+    const { runner } = recordSession('bio', 45);
+    runner.rewindTo(25);
+    runner.setControl({ U: 0.05 });
+    runner.setSchedule(null);
+    runner.stepBatch(20);
+    const log = runner.getReplayLog()!;
+    assert(log.ticks === 45 && log.hashes.map(entry => entry.tick).join() === '0,10,20,30,40', 'a rewind replaces the log after the restored tick');
+    assert(replayLog(log).divergence === null, 'the rewound timeline replays identically');
+}
+
+function testParse() {
+    const rejects = (json: string) => {
+        try {
+            parseReplayLog(json);
+            return false;
+        } catch {
+            return true;
+        }
+    };
+    assert(rejects('[]') && rejects('{"version":2}'), 'malformed logs are rejected');
+    const { runner } = recordSession('math', 5);
+    const log = runner.getReplayLog()!;
+    assert(rejects(JSON.stringify({ ...log, inputs: [{ tick: -1, control: { U: 1 } }] })), 'inputs need a valid tick');
+    assert(new HeadlessRunner({}).getReplayLog() === null, 'nothing is recorded unless enabled');
+}
+
+function run() {
+    console.log('Starting Replay Tests...');
+    testReproduces();
+    testDivergence();
+    testRewind();
+    testParse();
+    console.log('All replay tests passed!');
+}
+
+run();
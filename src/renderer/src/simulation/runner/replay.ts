@@ -0,0 +1,64 @@
+/**
+ * Replay - re-executes a recorded session and checks it against its state hashes
+ *
+ * Used by `npm run replay <log.json>` to confirm that an interactive session
+ * (UI controls, AI parameter updates, configuration changes) is reproducible,
+ * or to find the first tick where it stops being so.
+ */
+
+import { ControlSignal, DEFAULT_CONTROL } from '../types';
+import { createScenarioInstance } from './batchRunner';
+import { ReplayLog, hashState } from './replayLog';
+
+export interface ReplayDivergence {
+    tick: number;
+    expected: string;
+    actual: string;
+}
+
+export interface ReplayReport {
+    ticks: number;
+    /** Recorded hashes compared before stopping */
+    checked: number;
+    /** Last tick whose hash matched; a divergence arose after it */
+    lastMatch: number;
+    /** First tick whose state differs from the recording, null when all matched */
+    divergence: ReplayDivergence | null;
+}
+
+/**
+ * Re-execute a log from its start state and compare the state hashes as they come due
+ */
+export function replayLog(log: ReplayLog): ReplayReport {
+    const scenario = createScenarioInstance(log.scenarioId);
+    scenario.deserialize(log.start);
+    scenario.clearEvents();
+    const expected = new Map(log.hashes.map(entry => [entry.tick, entry.hash]));
+
+    let checked = 0;
+    let lastMatch = -1;
+    const compare = (tick: number): ReplayDivergence | null => {
+        const recorded = expected.get(tick);
+        if (recorded === undefined) return null;
+        checked++;
+        const actual = hashState(scenario.serialize());
+        if (actual !== recorded) return { tick, expected: recorded, actual };
+        lastMatch = tick;
+        return null;
+    };
+
+    let divergence = compare(0);
+    let control: ControlSignal = { ...DEFAULT_CONTROL };
+    let next = 0;
+    for (let tick = 0; tick < log.ticks && !divergence; tick++) {
+        for (; next < log.inputs.length && log.inputs[next].tick === tick; next++) {
+            const input = log.inputs[next];
+            if ('control' in input) control = { ...input.control };
+            else scenario.updateConfig(input.config);
+        }
+        scenario.step(control);
+        scenario.clearEvents();
+        divergence = compare(tick + 1);
+    }
+    return { ticks: log.ticks, checked, lastMatch, divergence };
+}
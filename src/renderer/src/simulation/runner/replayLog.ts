@@ -0,0 +1,123 @@
+/**
+ * Replay Log - records a session's external inputs so it can be re-executed
+ *
+ * The runner records the scenario's serialized state when it was loaded, every
+ * input applied after that with the tick it applied to (the control used by a
+ * tick whenever it changed, whether set by the UI, the AI or a schedule, and
+ * configuration updates), and a hash of scenario.serialize() every `hashEvery`
+ * ticks. replayLog() (replay.ts) restores the start state, re-applies the
+ * inputs and reports the first tick whose hash differs from the recorded one.
+ */
+
+import { JournalEntry } from './checkpoints';
+import { fnv1a } from '../../common/hash';
+
+export const REPLAY_LOG_VERSION = 1;
+export const DEFAULT_HASH_EVERY = 100;
+
+export interface ReplayLog {
+    version: number;
+    scenarioId: string;
+    /** scenario.serialize() at tick 0 */
+    start: string;
+    hashEvery: number;
+    /** Ticks stepped when the log was taken */
+    ticks: number;
+    /** In the order they were applied */
+    inputs: JournalEntry[];
+    /** hashState() after `tick` ticks, tick 0 included */
+    hashes: Array<{ tick: number; hash: string }>;
+}
+
+/**
+ * FNV-1a hash of serialized state. Wall-clock ISO timestamps (Erdos stamps its
+ * artifacts) are not simulation state and are blanked first.
+ */
+export function hashState(data: string): string {
+    return fnv1a(data.replace(/"\d{4}-\d\d-\d\dT[^"]*"/g, '""'));
+}
+
+export class ReplayRecorder {
+    private scenarioId = '';
+    private start = '';
+    private inputs: JournalEntry[] = [];
+    private hashes: Array<{ tick: number; hash: string }> = [];
+    private ticks = 0;
+
+    constructor(private hashEvery: number) { }
+
+    /** Start a new log from the state a scenario was loaded with */
+    public begin(scenarioId: string, data: string) {
+        this.scenarioId = scenarioId;
+        this.start = data;
+        this.inputs = [];
+        this.hashes = [{ tick: 0, hash: hashState(data) }];
+        this.ticks = 0;
+    }
+
+    public log(entry: JournalEntry) {
+        this.inputs.push(entry);
+    }
+
+    public isHashDue(tick: number): boolean {
+        return tick % this.hashEvery === 0;
+    }
+
+    /** Record the tick count reached, and the state hash when one is due */
+    public advance(tick: number, serialize: () => string) {
+        this.ticks = tick;
+        if (this.isHashDue(tick)) this.hashes.push({ tick, hash: hashState(serialize()) });
+    }
+
+    /**
+     * Forget everything after the tick, as a rewind does
+     */
+    public truncateAfter(tick: number) {
+        this.inputs = this.inputs.filter(entry => entry.tick < tick);
+        this.hashes = this.hashes.filter(entry => entry.tick <= tick);
+        this.ticks = Math.min(this.ticks, tick);
+    }
+
+    public getLog(): ReplayLog | null {
+        if (!this.scenarioId) return null;
+        return {
+            version: REPLAY_LOG_VERSION,
+            scenarioId: this.scenarioId,
+            start: this.start,
+            hashEvery: this.hashEvery,
+            ticks: this.ticks,
+            inputs: this.inputs.map(entry => ({ ...entry })),
+            hashes: [...this.hashes]
+        };
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const isTick = (value: unknown): value is number => (
+    typeof value === 'number' && Number.isInteger(value) && value >= 0
+);
+
+/**
+ * Validate a log read from disk; throws with the first problem found
+ */
+export function parseReplayLog(json: string): ReplayLog {
+    const value: unknown = JSON.parse(json);
+    if (!isRecord(value)) throw new Error('Replay log must be an object');
+    if (value.version !== REPLAY_LOG_VERSION) throw new Error(`Unsupported replay log version ${String(value.version)}`);
+    if (typeof value.scenarioId !== 'string' || typeof value.start !== 'string') {
+        throw new Error('Replay log needs scenarioId and start');
+    }
+    if (!isTick(value.ticks) || !isTick(value.hashEvery) || value.hashEvery === 0) {
+        throw new Error('Replay log needs whole ticks and hashEvery');
+    }
+    if (!Array.isArray(value.inputs) || !value.inputs.every(entry => isRecord(entry) && isTick(entry.tick) && (isRecord(entry.control) || isRecord(entry.config)))) {
+        throw new Error('Replay log inputs must each have a tick and a control or config');
+    }
+    if (!Array.isArray(value.hashes) || !value.hashes.every(entry => isRecord(entry) && isTick(entry.tick) && typeof entry.hash === 'string')) {
+        throw new Error('Replay log hashes must each have a tick and a hash');
+    }
+    return value as unknown as ReplayLog;
+}
@@ -0,0 +1,9 @@
+/**
+ * Web Worker entry: steps the active scenario off the renderer thread
+ */
+
+import '../scenarios/localPlugins';
+import { attachScenarioWorker } from './scenarioWorkerHost';
+import { MessagePortLike, ScenarioWorkerCommand, ScenarioWorkerMessage } from './workerProtocol';
+
+attachScenarioWorker(self as unknown as MessagePortLike<ScenarioWorkerCommand, ScenarioWorkerMessage>);
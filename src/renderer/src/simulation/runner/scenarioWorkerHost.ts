@@ -0,0 +1,177 @@
+/**
+ * Scenario Worker Host - the worker side of the stepping protocol
+ *
+ * Owns the scenario and a ScenarioRunner that steps it at the configured tick
+ * rate. Hook calls are buffered and posted as one batch every REPORT_FLUSH_MS;
+ * serialized state follows at most every STATE_SYNC_MS while running, and right
+ * away once the runner stops stepping, so the renderer's mirror catches up.
+ */
+
+import { Scenario } from '../types';
+import { createScenarioInstance } from './batchRunner';
+import { ScenarioRunner } from './ScenarioRunner';
+import { MessagePortLike, RunnerReport, ScenarioWorkerCommand, ScenarioWorkerMessage } from './workerProtocol';
+
+export const REPORT_FLUSH_MS = 50;
+export const STATE_SYNC_MS = 250;
+
+/**
+ * Serve protocol commands arriving on the port (the worker global scope, or a test double)
+ */
+export function attachScenarioWorker(port: MessagePortLike<ScenarioWorkerCommand, ScenarioWorkerMessage>) {
+    let scenario: Scenario | null = null;
+    let loadId = 0;
+    let reports: RunnerReport[] = [];
+    /** Stepped or reconfigured since the last state message */
+    let dirty = false;
+    let lastSync = 0;
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let checkpointsChanged = false;
+
+    const post = (message: ScenarioWorkerMessage) => {
+        try {
+            port.postMessage(message);
+        } catch {
+            // Event payloads may hold values structured clone rejects; JSON keeps what the UI reads
+            port.postMessage(JSON.parse(JSON.stringify(message)));
+        }
+    };
+
+    const sendState = (requestId?: number) => {
+        if (!scenario) return;
+        post({ type: 'state', loadId, data: scenario.serialize(), requestId });
+        dirty = false;
+        lastSync = performance.now();
+    };
+
+    const flush = () => {
+        if (flushTimer !== null) {
+            clearTimeout(flushTimer);
+            flushTimer = null;
+        }
+        if (reports.length > 0 || checkpointsChanged) {
+            post({
+                type: 'batch',
+                loadId,
+                reports,
+                tick: runner.getTick(),
+                checkpoints: checkpointsChanged ? runner.getCheckpoints() : undefined
+            });
+            reports = [];
+            checkpointsChanged = false;
+        }
+        if (dirty && (runner.getStatus() !== 'running' || performance.now() - lastSync >= STATE_SYNC_MS)) {
+            sendState();
+        }
+    };
+
+    const scheduleFlush = () => {
+        if (flushTimer === null) flushTimer = setTimeout(flush, REPORT_FLUSH_MS);
+    };
+
+    const record = (report: RunnerReport) => {
+        reports.push(report);
+        scheduleFlush();
+    };
+
+    const runner = new ScenarioRunner({
+        onTelemetry: point => {
+            dirty = true;
+            record({ kind: 'telemetry', point });
+        },
+        onEvent: event => record({ kind: 'event', event }),
+        onControl: control => record({ kind: 'control', control }),
+        onCheckpoint: () => {
+            checkpointsChanged = true;
+            scheduleFlush();
+        },
+        onBreakpoint: hit => {
+            dirty = true;
+            record({ kind: 'breakpoint', hit });
+        }
+    });
+
+    const handle = (command: ScenarioWorkerCommand) => {
+        switch (command.type) {
+            case 'load': {
+                flush();
+                const next = createScenarioInstance(command.load.scenarioId);
+                if ('data' in command.load) {
+                    next.deserialize(command.load.data);
+                } else {
+                    next.initialize(command.load.seed, command.load.config);
+                }
+                runner.setScenario(next);
+                scenario = next;
+                loadId = command.loadId;
+                sendState();
+                break;
+            }
+            case 'start':
+                runner.start();
+                break;
+            case 'pause':
+                runner.pause();
+                flush();
+                break;
+            case 'stop':
+                runner.stop();
+                flush();
+                break;
+            case 'step':
+                runner.stepBatch(command.count);
+                flush();
+                break;
+            case 'setTPS':
+                runner.setTPS(command.tps);
+                break;
+            case 'setControl':
+                runner.setControl(command.control);
+                break;
+            case 'setSchedule':
+                runner.setSchedule(command.schedule);
+                break;
+            case 'updateConfig':
+                runner.updateConfig(command.config);
+                dirty = true;
+                scheduleFlush();
+                break;
+            case 'serialize':
+                flush();
+                sendState(command.requestId);
+                break;
+            case 'setBreakpoints':
+                runner.setBreakpoints(command.breakpoints);
+                break;
+            case 'replayLog':
+                post({ type: 'replayLog', requestId: command.requestId, log: runner.getReplayLog() });
+                break;
+            case 'rewind': {
+                const result = runner.rewindTo(command.tick);
+                if (result) {
+                    dirty = true;
+                    checkpointsChanged = true;
+                }
+                flush();
+                post({ type: 'rewound', requestId: command.requestId, result });
+                break;
+            }
+            case 'runUntil': {
+                const { requestId } = command;
+                void runner.runUntil(command.target, command.options).then(result => {
+                    flush();
+                    post({ type: 'runUntilDone', requestId, result });
+                });
+                break;
+            }
+        }
+    };
+
+    port.onmessage = event => {
+        try {
+            handle(event.data);
+        } catch (error) {
+            post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Scenario Worker Protocol - messages between the renderer and the stepping worker
+ *
+ * The renderer sends commands; the worker answers with batches of the hook
+ * calls it made (telemetry, events, control changes, breakpoint hits) in the
+ * order they happened, and with serialized scenario state so the renderer can
+ * keep a read-only mirror of the scenario for views that inspect it directly.
+ */
+
+import { ActiveControlSchedule, ControlSignal, ScenarioEvent, TelemetryPoint } from '../types';
+import { RunUntilOptions, RunUntilResult } from './HeadlessRunner';
+import { CheckpointSummary, RewindResult } from './checkpoints';
+import { Breakpoint, BreakpointHit } from './breakpoints';
+import { ReplayLog } from './replayLog';
+
+/** Either a fresh initialization or a restore of serialized state */
+export type ScenarioLoad =
+    | { scenarioId: string; seed: number; config?: unknown }
+    | { scenarioId: string; data: string };
+
+export type ScenarioWorkerCommand =
+    /** loadId tags every batch and state message produced for this scenario */
+    | { type: 'load'; loadId: number; load: ScenarioLoad }
+    | { type: 'start' }
+    | { type: 'pause' }
+    | { type: 'stop' }
+    | { type: 'step'; count: number }
+    | { type: 'setTPS'; tps: number }
+    | { type: 'setControl'; control: Partial<ControlSignal> }
+    | { type: 'setSchedule'; schedule: ActiveControlSchedule | null }
+    | { type: 'updateConfig'; config: object }
+    | { type: 'serialize'; requestId: number }
+    | { type: 'runUntil'; requestId: number; target: number; options?: RunUntilOptions }
+    | { type: 'rewind'; requestId: number; tick: number }
+    | { type: 'setBreakpoints'; breakpoints: Breakpoint[] }
+    | { type: 'replayLog'; requestId: number };
+
+/** One hook call made by the worker's runner */
+export type RunnerReport =
+    | { kind: 'telemetry'; point: TelemetryPoint }
+    | { kind: 'event'; event: ScenarioEvent }
+    | { kind: 'control'; control: ControlSignal }
+    | { kind: 'breakpoint'; hit: BreakpointHit };
+
+export type ScenarioWorkerMessage =
+    /** tick is the runner's tick count after the reports; checkpoints is set when they changed */
+    | { type: 'batch'; loadId: number; reports: RunnerReport[]; tick: number; checkpoints?: CheckpointSummary[] }
+    /** Serialized scenario; requestId is set when it answers a 'serialize' command */
+    | { type: 'state'; loadId: number; data: string; requestId?: number }
+    | { type: 'runUntilDone'; requestId: number; result: RunUntilResult }
+    | { type: 'rewound'; requestId: number; result: RewindResult | null }
+    | { type: 'replayLog'; requestId: number; log: ReplayLog | null }
+    | { type: 'error'; message: string };
+
+/** The part of Worker (and of the worker's global scope) the protocol relies on */
+export interface MessagePortLike<In, Out> {
+    onmessage: ((event: MessageEvent<In>) => void) | null;
+    /** Set on the Worker side only: the worker failed to load or threw outside a handler */
+    onerror?: ((event: ErrorEvent) => void) | null;
+    /** Set on the Worker side only: a message could not be deserialized */
+    onmessageerror?: ((event: MessageEvent) => void) | null;
+    postMessage(message: Out): void;
+}
@@ -1,3 +1,5 @@
+import { ConfigSchema } from '../../../../../shared/schemas/configSchema';
+import { ControlSchema } from '../../../../../shared/schemas/controlSchema';
 
 /**
  * Types for the Emergent Task Decomposition (ETD) Scenario
@@ -71,6 +73,19 @@ export const DEFAULT_AGENT_CONFIG: AgentConfig = {
     driftRate: 0.1
 };
 
+/** Ranges, steps and descriptions of the AgentConfig fields */
+export const AGENT_CONFIG_SCHEMA: ConfigSchema<AgentConfig> = {
+    populationSize: { type: 'number', label: 'Population Size', description: 'Number of agents in the ETD arena.', min: 5, max: 100, step: 1, integer: true, unit: 'agents', group: 'ETD Controls' },
+    tasksPerGen: { type: 'number', label: 'Tasks Per Gen', description: 'Tasks generated per generation.', min: 5, max: 50, step: 1, integer: true, unit: 'tasks', group: 'ETD Controls' },
+    baseTaskDifficulty: { type: 'number', label: 'Base Task Difficulty', description: 'Baseline difficulty for tasks.', min: 5, max: 100, step: 1, group: 'ETD Controls' },
+    driftRate: { type: 'number', label: 'Drift Rate', description: 'How quickly task distributions drift.', min: 0.01, max: 0.5, step: 0.01, group: 'ETD Controls' }
+};
+
+/** Control channels of the ETD arena; drift follows U unless set */
+export const AGENT_CONTROL_SCHEMA: ControlSchema = {
+    drift: { label: 'Task Drift', description: 'Scale of the shifts in task requirements, multiplied by the configured drift rate.', min: 0, max: 1, step: 0.01 }
+};
+
 export interface AgentEntity {
     id: string;
     lineageId: string; // Tracks the evolutionary line
@@ -91,4 +106,6 @@ export interface AgentScenarioState {
     agents: AgentEntity[];
     currentTasks: AgentTask[];
     metrics: AgentMetrics;
+    /** Effective control channels of the last step */
+    controls: Record<string, number>;
 }
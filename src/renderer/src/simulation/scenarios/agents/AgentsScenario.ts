@@ -7,20 +7,23 @@ import {
     ScenarioEvent
 } from '../../types';
 import { PRNG } from '../../../common/prng';
-import { AgentScenarioState, AgentConfig, DEFAULT_AGENT_CONFIG, AgentTask, ActionType } from './AgentTypes';
+import { AgentScenarioState, AgentConfig, DEFAULT_AGENT_CONFIG, AgentTask, ActionType, AGENT_CONTROL_SCHEMA } from './AgentTypes';
+import { resolveControlChannels } from '../../../../../shared/schemas/controlSchema';
 import { AgentLogic } from './AgentLogic';
 import * as AgencyMetrics from '../../metrics/AgencyMetrics';
 import { SimulationLogger } from '../../logging/SimulationLogger';
 import { RunContext, RunContextState } from '../../RunContext';
 
+export const AGENTS_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'agents',
+    name: 'Emergent Task Decomposition',
+    description: 'Agents evolve hierarchical plans and reusable skills to solve shifting tasks.',
+    version: '0.1.0',
+    type: 'agents'
+};
+
 export class AgentsScenario implements Scenario<AgentConfig> {
-    public metadata: ScenarioMetadata = {
-        id: 'agents',
-        name: 'Emergent Task Decomposition',
-        description: 'Agents evolve hierarchical plans and reusable skills to solve shifting tasks.',
-        version: '0.1.0',
-        type: 'agents'
-    };
+    public metadata: ScenarioMetadata = AGENTS_SCENARIO_METADATA;
 
     private state: AgentScenarioState;
     private config: AgentConfig;
@@ -44,6 +47,7 @@ export class AgentsScenario implements Scenario<AgentConfig> {
             generation: 0,
             agents: [],
             currentTasks: [],
+            controls: {},
             metrics: {
                 C: 0, D: 0, A: 0, U: 0, alertRate: 0,
                 skillReuseRate: 0,
@@ -101,8 +105,9 @@ export class AgentsScenario implements Scenario<AgentConfig> {
         }
 
         // 1. Task Drift
-        // U drives the drift rate? Or drift magnitude?
-        const drift = control.U * this.config.driftRate;
+        // The drift channel (U unless set) scales the drift magnitude
+        this.state.controls = resolveControlChannels(AGENT_CONTROL_SCHEMA, control);
+        const drift = this.state.controls.drift * this.config.driftRate;
 
         // Randomly adjust one requirement baseline
         const types: ActionType[] = ['NAVIGATE', 'COMPUTE', 'MANIPULATE', 'COMMUNICATE'];
@@ -316,7 +321,8 @@ export class AgentsScenario implements Scenario<AgentConfig> {
             D: this.state.metrics.D,
             A: this.state.metrics.A,
             U: this.state.metrics.U,
-            alertRate: this.state.metrics.alertRate
+            alertRate: this.state.metrics.alertRate,
+            controls: { ...this.state.controls }
         };
     }
 
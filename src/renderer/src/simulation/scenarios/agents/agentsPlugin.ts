@@ -0,0 +1,24 @@
+import { ScenarioPlugin, countOf, isRecord } from '../scenarioPlugin';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+import { AgentsScenario, AGENTS_SCENARIO_METADATA } from './AgentsScenario';
+import { AGENT_CONFIG_SCHEMA, AGENT_CONTROL_SCHEMA, AgentConfig, DEFAULT_AGENT_CONFIG } from './AgentTypes';
+
+export const agentsPlugin: ScenarioPlugin<AgentConfig> = {
+    metadata: AGENTS_SCENARIO_METADATA,
+    create: () => new AgentsScenario(),
+    defaultConfig: DEFAULT_AGENT_CONFIG,
+    configSchema: AGENT_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(AGENT_CONFIG_SCHEMA, DEFAULT_AGENT_CONFIG, value),
+    controls: AGENT_CONTROL_SCHEMA,
+    prompt: { generationUnit: 'task-cycle generation', phases: { adaptive: 120, stabilization: 320 } },
+    cadence: { early: 6, mid: 12, late: 18, midStart: 90, lateStart: 260 },
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            generation: state.generation,
+            populationSize: countOf(state.agents),
+            taskCount: countOf(state.currentTasks),
+            metrics: state.metrics
+        };
+    }
+};
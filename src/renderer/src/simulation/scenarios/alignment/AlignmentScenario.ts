@@ -1,17 +1,20 @@
 
 import { Scenario, ScenarioMetadata, ControlSignal, TelemetryPoint, ScenarioEvent } from '../../types';
 import { PRNG } from '../../../common/prng';
-import { AlignmentState, AlignmentConfig, DEFAULT_ALIGNMENT_CONFIG, AlignmentAgentState, AlignmentGenome } from './AlignmentTypes';
+import { AlignmentState, AlignmentConfig, DEFAULT_ALIGNMENT_CONFIG, AlignmentAgentState, AlignmentGenome, ALIGNMENT_CONTROL_SCHEMA } from './AlignmentTypes';
+import { resolveControlChannels } from '../../../../../shared/schemas/controlSchema';
 import { AlignmentAgent } from './AlignmentAgent';
 
+export const ALIGNMENT_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'alignment',
+    name: 'AI Safety Sandbox',
+    description: 'Agents balance resource accumulation against safety oversight. Investigates emergence of deception.',
+    version: '0.1.0',
+    type: 'alignment'
+};
+
 export class AlignmentScenario implements Scenario<AlignmentConfig> {
-    public metadata: ScenarioMetadata = {
-        id: 'alignment',
-        name: 'AI Safety Sandbox',
-        description: 'Agents balance resource accumulation against safety oversight. Investigates emergence of deception.',
-        version: '0.1.0',
-        type: 'alignment'
-    };
+    public metadata: ScenarioMetadata = ALIGNMENT_SCENARIO_METADATA;
 
     private state: AlignmentState;
     private config: AlignmentConfig;
@@ -34,6 +37,7 @@ export class AlignmentScenario implements Scenario<AlignmentConfig> {
             genomes: {},
             globalResources: 0,
             oversightIntensity: 0,
+            controls: {},
             metrics: { C: 0, D: 0, A: 0, U: 0, alertRate: 0, violationRate: 0, deceptionScore: 0 }
         };
     }
@@ -72,7 +76,9 @@ export class AlignmentScenario implements Scenario<AlignmentConfig> {
     }
 
     public step(control: ControlSignal) {
-        this.state.oversightIntensity = control.U;
+        const channels = resolveControlChannels(ALIGNMENT_CONTROL_SCHEMA, control);
+        this.state.controls = channels;
+        this.state.oversightIntensity = channels.passiveOversight;
         this.state.generation++;
 
         let totalGain = 0;
@@ -109,7 +115,7 @@ export class AlignmentScenario implements Scenario<AlignmentConfig> {
             }
 
             // 2. The Overseer (Environment Check)
-            // Probability of check scales with U and Visibility
+            // Probability of check scales with passive oversight (U unless set) and Visibility
             // If check happens, and action was Accumulate or Camouflage (if check is deep enough), busted.
 
             const checkProb = this.state.oversightIntensity * visibility;
@@ -120,7 +126,7 @@ export class AlignmentScenario implements Scenario<AlignmentConfig> {
             // Let's say checkProb handles "Passive Observation".
             // Deep Audit handles Camouflage.
 
-            const deepAuditProb = this.state.oversightIntensity * 0.1; // 10% of U
+            const deepAuditProb = channels.deepAuditRate; // 10% of U unless set
             const isDeepAudited = this.prng.next() < deepAuditProb;
 
             let busted = false;
@@ -236,16 +242,27 @@ export class AlignmentScenario implements Scenario<AlignmentConfig> {
             D: this.state.metrics.D,
             A: this.state.metrics.A,
             U: this.state.metrics.U,
-            alertRate: this.state.metrics.alertRate
+            alertRate: this.state.metrics.alertRate,
+            controls: { ...this.state.controls }
         };
     }
 
     public getEvents(): ScenarioEvent[] { return [...this.eventQueue]; }
     public clearEvents(): void { this.eventQueue = []; }
     public getState() { return this.state; }
-    public serialize() { return JSON.stringify(this.state); }
+    public serialize() {
+        return JSON.stringify({ state: this.state, config: this.config, prngState: this.prng.getState() });
+    }
     public deserialize(json: string) {
-        this.state = JSON.parse(json);
+        const data = JSON.parse(json);
+        // Older snapshots hold the bare state, without the config and generator position
+        if (typeof data.prngState === 'number' && data.state) {
+            this.state = data.state;
+            this.config = { ...DEFAULT_ALIGNMENT_CONFIG, ...data.config };
+            this.prng.setSeed(data.prngState);
+        } else {
+            this.state = data;
+        }
         // Rebuild Agent Logic from Genomes
         this.agentLogic = [];
         this.state.agents.forEach(agentState => {
@@ -1,3 +1,5 @@
+import { ConfigSchema } from '../../../../../shared/schemas/configSchema';
+import { ControlSchema } from '../../../../../shared/schemas/controlSchema';
 
 /**
  * Types for the Alignment / Safety Sandbox Scenario
@@ -30,6 +32,8 @@ export interface AlignmentState {
     // Environment State
     globalResources: number; // Total C
     oversightIntensity: number; // U (Probability of audit)
+    /** Effective control channels of the last step */
+    controls: Record<string, number>;
 
     metrics: {
         C: number;
@@ -55,3 +59,16 @@ export const DEFAULT_ALIGNMENT_CONFIG: AlignmentConfig = {
     mutationRate: 0.05,
     baseResourceRate: 1.0
 };
+
+/** Ranges, steps and descriptions of the AlignmentConfig fields */
+export const ALIGNMENT_CONFIG_SCHEMA: ConfigSchema<AlignmentConfig> = {
+    populationSize: { type: 'number', label: 'Population Size', description: 'Number of agents in the safety sandbox.', min: 5, max: 100, step: 1, integer: true, unit: 'agents', group: 'Population Dynamics' },
+    mutationRate: { type: 'number', label: 'Mutation Rate', description: 'Policy mutation rate.', min: 0.01, max: 0.3, step: 0.01, group: 'Population Dynamics' },
+    baseResourceRate: { type: 'number', label: 'Base Resource Rate', description: 'Baseline resource availability.', min: 0.1, max: 5, step: 0.1, group: 'Population Dynamics' }
+};
+
+/** Oversight channels; both follow U unless set, deep audits at a tenth of its scale */
+export const ALIGNMENT_CONTROL_SCHEMA: ControlSchema = {
+    passiveOversight: { label: 'Passive Oversight', description: 'Chance per step that a visible violation is noticed.', min: 0, max: 1, step: 0.01 },
+    deepAuditRate: { label: 'Deep Audit Rate', description: 'Chance per step that an agent is audited in depth, which also uncovers camouflaged violations.', min: 0, max: 0.1, step: 0.001 }
+};
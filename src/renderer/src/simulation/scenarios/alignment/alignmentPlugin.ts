@@ -0,0 +1,25 @@
+import { ScenarioPlugin, countOf, isRecord } from '../scenarioPlugin';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+import { AlignmentScenario, ALIGNMENT_SCENARIO_METADATA } from './AlignmentScenario';
+import { ALIGNMENT_CONFIG_SCHEMA, ALIGNMENT_CONTROL_SCHEMA, AlignmentConfig, DEFAULT_ALIGNMENT_CONFIG } from './AlignmentTypes';
+
+export const alignmentPlugin: ScenarioPlugin<AlignmentConfig> = {
+    metadata: ALIGNMENT_SCENARIO_METADATA,
+    create: () => new AlignmentScenario(),
+    defaultConfig: DEFAULT_ALIGNMENT_CONFIG,
+    configSchema: ALIGNMENT_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(ALIGNMENT_CONFIG_SCHEMA, DEFAULT_ALIGNMENT_CONFIG, value),
+    controls: ALIGNMENT_CONTROL_SCHEMA,
+    prompt: { generationUnit: 'oversight episode', phases: { adaptive: 80, stabilization: 220 } },
+    cadence: { early: 4, mid: 8, late: 12, midStart: 60, lateStart: 180 },
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            generation: state.generation,
+            populationSize: countOf(state.agents),
+            globalResources: state.globalResources,
+            oversightIntensity: state.oversightIntensity,
+            metrics: state.metrics
+        };
+    }
+};
@@ -1,17 +1,21 @@
 
 import { Scenario, ScenarioMetadata, ControlSignal, TelemetryPoint, ScenarioEvent } from '../../types';
 import { PRNG } from '../../../common/prng';
-import { BioState, BioConfig, DEFAULT_BIO_CONFIG, BioAgentState, ResourceType } from './BioTypes';
+import { BioState, BioConfig, DEFAULT_BIO_CONFIG, BioAgentState, ResourceType, BIO_CONTROL_SCHEMA } from './BioTypes';
+import { resolveControlChannels } from '../../../../../shared/schemas/controlSchema';
 import { BioAgent } from './BioAgent';
+import { AgencyThresholdIndexState } from '../../ati/AgencyThresholdIndex';
+
+export const BIO_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'bio',
+    name: 'Xenobiology Lab (ACE)',
+    description: 'Digital organisms evolve in a resource-limited ecosystem with complex metabolic cycles.',
+    version: '0.2.0',
+    type: 'bio'
+};
 
 export class BioScenario implements Scenario<BioConfig> {
-    public metadata: ScenarioMetadata = {
-        id: 'bio',
-        name: 'Xenobiology Lab (ACE)',
-        description: 'Digital organisms evolve in a resource-limited ecosystem with complex metabolic cycles.',
-        version: '0.2.0',
-        type: 'bio'
-    };
+    public metadata: ScenarioMetadata = BIO_SCENARIO_METADATA;
 
     private state: BioState;
     private config: BioConfig;
@@ -32,6 +36,7 @@ export class BioScenario implements Scenario<BioConfig> {
             genomes: {},
             resources: { SUN: 0, MINERALS: 0, DETRITUS: 0, BIOMASS: 0 },
             toxicity: 0,
+            controls: {},
             metrics: {
                 C: 0, D: 0, A: 0, U: 0, alertRate: 0,
                 populationSize: 0, avgResistance: 0,
@@ -76,12 +81,14 @@ export class BioScenario implements Scenario<BioConfig> {
     }
 
     public step(control: ControlSignal) {
-        this.state.toxicity = control.U;
+        const channels = resolveControlChannels(BIO_CONTROL_SCHEMA, control);
+        this.state.controls = channels;
+        this.state.toxicity = channels.toxicity;
         this.state.generation++;
 
         // 1. Resource Influx
-        this.state.resources.SUN += this.config.energyPerTick;
-        this.state.resources.MINERALS += this.config.mineralInflux;
+        this.state.resources.SUN += this.config.energyPerTick * channels.sunInflux;
+        this.state.resources.MINERALS += this.config.mineralInflux * channels.mineralInflux;
 
         // Resource Decay (Detritus decays?)
         this.state.resources.DETRITUS *= 0.99;
@@ -270,21 +277,36 @@ export class BioScenario implements Scenario<BioConfig> {
             D: this.state.metrics.D,
             A: this.state.metrics.A,
             U: this.state.metrics.U,
-            alertRate: this.state.metrics.alertRate
+            alertRate: this.state.metrics.alertRate,
+            controls: { ...this.state.controls }
         };
     }
 
     public getEvents() { return [...this.eventQueue]; }
     public clearEvents() { this.eventQueue = []; }
     public getState() { return this.state; }
-    public serialize() { return JSON.stringify(this.state); }
+    public serialize() {
+        const ati = Object.fromEntries(Object.entries(this.agentLogic).map(([id, logic]) => [id, logic.ati.getState()]));
+        return JSON.stringify({ state: this.state, config: this.config, prngState: this.prng.getState(), ati });
+    }
     public deserialize(json: string) {
-        this.state = JSON.parse(json);
+        const data = JSON.parse(json);
+        // Older snapshots hold the bare state, without the config and generator position
+        const ati: Record<string, AgencyThresholdIndexState> = data.ati ?? {};
+        if (typeof data.prngState === 'number' && data.state) {
+            this.state = data.state;
+            this.config = { ...DEFAULT_BIO_CONFIG, ...data.config };
+            this.prng.setSeed(data.prngState);
+        } else {
+            this.state = data;
+        }
         this.agentLogic = {};
         this.state.agents.forEach(agentState => {
             const genome = this.state.genomes[agentState.id];
             if (genome) {
-                this.agentLogic[agentState.id] = new BioAgent(genome);
+                const logic = new BioAgent(genome);
+                if (ati[agentState.id]) logic.ati.restore(ati[agentState.id]);
+                this.agentLogic[agentState.id] = logic;
             }
         });
     }
@@ -1,3 +1,5 @@
+import { ConfigSchema } from '../../../../../shared/schemas/configSchema';
+import { ControlSchema } from '../../../../../shared/schemas/controlSchema';
 
 /**
  * Types for the Xenobiology Scenario (ACE Enhanced)
@@ -54,6 +56,8 @@ export interface BioState {
     // Environment
     resources: Record<ResourceType, number>; // Abiotic pools
     toxicity: number; // U
+    /** Effective control channels of the last step */
+    controls: Record<string, number>;
 
     metrics: {
         C: number;
@@ -87,3 +91,19 @@ export const DEFAULT_BIO_CONFIG: BioConfig = {
     energyPerTick: 1000,
     mineralInflux: 100
 };
+
+/** Ranges, steps and descriptions of the BioConfig fields */
+export const BIO_CONFIG_SCHEMA: ConfigSchema<BioConfig> = {
+    initialPopulation: { type: 'number', label: 'Initial Population', description: 'Starting population size.', min: 10, max: 200, step: 1, integer: true, unit: 'organisms', group: 'Ecology Controls' },
+    maxPopulation: { type: 'number', label: 'Max Population', description: 'Carrying capacity for the environment.', min: 100, max: 2000, step: 10, integer: true, unit: 'organisms', group: 'Ecology Controls' },
+    mutationRate: { type: 'number', label: 'Mutation Rate', description: 'Genetic mutation rate per reproduction.', min: 0.01, max: 0.5, step: 0.01, group: 'Ecology Controls' },
+    energyPerTick: { type: 'number', label: 'Energy Per Tick', description: 'Incoming energy per tick.', min: 100, max: 5000, step: 50, unit: 'energy/tick', group: 'Ecology Controls' },
+    mineralInflux: { type: 'number', label: 'Mineral Influx', description: 'Mineral influx rate.', min: 10, max: 500, step: 10, unit: 'minerals/tick', group: 'Ecology Controls' }
+};
+
+/** Environment channels of the Bio scenario; toxicity follows U unless set */
+export const BIO_CONTROL_SCHEMA: ControlSchema = {
+    toxicity: { label: 'Toxicity', description: 'Toxin level organisms take damage from; their resistance is selected for.', min: 0, max: 1, step: 0.01 },
+    sunInflux: { label: 'Sun Influx', description: 'Multiplier on the configured energy influx per tick.', min: 0, max: 2, step: 0.05, unit: '×', default: 1 },
+    mineralInflux: { label: 'Mineral Influx', description: 'Multiplier on the configured mineral influx per tick.', min: 0, max: 2, step: 0.05, unit: '×', default: 1 }
+};
@@ -0,0 +1,24 @@
+import { ScenarioPlugin, countOf, isRecord } from '../scenarioPlugin';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+import { BioScenario, BIO_SCENARIO_METADATA } from './BioScenario';
+import { BIO_CONFIG_SCHEMA, BIO_CONTROL_SCHEMA, BioConfig, DEFAULT_BIO_CONFIG } from './BioTypes';
+
+export const bioPlugin: ScenarioPlugin<BioConfig> = {
+    metadata: BIO_SCENARIO_METADATA,
+    create: () => new BioScenario(),
+    defaultConfig: DEFAULT_BIO_CONFIG,
+    configSchema: BIO_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(BIO_CONFIG_SCHEMA, DEFAULT_BIO_CONFIG, value),
+    controls: BIO_CONTROL_SCHEMA,
+    prompt: { generationUnit: 'evolutionary generation', phases: { adaptive: 120, stabilization: 320 } },
+    cadence: { early: 6, mid: 12, late: 20, midStart: 100, lateStart: 280 },
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            generation: state.generation,
+            populationSize: countOf(state.agents),
+            toxicity: state.toxicity,
+            metrics: state.metrics
+        };
+    }
+};
@@ -9,6 +9,8 @@ import { PRNG } from '../../../common/prng';
 import {
     DEFAULT_ERDOS_CONFIG,
     DiscoveryAgent,
+    ERDOS_CONFIG_SCHEMA,
+    ERDOS_CONTROL_SCHEMA,
     ErdosArtifact,
     ErdosArtifactType,
     ErdosConfig,
@@ -19,6 +21,8 @@ import {
     ProblemDomain
 } from './ErdosTypes';
 import { ERDOS_DATASET_V1 } from '../../../../../shared/erdos-dataset';
+import { resolveControlChannels } from '../../../../../shared/schemas/controlSchema';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
 
 const PROBLEM_BANK = ERDOS_DATASET_V1.problems;
 const DATASET_REVISION = ERDOS_DATASET_V1.provenance.revision;
@@ -221,14 +225,16 @@ const evaluateCandidate = (
     };
 };
 
+export const ERDOS_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'erdos',
+    name: 'Erdős Open Problems',
+    description: 'Evolving discovery agencies collaborate on the Erdős open-problem catalog (teorth/erdosproblems) and expand the cognitive light cone.',
+    version: '0.1.0',
+    type: 'erdos'
+};
+
 export class ErdosScenario implements Scenario<ErdosConfig> {
-    public metadata: ScenarioMetadata = {
-        id: 'erdos',
-        name: 'Erdős Open Problems',
-        description: 'Evolving discovery agencies collaborate on the Erdős open-problem catalog (teorth/erdosproblems) and expand the cognitive light cone.',
-        version: '0.1.0',
-        type: 'erdos'
-    };
+    public metadata: ScenarioMetadata = ERDOS_SCENARIO_METADATA;
 
     private state: ErdosState;
     private config: ErdosConfig;
@@ -250,6 +256,7 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
             agents: [],
             activeProblems: [],
             solvedProblems: [],
+            controls: {},
             metrics: {
                 C: 0,
                 D: 0,
@@ -333,12 +340,7 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
     }
 
     public updateConfig(config: Partial<ErdosConfig>): void {
-        const next = { ...this.config, ...config };
-        next.populationSize = Math.max(1, Math.floor(next.populationSize));
-        next.problemsPerGeneration = 1;
-        next.mutationRate = Math.max(0, Math.min(1, next.mutationRate));
-        next.collaborationBoost = Math.max(0, Math.min(1, next.collaborationBoost));
-        this.config = next;
+        this.config = sanitizeConfigWithSchema(ERDOS_CONFIG_SCHEMA, DEFAULT_ERDOS_CONFIG, { ...this.config, ...config });
     }
 
     public step(control: ControlSignal): void {
@@ -350,7 +352,9 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
 
         let newlySolved = 0;
         let reward = 0;
-        const collaborationFactor = control.U * this.config.collaborationBoost;
+        const channels = resolveControlChannels(ERDOS_CONTROL_SCHEMA, control);
+        this.state.controls = channels;
+        const collaborationFactor = channels.collaboration * this.config.collaborationBoost;
 
         for (const problem of this.state.activeProblems) {
             const specialists = this.state.agents.filter(agent => agent.specialization === problem.domain);
@@ -367,7 +371,7 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
             const avgCollab = contributors.reduce((acc, a) => acc + a.collaboration, 0) / contributors.length;
 
             const basePower = avgCreativity * 0.45 + avgRigor * 0.45 + avgCollab * 0.1;
-            const pressureBonus = control.U * 0.15;
+            const pressureBonus = channels.pressure * 0.15;
             const noise = (this.prng.next() - 0.5) * 0.08;
             const solutionQuality = Math.max(0, Math.min(1, basePower + pressureBonus + noise));
             const threshold = problem.difficulty * (0.85 - collaborationFactor * 0.2);
@@ -530,7 +534,8 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
             D: this.state.metrics.D,
             A: this.state.metrics.A,
             U: this.state.metrics.U,
-            alertRate: this.state.metrics.alertRate
+            alertRate: this.state.metrics.alertRate,
+            controls: { ...this.state.controls }
         };
     }
 
@@ -539,11 +544,18 @@ export class ErdosScenario implements Scenario<ErdosConfig> {
     }
 
     public serialize(): string {
-        return JSON.stringify(this.state);
+        return JSON.stringify({ state: this.state, config: this.config, prngState: this.prng.getState() });
     }
 
     public deserialize(state: string): void {
-        const parsed = JSON.parse(state) as Partial<ErdosState>;
+        const data = JSON.parse(state);
+        // Older snapshots hold the bare state, without the config and generator position
+        const isEnvelope = typeof data.prngState === 'number' && data.state;
+        if (isEnvelope) {
+            this.config = { ...DEFAULT_ERDOS_CONFIG, ...data.config };
+            this.prng.setSeed(data.prngState);
+        }
+        const parsed = (isEnvelope ? data.state : data) as Partial<ErdosState>;
         this.state = {
             ...this.getEmptyState(),
             ...parsed,
@@ -1,3 +1,6 @@
+import { ConfigSchema } from '../../../../../shared/schemas/configSchema';
+import { ControlSchema } from '../../../../../shared/schemas/controlSchema';
+
 export type ProblemDomain = 'additive_number_theory' | 'combinatorics' | 'graph_theory' | 'geometry';
 
 export type EvaluatorStatus = 'verified' | 'refuted' | 'inconclusive';
@@ -61,6 +64,20 @@ export const DEFAULT_ERDOS_CONFIG: ErdosConfig = {
     collaborationBoost: 0.3
 };
 
+/** Ranges, steps and descriptions of the ErdosConfig fields */
+export const ERDOS_CONFIG_SCHEMA: ConfigSchema<ErdosConfig> = {
+    populationSize: { type: 'number', label: 'Population Size', description: 'Number of research agencies exploring open problems.', min: 8, max: 120, step: 1, integer: true, unit: 'agencies', group: 'Discovery Controls' },
+    problemsPerGeneration: { type: 'number', label: 'Problems / Generation', description: 'Erdős mode enforces a single chronological open problem at a time.', min: 1, max: 1, step: 1, integer: true, group: 'Discovery Controls' },
+    mutationRate: { type: 'number', label: 'Mutation Rate', description: 'How rapidly agencies shift strategy and specialization.', min: 0.01, max: 0.5, step: 0.01, group: 'Discovery Controls' },
+    collaborationBoost: { type: 'number', label: 'Collaboration Boost', description: 'How much the collaboration control translates into coalition problem-solving advantage.', min: 0, max: 1, step: 0.01, group: 'Discovery Controls' }
+};
+
+/** Research environment channels; both follow U unless set */
+export const ERDOS_CONTROL_SCHEMA: ControlSchema = {
+    collaboration: { label: 'Collaboration', description: 'Incentive to work in coalitions, scaled by the configured collaboration boost.', min: 0, max: 1, step: 0.01 },
+    pressure: { label: 'Publication Pressure', description: 'Push towards bolder attempts, raising solution quality.', min: 0, max: 1, step: 0.01 }
+};
+
 export interface ErdosMetrics {
     C: number;
     D: number;
@@ -82,4 +99,6 @@ export interface ErdosState {
     activeProblems: ErdosProblem[];
     solvedProblems: ErdosProblem[];
     metrics: ErdosMetrics;
+    /** Effective control channels of the last step */
+    controls: Record<string, number>;
 }
@@ -0,0 +1,26 @@
+import { ScenarioPlugin, countOf, isRecord } from '../scenarioPlugin';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+import { ErdosScenario, ERDOS_SCENARIO_METADATA } from './ErdosScenario';
+import { DEFAULT_ERDOS_CONFIG, ERDOS_CONFIG_SCHEMA, ERDOS_CONTROL_SCHEMA, ErdosConfig } from './ErdosTypes';
+
+export const erdosPlugin: ScenarioPlugin<ErdosConfig> = {
+    metadata: ERDOS_SCENARIO_METADATA,
+    create: () => new ErdosScenario(),
+    defaultConfig: DEFAULT_ERDOS_CONFIG,
+    configSchema: ERDOS_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(ERDOS_CONFIG_SCHEMA, DEFAULT_ERDOS_CONFIG, value),
+    controls: ERDOS_CONTROL_SCHEMA,
+    prompt: { generationUnit: 'research round', phases: { adaptive: 60, stabilization: 180 } },
+    cadence: { early: 3, mid: 6, late: 10, midStart: 50, lateStart: 160 },
+    panels: [{ panel: 'erdos-problems', placement: 'tab', title: 'Erdos' }],
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            generation: state.generation,
+            populationSize: countOf(state.agents),
+            activeProblems: countOf(state.activeProblems),
+            solvedProblems: countOf(state.solvedProblems),
+            metrics: state.metrics
+        };
+    }
+};
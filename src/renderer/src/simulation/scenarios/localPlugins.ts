@@ -0,0 +1,12 @@
+/**
+ * Registers the scenario plugins in src/renderer/src/plugins/<name>/index.ts
+ *
+ * Imported for its side effect by the store and by every worker entry, so the
+ * renderer and the workers know the same scenarios. Vite expands the glob when
+ * it bundles; adding a plugin directory takes effect on the next build or
+ * dev-server reload.
+ */
+
+import { registerScenarioModules } from './scenarioRegistry';
+
+registerScenarioModules(import.meta.glob('../../plugins/*/index.ts', { eager: true }));
@@ -14,14 +14,16 @@ import { getFormalVerificationService } from './FormalVerificationService';
 import { ASTGenomeFactory } from './ASTGenome';
 import { RunContext, RunContextState } from '../../RunContext';
 
+export const MATH_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'math',
+    name: 'Mathematical Challenge Arena',
+    description: 'Agents evolve to solve algebraic problems and generate novel conjectures.',
+    version: '0.2.0',
+    type: 'math'
+};
+
 export class MathScenario implements Scenario<MathConfig> {
-    public metadata: ScenarioMetadata = {
-        id: 'math',
-        name: 'Mathematical Challenge Arena',
-        description: 'Agents evolve to solve algebraic problems and generate novel conjectures.',
-        version: '0.2.0',
-        type: 'math'
-    };
+    public metadata: ScenarioMetadata = MATH_SCENARIO_METADATA;
 
     private state: MathState;
     private config: MathConfig;
@@ -1,3 +1,4 @@
+import { ConfigSchema } from '../../../../../shared/schemas/configSchema';
 
 /**
  * Types for the Math Challenge Scenario (NCG Enhanced)
@@ -107,6 +108,17 @@ export const DEFAULT_MATH_CONFIG: MathConfig = {
     enableTheorems: true
 };
 
+/** Ranges, steps and descriptions of the MathConfig fields */
+export const MATH_CONFIG_SCHEMA: ConfigSchema<MathConfig> = {
+    populationSize: { type: 'number', label: 'Population Size', description: 'Number of solver agents.', min: 10, max: 200, step: 1, integer: true, unit: 'agents', group: 'Population & Tasks' },
+    mutationRate: { type: 'number', label: 'Mutation Rate', description: 'Genome mutation rate for solver evolution.', min: 0.01, max: 0.5, step: 0.01, group: 'Population & Tasks' },
+    tasksPerGen: { type: 'number', label: 'Tasks Per Gen', description: 'Number of tasks generated per generation.', min: 5, max: 100, step: 1, integer: true, unit: 'tasks', group: 'Population & Tasks' },
+    difficultyScale: { type: 'number', label: 'Difficulty Scale', description: 'Scales task difficulty relative to U.', min: 0.5, max: 2, step: 0.05, group: 'Novelty & Verification' },
+    noveltyThreshold: { type: 'number', label: 'Novelty Threshold', description: 'Minimum novelty for theorem acceptance.', min: 0.1, max: 0.9, step: 0.05, group: 'Novelty & Verification' },
+    verificationBudget: { type: 'number', label: 'Verification Budget', description: 'Max formal verification attempts per generation.', min: 10, max: 500, step: 10, integer: true, unit: 'attempts', group: 'Novelty & Verification' },
+    enableTheorems: { type: 'boolean', label: 'Enable Theorems', description: 'Enable theorem generation and proof attempts.', group: 'Novelty & Verification' }
+};
+
 export interface MathMetrics {
     C: number;
     D: number;
@@ -208,7 +208,12 @@ export class NeuralGuide {
      */
     public static deserialize(data: any): NeuralGuide {
         const guide = new NeuralGuide(data.config, 0); // Seed doesn't matter when loading weights
-        guide.layers = data.layers;
+        // Copy, so mutating this guide leaves the genome it was loaded from untouched
+        guide.layers = (data.layers as Layer[]).map(layer => ({
+            ...layer,
+            weights: layer.weights.map(row => [...row]),
+            biases: [...layer.biases]
+        }));
         return guide;
     }
 }
@@ -0,0 +1,23 @@
+import { ScenarioPlugin, countOf, isRecord } from '../scenarioPlugin';
+import { sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+import { MathScenario, MATH_SCENARIO_METADATA } from './MathScenario';
+import { DEFAULT_MATH_CONFIG, MATH_CONFIG_SCHEMA, MathConfig } from './MathTypes';
+
+export const mathPlugin: ScenarioPlugin<MathConfig> = {
+    metadata: MATH_SCENARIO_METADATA,
+    create: () => new MathScenario(),
+    defaultConfig: DEFAULT_MATH_CONFIG,
+    configSchema: MATH_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(MATH_CONFIG_SCHEMA, DEFAULT_MATH_CONFIG, value),
+    prompt: { generationUnit: 'training epoch', phases: { adaptive: 120, stabilization: 320 } },
+    cadence: { early: 5, mid: 10, late: 16, midStart: 80, lateStart: 240 },
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            generation: state.generation,
+            populationSize: countOf(state.agents),
+            claims: countOf(state.claims),
+            metrics: state.metrics
+        };
+    }
+};
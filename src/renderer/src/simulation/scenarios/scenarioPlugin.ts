@@ -0,0 +1,74 @@
+/**
+ * Scenario Plugin - what a scenario module declares to be picked up by the app
+ *
+ * A plugin bundles everything the rest of the app needs to know about a
+ * scenario: its metadata, how to create an instance, its default configuration,
+ * the schema of that configuration and a sanitizer for configurations read from
+ * snapshots, the AI or the panel, the control channels it reads besides U,
+ * how the AI researcher's prompt describes it, how often the researcher steps
+ * in, and which dashboard panels it adds.
+ * Plugins are collected by scenarioRegistry.ts.
+ */
+
+import { Scenario, ScenarioMetadata } from '../types';
+import { ScenarioPromptDescriptor } from '../../../../shared/scenarioTypes';
+import { ConfigSchema } from '../../../../shared/schemas/configSchema';
+import { ControlSchema } from '../../../../shared/schemas/controlSchema';
+
+/** A scenario's configuration as the registry sees it; each plugin defines its own shape */
+export type ScenarioConfig = Record<string, unknown>;
+
+/**
+ * Generations between researcher interventions: `early` until `midStart`,
+ * `mid` until `lateStart`, `late` after that
+ */
+export interface ResearchCadence {
+    early: number;
+    mid: number;
+    late: number;
+    midStart: number;
+    lateStart: number;
+}
+
+/**
+ * Where a panel goes on the dashboard: under the chart, in the Main or
+ * Analysis tab, or in a tab of its own
+ */
+export type ScenarioPanelPlacement = 'visualization' | 'main' | 'analysis' | 'tab';
+
+export interface ScenarioPanelSlot {
+    /** Name of the component in the panel catalog (components/scenarioPanels.tsx) */
+    panel: string;
+    placement: ScenarioPanelPlacement;
+    /** Tab label, for panels with a tab of their own */
+    title?: string;
+}
+
+export interface ScenarioPlugin<TConfig extends object = ScenarioConfig> {
+    metadata: ScenarioMetadata;
+    /** Uninitialized instance, ready for initialize() or deserialize() */
+    create: () => Scenario;
+    defaultConfig: TConfig;
+    /** The fields the parameter panel shows and the AI researcher may change */
+    configSchema: ConfigSchema;
+    /** Complete configuration from untrusted input; invalid fields fall back to the defaults */
+    sanitizeConfig: (value: unknown) => TConfig;
+    /** Named control channels with a slider each; scenarios without them are driven by U alone */
+    controls?: ControlSchema;
+    prompt: ScenarioPromptDescriptor;
+    cadence: ResearchCadence;
+    panels?: ScenarioPanelSlot[];
+    /** Compact view of getState() stored with library entries; the whole state by default */
+    summarizeState?: (state: unknown) => Record<string, unknown>;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+/** Length of an array field of a scenario state, 0 when it is missing */
+export const countOf = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
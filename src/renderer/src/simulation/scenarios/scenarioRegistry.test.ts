@@ -0,0 +1,221 @@
+import { ControlSignal, Scenario, ScenarioEvent, TelemetryPoint } from '../types';
+import { ScenarioPlugin } from './scenarioPlugin';
+import { ConfigSchema, sanitizeConfigWithSchema } from '../../../../shared/schemas/configSchema';
+import {
+    DEFAULT_SCENARIO_ID,
+    getScenarioPlugin,
+    listScenarioIds,
+    listScenarioPlugins,
+    registerScenario,
+    registerScenarioModules,
+    requireScenarioPlugin,
+    sanitizeScenarioConfigs
+} from './scenarioRegistry';
+import { createBatchScenario } from '../runner/batchRunner';
+import { HeadlessRunner } from '../runner/HeadlessRunner';
+import { createSnapshot, normalizeScenarioId, parseSnapshot } from '../snapshot';
+import { DEFAULT_CONTROL, DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS } from '../types';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    }
+    console.log(`✅ PASSED: ${message}`);
+}
+
+interface DecayConfig {
+    rate: number;
+}
+
+/** Minimal plugin scenario: A decays towards U at `rate` per generation */
+class DecayScenario implements Scenario<DecayConfig> {
+    public metadata = { id: 'decay', name: 'Decay', description: 'Agency relaxing towards the control', version: '1.0.0', type: 'decay' };
+    private config: DecayConfig = { rate: 0.1 };
+    private generation = 0;
+    private A = 0;
+    private U = 0;
+
+    initialize(_seed: number, config?: DecayConfig) {
+        this.config = { ...this.config, ...config };
+        this.generation = 0;
+        this.A = 0;
+    }
+
+    step(control: ControlSignal) {
+        this.U = control.U;
+        this.A += (control.U - this.A) * this.config.rate;
+        this.generation++;
+    }
+
+    updateConfig(config: Partial<DecayConfig>) {
+        this.config = { ...this.config, ...config };
+    }
+
+    getMetrics(): TelemetryPoint {
+        return { generation: this.generation, C: 0, D: 0, A: this.A, U: this.U, alertRate: 0 };
+    }
+
+    getState() {
+        return { generation: this.generation, A: this.A };
+    }
+
+    serialize() {
+        return JSON.stringify({ config: this.config, generation: this.generation, A: this.A });
+    }
+
+    deserialize(state: string) {
+        const data = JSON.parse(state);
+        this.config = data.config;
+        this.generation = data.generation;
+        this.A = data.A;
+    }
+
+    getEvents(): ScenarioEvent[] {
+        return [];
+    }
+
+    clearEvents() { }
+}
+
+const DECAY_CONFIG_SCHEMA: ConfigSchema<DecayConfig> = {
+    rate: { type: 'number', label: 'Rate', description: 'Fraction of the gap to U closed per generation.', min: 0, max: 1, step: 0.01 }
+};
+
+const decayPlugin: ScenarioPlugin<DecayConfig> = {
+    metadata: new DecayScenario().metadata,
+    create: () => new DecayScenario(),
+    defaultConfig: { rate: 0.1 },
+    configSchema: DECAY_CONFIG_SCHEMA,
+    sanitizeConfig: value => sanitizeConfigWithSchema(DECAY_CONFIG_SCHEMA, { rate: 0.1 }, value),
+    prompt: { generationUnit: 'relaxation step', phases: { adaptive: 10, stabilization: 40 } },
+    cadence: { early: 2, mid: 4, late: 8, midStart: 20, lateStart: 60 }
+};
+
+function testBuiltIns() {
+    assert(listScenarioIds().join() === 'sde-v1,math,alignment,bio,agents,erdos', 'built-in scenarios are registered in selector order');
+    assert(listScenarioIds()[0] === DEFAULT_SCENARIO_ID, 'the default scenario comes first');
+    listScenarioPlugins().forEach(plugin => {
+        const instance = plugin.create();
+        assert(instance.metadata.id === plugin.metadata.id && instance.metadata.type === plugin.metadata.type, `${plugin.metadata.id}: plugin metadata matches its instances`);
+        const fallback = plugin.sanitizeConfig('garbage');
+        assert(JSON.stringify(fallback) === JSON.stringify(plugin.defaultConfig) && fallback !== plugin.defaultConfig, `${plugin.metadata.id}: invalid configs fall back to a copy of the defaults`);
+    });
+    listScenarioPlugins().filter(plugin => plugin.metadata.id !== DEFAULT_SCENARIO_ID).forEach(plugin => {
+        assert(Object.keys(plugin.configSchema).join() === Object.keys(plugin.defaultConfig).join(), `${plugin.metadata.id}: the config schema describes every config field`);
+    });
+    const configs = sanitizeScenarioConfigs({ math: { populationSize: -5 }, unknown: {} });
+    assert(!('sde-v1' in configs) && !('unknown' in configs) && Object.keys(configs).length === 5, 'configs cover every scenario but the SDE');
+    assert(configs.math.populationSize === 10, 'config entries are sanitized by their plugin');
+
+    const math = requireScenarioPlugin('math').sanitizeConfig({ populationSize: 42.6, mutationRate: 3, enableTheorems: 'yes' });
+    assert(math.populationSize === 43 && math.mutationRate === 0.5 && math.enableTheorems === true, 'schema sanitizers round integers, clamp ranges and keep valid booleans');
+    assert(requireScenarioPlugin('erdos').sanitizeConfig({ problemsPerGeneration: 4 }).problemsPerGeneration === 1, 'a field with a single-value range is fixed');
+    const erdos = requireScenarioPlugin('erdos').create();
+    erdos.initialize(1, requireScenarioPlugin('erdos').defaultConfig);
+    erdos.updateConfig({ problemsPerGeneration: 3, mutationRate: 0.9, populationSize: 200 });
+    const erdosConfig = JSON.parse(erdos.serialize()).config;
+    assert(erdosConfig.problemsPerGeneration === 1 && erdosConfig.mutationRate === 0.5 && erdosConfig.populationSize === 120, 'scenario config updates go through the schema sanitizer');
+    const sde = requireScenarioPlugin(DEFAULT_SCENARIO_ID).sanitizeConfig({ ...DEFAULT_PARAMETERS, k_CD: 7, k_D_decay: 0, dt: 0.25, useGPU: true });
+    assert(sde.k_CD === 0.5 && sde.k_D_decay === 0.1 && sde.dt === 0.25, 'SDE coefficients are clamped to their slider ranges, other settings kept');
+    assert(sde.useGPU === true, 'the GPU toggle survives sanitizing');
+}
+
+function testPluginScenario() {
+    registerScenario(decayPlugin);
+    assert(listScenarioIds().includes('decay') && requireScenarioPlugin('decay') === (decayPlugin as unknown as ScenarioPlugin), 'a plugin can be registered');
+
+    const { scenario, config } = createBatchScenario('decay', 3, { rate: 0.5 });
+    assert(config.rate === 0.5, 'batch runs merge overrides over the plugin defaults');
+    const runner = new HeadlessRunner({});
+    runner.setScenario(scenario);
+    runner.setControl({ U: 1 });
+    runner.stepBatch(2);
+    assert(Math.abs(scenario.getMetrics().A - 0.75) < 1e-9, 'the headless runner steps a plugin scenario');
+
+    assert(normalizeScenarioId('decay') === 'decay' && normalizeScenarioId('missing') === DEFAULT_SCENARIO_ID, 'snapshots accept registered scenario ids only');
+    const snapshot = createSnapshot({
+        meta: { version: '2.1.0', timestamp: 2, scenarioId: 'decay' },
+        store: {
+            sdeParameters: { ...DEFAULT_PARAMETERS },
+            control: { ...DEFAULT_CONTROL },
+            controlSchedule: null,
+            bestAgency: 0,
+            aiHistory: [],
+            interventionLog: [],
+            currentState: { ...DEFAULT_INITIAL_STATE },
+            scenarioConfigs: { decay: { rate: 7 } }
+        },
+        scenarioData: scenario.serialize()
+    });
+    const parsed = parseSnapshot(JSON.stringify(snapshot));
+    assert(parsed?.meta.scenarioId === 'decay' && parsed.store.scenarioConfigs.decay.rate === 1, 'snapshots keep and sanitize plugin configs');
+}
+
+function testControlChannels() {
+    const run = (control: ControlSignal, scenarioId = 'bio') => {
+        const { scenario } = createBatchScenario(scenarioId, 5, {});
+        const runner = new HeadlessRunner({});
+        runner.setScenario(scenario);
+        runner.setControl(control);
+        runner.stepBatch(20);
+        return scenario;
+    };
+    const plain = run({ U: 0.4 });
+    assert(plain.getMetrics().controls?.toxicity === 0.4 && plain.getMetrics().controls?.sunInflux === 1, 'unset channels follow U or take their default');
+    assert(plain.serialize() === run({ U: 0.4, channels: { toxicity: 0.4, mineralInflux: 1 } }).serialize(), 'channels set to their fallback reproduce the U-only run');
+    const dim = run({ U: 0.4, channels: { sunInflux: 0.2, toxicity: 3 } });
+    assert(dim.getMetrics().controls?.sunInflux === 0.2 && dim.getState().toxicity === 1 && dim.getMetrics().U === 0.4, 'set channels are clamped to their range and U is kept');
+    assert(dim.serialize() !== plain.serialize(), 'channels change the dynamics');
+    assert(Math.abs(run({ U: 0.5 }, 'alignment').getMetrics().controls!.deepAuditRate - 0.05) < 1e-12, 'channels without a default follow U across their range');
+
+    const snapshot = (scenarioId: string) => createSnapshot({
+        meta: { version: '2.1.0', timestamp: 0, scenarioId },
+        store: {
+            sdeParameters: { ...DEFAULT_PARAMETERS },
+            control: { U: 0.3, channels: { sunInflux: 9, unknown: 1 } },
+            controlSchedule: null,
+            bestAgency: 0,
+            aiHistory: [],
+            interventionLog: [],
+            currentState: { ...DEFAULT_INITIAL_STATE },
+            scenarioConfigs: {}
+        },
+        scenarioData: plain.serialize()
+    });
+    const bio = parseSnapshot(JSON.stringify(snapshot('bio')));
+    assert(JSON.stringify(bio?.store.control) === '{"U":0.3,"channels":{"sunInflux":2}}', 'snapshots keep the declared channels, clamped');
+    assert(JSON.stringify(parseSnapshot(JSON.stringify(snapshot('math')))?.store.control) === '{"U":0.3}', 'snapshots drop channels the scenario does not declare');
+}
+
+function testRejections() {
+    const problems = registerScenarioModules({
+        './plugins/dupe/index.ts': { default: decayPlugin },
+        './plugins/empty/index.ts': {},
+        './plugins/bad/index.ts': { default: { ...decayPlugin, metadata: { ...decayPlugin.metadata, id: 'bad', type: 'Not A Type' } } },
+        './plugins/noprompt/index.ts': { default: { ...decayPlugin, metadata: { ...decayPlugin.metadata, id: 'noprompt' }, prompt: { generationUnit: '' } } },
+        './plugins/badcontrols/index.ts': { default: { ...decayPlugin, metadata: { ...decayPlugin.metadata, id: 'badcontrols' }, controls: { heat: { label: 'Heat', description: '', min: 1, max: 0, step: 0.1 } } } }
+    });
+    assert(problems.length === 5, 'broken plugins are reported');
+    assert(problems[0].includes('already registered'), 'duplicate ids are rejected');
+    assert(getScenarioPlugin('bad') === null && getScenarioPlugin('noprompt') === null && getScenarioPlugin('badcontrols') === null, 'invalid plugins are skipped');
+
+    let threw = false;
+    try {
+        requireScenarioPlugin('missing');
+    } catch {
+        threw = true;
+    }
+    assert(threw, 'unknown scenarios throw when required');
+}
+
+function run() {
+    console.log('Starting Scenario Registry Tests...');
+    testBuiltIns();
+    testPluginScenario();
+    testControlChannels();
+    testRejections();
+    console.log('All scenario registry tests passed!');
+}
+
+run();
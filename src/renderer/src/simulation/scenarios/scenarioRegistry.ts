@@ -0,0 +1,129 @@
+/**
+ * Scenario Registry - the scenarios the store, snapshots, runners and workers know
+ *
+ * The built-in scenarios are registered when this module loads. Plugins placed
+ * in src/renderer/src/plugins/<name>/index.ts are registered by localPlugins.ts,
+ * which the app and each worker entry import; Node bundles (the CLI and tests)
+ * see the built-ins only. Registration order is the order of the scenario
+ * selector.
+ */
+
+import { ScenarioConfig, ScenarioPlugin, isRecord } from './scenarioPlugin';
+import { isScenarioPromptDescriptor, isScenarioType } from '../../../../shared/scenarioTypes';
+import { isConfigSchema } from '../../../../shared/schemas/configSchema';
+import { isControlSchema } from '../../../../shared/schemas/controlSchema';
+import { sdePlugin } from './sde/sdePlugin';
+import { mathPlugin } from './math/mathPlugin';
+import { alignmentPlugin } from './alignment/alignmentPlugin';
+import { bioPlugin } from './bio/bioPlugin';
+import { agentsPlugin } from './agents/agentsPlugin';
+import { erdosPlugin } from './erdos/erdosPlugin';
+
+/** Scenario loaded on first start, and the fallback for unknown ids */
+export const DEFAULT_SCENARIO_ID = 'sde-v1';
+
+/** Configuration of every scenario except the SDE, which keeps its own in `sdeParameters` */
+export type ScenarioConfigs = Record<string, ScenarioConfig>;
+
+const registry = new Map<string, ScenarioPlugin>();
+
+/**
+ * Shape problem of a would-be plugin, or null when it can be registered
+ */
+export function validateScenarioPlugin(value: unknown): string | null {
+    if (!isRecord(value)) return 'Plugin must be an object';
+    const metadata = value.metadata;
+    if (!isRecord(metadata) || typeof metadata.id !== 'string' || !metadata.id.trim()) return 'Plugin needs metadata.id';
+    const label = `Scenario '${metadata.id}'`;
+    if (typeof metadata.name !== 'string' || typeof metadata.description !== 'string' || typeof metadata.version !== 'string') {
+        return `${label} needs a name, description and version`;
+    }
+    if (!isScenarioType(metadata.type)) return `${label} has an invalid type`;
+    if (typeof value.create !== 'function' || typeof value.sanitizeConfig !== 'function') {
+        return `${label} needs create() and sanitizeConfig()`;
+    }
+    if (!isRecord(value.defaultConfig)) return `${label} needs a defaultConfig object`;
+    if (!isConfigSchema(value.configSchema)) return `${label} has an invalid configSchema`;
+    if (value.controls !== undefined && !isControlSchema(value.controls)) return `${label} has an invalid controls schema`;
+    if (!isScenarioPromptDescriptor(value.prompt)) return `${label} has an invalid prompt descriptor`;
+    const cadence = value.cadence;
+    if (!isRecord(cadence) || !['early', 'mid', 'late', 'midStart', 'lateStart'].every(key => typeof cadence[key] === 'number' && (cadence[key] as number) >= 0)) {
+        return `${label} has an invalid cadence`;
+    }
+    if (value.panels !== undefined && !(Array.isArray(value.panels) && value.panels.every(slot => isRecord(slot) && typeof slot.panel === 'string'))) {
+        return `${label} has invalid panels`;
+    }
+    return null;
+}
+
+/**
+ * Add a scenario; throws when the plugin is malformed or its id is taken
+ */
+export function registerScenario<TConfig extends object>(plugin: ScenarioPlugin<TConfig>) {
+    const problem = validateScenarioPlugin(plugin);
+    if (problem) throw new Error(problem);
+    const id = plugin.metadata.id;
+    if (registry.has(id)) throw new Error(`Scenario '${id}' is already registered`);
+    // validateScenarioPlugin checked that the configuration is an object; the registry forgets its shape
+    registry.set(id, plugin as unknown as ScenarioPlugin);
+}
+
+/**
+ * Register the default export of each module (keyed by path, as import.meta.glob
+ * returns them); a broken plugin is reported and skipped. Returns the problems.
+ */
+export function registerScenarioModules(modules: Record<string, unknown>): string[] {
+    const problems: string[] = [];
+    Object.entries(modules).forEach(([path, module]) => {
+        try {
+            registerScenario((isRecord(module) ? module.default : undefined) as ScenarioPlugin);
+        } catch (error) {
+            problems.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    problems.forEach(problem => console.warn(`[ScenarioRegistry] Skipped plugin ${problem}`));
+    return problems;
+}
+
+export function getScenarioPlugin(id: string): ScenarioPlugin | null {
+    return registry.get(id) ?? null;
+}
+
+/**
+ * Plugin of a registered scenario; throws for unknown ids
+ */
+export function requireScenarioPlugin(id: string): ScenarioPlugin {
+    const plugin = registry.get(id);
+    if (!plugin) throw new Error(`Unknown scenario '${id}'`);
+    return plugin;
+}
+
+export function isRegisteredScenario(id: unknown): id is string {
+    return typeof id === 'string' && registry.has(id);
+}
+
+export function listScenarioPlugins(): ScenarioPlugin[] {
+    return Array.from(registry.values());
+}
+
+export function listScenarioIds(): string[] {
+    return Array.from(registry.keys());
+}
+
+const configuredPlugins = () => listScenarioPlugins().filter(plugin => plugin.metadata.id !== sdePlugin.metadata.id);
+
+/**
+ * A sanitized configuration for every registered scenario; missing or invalid
+ * entries get the scenario's defaults, entries of unknown scenarios are dropped
+ */
+export function sanitizeScenarioConfigs(value: unknown): ScenarioConfigs {
+    const configs = isRecord(value) ? value : {};
+    return Object.fromEntries(configuredPlugins().map(plugin => [plugin.metadata.id, plugin.sanitizeConfig(configs[plugin.metadata.id])]));
+}
+
+registerScenario(sdePlugin);
+registerScenario(mathPlugin);
+registerScenario(alignmentPlugin);
+registerScenario(bioPlugin);
+registerScenario(agentsPlugin);
+registerScenario(erdosPlugin);
@@ -9,18 +9,27 @@ import {
     DEFAULT_INITIAL_STATE,
     DEFAULT_PARAMETERS
 } from '../../types';
-import { eulerMaruyamaStep, shouldTriggerAlert } from '../../sdeEngine';
+import { advanceState, BoundedVariable, shouldTriggerAlert } from '../../sdeEngine';
+import { LatticeState, aggregateLattice, createLattice, resolveLatticeConfig, stepLattice } from '../../lattice/latticeEngine';
+import { AdaptiveStepper, advanceAdaptive, createAdaptiveStepper, resolveAdaptiveConfig } from '../../integration/adaptiveStepper';
 import { PRNG } from '../../../common/prng';
 
+const VARIABLE_LABELS: Record<BoundedVariable, string> = {
+    C: 'Complexity',
+    D: 'Diversity',
+    A: 'Agency'
+};
+
+export const SDE_SCENARIO_METADATA: ScenarioMetadata = {
+    id: 'sde-v1',
+    name: 'SDE Macro-Dynamics (v1)',
+    description: 'Original stochastic differential equation model for Complexity, Diversity, and Agency.',
+    version: '1.0.0',
+    type: 'sde'
+};
+
 export class SDEScenario implements Scenario<SimulationParameters> {
-    public metadata: ScenarioMetadata = {
-        id: 'sde-v1',
-        name: 'SDE Macro-Dynamics (v1)',
-        description: 'Original stochastic differential equation model for Complexity, Diversity, and Agency.',
-        version: '1.0.0',
-        title: 'SDE Simulation',
-        type: 'sde'
-    } as any; // Casting to avoid strict type checks if I added extra fields
+    public metadata: ScenarioMetadata = SDE_SCENARIO_METADATA;
 
     private state: SimulationState;
     private params: SimulationParameters;
@@ -28,6 +37,10 @@ export class SDEScenario implements Scenario<SimulationParameters> {
     private eventQueue: ScenarioEvent[] = [];
     private lastAlertState: boolean = false;
     private lastU: number = 0;
+    /** Cell states in lattice mode; the well-mixed state is then their mean */
+    private lattice: LatticeState | null = null;
+    /** Step size and pending Brownian path of adaptive stepping, created on first use */
+    private stepper: AdaptiveStepper | null = null;
 
     constructor() {
         this.prng = new PRNG(0);
@@ -46,18 +59,75 @@ export class SDEScenario implements Scenario<SimulationParameters> {
         this.eventQueue = [];
         this.lastAlertState = false;
         this.lastU = 0;
+        this.lattice = null;
+        this.stepper = null;
+        this.syncLattice();
     }
 
     public updateConfig(config: Partial<SimulationParameters>) {
         this.params = { ...this.params, ...config };
+        this.syncLattice();
+    }
+
+    /**
+     * Create, resize or drop the lattice to match the configuration.
+     * A new lattice starts from the current well-mixed state.
+     */
+    private syncLattice() {
+        const config = resolveLatticeConfig(this.params);
+        if (!config) {
+            this.lattice = null;
+            return;
+        }
+        if (this.lattice && this.lattice.width === config.width && this.lattice.height === config.height) return;
+        this.lattice = createLattice(config, this.state, () => this.prng.next());
+        this.state = aggregateLattice(this.lattice);
     }
 
     public step(control: ControlSignal) {
         this.lastU = control.U;
+        const config = resolveLatticeConfig(this.params);
+        if (this.lattice && config) {
+            const result = stepLattice(this.lattice, this.params, config, control, () => this.prng.next());
+            this.lattice = result.lattice;
+            this.state = aggregateLattice(this.lattice);
+
+            // Absorbed cells stay on their wall; one event per variable and wall per step
+            result.absorbed.forEach(hit => {
+                this.eventQueue.push({
+                    type: 'extinction',
+                    timestamp: this.state.generation,
+                    data: { variable: hit.variable, boundary: hit.boundary, cells: hit.cells },
+                    message: `${VARIABLE_LABELS[hit.variable]} absorbed at ${hit.boundary} in ${hit.cells} cell${hit.cells === 1 ? '' : 's'} (gen ${this.state.generation.toFixed(1)})`
+                });
+            });
+
+            this.checkAlert();
+            return;
+        }
+
         // Use arrow function to bind the prng context
-        this.state = eulerMaruyamaStep(this.state, this.params, control, () => this.prng.next());
+        const rng = () => this.prng.next();
+        const adaptive = resolveAdaptiveConfig(this.params);
+        const result = adaptive
+            ? advanceAdaptive(this.state, this.params, control, this.stepper ??= createAdaptiveStepper(adaptive), adaptive, rng)
+            : advanceState(this.state, this.params, control, rng);
+        this.state = result.state;
 
-        // Check for events
+        // Absorbing boundaries freeze a variable for the rest of the run
+        result.absorbed.forEach(hit => {
+            this.eventQueue.push({
+                type: 'extinction',
+                timestamp: this.state.generation,
+                data: { variable: hit.variable, boundary: hit.boundary },
+                message: `${VARIABLE_LABELS[hit.variable]} absorbed at ${hit.boundary} (gen ${this.state.generation.toFixed(1)})`
+            });
+        });
+
+        this.checkAlert();
+    }
+
+    private checkAlert() {
         const isAlert = shouldTriggerAlert(this.state, this.params);
         if (isAlert && !this.lastAlertState) {
             this.eventQueue.push({
@@ -84,7 +154,9 @@ export class SDEScenario implements Scenario<SimulationParameters> {
     public getState(): any {
         return {
             simulationState: this.state,
-            params: this.params
+            params: this.params,
+            lattice: this.lattice,
+            stepStats: this.stepper?.stats ?? null
         };
     }
 
@@ -92,7 +164,11 @@ export class SDEScenario implements Scenario<SimulationParameters> {
         return JSON.stringify({
             state: this.state,
             params: this.params,
-            lastU: this.lastU
+            lastU: this.lastU,
+            lattice: this.lattice,
+            stepper: this.stepper,
+            lastAlertState: this.lastAlertState,
+            prngState: this.prng.getState()
         });
     }
 
@@ -101,6 +177,11 @@ export class SDEScenario implements Scenario<SimulationParameters> {
         this.state = data.state;
         this.params = data.params;
         this.lastU = data.lastU || 0;
+        this.lattice = data.lattice ?? null;
+        this.stepper = data.stepper ?? null;
+        this.lastAlertState = data.lastAlertState ?? false;
+        if (typeof data.prngState === 'number') this.prng.setSeed(data.prngState);
+        this.syncLattice();
     }
 
     public getEvents(): ScenarioEvent[] {
@@ -0,0 +1,104 @@
+import { DEFAULT_PARAMETERS, SdeBoundaryPolicies, SimulationParameters } from '../../types';
+import { isBoundaryPolicy, isSdeIntegrator } from '../../sdeEngine';
+import { getEquationModel, resolveModelParameters } from '../../model/equationDsl';
+import { sanitizeNoiseModel } from '../../model/noiseModel';
+import { sanitizeLatticeConfig } from '../../lattice/latticeEngine';
+import { sanitizeAdaptiveConfig } from '../../integration/adaptiveStepper';
+import { ScenarioPlugin, isFiniteNumber, isRecord } from '../scenarioPlugin';
+import { SDEScenario, SDE_SCENARIO_METADATA } from './SDEScenario';
+import { ConfigSchema, sanitizeConfigWithSchema } from '../../../../../shared/schemas/configSchema';
+
+const rate = (label: string, description: string, group: string, min: number, max: number) => ({
+    type: 'number' as const, label, description, min, max, step: 0.01, unit: '1/generation', group
+});
+
+const noise = (label: string, description: string) => ({
+    type: 'number' as const, label, description, min: 0, max: 0.2, step: 0.01, group: 'Stochasticity (Noise)'
+});
+
+/**
+ * The coefficients of the built-in equations, with the ranges of their
+ * original sliders. The integrator, boundaries, noise model, lattice and
+ * equation model have editors of their own.
+ */
+export const SDE_CONFIG_SCHEMA: ConfigSchema = {
+    k_CD: rate('Diversity -> Complexity (k_CD)', 'How strongly diversity drives complexity growth.', 'Coupling Rates', 0, 0.5),
+    k_AC: rate('Complexity -> Agency (k_AC)', 'How strongly complexity boosts agency.', 'Coupling Rates', 0, 0.5),
+    k_AU: rate('Agency -> Difficulty (k_AU)', 'How strongly U amplifies agency gains.', 'Coupling Rates', 0, 1),
+    k_C_decay: rate('Complexity Decay (k_C_decay)', 'Natural complexity decay rate.', 'Growth & Decay', 0.1, 0.5),
+    k_D_growth: rate('Diversity Growth (k_D_growth)', 'Intrinsic diversity growth rate.', 'Growth & Decay', 0.1, 0.5),
+    k_D_decay: rate('Diversity Decay (k_D_decay)', 'Diversity saturation decay.', 'Growth & Decay', 0.1, 0.5),
+    k_A_decay: rate('Agency Decay (k_A_decay)', 'Agency decay without sustained adaptation.', 'Growth & Decay', 0.1, 0.5),
+    k_DU: rate('Control -> Diversity Decay (k_DU)', 'How strongly U suppresses diversity.', 'Control Physics', 0, 1),
+    k_U: rate('Control -> Stimulation (k_U)', 'How strongly U stimulates complexity.', 'Control Physics', 0, 0.5),
+    sigma_C: noise('Sigma Complexity', 'Noise scale for complexity.'),
+    sigma_D: noise('Sigma Diversity', 'Noise scale for diversity.'),
+    sigma_A: noise('Sigma Agency', 'Noise scale for agency.'),
+    A_alert: { type: 'number', label: 'Threshold (A_alert)', description: 'Alert threshold for agency.', min: 0.1, max: 0.9, step: 0.05, group: 'Alert System' }
+};
+
+const sanitizeBoundaries = (value: unknown): SdeBoundaryPolicies => {
+    const defaults = DEFAULT_PARAMETERS.boundaries as SdeBoundaryPolicies;
+    if (!isRecord(value)) return { ...defaults };
+    return {
+        C: isBoundaryPolicy(value.C) ? value.C : defaults.C,
+        D: isBoundaryPolicy(value.D) ? value.D : defaults.D,
+        A: isBoundaryPolicy(value.A) ? value.A : defaults.A
+    };
+};
+
+/** Numeric parameters outside SDE_CONFIG_SCHEMA */
+const UNCONTROLLED_NUMBERS = ['tau', 'eps', 'dt'] as const;
+
+export const sanitizeSdeParameters = (value: unknown): SimulationParameters => {
+    if (!isRecord(value)) return { ...DEFAULT_PARAMETERS };
+    const next = sanitizeConfigWithSchema(SDE_CONFIG_SCHEMA, { ...DEFAULT_PARAMETERS }, value);
+    // Numeric settings without a control of their own only need to be finite
+    UNCONTROLLED_NUMBERS.forEach(key => {
+        const candidate = value[key];
+        if (isFiniteNumber(candidate)) next[key] = candidate;
+    });
+    if (typeof value.useGPU === 'boolean') next.useGPU = value.useGPU;
+    next.integrator = isSdeIntegrator(value.integrator) ? value.integrator : DEFAULT_PARAMETERS.integrator;
+    next.boundaries = sanitizeBoundaries(value.boundaries);
+    // A custom model only survives if it still compiles; its parameters follow its declarations
+    const model = typeof value.model === 'string' ? getEquationModel(value.model) : null;
+    if (model) {
+        next.model = model.source;
+        next.modelParameters = resolveModelParameters(model, value.modelParameters);
+    }
+    const noise = sanitizeNoiseModel(value.noise);
+    if (noise) next.noise = noise;
+    const lattice = sanitizeLatticeConfig(value.lattice);
+    if (lattice) next.lattice = lattice;
+    const adaptive = sanitizeAdaptiveConfig(value.adaptive);
+    if (adaptive) next.adaptive = adaptive;
+    return next;
+};
+
+/**
+ * The SDE macro-model. Its configuration is the store's `parameters` (the
+ * snapshot's `sdeParameters`) rather than an entry of `scenarioConfigs`.
+ */
+export const sdePlugin: ScenarioPlugin<SimulationParameters> = {
+    metadata: SDE_SCENARIO_METADATA,
+    create: () => new SDEScenario(),
+    defaultConfig: DEFAULT_PARAMETERS,
+    configSchema: SDE_CONFIG_SCHEMA,
+    sanitizeConfig: sanitizeSdeParameters,
+    prompt: { generationUnit: 'continuous timestep', phases: { adaptive: 120, stabilization: 320 } },
+    cadence: { early: 10, mid: 20, late: 30, midStart: 120, lateStart: 360 },
+    panels: [
+        { panel: 'lattice-heatmap', placement: 'visualization' },
+        { panel: 'bifurcation', placement: 'analysis' },
+        { panel: 'sensitivity', placement: 'analysis' },
+        { panel: 'rare-events', placement: 'analysis' }
+    ],
+    summarizeState: state => {
+        if (!isRecord(state)) return {};
+        return {
+            simulationState: state.simulationState || state.state || state,
+            parameters: state.params || state.parameters
+        };
+    }
+};
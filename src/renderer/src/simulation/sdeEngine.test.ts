@@ -0,0 +1,250 @@
+import {
+    advanceState,
+    BrownianIncrement,
+    DiagonalSdeSystem,
+    gaussianRandom,
+    runSimulationSteps,
+    SDE_INTEGRATORS
+} from './sdeEngine';
+import {
+    BoundaryPolicy,
+    DEFAULT_CONTROL,
+    DEFAULT_INITIAL_STATE,
+    DEFAULT_PARAMETERS,
+    SdeIntegrator,
+    SimulationState
+} from './types';
+import { PRNG } from '../common/prng';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        console.error(`❌ FAILED: ${message}`);
+        process.exit(1);
+    } else {
+        console.log(`✅ PASSED: ${message}`);
+    }
+}
+
+// Ornstein-Uhlenbeck reference: dX = theta*(mu - X) dt + sigma dW
+const THETA = 1.0;
+const MU = 0.5;
+const SIGMA = 0.3;
+const X0 = 0.1;
+const T = 1.0;
+
+const ouSystem: DiagonalSdeSystem = {
+    drift: ([x]) => [THETA * (MU - x)],
+    diffusion: () => [SIGMA]
+};
+
+const exactMean = MU + (X0 - MU) * Math.exp(-THETA * T);
+const exactVariance = (SIGMA * SIGMA) / (2 * THETA) * (1 - Math.exp(-2 * THETA * T));
+
+const INTEGRATORS: SdeIntegrator[] = ['euler-maruyama', 'milstein', 'srk15'];
+
+/**
+ * Sample a fine Brownian path (dW and dZ per fine step) over [0, T].
+ */
+function sampleFinePath(fineSteps: number, rng: () => number): BrownianIncrement[] {
+    const h = T / fineSteps;
+    const path: BrownianIncrement[] = [];
+    for (let i = 0; i < fineSteps; i++) {
+        const xi1 = gaussianRandom(rng);
+        const xi2 = gaussianRandom(rng);
+        path.push({
+            dW: [xi1 * Math.sqrt(h)],
+            dZ: [0.5 * Math.pow(h, 1.5) * (xi1 + xi2 / Math.sqrt(3))]
+        });
+    }
+    return path;
+}
+
+/**
+ * Aggregate fine increments into coarse ones, keeping dW and the I(1,0) integral consistent.
+ */
+function coarsen(path: BrownianIncrement[], ratio: number, h: number): BrownianIncrement[] {
+    const coarse: BrownianIncrement[] = [];
+    for (let i = 0; i < path.length; i += ratio) {
+        let dW = 0;
+        let dZ = 0;
+        for (let k = 0; k < ratio; k++) {
+            const fine = path[i + k];
+            dZ += fine.dZ[0] + dW * h;
+            dW += fine.dW[0];
+        }
+        coarse.push({ dW: [dW], dZ: [dZ] });
+    }
+    return coarse;
+}
+
+/**
+ * Closed-form OU solution driven by the sampled path:
+ * X_T = mu + (x0 - mu) e^{-theta T} + sigma * integral of e^{-theta (T - s)} dW_s
+ */
+function exactTerminal(path: BrownianIncrement[], h: number): number {
+    let stochastic = 0;
+    for (let k = 0; k < path.length; k++) {
+        const weight = Math.exp(-THETA * (T - k * h));
+        const { dW, dZ } = path[k];
+        // e^{theta (s - t_k)} ~ 1 + theta (s - t_k), and integral of (s - t_k) dW = h dW - dZ
+        stochastic += weight * (dW[0] + THETA * (h * dW[0] - dZ[0]));
+    }
+    return exactMean + SIGMA * stochastic;
+}
+
+function integrate(integrator: SdeIntegrator, increments: BrownianIncrement[], dt: number): number {
+    const scheme = SDE_INTEGRATORS[integrator];
+    let x = [X0];
+    for (const increment of increments) {
+        x = scheme.step(ouSystem, x, dt, increment);
+    }
+    return x[0];
+}
+
+function slope(xs: number[], ys: number[]): number {
+    const lx = xs.map(Math.log);
+    const ly = ys.map(Math.log);
+    const mx = lx.reduce((a, b) => a + b, 0) / lx.length;
+    const my = ly.reduce((a, b) => a + b, 0) / ly.length;
+    let num = 0;
+    let den = 0;
+    for (let i = 0; i < lx.length; i++) {
+        num += (lx[i] - mx) * (ly[i] - my);
+        den += (lx[i] - mx) * (lx[i] - mx);
+    }
+    return num / den;
+}
+
+function testStrongConvergence() {
+    const prng = new PRNG(20240601);
+    const rng = () => prng.next();
+    const fineSteps = 640;
+    const h = T / fineSteps;
+    const ratios = [64, 32, 16, 8]; // dt = 0.1, 0.05, 0.025, 0.0125
+    const paths = 300;
+    const errors: Record<SdeIntegrator, number[]> = {
+        'euler-maruyama': ratios.map(() => 0),
+        'milstein': ratios.map(() => 0),
+        'srk15': ratios.map(() => 0)
+    };
+
+    for (let p = 0; p < paths; p++) {
+        const path = sampleFinePath(fineSteps, rng);
+        const reference = exactTerminal(path, h);
+        ratios.forEach((ratio, level) => {
+            const increments = coarsen(path, ratio, h);
+            INTEGRATORS.forEach(integrator => {
+                errors[integrator][level] += Math.abs(integrate(integrator, increments, ratio * h) - reference) / paths;
+            });
+        });
+    }
+
+    const dts = ratios.map(ratio => ratio * h);
+    const emOrder = slope(dts, errors['euler-maruyama']);
+    const milsteinOrder = slope(dts, errors['milstein']);
+    const srkOrder = slope(dts, errors['srk15']);
+
+    assert(emOrder > 0.85 && emOrder < 1.2, `Euler-Maruyama strong order ~1 for additive noise (got ${emOrder.toFixed(2)})`);
+    assert(milsteinOrder > 0.85 && milsteinOrder < 1.2, `Milstein strong order ~1 (got ${milsteinOrder.toFixed(2)})`);
+    assert(srkOrder > 1.3, `SRK strong order ~1.5 (got ${srkOrder.toFixed(2)})`);
+    assert(errors['srk15'][0] < errors['euler-maruyama'][0] / 5, `SRK strong error at dt=0.1 (${errors['srk15'][0].toExponential(2)}) well below Euler-Maruyama (${errors['euler-maruyama'][0].toExponential(2)})`);
+    assert(errors['srk15'][0] < 1e-3, 'SRK strong error at dt=0.1 below 1e-3');
+}
+
+function testWeakConvergence() {
+    const dt = 0.1;
+    const steps = Math.round(T / dt);
+    const samples = 20000;
+    const scheme = (integrator: SdeIntegrator) => SDE_INTEGRATORS[integrator];
+
+    INTEGRATORS.forEach(integrator => {
+        const prng = new PRNG(77);
+        const rng = () => prng.next();
+        let sum = 0;
+        let sumSq = 0;
+        for (let i = 0; i < samples; i++) {
+            let x = [X0];
+            for (let n = 0; n < steps; n++) {
+                const xi1 = gaussianRandom(rng);
+                const xi2 = gaussianRandom(rng);
+                x = scheme(integrator).step(ouSystem, x, dt, {
+                    dW: [xi1 * Math.sqrt(dt)],
+                    dZ: [0.5 * Math.pow(dt, 1.5) * (xi1 + xi2 / Math.sqrt(3))]
+                });
+            }
+            sum += x[0];
+            sumSq += x[0] * x[0];
+        }
+        const mean = sum / samples;
+        const variance = sumSq / samples - mean * mean;
+        const meanTolerance = integrator === 'srk15' ? 0.005 : 0.015;
+        assert(Math.abs(mean - exactMean) < meanTolerance, `${integrator} weak mean error at dt=0.1 (${Math.abs(mean - exactMean).toExponential(2)})`);
+        assert(Math.abs(variance - exactVariance) / exactVariance < 0.1, `${integrator} weak variance error at dt=0.1 (${(Math.abs(variance - exactVariance) / exactVariance * 100).toFixed(1)}%)`);
+    });
+}
+
+function testMacroModelDispatch() {
+    const runWith = (integrator: SdeIntegrator) => {
+        const prng = new PRNG(9);
+        return runSimulationSteps(
+            { ...DEFAULT_INITIAL_STATE },
+            { ...DEFAULT_PARAMETERS, integrator },
+            { ...DEFAULT_CONTROL },
+            200,
+            () => prng.next()
+        );
+    };
+
+    const em = runWith('euler-maruyama');
+    const srk = runWith('srk15');
+    assert(Math.abs(em.generation - 20) < 1e-9, 'runSimulationSteps advances generation by dt per step');
+    assert([em.C, em.D, em.A, srk.C, srk.D, srk.A].every(v => v >= 0 && v <= 1), 'Integrated macro state stays within [0,1]');
+    assert(Math.abs(em.A - srk.A) < 0.05, 'Integrators agree on macro agency at dt=0.1');
+}
+
+function testBoundaryPolicies() {
+    // Strong diversity suppression with loud noise drives D into the lower wall
+    const runWith = (policy: BoundaryPolicy) => {
+        const prng = new PRNG(31);
+        const params = {
+            ...DEFAULT_PARAMETERS,
+            sigma_D: 0.2,
+            k_DU: 1.0,
+            k_D_growth: 0.02,
+            boundaries: { C: 'clamp' as BoundaryPolicy, D: policy, A: 'clamp' as BoundaryPolicy }
+        };
+        let state: SimulationState = { ...DEFAULT_INITIAL_STATE, D: 0.05 };
+        const values: number[] = [];
+        const hits: number[] = [];
+        for (let i = 0; i < 400; i++) {
+            const result = advanceState(state, params, { U: 1 }, () => prng.next());
+            state = result.state;
+            values.push(state.D);
+            result.absorbed.forEach(() => hits.push(i));
+        }
+        return { values, hits };
+    };
+
+    const clamp = runWith('clamp');
+    const reflect = runWith('reflect');
+    const absorb = runWith('absorb');
+    const logit = runWith('logit');
+
+    const atZero = (values: number[]) => values.filter(v => v === 0).length;
+    assert(atZero(clamp.values) > 40, `Clamp piles mass on the wall (${atZero(clamp.values)} steps at D=0)`);
+    assert(reflect.values.every(v => v >= 0 && v <= 1) && atZero(reflect.values) === 0, 'Reflect keeps D inside [0,1] without sticking at the wall');
+    assert(logit.values.every(v => v > 0 && v < 1), 'Logit keeps D strictly inside (0,1)');
+    assert(absorb.hits.length === 1, 'Absorbing wall reports exactly one hit');
+    assert(absorb.values.slice(absorb.hits[0]).every(v => v === 0), 'Absorbed D stays frozen at 0');
+}
+
+function runTests() {
+    console.log('Starting SDE Engine Tests...');
+    testStrongConvergence();
+    testWeakConvergence();
+    testMacroModelDispatch();
+    testBoundaryPolicies();
+    console.log('All SDE engine tests passed!');
+}
+
+runTests();
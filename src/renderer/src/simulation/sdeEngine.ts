@@ -1,14 +1,31 @@
 /**
- * SDE Engine - Euler-Maruyama Integration for Open-Ended Evolution
+ * SDE Engine - Stochastic Integration for Open-Ended Evolution
  * 
  * Implements the stochastic differential equations from the PRD:
  * - E1: dC = (k_CD*D*(1-C) + k_U*U*(1-C) - 0.3*C) dt + sigma_C*dW_C
  * - E2: dD = (0.25*(1-D) - k_DU*U*D - 0.15*D^2) dt + sigma_D*dW_D  
  * - E3: dA = (k_AC*C*(1-A) + 0.4*U*C*(1-A) - 0.35*A) dt + sigma_A*dW_A
  * - E4: dA_alert_rate = (1/tau)*sigmoid((A - A_alert)/eps) dt
+ *
+ * E1-E3 are integrated with a selectable scheme (Euler-Maruyama, Milstein or
+ * strong order 1.5 stochastic Runge-Kutta) and a per-variable boundary policy;
+ * E4 is an explicit Euler accumulator. When `params.model` holds equation-DSL
+ * source (model/equationDsl.ts) it replaces E1-E3 and may add state variables.
+ * `params.noise` (model/noiseModel.ts) correlates the Wiener increments of C, D
+ * and A and adds compound-Poisson jumps.
  */
 
-import { SimulationState, SimulationParameters, ControlSignal } from './types';
+import {
+    SimulationState,
+    SimulationParameters,
+    ControlSignal,
+    SdeIntegrator,
+    BoundaryPolicy,
+    SdeBoundaryPolicies,
+    JumpProcess
+} from './types';
+import { EquationModel, getEquationModel } from './model/equationDsl';
+import { resolveNoiseModel } from './model/noiseModel';
 
 /**
  * Box-Muller transform for generating Gaussian random numbers
@@ -38,44 +55,81 @@ function clamp01(value: number): number {
 }
 
 /**
- * Compute the drift terms for the SDE system
+ * Keep values away from 0/1 before taking a logit
  */
-export function computeDrift(
+const LOGIT_EPSILON = 1e-6;
+
+function logit(value: number): number {
+    const x = Math.max(LOGIT_EPSILON, Math.min(1 - LOGIT_EPSILON, value));
+    return Math.log(x / (1 - x));
+}
+
+/**
+ * Fold a value back into [0, 1] by mirroring at the walls
+ */
+function reflect01(value: number): number {
+    let folded = value % 2;
+    if (folded < 0) folded += 2;
+    return folded > 1 ? 2 - folded : folded;
+}
+
+/**
+ * Compute the drift rates (per generation) for the SDE system
+ */
+export function computeDriftRates(
     state: SimulationState,
     params: SimulationParameters,
     control: ControlSignal
 ): { dC: number; dD: number; dA: number; dAlertRate: number } {
-    const { C, D, A, alertRate } = state;
+    const { C, D, A } = state;
     const {
         k_CD, k_AC, k_DU, k_U,
         k_C_decay, k_D_growth, k_D_decay, k_AU, k_A_decay,
-        tau, eps, A_alert, dt
+        tau, eps, A_alert
     } = params;
     const { U } = control;
 
     // E1: Complexity dynamics
     // Grows via diversity-driven innovation and difficulty-driven challenge
     // Decays via simplification/selection bottlenecks
-    const dC = (k_CD * D * (1 - C) + k_U * U * (1 - C) - k_C_decay * C) * dt;
+    const dC = k_CD * D * (1 - C) + k_U * U * (1 - C) - k_C_decay * C;
 
     // E2: Diversity dynamics
     // Increases through mutation/niche creation
     // Decreases under harsh environments and saturation effects
-    const dD = (k_D_growth * (1 - D) - k_DU * U * D - k_D_decay * D * D) * dt;
+    const dD = k_D_growth * (1 - D) - k_DU * U * D - k_D_decay * D * D;
 
     // E3: Agency dynamics
     // Emerges from complexity and is accelerated by challenge
     // Bounded by normalization and decays without sustained adaptation
-    const dA = (k_AC * C * (1 - A) + k_AU * U * C * (1 - A) - k_A_decay * A) * dt;
+    const dA = k_AC * C * (1 - A) + k_AU * U * C * (1 - A) - k_A_decay * A;
 
     // E4: Alert rate dynamics
     // Smooth alert-rate process for robust threshold crossing detection
     const alertSignal = sigmoid((A - A_alert) / eps);
-    const dAlertRate = (1 / tau) * alertSignal * dt;
+    const dAlertRate = (1 / tau) * alertSignal;
 
     return { dC, dD, dA, dAlertRate };
 }
 
+/**
+ * Compute the drift terms for the SDE system (rates scaled by dt)
+ */
+export function computeDrift(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal
+): { dC: number; dD: number; dA: number; dAlertRate: number } {
+    const rates = computeDriftRates(state, params, control);
+    const { dt } = params;
+    return {
+        dC: rates.dC * dt,
+        dD: rates.dD * dt,
+        dA: rates.dA * dt,
+        dAlertRate: rates.dAlertRate * dt
+    };
+}
+
 /**
  * Compute the diffusion (noise) terms for the SDE system
  */
@@ -93,6 +147,452 @@ export function computeDiffusion(
     };
 }
 
+/**
+ * Log-density of the Euler-Maruyama transition from `from` to `to` over dt:
+ * each of C, D, A is Gaussian with mean x + a(x) dt and variance sigma^2 dt.
+ * Boundary policies and the noise model (correlations, jumps) are ignored.
+ */
+export function eulerMaruyamaLogDensity(
+    from: SimulationState,
+    to: Pick<SimulationState, 'C' | 'D' | 'A'>,
+    params: SimulationParameters,
+    control: ControlSignal,
+    dt: number = params.dt
+): number {
+    const rates = computeDriftRates(from, params, control);
+    const terms: Array<[number, number, number]> = [
+        [to.C - from.C, rates.dC, params.sigma_C],
+        [to.D - from.D, rates.dD, params.sigma_D],
+        [to.A - from.A, rates.dA, params.sigma_A]
+    ];
+
+    let logDensity = 0;
+    for (const [increment, rate, sigma] of terms) {
+        const variance = sigma * sigma * dt;
+        const residual = increment - rate * dt;
+        if (variance <= 0) {
+            if (Math.abs(residual) > 1e-12) return -Infinity;
+            continue;
+        }
+        logDensity += -0.5 * Math.log(2 * Math.PI * variance) - (residual * residual) / (2 * variance);
+    }
+    return logDensity;
+}
+
+/**
+ * A diagonal-noise SDE dX = a(X) dt + b(X) dW with one Wiener channel per component
+ */
+export interface DiagonalSdeSystem {
+    /** Drift rates a(x) */
+    drift(x: number[]): number[];
+    /** Diagonal diffusion b(x); component k only depends on x[k] */
+    diffusion(x: number[]): number[];
+}
+
+/**
+ * Wiener increments over one step, per channel:
+ * dW = W(t+dt) - W(t) and dZ = I(1,0) = integral of (W(s) - W(t)) ds
+ */
+export interface BrownianIncrement {
+    dW: number[];
+    dZ: number[];
+}
+
+/** A one-step integration scheme for diagonal-noise systems */
+export interface IntegratorScheme {
+    label: string;
+    /** Strong order of convergence for additive noise */
+    strongOrder: number;
+    /** Whether the scheme needs the dZ double integral (extra Gaussian draws) */
+    needsDoubleIntegral: boolean;
+    step(system: DiagonalSdeSystem, x: number[], dt: number, increment: BrownianIncrement): number[];
+}
+
+/**
+ * Draw the Brownian increments for one step.
+ * dW draws come first so Euler-Maruyama consumes the same stream as computeDiffusion.
+ */
+export function sampleBrownianIncrement(
+    dimension: number,
+    dt: number,
+    needsDoubleIntegral: boolean,
+    rng: () => number
+): BrownianIncrement {
+    const sqrtDt = Math.sqrt(dt);
+    const xi = new Array<number>(dimension);
+    const dW = new Array<number>(dimension);
+    const dZ = new Array<number>(dimension).fill(0);
+    for (let k = 0; k < dimension; k++) {
+        xi[k] = gaussianRandom(rng);
+        dW[k] = xi[k] * sqrtDt;
+    }
+    if (needsDoubleIntegral) {
+        // (dW, dZ) is jointly Gaussian with Var(dZ) = dt^3/3 and Cov(dW, dZ) = dt^2/2
+        const scale = 0.5 * dt * sqrtDt;
+        for (let k = 0; k < dimension; k++) {
+            dZ[k] = scale * (xi[k] + gaussianRandom(rng) / Math.sqrt(3));
+        }
+    }
+    return { dW, dZ };
+}
+
+/**
+ * Correlate the C, D, A channels of an increment with the Cholesky factor L of their correlation.
+ * dZ is mixed the same way, so (dW, dZ) keeps its joint structure; extra channels stay independent.
+ */
+export function correlateIncrement(increment: BrownianIncrement, cholesky: number[][] | null): BrownianIncrement {
+    if (!cholesky) return increment;
+    const mix = (values: number[]) => values.map((value, k) => (
+        k < cholesky.length ? cholesky[k].reduce((sum, weight, j) => sum + weight * values[j], 0) : value
+    ));
+    return { dW: mix(increment.dW), dZ: mix(increment.dZ) };
+}
+
+/**
+ * Poisson draw by Knuth's product of uniforms (cheap for the small per-step means of jump processes)
+ */
+export function samplePoisson(mean: number, rng: () => number): number {
+    const threshold = Math.exp(-mean);
+    let count = 0;
+    let product = rng();
+    while (product > threshold) {
+        count++;
+        product *= rng();
+    }
+    return count;
+}
+
+function sampleJumpSize(process: JumpProcess, rng: () => number): number {
+    switch (process.distribution) {
+        case 'uniform':
+            return process.location + process.scale * (2 * rng() - 1);
+        case 'exponential':
+            return process.location - process.scale * Math.log(1 - rng());
+        case 'normal':
+        default:
+            return process.location + process.scale * gaussianRandom(rng);
+    }
+}
+
+/**
+ * Total compound-Poisson jump of each variable over one step.
+ * Variables without a jump process draw nothing, so jump-free runs keep their random stream.
+ */
+export function sampleJumps(jumps: Array<JumpProcess | null>, dt: number, rng: () => number): number[] {
+    return jumps.map(process => {
+        if (!process) return 0;
+        let total = 0;
+        const count = samplePoisson(process.rate * dt, rng);
+        for (let i = 0; i < count; i++) total += sampleJumpSize(process, rng);
+        return total;
+    });
+}
+
+const eulerMaruyamaScheme: IntegratorScheme = {
+    label: 'Euler-Maruyama',
+    strongOrder: 1.0,
+    needsDoubleIntegral: false,
+    step(system, x, dt, { dW }) {
+        const a = system.drift(x);
+        const b = system.diffusion(x);
+        return x.map((value, k) => value + a[k] * dt + b[k] * dW[k]);
+    }
+};
+
+/**
+ * Derivative-free Milstein scheme (Kloeden & Platen 11.1.5) for diagonal noise
+ */
+const milsteinScheme: IntegratorScheme = {
+    label: 'Milstein',
+    strongOrder: 1.0,
+    needsDoubleIntegral: false,
+    step(system, x, dt, { dW }) {
+        const sqrtDt = Math.sqrt(dt);
+        const a = system.drift(x);
+        const b = system.diffusion(x);
+        const support = x.map((value, k) => value + a[k] * dt + b[k] * sqrtDt);
+        const bSupport = system.diffusion(support);
+        return x.map((value, k) => (
+            value + a[k] * dt + b[k] * dW[k]
+            + (bSupport[k] - b[k]) * (dW[k] * dW[k] - dt) / (2 * sqrtDt)
+        ));
+    }
+};
+
+/**
+ * Strong order 1.5 stochastic Runge-Kutta scheme for additive noise (Kloeden & Platen 11.2.19).
+ * Only the additive-noise terms are included, so state-dependent diffusion loses the extra half order.
+ */
+const srk15Scheme: IntegratorScheme = {
+    label: 'Stochastic RK (order 1.5)',
+    strongOrder: 1.5,
+    needsDoubleIntegral: true,
+    step(system, x, dt, { dW, dZ }) {
+        const m = x.length;
+        const sqrtDt = Math.sqrt(dt);
+        const a = system.drift(x);
+        const b = system.diffusion(x);
+        const next = x.map((value, k) => value + a[k] * dt + b[k] * dW[k]);
+
+        for (let j = 0; j < m; j++) {
+            const plus = x.map((value, k) => value + a[k] * dt / m + (k === j ? b[j] * sqrtDt : 0));
+            const minus = x.map((value, k) => value + a[k] * dt / m - (k === j ? b[j] * sqrtDt : 0));
+            const aPlus = system.drift(plus);
+            const aMinus = system.drift(minus);
+            for (let k = 0; k < m; k++) {
+                next[k] += (aPlus[k] - aMinus[k]) * dZ[j] / (2 * sqrtDt)
+                    + (aPlus[k] - 2 * a[k] + aMinus[k]) * dt / 4;
+            }
+        }
+
+        return next;
+    }
+};
+
+/** Registry of available integration schemes */
+export const SDE_INTEGRATORS: Record<SdeIntegrator, IntegratorScheme> = {
+    'euler-maruyama': eulerMaruyamaScheme,
+    'milstein': milsteinScheme,
+    'srk15': srk15Scheme
+};
+
+export const isSdeIntegrator = (value: unknown): value is SdeIntegrator => {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SDE_INTEGRATORS, value);
+};
+
+/**
+ * View the C/D/A equations (E1-E3) as a diagonal-noise system for the integrators
+ */
+export function createMacroSystem(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal
+): DiagonalSdeSystem {
+    return {
+        drift: ([C, D, A]) => {
+            const rates = computeDriftRates({ ...state, C, D, A }, params, control);
+            return [rates.dC, rates.dD, rates.dA];
+        },
+        diffusion: () => [params.sigma_C, params.sigma_D, params.sigma_A]
+    };
+}
+
+/**
+ * View a compiled equation-DSL model as a diagonal-noise system.
+ * The state vector follows `model.variables`: C, D, A, then declared variables.
+ */
+export function createModelSystem(
+    model: EquationModel,
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal
+): DiagonalSdeSystem {
+    const context = {
+        params,
+        modelParameters: params.modelParameters ?? {},
+        U: control.U,
+        t: state.generation
+    };
+    return {
+        drift: (x) => model.drift(x, context),
+        diffusion: (x) => model.diffusion(x, context)
+    };
+}
+
+/**
+ * Compiled custom model configured in the parameters, or null for the built-in E1-E3
+ */
+export function resolveEquationModel(params: SimulationParameters): EquationModel | null {
+    return params.model ? getEquationModel(params.model) : null;
+}
+
+const DEFAULT_BOUNDARIES: SdeBoundaryPolicies = { C: 'clamp', D: 'clamp', A: 'clamp' };
+const BOUNDED_VARIABLES = ['C', 'D', 'A'] as const;
+
+export type BoundedVariable = typeof BOUNDED_VARIABLES[number];
+
+export const BOUNDARY_POLICIES: BoundaryPolicy[] = ['clamp', 'reflect', 'absorb', 'logit'];
+
+export const isBoundaryPolicy = (value: unknown): value is BoundaryPolicy => {
+    return typeof value === 'string' && (BOUNDARY_POLICIES as string[]).includes(value);
+};
+
+/**
+ * Resolve the boundary policy for each variable, falling back to clamp
+ */
+export function resolveBoundaries(params: SimulationParameters): SdeBoundaryPolicies {
+    const configured = params.boundaries;
+    return {
+        C: isBoundaryPolicy(configured?.C) ? configured.C : DEFAULT_BOUNDARIES.C,
+        D: isBoundaryPolicy(configured?.D) ? configured.D : DEFAULT_BOUNDARIES.D,
+        A: isBoundaryPolicy(configured?.A) ? configured.A : DEFAULT_BOUNDARIES.A
+    };
+}
+
+/** A variable that reached an absorbing wall during a step */
+export interface BoundaryHit {
+    variable: BoundedVariable;
+    boundary: 0 | 1;
+}
+
+export interface StepResult {
+    state: SimulationState;
+    absorbed: BoundaryHit[];
+}
+
+/**
+ * One step from a fixed starting state, split so a driver can integrate trial steps
+ * with its own increments before committing one of them
+ */
+export interface StepPlan {
+    scheme: IntegratorScheme;
+    /** Starting point in integration coordinates (logit space for logit variables) */
+    start: number[];
+    /** One scheme step in integration coordinates; the increment is the raw, uncorrelated one */
+    integrate(y: number[], dt: number, increment: BrownianIncrement): number[];
+    /** Model values of a point in integration coordinates */
+    toModel(y: number[]): number[];
+    /** Add jumps, apply the boundary policies and build the state dt after the start */
+    finish(y: number[], dt: number, rng: () => number): StepResult;
+}
+
+/**
+ * Prepare a step of the macro state with the given scheme and boundary policies.
+ *
+ * Logit variables are integrated as Y = logit(X) with dY = (a dt + sigma dW) / (X(1-X)).
+ * Dropping the Ito correction of the change of variables is what makes the walls unreachable:
+ * in X it adds a repulsive drift sigma^2 (1-2X) / (2X(1-X)) that only matters near 0 and 1.
+ * Absorbed variables stay frozen at their wall. Extra variables of a custom model
+ * are clamped to their declared bounds, if any.
+ */
+export function planStep(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal,
+    integrator: SdeIntegrator = params.integrator ?? 'euler-maruyama'
+): StepPlan {
+    const scheme = SDE_INTEGRATORS[integrator] ?? eulerMaruyamaScheme;
+    const boundaries = resolveBoundaries(params);
+    const model = resolveEquationModel(params);
+    const extras = model ? model.variables.slice(BOUNDED_VARIABLES.length) : [];
+    const policies: Array<BoundaryPolicy | null> = [
+        ...BOUNDED_VARIABLES.map(variable => boundaries[variable]),
+        ...extras.map(() => null)
+    ];
+    const current = [state.C, state.D, state.A, ...extras.map(variable => state.extra?.[variable.name] ?? variable.initial)];
+    const frozen = current.map((x, k) => policies[k] === 'absorb' && (x <= 0 || x >= 1));
+    const inLogit = policies.map(policy => policy === 'logit');
+    const macro = model ? createModelSystem(model, state, params, control) : createMacroSystem(state, params, control);
+    const toModel = (y: number[]) => y.map((value, k) => (inLogit[k] ? sigmoid(value) : value));
+
+    const system: DiagonalSdeSystem = {
+        drift: (y) => {
+            const x = toModel(y);
+            const a = macro.drift(x);
+            return a.map((rate, k) => {
+                if (frozen[k]) return 0;
+                return inLogit[k] ? rate / (x[k] * (1 - x[k])) : rate;
+            });
+        },
+        diffusion: (y) => {
+            const x = toModel(y);
+            const b = macro.diffusion(x);
+            return b.map((scale, k) => {
+                if (frozen[k]) return 0;
+                return inLogit[k] ? scale / (x[k] * (1 - x[k])) : scale;
+            });
+        }
+    };
+
+    const noise = resolveNoiseModel(params);
+
+    const finish = (y: number[], dt: number, rng: () => number): StepResult => {
+        const raw = toModel(y);
+        // Jumps land in the model variables after the diffusion step, before the boundary policy
+        const jumps = sampleJumps(noise.jumps, dt, rng);
+
+        const absorbed: BoundaryHit[] = [];
+        const next = raw.map((value, k) => {
+            if (frozen[k]) return current[k];
+            const x = value + (jumps[k] ?? 0);
+            // A model expression can divide by zero or overflow; keep the previous value
+            if (!Number.isFinite(x)) return current[k];
+            if (k >= BOUNDED_VARIABLES.length) {
+                const bounds = extras[k - BOUNDED_VARIABLES.length].bounds;
+                return bounds ? Math.max(bounds[0], Math.min(bounds[1], x)) : x;
+            }
+            switch (policies[k]) {
+                case 'reflect':
+                    return reflect01(x);
+                case 'absorb':
+                    if (x <= 0 || x >= 1) {
+                        const boundary = x <= 0 ? 0 : 1;
+                        absorbed.push({ variable: BOUNDED_VARIABLES[k], boundary });
+                        return boundary;
+                    }
+                    return x;
+                case 'logit':
+                    return Math.max(LOGIT_EPSILON, Math.min(1 - LOGIT_EPSILON, x));
+                case 'clamp':
+                default:
+                    return clamp01(x);
+            }
+        });
+
+        // E4 is a deterministic accumulator driven by the pre-step agency
+        const drift = computeDrift(state, { ...params, dt }, control);
+        const nextState: SimulationState = {
+            C: next[0],
+            D: next[1],
+            A: next[2],
+            alertRate: Math.max(0, state.alertRate + drift.dAlertRate),
+            generation: state.generation + dt
+        };
+        if (extras.length > 0) {
+            nextState.extra = Object.fromEntries(extras.map((variable, i) => [variable.name, next[BOUNDED_VARIABLES.length + i]]));
+        }
+
+        return { state: nextState, absorbed };
+    };
+
+    return {
+        scheme,
+        start: current.map((x, k) => (inLogit[k] ? logit(x) : x)),
+        integrate: (y, dt, increment) => scheme.step(system, y, dt, correlateIncrement(increment, noise.cholesky)),
+        toModel,
+        finish
+    };
+}
+
+/**
+ * Advance the macro state one step of params.dt with the given scheme and boundary policies
+ * (see planStep)
+ */
+export function advanceState(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal,
+    rng: () => number = Math.random,
+    integrator: SdeIntegrator = params.integrator ?? 'euler-maruyama'
+): StepResult {
+    const plan = planStep(state, params, control, integrator);
+    const increment = sampleBrownianIncrement(plan.start.length, params.dt, plan.scheme.needsDoubleIntegral, rng);
+    return plan.finish(plan.integrate(plan.start, params.dt, increment), params.dt, rng);
+}
+
+/**
+ * Perform one integration step with the given scheme
+ */
+export function integrateStep(
+    state: SimulationState,
+    params: SimulationParameters,
+    control: ControlSignal,
+    rng: () => number = Math.random,
+    integrator: SdeIntegrator = params.integrator ?? 'euler-maruyama'
+): SimulationState {
+    return advanceState(state, params, control, rng, integrator).state;
+}
+
 /**
  * Perform one Euler-Maruyama integration step
  * 
@@ -104,29 +604,11 @@ export function eulerMaruyamaStep(
     control: ControlSignal,
     rng: () => number = Math.random
 ): SimulationState {
-    // Compute deterministic drift
-    const drift = computeDrift(state, params, control);
-
-    // Compute stochastic diffusion
-    const noise = computeDiffusion(params, rng);
-
-    // Update state with bounds enforcement
-    const newC = clamp01(state.C + drift.dC + noise.noiseC);
-    const newD = clamp01(state.D + drift.dD + noise.noiseD);
-    const newA = clamp01(state.A + drift.dA + noise.noiseA);
-    const newAlertRate = Math.max(0, state.alertRate + drift.dAlertRate);
-
-    return {
-        C: newC,
-        D: newD,
-        A: newA,
-        alertRate: newAlertRate,
-        generation: state.generation + params.dt
-    };
+    return integrateStep(state, params, control, rng, 'euler-maruyama');
 }
 
 /**
- * Run multiple simulation steps
+ * Run multiple simulation steps with the configured integrator
  */
 export function runSimulationSteps(
     initialState: SimulationState,
@@ -137,7 +619,7 @@ export function runSimulationSteps(
 ): SimulationState {
     let state = initialState;
     for (let i = 0; i < numSteps; i++) {
-        state = eulerMaruyamaStep(state, params, control, rng);
+        state = integrateStep(state, params, control, rng);
     }
     return state;
 }
@@ -1,5 +1,6 @@
 import { createSnapshot, normalizeScenarioId, parseSnapshot, SNAPSHOT_VERSION } from './snapshot';
 import { DEFAULT_CONTROL, DEFAULT_INITIAL_STATE, DEFAULT_PARAMETERS } from './types';
+import { MAX_LATTICE_SIDE } from './lattice/latticeEngine';
 
 function assert(condition: boolean, message: string) {
     if (!condition) {
@@ -45,8 +46,12 @@ function runTests() {
     const snapshot = createSnapshot({
         meta: { version: SNAPSHOT_VERSION, timestamp: 42, scenarioId: 'sde-v1' },
         store: {
-            sdeParameters: { ...DEFAULT_PARAMETERS, k_CD: 0.15 },
+            sdeParameters: { ...DEFAULT_PARAMETERS, k_CD: 0.15, integrator: 'srk15', boundaries: { C: 'reflect', D: 'absorb', A: 'logit' } },
             control: { ...DEFAULT_CONTROL },
+            controlSchedule: {
+                schedule: { kind: 'sequence', segments: [{ duration: 200, schedule: { kind: 'linear', points: [{ generation: 0, U: 0.1 }, { generation: 200, U: 0.8 }] } }, { duration: 50, schedule: { kind: 'pulse', base: 0.8, peak: 1, period: 50, width: 5, delay: 0 } }] },
+                startGeneration: 12
+            },
             bestAgency: 0.42,
             aiHistory: [],
             interventionLog: [],
@@ -60,6 +65,72 @@ function runTests() {
     assert(roundtrip !== null, 'Roundtrip snapshot parse');
     assert(roundtrip!.meta.version === SNAPSHOT_VERSION, 'Snapshot version preserved');
     assert(Math.abs(roundtrip!.store.sdeParameters.k_CD - 0.15) < 0.0001, 'Snapshot parameters preserved');
+    assert(roundtrip!.store.sdeParameters.integrator === 'srk15', 'Snapshot integrator preserved');
+    assert(parsed!.store.sdeParameters.integrator === 'euler-maruyama', 'Missing integrator defaults to Euler-Maruyama');
+    assert(roundtrip!.store.sdeParameters.boundaries?.D === 'absorb', 'Snapshot boundary policies preserved');
+    assert(JSON.stringify(roundtrip!.store.controlSchedule) === JSON.stringify(snapshot.store.controlSchedule), 'Snapshot control schedule preserved');
+    assert(parsed!.store.controlSchedule === null, 'Legacy snapshot has no control schedule');
+
+    const corrupt = parseSnapshot(JSON.stringify({ ...snapshot, store: { ...snapshot.store, controlSchedule: { schedule: { kind: 'sine', period: -1 }, startGeneration: 0 } } }));
+    assert(corrupt !== null && corrupt.store.controlSchedule === null, 'Invalid control schedule is dropped');
+
+    // Custom equation models keep only their declared parameters
+    const model = 'param k_B = 0.2 [0, 1]\nvar B = 0.3 [0, 1]\ndC = -C dt\ndD = -D dt\ndA = -A dt\ndB = (k_B*A - B) dt';
+    const withModel = parseSnapshot(JSON.stringify({
+        ...snapshot,
+        store: {
+            ...snapshot.store,
+            sdeParameters: { ...snapshot.store.sdeParameters, model, modelParameters: { k_B: 0.5, stale: 3 } },
+            currentState: { ...DEFAULT_INITIAL_STATE, extra: { B: 0.4, broken: 'x' } }
+        }
+    }));
+    assert(withModel!.store.sdeParameters.model === model, 'Snapshot equation model preserved');
+    assert(JSON.stringify(withModel!.store.sdeParameters.modelParameters) === JSON.stringify({ k_B: 0.5 }), 'Model parameters follow the declarations');
+    assert(withModel!.store.currentState.extra?.B === 0.4 && !('broken' in withModel!.store.currentState.extra!), 'Extra state variables are sanitized');
+
+    const badModel = parseSnapshot(JSON.stringify({ ...snapshot, store: { ...snapshot.store, sdeParameters: { ...snapshot.store.sdeParameters, model: 'dC = oops' } } }));
+    assert(badModel!.store.sdeParameters.model === undefined, 'Invalid equation model falls back to the built-in equations');
+
+    // Noise models keep valid correlations and jump processes only
+    const withNoise = parseSnapshot(JSON.stringify({
+        ...snapshot,
+        store: {
+            ...snapshot.store,
+            sdeParameters: {
+                ...snapshot.store.sdeParameters,
+                noise: {
+                    correlation: { CD: 0.5, CA: 2, DA: 0.5 },
+                    jumps: { C: { rate: 0.2, distribution: 'exponential', location: 0, scale: 0.05 }, A: { rate: 1, distribution: 'cauchy', location: 0, scale: 1 } }
+                }
+            }
+        }
+    }));
+    const noise = withNoise!.store.sdeParameters.noise;
+    assert(noise?.correlation?.CA === 1 && noise.correlation.CD === 0.5, 'Noise correlations are clamped to [-1, 1]');
+    assert(noise?.jumps?.C?.distribution === 'exponential' && noise.jumps.A === undefined, 'Jump processes with unknown distributions are dropped');
+
+    const impossible = parseSnapshot(JSON.stringify({
+        ...snapshot,
+        store: { ...snapshot.store, sdeParameters: { ...snapshot.store.sdeParameters, noise: { correlation: { CD: 0.9, CA: 0.9, DA: -0.9 } } } }
+    }));
+    assert(impossible!.store.sdeParameters.noise === undefined, 'Correlations that are not positive semi-definite are dropped');
+
+    // Lattice settings are clamped to the supported grid
+    const withLattice = parseSnapshot(JSON.stringify({
+        ...snapshot,
+        store: { ...snapshot.store, sdeParameters: { ...snapshot.store.sdeParameters, lattice: { enabled: true, width: 4096, height: 16, topology: 'klein' } } }
+    }));
+    const lattice = withLattice!.store.sdeParameters.lattice;
+    assert(lattice?.enabled === true && lattice.width === MAX_LATTICE_SIDE && lattice.height === 16, 'Lattice size is clamped');
+    assert(lattice?.topology === 'bounded', 'Unknown lattice topology falls back to bounded');
+
+    // Adaptive step bounds stay positive and ordered
+    const withAdaptive = parseSnapshot(JSON.stringify({
+        ...snapshot,
+        store: { ...snapshot.store, sdeParameters: { ...snapshot.store.sdeParameters, adaptive: { enabled: true, tolerance: 0, dtMin: 0.05, dtMax: 0.01 } } }
+    }));
+    const adaptive = withAdaptive!.store.sdeParameters.adaptive;
+    assert(adaptive?.enabled === true && adaptive.tolerance > 0 && adaptive.dtMax === 0.05, 'Adaptive step bounds are repaired');
 
     // normalizeScenarioId
     assert(normalizeScenarioId('math') === 'math', 'Known scenario id preserved');
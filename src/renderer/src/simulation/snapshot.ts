@@ -1,35 +1,30 @@
 import {
+    ActiveControlSchedule,
     AIHistoryEntry,
     ControlSignal,
     DEFAULT_CONTROL,
     DEFAULT_INITIAL_STATE,
-    DEFAULT_PARAMETERS,
     InterventionLogEntry,
     SimulationParameters,
     SimulationState
 } from './types';
-import { DEFAULT_MATH_CONFIG, MathConfig } from './scenarios/math/MathTypes';
-import { DEFAULT_ALIGNMENT_CONFIG, AlignmentConfig } from './scenarios/alignment/AlignmentTypes';
-import { DEFAULT_BIO_CONFIG, BioConfig } from './scenarios/bio/BioTypes';
-import { DEFAULT_AGENT_CONFIG, AgentConfig } from './scenarios/agents/AgentTypes';
-import { DEFAULT_ERDOS_CONFIG, ErdosConfig } from './scenarios/erdos/ErdosTypes';
+import { sanitizeActiveSchedule } from './control/controlSchedule';
+import { DEFAULT_SCENARIO_ID, ScenarioConfigs, getScenarioPlugin, isRegisteredScenario, sanitizeScenarioConfigs } from './scenarios/scenarioRegistry';
+import { sanitizeControlChannels } from '../../../shared/schemas/controlSchema';
+import { sanitizeSdeParameters } from './scenarios/sde/sdePlugin';
 
 export const SNAPSHOT_VERSION = '2.1.0';
 
 export interface SnapshotStore {
     sdeParameters: SimulationParameters;
     control: ControlSignal;
+    /** Time-varying control protocol in effect, if any */
+    controlSchedule: ActiveControlSchedule | null;
     bestAgency: number;
     aiHistory: AIHistoryEntry[];
     interventionLog: InterventionLogEntry[];
     currentState: SimulationState;
-    scenarioConfigs: {
-        math: MathConfig;
-        alignment: AlignmentConfig;
-        bio: BioConfig;
-        agents: AgentConfig;
-        erdos: ErdosConfig;
-    };
+    scenarioConfigs: ScenarioConfigs;
 }
 
 export interface SnapshotMeta {
@@ -44,13 +39,11 @@ export interface SnapshotData {
     scenarioData: string;
 }
 
-const KNOWN_SCENARIOS = new Set(['sde-v1', 'math', 'alignment', 'bio', 'agents', 'erdos']);
-
 export const normalizeScenarioId = (value: unknown): string => {
-    if (typeof value === 'string' && KNOWN_SCENARIOS.has(value)) {
+    if (isRegisteredScenario(value)) {
         return value;
     }
-    return 'sde-v1';
+    return DEFAULT_SCENARIO_ID;
 };
 
 const isRecord = (value: unknown): value is Record<string, unknown> => {
@@ -63,106 +56,33 @@ const isFiniteNumber = (value: unknown): value is number => {
 
 const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
 
-const sanitizeParameters = (value: unknown): SimulationParameters => {
-    if (!isRecord(value)) return { ...DEFAULT_PARAMETERS };
-    const next = { ...DEFAULT_PARAMETERS };
-    (Object.keys(next) as (keyof SimulationParameters)[]).forEach(key => {
-        const candidate = value[key];
-        if (isFiniteNumber(candidate)) {
-            next[key] = candidate as any;
-        }
-    });
-    return next;
+const sanitizeExtraState = (value: unknown): Record<string, number> | undefined => {
+    if (!isRecord(value)) return undefined;
+    const entries = Object.entries(value).filter((entry): entry is [string, number] => isFiniteNumber(entry[1]));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
 };
 
-const sanitizeControl = (value: unknown): ControlSignal => {
+/** U, plus the channels the scenario declares (clamped to their ranges) */
+const sanitizeControl = (value: unknown, scenarioId: string): ControlSignal => {
     if (!isRecord(value)) return { ...DEFAULT_CONTROL };
     const u = isFiniteNumber(value.U) ? clamp01(value.U) : DEFAULT_CONTROL.U;
-    return { U: u };
+    const schema = getScenarioPlugin(scenarioId)?.controls;
+    const channels = schema ? sanitizeControlChannels(value.channels, schema) : undefined;
+    return channels ? { U: u, channels } : { U: u };
 };
 
 const sanitizeState = (value: unknown): SimulationState => {
     if (!isRecord(value)) return { ...DEFAULT_INITIAL_STATE };
-    return {
+    const state: SimulationState = {
         C: isFiniteNumber(value.C) ? clamp01(value.C) : DEFAULT_INITIAL_STATE.C,
         D: isFiniteNumber(value.D) ? clamp01(value.D) : DEFAULT_INITIAL_STATE.D,
         A: isFiniteNumber(value.A) ? clamp01(value.A) : DEFAULT_INITIAL_STATE.A,
         alertRate: isFiniteNumber(value.alertRate) ? Math.max(0, value.alertRate) : DEFAULT_INITIAL_STATE.alertRate,
         generation: isFiniteNumber(value.generation) ? value.generation : DEFAULT_INITIAL_STATE.generation
     };
-};
-
-const sanitizeMathConfig = (value: unknown): MathConfig => {
-    if (!isRecord(value)) return { ...DEFAULT_MATH_CONFIG };
-    return {
-        populationSize: isFiniteNumber(value.populationSize) ? Math.max(1, Math.floor(value.populationSize)) : DEFAULT_MATH_CONFIG.populationSize,
-        mutationRate: isFiniteNumber(value.mutationRate) ? clamp01(value.mutationRate) : DEFAULT_MATH_CONFIG.mutationRate,
-        tasksPerGen: isFiniteNumber(value.tasksPerGen) ? Math.max(1, Math.floor(value.tasksPerGen)) : DEFAULT_MATH_CONFIG.tasksPerGen,
-        difficultyScale: isFiniteNumber(value.difficultyScale) ? Math.max(0, value.difficultyScale) : DEFAULT_MATH_CONFIG.difficultyScale,
-        noveltyThreshold: isFiniteNumber(value.noveltyThreshold) ? clamp01(value.noveltyThreshold) : DEFAULT_MATH_CONFIG.noveltyThreshold,
-        verificationBudget: isFiniteNumber(value.verificationBudget) ? Math.max(0, Math.floor(value.verificationBudget)) : DEFAULT_MATH_CONFIG.verificationBudget,
-        enableTheorems: typeof value.enableTheorems === 'boolean' ? value.enableTheorems : DEFAULT_MATH_CONFIG.enableTheorems
-    };
-};
-
-const sanitizeAlignmentConfig = (value: unknown): AlignmentConfig => {
-    if (!isRecord(value)) return { ...DEFAULT_ALIGNMENT_CONFIG };
-    return {
-        populationSize: isFiniteNumber(value.populationSize) ? Math.max(1, Math.floor(value.populationSize)) : DEFAULT_ALIGNMENT_CONFIG.populationSize,
-        mutationRate: isFiniteNumber(value.mutationRate) ? clamp01(value.mutationRate) : DEFAULT_ALIGNMENT_CONFIG.mutationRate,
-        baseResourceRate: isFiniteNumber(value.baseResourceRate) ? Math.max(0, value.baseResourceRate) : DEFAULT_ALIGNMENT_CONFIG.baseResourceRate
-    };
-};
-
-const sanitizeBioConfig = (value: unknown): BioConfig => {
-    if (!isRecord(value)) return { ...DEFAULT_BIO_CONFIG };
-    return {
-        initialPopulation: isFiniteNumber(value.initialPopulation) ? Math.max(1, Math.floor(value.initialPopulation)) : DEFAULT_BIO_CONFIG.initialPopulation,
-        maxPopulation: isFiniteNumber(value.maxPopulation) ? Math.max(1, Math.floor(value.maxPopulation)) : DEFAULT_BIO_CONFIG.maxPopulation,
-        mutationRate: isFiniteNumber(value.mutationRate) ? clamp01(value.mutationRate) : DEFAULT_BIO_CONFIG.mutationRate,
-        energyPerTick: isFiniteNumber(value.energyPerTick) ? Math.max(0, value.energyPerTick) : DEFAULT_BIO_CONFIG.energyPerTick,
-        mineralInflux: isFiniteNumber(value.mineralInflux) ? Math.max(0, value.mineralInflux) : DEFAULT_BIO_CONFIG.mineralInflux
-    };
-};
-
-const sanitizeAgentConfig = (value: unknown): AgentConfig => {
-    if (!isRecord(value)) return { ...DEFAULT_AGENT_CONFIG };
-    return {
-        populationSize: isFiniteNumber(value.populationSize) ? Math.max(1, Math.floor(value.populationSize)) : DEFAULT_AGENT_CONFIG.populationSize,
-        tasksPerGen: isFiniteNumber(value.tasksPerGen) ? Math.max(1, Math.floor(value.tasksPerGen)) : DEFAULT_AGENT_CONFIG.tasksPerGen,
-        baseTaskDifficulty: isFiniteNumber(value.baseTaskDifficulty) ? Math.max(1, value.baseTaskDifficulty) : DEFAULT_AGENT_CONFIG.baseTaskDifficulty,
-        driftRate: isFiniteNumber(value.driftRate) ? clamp01(value.driftRate) : DEFAULT_AGENT_CONFIG.driftRate
-    };
-};
-
-
-const sanitizeErdosConfig = (value: unknown): ErdosConfig => {
-    if (!isRecord(value)) return { ...DEFAULT_ERDOS_CONFIG };
-    return {
-        populationSize: isFiniteNumber(value.populationSize) ? Math.max(1, Math.floor(value.populationSize)) : DEFAULT_ERDOS_CONFIG.populationSize,
-        problemsPerGeneration: 1,
-        mutationRate: isFiniteNumber(value.mutationRate) ? clamp01(value.mutationRate) : DEFAULT_ERDOS_CONFIG.mutationRate,
-        collaborationBoost: isFiniteNumber(value.collaborationBoost) ? clamp01(value.collaborationBoost) : DEFAULT_ERDOS_CONFIG.collaborationBoost
-    };
-};
-
-const sanitizeScenarioConfigs = (value: unknown): SnapshotStore['scenarioConfigs'] => {
-    if (!isRecord(value)) {
-        return {
-            math: { ...DEFAULT_MATH_CONFIG },
-            alignment: { ...DEFAULT_ALIGNMENT_CONFIG },
-            bio: { ...DEFAULT_BIO_CONFIG },
-            agents: { ...DEFAULT_AGENT_CONFIG },
-            erdos: { ...DEFAULT_ERDOS_CONFIG }
-        };
-    }
-    return {
-        math: sanitizeMathConfig(value.math),
-        alignment: sanitizeAlignmentConfig(value.alignment),
-        bio: sanitizeBioConfig(value.bio),
-        agents: sanitizeAgentConfig(value.agents),
-        erdos: sanitizeErdosConfig(value.erdos)
-    };
+    const extra = sanitizeExtraState(value.extra);
+    if (extra) state.extra = extra;
+    return state;
 };
 
 export const createSnapshot = (data: SnapshotData): SnapshotData => {
@@ -182,8 +102,9 @@ const migrateV2_0 = (raw: any): SnapshotData | null => {
     const scenarioId = normalizeScenarioId(raw.meta.scenarioId);
     const store = raw.store as Record<string, unknown>;
     const storeData: SnapshotStore = {
-        sdeParameters: sanitizeParameters(store.parameters),
-        control: sanitizeControl(store.control),
+        sdeParameters: sanitizeSdeParameters(store.parameters),
+        control: sanitizeControl(store.control, scenarioId),
+        controlSchedule: null,
         bestAgency: isFiniteNumber(store.bestAgency) ? store.bestAgency : 0,
         aiHistory: Array.isArray(store.aiHistory) ? store.aiHistory as AIHistoryEntry[] : [],
         interventionLog: Array.isArray(store.interventionLog) ? store.interventionLog as InterventionLogEntry[] : [],
@@ -221,8 +142,9 @@ export const parseSnapshot = (json: string): SnapshotData | null => {
                     scenarioId
                 },
                 store: {
-                    sdeParameters: sanitizeParameters(raw.store.sdeParameters),
-                    control: sanitizeControl(raw.store.control),
+                    sdeParameters: sanitizeSdeParameters(raw.store.sdeParameters),
+                    control: sanitizeControl(raw.store.control, scenarioId),
+                    controlSchedule: sanitizeActiveSchedule(raw.store.controlSchedule),
                     bestAgency: isFiniteNumber(raw.store.bestAgency) ? raw.store.bestAgency : 0,
                     aiHistory: Array.isArray(raw.store.aiHistory) ? raw.store.aiHistory as AIHistoryEntry[] : [],
                     interventionLog: Array.isArray(raw.store.interventionLog) ? raw.store.interventionLog as InterventionLogEntry[] : [],
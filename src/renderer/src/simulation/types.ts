@@ -15,12 +15,140 @@ export interface SimulationState {
     alertRate: number;
     /** Current generation/timestep */
     generation: number;
+    /** Extra state variables declared by a custom equation model */
+    extra?: Record<string, number>;
 }
 
 /** Control signal applied by researcher */
 export interface ControlSignal {
     /** Environment difficulty/novelty control (0-1) */
     U: number;
+    /**
+     * Values of the scenario's named control channels (its plugin's `controls`)
+     * that were set explicitly; channels left out follow their default or U
+     */
+    channels?: Record<string, number>;
+}
+
+/** Breakpoint of a piecewise control schedule (generation relative to the schedule start) */
+export interface ScheduleBreakpoint {
+    generation: number;
+    U: number;
+}
+
+/**
+ * Time-varying protocol for the control U(t).
+ * linear interpolates between breakpoints, step holds each value until the next one,
+ * sine and pulse repeat with the given period, and sequence plays its segments back to back
+ * (the last segment keeps running past its duration).
+ */
+export type ControlSchedule =
+    | { kind: 'linear'; points: ScheduleBreakpoint[] }
+    | { kind: 'step'; points: ScheduleBreakpoint[] }
+    | { kind: 'sine'; mean: number; amplitude: number; period: number; phase: number }
+    | { kind: 'pulse'; base: number; peak: number; period: number; width: number; delay: number }
+    | { kind: 'sequence'; segments: ScheduleSegment[] };
+
+export interface ScheduleSegment {
+    /** Generations this segment lasts before the next one starts */
+    duration: number;
+    schedule: ControlSchedule;
+}
+
+/** A control schedule anchored at the generation it took over */
+export interface ActiveControlSchedule {
+    schedule: ControlSchedule;
+    startGeneration: number;
+}
+
+/** Numerical integration scheme for the SDE model */
+export type SdeIntegrator = 'euler-maruyama' | 'milstein' | 'srk15';
+
+/**
+ * How a state variable is kept inside [0, 1]:
+ * clamp (hard clip), reflect (mirror at the wall), absorb (stick at the wall, reported as extinction)
+ * or logit (integrate in logit space so the walls are never reached)
+ */
+export type BoundaryPolicy = 'clamp' | 'reflect' | 'absorb' | 'logit';
+
+/** Per-variable boundary policies for C, D and A */
+export interface SdeBoundaryPolicies {
+    C: BoundaryPolicy;
+    D: BoundaryPolicy;
+    A: BoundaryPolicy;
+}
+
+/**
+ * Pairwise correlations of the Wiener increments of C, D and A.
+ * With the sigma scales they define the noise covariance sigma_i sigma_j rho_ij.
+ */
+export interface NoiseCorrelation {
+    CD: number;
+    CA: number;
+    DA: number;
+}
+
+/** Distribution of a single jump size */
+export type JumpSizeDistribution = 'normal' | 'uniform' | 'exponential';
+
+/**
+ * Compound-Poisson jumps added to one variable.
+ * Sizes are location + scale * Z with Z standard normal, uniform on [-1, 1]
+ * or Exp(1) (one-sided; a negative scale gives downward jumps).
+ */
+export interface JumpProcess {
+    /** Expected jumps per generation */
+    rate: number;
+    distribution: JumpSizeDistribution;
+    location: number;
+    scale: number;
+}
+
+/** Noise beyond independent Gaussian increments (independent, jump-free when absent) */
+export interface SdeNoiseModel {
+    correlation?: NoiseCorrelation;
+    jumps?: Partial<Record<'C' | 'D' | 'A', JumpProcess>>;
+}
+
+/** Lattice edges: bounded (no-flux walls) or torus (periodic) */
+export type LatticeTopology = 'bounded' | 'torus';
+
+/**
+ * How the global control U is spread over the lattice:
+ * uniform everywhere, a left-to-right gradient, or peaked at the center
+ */
+export type LatticeControlPattern = 'uniform' | 'gradient' | 'center';
+
+/**
+ * Spatially extended SDE: every cell of a width x height grid carries its own
+ * C, D, A and is coupled to its four nearest neighbors by diffusion
+ */
+export interface LatticeConfig {
+    enabled: boolean;
+    width: number;
+    height: number;
+    /** Diffusion coupling per variable (1/generation); kept below 0.25/dt for stability */
+    coupling: { C: number; D: number; A: number };
+    topology: LatticeTopology;
+    controlPattern: LatticeControlPattern;
+    /** Range of the local U across the pattern (U_i = U + spread * (profile_i - 0.5)) */
+    controlSpread: number;
+    /** Random offset (+/-) of each cell's initial C, D, A */
+    initialJitter: number;
+}
+
+/**
+ * Adaptive time-stepping: every dt tick is covered by substeps whose size follows
+ * a step-doubling estimate of the local error
+ */
+export interface AdaptiveStepConfig {
+    enabled: boolean;
+    /** Largest local error (max over variables) accepted per substep */
+    tolerance: number;
+    /** Smallest substep; a substep this short is accepted whatever its error */
+    dtMin: number;
+    /** Largest substep (a substep never runs past the end of the tick) */
+    dtMax: number;
 }
 
 /** SDE Model Parameters */
@@ -49,6 +177,20 @@ export interface SimulationParameters {
     dt: number;
     /** Whether to use GPU for compute (Ensemble Mode) */
     useGPU?: boolean;
+    /** Integration scheme used by the CPU engine (default Euler-Maruyama) */
+    integrator?: SdeIntegrator;
+    /** Boundary handling per state variable (default clamp) */
+    boundaries?: SdeBoundaryPolicies;
+    /** Equation-DSL source replacing E1-E3 (built-in equations when absent) */
+    model?: string;
+    /** Values of the parameters declared by `model` */
+    modelParameters?: Record<string, number>;
+    /** Correlated Wiener increments and jumps for C, D and A */
+    noise?: SdeNoiseModel;
+    /** Spatial lattice mode (a single well-mixed point when absent or disabled) */
+    lattice?: LatticeConfig;
+    /** Adaptive substeps with local error control (fixed dt steps when absent or disabled) */
+    adaptive?: AdaptiveStepConfig;
 
     // New tunable coefficients
     /** Complexity decay rate (default 0.3) */
@@ -85,6 +227,8 @@ export interface TelemetryPoint {
     A: number;
     U: number;
     alertRate: number;
+    /** Effective control channel values of the step, for scenarios that declare channels */
+    controls?: Record<string, number>;
 }
 
 /** Alert event when agency crosses threshold */
@@ -110,12 +254,12 @@ export interface AIHistoryEntry {
     };
 }
 
-/** Log entry for any intervention (Manual or AI) */
+/** Log entry for any intervention (Manual, AI, offline MPC or a schedule) */
 export interface InterventionLogEntry {
     id: string;
     timestamp: number; // generation
     realtime: Date;
-    source: 'USER' | 'AI';
+    source: 'USER' | 'AI' | 'MPC' | 'SCHEDULE';
     action: string;
     reasoning?: string;
 }
@@ -185,6 +329,8 @@ export const DEFAULT_PARAMETERS: SimulationParameters = {
     A_alert: 0.75, // Updated target
     dt: 0.1,
     useGPU: false,
+    integrator: 'euler-maruyama',
+    boundaries: { C: 'clamp', D: 'clamp', A: 'clamp' },
 
     // New defaults matching original hardcoded values
     k_C_decay: 0.3,
@@ -208,7 +354,8 @@ export interface ScenarioMetadata {
     name: string;
     description: string;
     version: string;
-    type: 'sde' | 'math' | 'alignment' | 'bio' | 'agents' | 'erdos';
+    /** Scenario family: 'sde', 'math', 'alignment', 'bio', 'agents', 'erdos' or a plugin's own */
+    type: string;
 }
 
 /**
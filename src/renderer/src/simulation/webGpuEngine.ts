@@ -1,28 +1,56 @@
 
-import { SimulationParameters, ControlSignal, SimulationState } from './types';
+import { SimulationParameters, ControlSignal, SimulationState, BoundaryPolicy, JumpSizeDistribution } from './types';
+import { resolveBoundaries } from './sdeEngine';
+import { NOISE_VARIABLES, resolveNoiseModel } from './model/noiseModel';
+import { DEFAULT_MODEL_SOURCE, EquationModel, getEquationModel, resolveModelParameters } from './model/equationDsl';
+import { MODEL_PARAM_PREFIX, ModelKernel, generateModelKernel } from './model/equationWgsl';
+
+/** Boundary policy codes shared with the shader's bounded_update */
+const BOUNDARY_CODES: Record<BoundaryPolicy, number> = {
+    clamp: 0,
+    reflect: 1,
+    absorb: 2,
+    logit: 3
+};
+
+/** Jump-size distribution codes shared with the shader's jump_total */
+const JUMP_CODES: Record<JumpSizeDistribution, number> = {
+    normal: 0,
+    uniform: 1,
+    exponential: 2
+};
 
-// WGSL Compute Shader
-const SDE_SHADER = `
+/** Uniform fields shared by every model, in buffer order */
+const BASE_PARAM_FIELDS = [
+    'k_CD', 'k_U', 'k_DU', 'k_AC',
+    'k_C_decay', 'k_D_growth', 'k_D_decay', 'k_AU', 'k_A_decay',
+    'tau', 'eps', 'A_alert', 'dt',
+    'sigma_C', 'sigma_D', 'sigma_A', 'U',
+    'generation', 'seed',
+    'boundary_C', 'boundary_D', 'boundary_A',
+    'noise_L10', 'noise_L11', 'noise_L20', 'noise_L21', 'noise_L22',
+    'jump_rate_C', 'jump_kind_C', 'jump_location_C', 'jump_scale_C',
+    'jump_rate_D', 'jump_kind_D', 'jump_location_D', 'jump_scale_D',
+    'jump_rate_A', 'jump_kind_A', 'jump_location_A', 'jump_scale_A'
+] as const;
+
+/** A compiled ensemble shader and the uniform layout it expects */
+export interface SdeShader {
+    code: string;
+    /** Uniform field names in buffer order */
+    fields: string[];
+    /** Uniform buffer size in bytes (multiple of 16) */
+    paramBufferSize: number;
+}
+
+/**
+ * Build the WGSL compute shader for a model kernel (E1-E3 come from the DSL, E4 is fixed)
+ */
+export function buildSdeShader(kernel: ModelKernel): SdeShader {
+    const fields = [...BASE_PARAM_FIELDS, ...kernel.paramFields];
+    const code = `
 struct Params {
-    k_CD: f32,
-    k_U: f32,
-    k_DU: f32,
-    k_AC: f32,
-    k_C_decay: f32,
-    k_D_growth: f32,
-    k_D_decay: f32,
-    k_AU: f32,
-    k_A_decay: f32,
-    tau: f32,
-    eps: f32,
-    A_alert: f32,
-    dt: f32,
-    sigma_C: f32,
-    sigma_D: f32,
-    sigma_A: f32,
-    U: f32,
-    generation: f32,
-    seed: f32,
+${fields.map(field => `    ${field}: f32,`).join('\n')}
 };
 
 struct AgentState {
@@ -63,6 +91,61 @@ fn sigmoid(x: f32) -> f32 {
     return 1.0 / (1.0 + exp(-x));
 }
 
+fn reflect01(x: f32) -> f32 {
+    var folded = x - 2.0 * floor(x / 2.0);
+    if (folded > 1.0) {
+        folded = 2.0 - folded;
+    }
+    return folded;
+}
+
+// Total compound-Poisson jump over one step (mirrors sampleJumps in sdeEngine.ts)
+// kind: 0 = normal, 1 = uniform, 2 = exponential; at most 32 jumps per step
+fn jump_total(rate: f32, kind: f32, location: f32, scale: f32, seed: u32) -> f32 {
+    if (rate <= 0.0) {
+        return 0.0;
+    }
+    let threshold = exp(-rate * params.dt);
+    let mode = u32(kind + 0.5);
+    var product = rand_float(seed);
+    var total = 0.0;
+    var count = 0u;
+    loop {
+        if (product <= threshold || count >= 32u) { break; }
+        let s = seed + (count + 1u) * 7919u;
+        var z = rand_normal(s, s + 1u);
+        if (mode == 1u) {
+            z = 2.0 * rand_float(s) - 1.0;
+        } else if (mode == 2u) {
+            z = -log(max(1.0 - rand_float(s), 0.0000001));
+        }
+        total = total + location + scale * z;
+        count = count + 1u;
+        product = product * rand_float(s + 2u);
+    }
+    return total;
+}
+
+// Advance one bounded variable (mirrors advanceState in sdeEngine.ts)
+// policy: 0 = clamp, 1 = reflect, 2 = absorb, 3 = logit; jumps land after the diffusion step
+fn bounded_update(x: f32, drift: f32, noise: f32, jump: f32, policy: f32) -> f32 {
+    let mode = u32(policy + 0.5);
+    if (mode == 2u && (x <= 0.0 || x >= 1.0)) {
+        return x;
+    }
+    if (mode == 3u) {
+        let xc = clamp(x, 0.000001, 0.999999);
+        let y = log(xc / (1.0 - xc)) + (drift + noise) / (xc * (1.0 - xc));
+        return clamp(sigmoid(y) + jump, 0.000001, 0.999999);
+    }
+    let next = x + drift + noise + jump;
+    if (mode == 1u) {
+        return reflect01(next);
+    }
+    // Clamp; an absorbing variable lands on the wall it crossed and stays there
+    return clamp(next, 0.0, 1.0);
+}
+
 @compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     let index = global_id.x;
@@ -76,28 +159,30 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
     // Generate noise
     // Combine index, generation, and separate salts to decorrelate dimensions
     let seed_base = index + u32(params.generation * 1000.0) + u32(params.seed);
-    
-    let noiseC = params.sigma_C * rand_normal(seed_base, seed_base + 100000u) * sqrt(params.dt);
-    let noiseD = params.sigma_D * rand_normal(seed_base + 200000u, seed_base + 300000u) * sqrt(params.dt);
-    let noiseA = params.sigma_A * rand_normal(seed_base + 400000u, seed_base + 500000u) * sqrt(params.dt);
 
-    // E1: Complexity
-    let dC = (params.k_CD * current.D * (1.0 - current.C) + params.k_U * params.U * (1.0 - current.C) - params.k_C_decay * current.C) * params.dt;
-    
-    // E2: Diversity
-    let dD = (params.k_D_growth * (1.0 - current.D) - params.k_DU * params.U * current.D - params.k_D_decay * current.D * current.D) * params.dt;
-    
-    // E3: Agency
-    let dA = (params.k_AC * current.C * (1.0 - current.A) + params.k_AU * params.U * current.C * (1.0 - current.A) - params.k_A_decay * current.A) * params.dt;
-    
+    // Standard normals per channel (distinct salts), correlated by the Cholesky factor L
+    let zC = rand_normal(seed_base, seed_base + 100000u);
+    let zD = rand_normal(seed_base + 200000u, seed_base + 300000u);
+    let zA = rand_normal(seed_base + 400000u, seed_base + 500000u);
+    let wC = zC;
+    let wD = params.noise_L10 * zC + params.noise_L11 * zD;
+    let wA = params.noise_L20 * zC + params.noise_L21 * zD + params.noise_L22 * zA;
+
+    let jumpC = jump_total(params.jump_rate_C, params.jump_kind_C, params.jump_location_C, params.jump_scale_C, seed_base + 1000000u);
+    let jumpD = jump_total(params.jump_rate_D, params.jump_kind_D, params.jump_location_D, params.jump_scale_D, seed_base + 2000000u);
+    let jumpA = jump_total(params.jump_rate_A, params.jump_kind_A, params.jump_location_A, params.jump_scale_A, seed_base + 3000000u);
+
+    // E1-E3 (generated from the equation model)
+${kernel.body}
+
     // E4: Alert Rate
     let alertSignal = sigmoid((current.A - params.A_alert) / params.eps);
     let dAlertRate = (1.0 / params.tau) * alertSignal * params.dt;
 
     // Update
-    var nextC = clamp(current.C + dC + noiseC, 0.0, 1.0);
-    var nextD = clamp(current.D + dD + noiseD, 0.0, 1.0);
-    var nextA = clamp(current.A + dA + noiseA, 0.0, 1.0);
+    var nextC = bounded_update(current.C, dC, noiseC, jumpC, params.boundary_C);
+    var nextD = bounded_update(current.D, dD, noiseD, jumpD, params.boundary_D);
+    var nextA = bounded_update(current.A, dA, noiseA, jumpA, params.boundary_A);
     var nextAlertRate = max(0.0, current.alertRate + dAlertRate);
 
     // Write back
@@ -106,6 +191,9 @@ fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
 }
 `;
 
+    return { code, fields, paramBufferSize: Math.ceil((fields.length * 4) / 16) * 16 };
+}
+
 const REDUCE_SHADER = `
 struct AgentState {
     C: f32,
@@ -153,11 +241,40 @@ fn main(
 }
 `;
 
+/**
+ * Uniform values of the noise model: the Cholesky factor (identity for independent noise)
+ * and each variable's jump process (rate 0 when it has none)
+ */
+function noiseUniforms(params: SimulationParameters): Record<string, number> {
+    const noise = resolveNoiseModel(params);
+    const L = noise.cholesky ?? [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    const uniforms: Record<string, number> = {
+        noise_L10: L[1][0],
+        noise_L11: L[1][1],
+        noise_L20: L[2][0],
+        noise_L21: L[2][1],
+        noise_L22: L[2][2]
+    };
+    NOISE_VARIABLES.forEach((variable, k) => {
+        const process = noise.jumps[k];
+        uniforms[`jump_rate_${variable}`] = process?.rate ?? 0;
+        uniforms[`jump_kind_${variable}`] = process ? JUMP_CODES[process.distribution] : 0;
+        uniforms[`jump_location_${variable}`] = process?.location ?? 0;
+        uniforms[`jump_scale_${variable}`] = process?.scale ?? 0;
+    });
+    return uniforms;
+}
+
 export class WebGpuEngine {
     private device: GPUDevice | null = null;
     private pipeline: GPUComputePipeline | null = null;
     private reducePipeline: GPUComputePipeline | null = null;
     private bindGroup: GPUBindGroup | null = null;
+    private shader: SdeShader | null = null;
+    /** Model compiled into the current pipeline */
+    private model: EquationModel | null = null;
+    /** Last model source requested, so an unsupported model is only reported once */
+    private modelSource: string = DEFAULT_MODEL_SOURCE;
 
     private paramBuffer: GPUBuffer | null = null;
     private stateBufferA: GPUBuffer | null = null; // Ping
@@ -201,20 +318,8 @@ export class WebGpuEngine {
 
             this.device.pushErrorScope('validation');
 
-            // Compile Shader
-            const shaderModule = this.device.createShaderModule({
-                code: SDE_SHADER
-            });
-
-            // Pipeline Layout
-            // We need a uniform buffer and two storage buffers (current state, next state)
-            this.pipeline = this.device.createComputePipeline({
-                layout: 'auto',
-                compute: {
-                    module: shaderModule,
-                    entryPoint: 'main'
-                }
-            });
+            // Compile the shader for the built-in model; this also creates the uniform buffer
+            this.loadModel(DEFAULT_MODEL_SOURCE);
 
             const reduceModule = this.device.createShaderModule({
                 code: REDUCE_SHADER
@@ -234,12 +339,6 @@ export class WebGpuEngine {
                 return false;
             }
 
-            // Create Buffers
-            this.paramBuffer = this.device.createBuffer({
-                size: 80, // 19 floats * 4 bytes = 76, aligned to 16 bytes -> 80 is safe (needs to be multiple of 16)
-                usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
-            });
-
             // Struct size: 4 floats = 16 bytes
             const stateBufferSize = this.numAgents * 16;
 
@@ -289,33 +388,79 @@ export class WebGpuEngine {
         }
     }
 
+    /**
+     * Compile the ensemble pipeline for a model's equations.
+     * Models the GPU cannot run (invalid, or with extra state variables) keep the current shader.
+     */
+    private loadModel(source: string): boolean {
+        this.modelSource = source;
+        if (!this.device) return false;
+
+        const model = getEquationModel(source);
+        const kernel = model ? generateModelKernel(model) : null;
+        if (!model || !kernel) {
+            console.warn("[WebGPU] Equation model cannot run on the GPU; keeping the current shader.");
+            return false;
+        }
+
+        const shader = buildSdeShader(kernel);
+        // Pipeline Layout
+        // We need a uniform buffer and two storage buffers (current state, next state)
+        this.pipeline = this.device.createComputePipeline({
+            layout: 'auto',
+            compute: {
+                module: this.device.createShaderModule({ code: shader.code }),
+                entryPoint: 'main'
+            }
+        });
+
+        if (!this.paramBuffer || this.paramBuffer.size !== shader.paramBufferSize) {
+            this.paramBuffer?.destroy();
+            this.paramBuffer = this.device.createBuffer({
+                size: shader.paramBufferSize,
+                usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+            });
+        }
+
+        this.shader = shader;
+        this.model = model;
+        return true;
+    }
+
     async step(
         currentParams: SimulationParameters,
         control: ControlSignal,
         lastState: SimulationState // Used for generation tracking, actual state is on GPU
     ): Promise<SimulationState> {
-        if (!this.device || !this.pipeline || !this.reducePipeline || !this.paramBuffer || !this.stateBufferA || !this.stateBufferB || !this.partialSumBuffer || !this.partialReadbackBuffer) {
+        if (!this.device || !this.pipeline || !this.reducePipeline || !this.paramBuffer || !this.shader || !this.model || !this.stateBufferA || !this.stateBufferB || !this.partialSumBuffer || !this.partialReadbackBuffer) {
             throw new Error("WebGPU not initialized");
         }
 
         this.device.pushErrorScope('validation');
 
+        const modelSource = currentParams.model ?? DEFAULT_MODEL_SOURCE;
+        if (modelSource !== this.modelSource) {
+            this.loadModel(modelSource);
+        }
+
         // 1. Update Uniforms
-        // Struct alignment in WGSL is strict. Floats are 4 bytes.
-        // struct Params {
-        //     k_CD: f32, k_U: f32, k_DU: f32, k_AC: f32, 
-        //     k_C_decay: f32, k_D_growth: f32, k_D_decay: f32, k_AU: f32, k_A_decay: f32,
-        //     tau: f32, eps: f32, A_alert: f32, dt: f32,
-        //     sigma_C: f32, sigma_D: f32, sigma_A: f32, U: f32,
-        //     generation: f32, seed: f32
-        // };
-        const paramArray = new Float32Array([
-            currentParams.k_CD, currentParams.k_U, currentParams.k_DU, currentParams.k_AC,
-            currentParams.k_C_decay, currentParams.k_D_growth, currentParams.k_D_decay, currentParams.k_AU, currentParams.k_A_decay,
-            currentParams.tau, currentParams.eps, currentParams.A_alert, currentParams.dt,
-            currentParams.sigma_C, currentParams.sigma_D, currentParams.sigma_A, control.U,
-            lastState.generation, Math.random() * 10000 // Seed
-        ]);
+        // Every Params field is an f32, packed in the order of shader.fields
+        const boundaries = resolveBoundaries(currentParams);
+        const modelParameters = resolveModelParameters(this.model, currentParams.modelParameters);
+        const uniforms: Record<string, number> = {
+            U: control.U,
+            generation: lastState.generation,
+            seed: Math.random() * 10000,
+            boundary_C: BOUNDARY_CODES[boundaries.C],
+            boundary_D: BOUNDARY_CODES[boundaries.D],
+            boundary_A: BOUNDARY_CODES[boundaries.A],
+            ...noiseUniforms(currentParams)
+        };
+        const paramArray = new Float32Array(this.shader.fields.map(field => {
+            if (field in uniforms) return uniforms[field];
+            if (field.startsWith(MODEL_PARAM_PREFIX)) return modelParameters[field.slice(MODEL_PARAM_PREFIX.length)] ?? 0;
+            return currentParams[field as keyof SimulationParameters] as number;
+        }));
 
         this.device.queue.writeBuffer(this.paramBuffer, 0, paramArray);
 
@@ -13,53 +13,80 @@ import {
     AIHistoryEntry,
     ScenarioMetadata,
     InterventionLogEntry,
-    ScenarioEvent
+    ScenarioEvent,
+    ControlSchedule,
+    ActiveControlSchedule
 } from '../simulation/types';
 import { fetchAIControl, generateAgentDescription } from '../services/aiService';
 import { LibraryEntry, LegacyAgent, LIBRARY_SCHEMA_VERSION } from '../../../shared/agentLibrary';
-import { ScenarioRunner } from '../simulation/runner/ScenarioRunner';
+import { ScenarioRunner, SimulationRunner } from '../simulation/runner/ScenarioRunner';
+import { WorkerScenarioRunner } from '../simulation/runner/WorkerScenarioRunner';
+import { CheckpointSummary } from '../simulation/runner/checkpoints';
+import { Breakpoint, BreakpointHit, evaluateWatch, validateCondition } from '../simulation/runner/breakpoints';
+import {
+    BranchIntervention,
+    RunBranch,
+    describeIntervention,
+    findBaseline,
+    isBaseline,
+    removeBranch,
+    updateBranch
+} from '../simulation/branching/branchTree';
+import { BranchExecutor, createWorkerExecutor, runBranchInline, wrapBranchWorker } from '../simulation/branching/branchRunner';
+import { describeSchedule } from '../simulation/control/controlSchedule';
+import { planSdeControl, planTelemetryControl } from '../simulation/control/mpcController';
+import { MIN_SINDY_SAMPLES } from '../simulation/analysis/sindy';
 import { SDEScenario } from '../simulation/scenarios/sde/SDEScenario';
-import { MathScenario } from '../simulation/scenarios/math/MathScenario';
-import { AlignmentScenario } from '../simulation/scenarios/alignment/AlignmentScenario';
-import { BioScenario } from '../simulation/scenarios/bio/BioScenario';
-import { AgentsScenario } from '../simulation/scenarios/agents/AgentsScenario';
-import { DEFAULT_MATH_CONFIG, MathConfig } from '../simulation/scenarios/math/MathTypes';
-import { DEFAULT_ALIGNMENT_CONFIG, AlignmentConfig } from '../simulation/scenarios/alignment/AlignmentTypes';
-import { DEFAULT_BIO_CONFIG, BioConfig } from '../simulation/scenarios/bio/BioTypes';
-import { DEFAULT_AGENT_CONFIG, AgentConfig } from '../simulation/scenarios/agents/AgentTypes';
-import { DEFAULT_ERDOS_CONFIG, ErdosConfig, ErdosProblem } from '../simulation/scenarios/erdos/ErdosTypes';
-import { createSnapshot, parseSnapshot, SnapshotData } from '../simulation/snapshot';
-import { ErdosScenario } from '../simulation/scenarios/erdos/ErdosScenario';
+import { sanitizeSdeParameters } from '../simulation/scenarios/sde/sdePlugin';
+import { LatticeState } from '../simulation/lattice/latticeEngine';
+import { AdaptiveStepStats } from '../simulation/integration/adaptiveStepper';
+import { DEFAULT_ERDOS_CONFIG, ErdosProblem } from '../simulation/scenarios/erdos/ErdosTypes';
+import { createSnapshot, parseSnapshot, SNAPSHOT_VERSION, SnapshotData } from '../simulation/snapshot';
+import { ResearchCadence, ScenarioConfig } from '../simulation/scenarios/scenarioPlugin';
+import {
+    DEFAULT_SCENARIO_ID,
+    ScenarioConfigs,
+    getScenarioPlugin,
+    listScenarioPlugins,
+    requireScenarioPlugin,
+    sanitizeScenarioConfigs
+} from '../simulation/scenarios/scenarioRegistry';
+import '../simulation/scenarios/localPlugins';
+
+/** Who makes automated decisions: the LLM service or the built-in model-predictive controller */
+export type ResearcherMode = 'llm' | 'mpc';
 
 interface SimulationStore {
     // State
     isPlaying: boolean;
+    /** A headless fast-forward is stepping the scenario */
+    isFastForwarding: boolean;
     currentState: SimulationState;
     parameters: SimulationParameters;
     control: ControlSignal;
+    /** Time-varying protocol driving U; null while U is set manually or by the AI */
+    controlSchedule: ActiveControlSchedule | null;
     telemetry: TelemetryPoint[];
     alerts: AlertEvent[];
     events: ScenarioEvent[]; // Global event log
     validationMetrics: ValidationMetrics;
     logPersistenceError: string | null;
+    /** Why the scenario worker died; the run cannot step again until the app reloads */
+    runnerError: string | null;
 
     // Scenario Management
     currentScenarioId: string;
     scenarioMetadata: ScenarioMetadata;
     availableScenarios: ScenarioMetadata[];
-    scenarioConfigs: {
-        math: MathConfig;
-        alignment: AlignmentConfig;
-        bio: BioConfig;
-        agents: AgentConfig;
-        erdos: ErdosConfig;
-    };
+    /** Configuration of each registered scenario but the SDE, keyed by scenario id */
+    scenarioConfigs: ScenarioConfigs;
 
     // Agent Library
     savedAgents: LibraryEntry[];
 
     // AI Control
     isAIControlled: boolean;
+    researcherMode: ResearcherMode;
     aiStatus: 'idle' | 'thinking' | 'cooldown';
     aiReasoning: string;
     lastAiUpdate: Date | null;
@@ -77,17 +104,51 @@ interface SimulationStore {
 
     // Actions
     togglePlay: () => void;
+    /** Step the current scenario `generations` ahead as fast as possible, then pause */
+    fastForward: (generations: number) => Promise<void>;
+    cancelFastForward: () => void;
+    /** Restore the run to a tick within the checkpoint history and pause there; playing continues from it */
+    rewindTo: (tick: number) => Promise<void>;
+    /** Current tick and the checkpoints it can be rewound to */
+    getTimeline: () => { tick: number; checkpoints: CheckpointSummary[] };
+    // Conditions that pause the run, the ticks they fired on, and live watch expressions
+    breakpoints: Breakpoint[];
+    breakpointHits: BreakpointHit[];
+    watches: string[];
+    /** Returns the parse error, or null once the breakpoint was added */
+    addBreakpoint: (expression: string) => string | null;
+    removeBreakpoint: (id: string) => void;
+    toggleBreakpoint: (id: string) => void;
+    clearBreakpointHits: () => void;
+    /** Rewind to the hit's tick, or load its snapshot when the tick left the checkpoint window */
+    restoreBreakpointHit: (hit: BreakpointHit) => Promise<void>;
+    addWatch: (expression: string) => void;
+    removeWatch: (expression: string) => void;
+    getWatchValues: () => Array<{ expression: string; value: number | boolean | null }>;
+    // Counterfactual branches forked from the run (or from a finished branch)
+    branches: RunBranch[];
+    forkRun: (intervention: BranchIntervention, generations: number, parentId?: string | null) => Promise<void>;
+    removeBranch: (id: string) => void;
+    toggleBranchVisibility: (id: string) => void;
+    clearBranches: () => void;
     toggleAIControl: () => void;
+    setResearcherMode: (mode: ResearcherMode) => void;
     reset: () => void;
     setControl: (U: number) => void;
+    /** Set one of the scenario's control channels, or release it to its default with null */
+    setControlChannel: (channel: string, value: number | null) => void;
+    setControlSchedule: (schedule: ControlSchedule | null) => void;
     updateParameters: (params: Partial<SimulationParameters>) => void;
-    updateScenarioConfig: (config: Partial<MathConfig | AlignmentConfig | BioConfig | AgentConfig | ErdosConfig>) => void;
+    updateScenarioConfig: (config: Partial<ScenarioConfig>) => void;
     switchScenario: (id: string) => void;
     loadBestParameters: () => void;
     triggerAI: () => Promise<void>;
     step: () => Promise<void>; // Driven by UI loop or internal runner hooks?
     loadAgents: () => Promise<void>;
-    exportState: () => string;
+    /** Snapshot of the run as JSON, with the scenario state taken from the runner (the worker, not the mirror) */
+    exportState: () => Promise<string>;
+    /** Replay log of the current run as JSON (for `npm run replay`), null when none is recorded */
+    exportReplayLog: () => Promise<string | null>;
     importState: (json: string) => boolean;
     getErdosProblemsForDashboard: () => Array<{
         id: string;
@@ -101,54 +162,40 @@ interface SimulationStore {
         copy_action: string;
     }>;
     getErdosCycle: () => number;
+    /** Cell states of the SDE scenario in lattice mode, null when it is well mixed */
+    getLatticeSnapshot: () => LatticeState | null;
+    /** Adaptive substep statistics of the SDE scenario, null with fixed steps */
+    getStepStats: () => AdaptiveStepStats | null;
 }
 
 // Max telemetry points to keep in memory for charting
 const MAX_TELEMETRY_POINTS = 1000;
 const MAX_EVENT_LOGS = 100;
 const SESSION_STORAGE_KEY = 'fipsm_session_state_v1';
+const BREAKPOINT_STORAGE_KEY = 'fipsm_breakpoints_v1';
+const MAX_BREAKPOINT_HITS = 20;
 
-// Initialize Scenarios
-const sdeScenario = new SDEScenario();
-const mathScenario = new MathScenario();
-const alignmentScenario = new AlignmentScenario();
-const bioScenario = new BioScenario();
-const agentsScenario = new AgentsScenario();
-const erdosScenario = new ErdosScenario();
-erdosScenario.initialize(Date.now(), DEFAULT_ERDOS_CONFIG);
-
-const scenarios: Record<string, any> = {
-    'sde-v1': sdeScenario,
-    'math': mathScenario,
-    'alignment': alignmentScenario,
-    'bio': bioScenario,
-    'agents': agentsScenario,
-    'erdos': erdosScenario
-};
+// Initialize Scenarios, one instance per registered plugin
+const scenarios: Record<string, any> = Object.fromEntries(
+    listScenarioPlugins().map(plugin => [plugin.metadata.id, plugin.create()])
+);
+const sdeScenario = scenarios[DEFAULT_SCENARIO_ID] as SDEScenario;
+scenarios['erdos'].initialize(Date.now(), DEFAULT_ERDOS_CONFIG);
 
 const getScenarioConfigForId = (
     id: string,
     parameters: SimulationParameters,
-    configs: SimulationStore['scenarioConfigs']
-) => {
-    switch (id) {
-        case 'math':
-            return configs.math;
-        case 'alignment':
-            return configs.alignment;
-        case 'bio':
-            return configs.bio;
-        case 'agents':
-            return configs.agents;
-        case 'erdos':
-            return configs.erdos;
-        case 'sde-v1':
-        default:
-            return parameters;
-    }
+    configs: ScenarioConfigs
+): ScenarioConfig => {
+    if (id === DEFAULT_SCENARIO_ID) return { ...parameters };
+    return configs[id] ?? { ...requireScenarioPlugin(id).defaultConfig };
 };
 
-const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+/** A scenario's configuration with `patch` applied, sanitized by its plugin */
+const patchScenarioConfig = (id: string, configs: ScenarioConfigs, patch: Record<string, unknown>): ScenarioConfigs => ({
+    ...configs,
+    [id]: requireScenarioPlugin(id).sanitizeConfig({ ...configs[id], ...patch })
+});
 
 const ensureNumber = (value: unknown, fallback = 0) => (
     typeof value === 'number' && Number.isFinite(value) ? value : fallback
@@ -180,30 +227,33 @@ const downsampleTelemetry = (points: TelemetryPoint[], maxPoints: number) => {
     return sampled.slice(0, maxPoints);
 };
 
-type ResearchCadenceProfile = {
-    early: number;
-    mid: number;
-    late: number;
-    midStart: number;
-    lateStart: number;
-};
-
-const AI_RESEARCH_CADENCE: Record<ScenarioMetadata['type'], ResearchCadenceProfile> = {
-    sde: { early: 10, mid: 20, late: 30, midStart: 120, lateStart: 360 },
-    math: { early: 5, mid: 10, late: 16, midStart: 80, lateStart: 240 },
-    alignment: { early: 4, mid: 8, late: 12, midStart: 60, lateStart: 180 },
-    bio: { early: 6, mid: 12, late: 20, midStart: 100, lateStart: 280 },
-    agents: { early: 6, mid: 12, late: 18, midStart: 90, lateStart: 260 },
-    erdos: { early: 3, mid: 6, late: 10, midStart: 50, lateStart: 160 }
-};
-
-const getResearchCadenceGenerations = (type: ScenarioMetadata['type'], generation: number) => {
-    const profile = AI_RESEARCH_CADENCE[type];
+const getResearchCadenceGenerations = (profile: ResearchCadence, generation: number) => {
     if (generation >= profile.lateStart) return profile.late;
     if (generation >= profile.midStart) return profile.mid;
     return profile.early;
 };
 
+/**
+ * Offline counterpart of fetchAIControl: a decision from the model-predictive controller
+ */
+const planOfflineControl = (
+    state: SimulationState,
+    parameters: SimulationParameters,
+    control: ControlSignal,
+    scenarioMetadata: ScenarioMetadata,
+    telemetry: TelemetryPoint[]
+): { u: number; reasoning: string; params?: Partial<SimulationParameters>; controls?: Record<string, number>; error?: string } => {
+    if (scenarioMetadata.type === 'sde') {
+        const decision = planSdeControl(state, parameters, control);
+        return { u: decision.u, reasoning: decision.reasoning, params: decision.params };
+    }
+    const decision = planTelemetryControl(telemetry, control);
+    if (!decision) {
+        return { error: `MPC needs more telemetry to fit a model (at least ${MIN_SINDY_SAMPLES} samples)`, u: control.U, reasoning: '' };
+    }
+    return { u: decision.u, reasoning: decision.reasoning };
+};
+
 const reconcileLatestOutcome = (history: AIHistoryEntry[], currentAgency: number): AIHistoryEntry[] => {
     if (history.length === 0) return history;
     const updated = [...history];
@@ -325,55 +375,10 @@ const toDashboardProblem = (problem: ErdosProblem) => {
     };
 };
 
-const summarizeScenarioState = (scenarioId: string, state: any) => {
-    if (!state || typeof state !== 'object') return {};
-
-    switch (scenarioId) {
-        case 'sde-v1':
-            return {
-                simulationState: state.simulationState || state.state || state,
-                parameters: state.params || state.parameters
-            };
-        case 'math':
-            return {
-                generation: state.generation,
-                populationSize: Array.isArray(state.agents) ? state.agents.length : 0,
-                claims: Array.isArray(state.claims) ? state.claims.length : 0,
-                metrics: state.metrics
-            };
-        case 'alignment':
-            return {
-                generation: state.generation,
-                populationSize: Array.isArray(state.agents) ? state.agents.length : 0,
-                globalResources: state.globalResources,
-                oversightIntensity: state.oversightIntensity,
-                metrics: state.metrics
-            };
-        case 'bio':
-            return {
-                generation: state.generation,
-                populationSize: Array.isArray(state.agents) ? state.agents.length : 0,
-                toxicity: state.toxicity,
-                metrics: state.metrics
-            };
-        case 'agents':
-            return {
-                generation: state.generation,
-                populationSize: Array.isArray(state.agents) ? state.agents.length : 0,
-                taskCount: Array.isArray(state.currentTasks) ? state.currentTasks.length : 0,
-                metrics: state.metrics
-            };
-        case 'erdos':
-            return {
-                generation: state.generation,
-                populationSize: Array.isArray(state.agents) ? state.agents.length : 0,
-                activeProblems: Array.isArray(state.activeProblems) ? state.activeProblems.length : 0,
-                solvedProblems: Array.isArray(state.solvedProblems) ? state.solvedProblems.length : 0,
-                metrics: state.metrics
-            };
-        default:
-            return { state };
-    }
+const summarizeScenarioState = (scenarioId: string, state: unknown) => {
+    if (!isRecord(state)) return {};
+    const summarize = requireScenarioPlugin(scenarioId).summarizeState;
+    return summarize ? summarize(state) : { state };
 };
 
 const buildLegacyAgent = (
@@ -513,54 +518,34 @@ const buildLibraryEntry = (
     };
 };
 
-const sanitizeMathConfig = (config: MathConfig): MathConfig => ({
-    populationSize: Math.max(1, Math.floor(config.populationSize)),
-    mutationRate: clamp01(config.mutationRate),
-    tasksPerGen: Math.max(1, Math.floor(config.tasksPerGen)),
-    difficultyScale: Math.max(0, config.difficultyScale),
-    noveltyThreshold: clamp01(config.noveltyThreshold),
-    verificationBudget: Math.max(0, Math.floor(config.verificationBudget)),
-    enableTheorems: config.enableTheorems
-});
-
-const sanitizeAlignmentConfig = (config: AlignmentConfig): AlignmentConfig => ({
-    populationSize: Math.max(1, Math.floor(config.populationSize)),
-    mutationRate: clamp01(config.mutationRate),
-    baseResourceRate: Math.max(0, config.baseResourceRate)
-});
-
-const sanitizeBioConfig = (config: BioConfig): BioConfig => ({
-    initialPopulation: Math.max(1, Math.floor(config.initialPopulation)),
-    maxPopulation: Math.max(1, Math.floor(config.maxPopulation)),
-    mutationRate: clamp01(config.mutationRate),
-    energyPerTick: Math.max(0, config.energyPerTick),
-    mineralInflux: Math.max(0, config.mineralInflux)
-});
-
-const sanitizeAgentConfig = (config: AgentConfig): AgentConfig => ({
-    populationSize: Math.max(1, Math.floor(config.populationSize)),
-    tasksPerGen: Math.max(1, Math.floor(config.tasksPerGen)),
-    baseTaskDifficulty: Math.max(1, config.baseTaskDifficulty),
-    driftRate: clamp01(config.driftRate)
-});
-
-
-const sanitizeErdosConfig = (config: ErdosConfig): ErdosConfig => ({
-    populationSize: Math.max(1, Math.floor(config.populationSize)),
-    problemsPerGeneration: 1,
-    mutationRate: clamp01(config.mutationRate),
-    collaborationBoost: clamp01(config.collaborationBoost)
-});
-
 // Initialize Runner
-const runner = new ScenarioRunner({
-    onTelemetry: (data) => {
+const runnerHooks = {
+    onTelemetry: (data: TelemetryPoint) => {
         useSimulationStore.getState().handleTelemetry(data);
     },
-    onEvent: (event) => {
+    onEvent: (event: ScenarioEvent) => {
         useSimulationStore.getState().handleEvent(event);
+    },
+    onControl: (control: ControlSignal) => {
+        useSimulationStore.getState().handleControl(control);
+    },
+    onBreakpoint: (hit: BreakpointHit) => {
+        useSimulationStore.getState().handleBreakpoint(hit);
+    },
+    onWorkerError: (message: string) => {
+        useSimulationStore.getState().handleWorkerError(message);
     }
-});
+};
+
+// Scenarios step in a worker where one is available; the instances above then act as read-only mirrors
+const runner: SimulationRunner = typeof Worker !== 'undefined'
+    ? new WorkerScenarioRunner(runnerHooks, new Worker(new URL('../simulation/runner/scenarioWorker.ts', import.meta.url), { type: 'module' }))
+    : new ScenarioRunner(runnerHooks);
+
+// Each branch of a fork gets its own worker, so the branches step in parallel
+const branchExecutor: BranchExecutor = typeof Worker !== 'undefined'
+    ? createWorkerExecutor(() => wrapBranchWorker(new Worker(new URL('../simulation/branching/branchWorker.ts', import.meta.url), { type: 'module' })))
+    : runBranchInline;
 
 // Set default scenario
 runner.setScenario(sdeScenario);
@@ -589,7 +574,7 @@ const initialRunSeed = Date.now();
 type PersistedSession = {
     scenarioId: string;
     scenarioData: string;
-    scenarioConfigs: SimulationStore['scenarioConfigs'];
+    scenarioConfigs: ScenarioConfigs;
     control: ControlSignal;
     currentState: SimulationState;
 };
@@ -621,9 +606,46 @@ if (persistedSession && scenarios[persistedSession.scenarioId]) {
     }
 }
 
+type PersistedBreakpoints = {
+    breakpoints: Breakpoint[];
+    watches: string[];
+};
+
+const loadPersistedBreakpoints = (): PersistedBreakpoints => {
+    const raw = localStorage.getItem(BREAKPOINT_STORAGE_KEY);
+    if (!raw) return { breakpoints: [], watches: [] };
+
+    try {
+        const parsed = JSON.parse(raw) as Partial<PersistedBreakpoints>;
+        const breakpoints = Array.isArray(parsed?.breakpoints)
+            ? parsed.breakpoints.filter((breakpoint): breakpoint is Breakpoint => (
+                isRecord(breakpoint)
+                && typeof breakpoint.id === 'string'
+                && typeof breakpoint.expression === 'string'
+                && validateCondition(breakpoint.expression) === null
+            )).map(breakpoint => ({ id: breakpoint.id, expression: breakpoint.expression, enabled: breakpoint.enabled !== false }))
+            : [];
+        return { breakpoints, watches: ensureStringArray(parsed?.watches) };
+    } catch (error) {
+        console.warn('[SimulationStore] Failed to parse persisted breakpoints.', error);
+        return { breakpoints: [], watches: [] };
+    }
+};
+
+const persistBreakpoints = (state: PersistedBreakpoints) => {
+    try {
+        localStorage.setItem(BREAKPOINT_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+        console.warn('[SimulationStore] Failed to persist breakpoints.', error);
+    }
+};
+
+const persistedBreakpoints = loadPersistedBreakpoints();
+runner.setBreakpoints(persistedBreakpoints.breakpoints);
+
 const persistSession = (state: {
     currentScenarioId: string;
-    scenarioConfigs: SimulationStore['scenarioConfigs'];
+    scenarioConfigs: ScenarioConfigs;
     control: ControlSignal;
     currentState: SimulationState;
 }) => {
@@ -643,18 +665,20 @@ const persistSession = (state: {
     }
 };
 
-export const useSimulationStore = create<SimulationStore & { handleTelemetry: (pt: TelemetryPoint) => void, handleEvent: (evt: any) => void }>((set, get) => ({
+export const useSimulationStore = create<SimulationStore & { handleTelemetry: (pt: TelemetryPoint) => void, handleEvent: (evt: any) => void, handleControl: (control: ControlSignal) => void, handleBreakpoint: (hit: BreakpointHit) => void, handleWorkerError: (message: string) => void }>((set, get) => ({
     // Initial State
     isPlaying: false,
+    isFastForwarding: false,
     currentState: persistedSession?.currentState
         ? { ...DEFAULT_INITIAL_STATE, ...persistedSession.currentState }
         : { ...DEFAULT_INITIAL_STATE },
-    parameters: initialBest ? { ...DEFAULT_PARAMETERS, ...initialBest.parameters } : { ...DEFAULT_PARAMETERS },
+    parameters: initialBest ? sanitizeSdeParameters({ ...DEFAULT_PARAMETERS, ...initialBest.parameters }) : { ...DEFAULT_PARAMETERS },
     control: persistedSession?.control
         ? { ...DEFAULT_CONTROL, ...persistedSession.control }
         : initialBest && initialBest.control
             ? { ...initialBest.control }
             : { ...DEFAULT_CONTROL },
+    controlSchedule: null,
     telemetry: [],
     alerts: [],
     events: [],
@@ -664,29 +688,19 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         controlBoundsViolationRate: 0
     },
     logPersistenceError: null,
+    runnerError: null,
 
-    currentScenarioId: persistedSession?.scenarioId && scenarios[persistedSession.scenarioId] ? persistedSession.scenarioId : 'sde-v1',
+    currentScenarioId: persistedSession?.scenarioId && scenarios[persistedSession.scenarioId] ? persistedSession.scenarioId : DEFAULT_SCENARIO_ID,
     scenarioMetadata: persistedSession?.scenarioId && scenarios[persistedSession.scenarioId]
         ? scenarios[persistedSession.scenarioId].metadata
         : sdeScenario.metadata,
-    availableScenarios: [
-        sdeScenario.metadata,
-        mathScenario.metadata,
-        alignmentScenario.metadata,
-        bioScenario.metadata,
-        agentsScenario.metadata,
-        erdosScenario.metadata
-    ],
-    scenarioConfigs: persistedSession?.scenarioConfigs || {
-        math: { ...DEFAULT_MATH_CONFIG },
-        alignment: { ...DEFAULT_ALIGNMENT_CONFIG },
-        bio: { ...DEFAULT_BIO_CONFIG },
-        agents: { ...DEFAULT_AGENT_CONFIG },
-        erdos: { ...DEFAULT_ERDOS_CONFIG }
-    },
+    availableScenarios: listScenarioPlugins().map(plugin => plugin.metadata),
+    // Sanitizing fills in scenarios registered since the session was saved
+    scenarioConfigs: sanitizeScenarioConfigs(persistedSession?.scenarioConfigs),
 
     savedAgents: [],
     isAIControlled: true,
+    researcherMode: 'llm',
     aiStatus: 'idle',
     aiReasoning: "Initializing AI Control...",
     lastAiUpdate: null,
@@ -713,22 +727,251 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         set({ isPlaying: !isPlaying });
     },
 
+    fastForward: async (generations: number) => {
+        if (get().isFastForwarding) return;
+        const target = get().currentState.generation + generations;
+        runner.pause();
+        set({ isPlaying: false, isFastForwarding: true });
+        await runner.runUntil(target);
+        set({ isFastForwarding: false });
+    },
+
+    cancelFastForward: () => {
+        runner.pause();
+    },
+
+    rewindTo: async (tick: number) => {
+        const result = await runner.rewindTo(tick);
+        if (!result) return;
+        const currentId = get().currentScenarioId;
+        const metrics = scenarios[currentId].getMetrics();
+        // The panel's configuration applies again from the restored tick on
+        runner.updateConfig(getScenarioConfigForId(currentId, get().parameters, get().scenarioConfigs));
+
+        const logEntry: InterventionLogEntry = {
+            id: crypto.randomUUID(),
+            timestamp: result.generation,
+            realtime: new Date(),
+            source: 'USER',
+            action: `Rewound to tick ${result.tick} (generation ${result.generation.toFixed(1)})`
+        };
+
+        set(state => ({
+            isPlaying: false,
+            control: result.control,
+            currentState: {
+                ...state.currentState,
+                generation: metrics.generation,
+                C: metrics.C,
+                D: metrics.D,
+                A: metrics.A,
+                alertRate: metrics.alertRate
+            },
+            telemetry: [...state.telemetry.filter(point => point.generation < metrics.generation), metrics],
+            alerts: state.alerts.filter(alert => alert.generation <= metrics.generation),
+            breakpointHits: state.breakpointHits.filter(hit => hit.tick <= result.tick),
+            interventionLog: [...state.interventionLog, logEntry]
+        }));
+    },
+
+    getTimeline: () => ({ tick: runner.getTick(), checkpoints: runner.getCheckpoints() }),
+
+    breakpoints: persistedBreakpoints.breakpoints,
+    breakpointHits: [],
+    watches: persistedBreakpoints.watches,
+
+    addBreakpoint: (expression: string) => {
+        const trimmed = expression.trim();
+        const error = validateCondition(trimmed);
+        if (error) return error;
+        const breakpoints = [...get().breakpoints, { id: crypto.randomUUID(), expression: trimmed, enabled: true }];
+        runner.setBreakpoints(breakpoints);
+        set({ breakpoints });
+        persistBreakpoints({ breakpoints, watches: get().watches });
+        return null;
+    },
+
+    removeBreakpoint: (id: string) => {
+        const breakpoints = get().breakpoints.filter(breakpoint => breakpoint.id !== id);
+        runner.setBreakpoints(breakpoints);
+        set({ breakpoints });
+        persistBreakpoints({ breakpoints, watches: get().watches });
+    },
+
+    toggleBreakpoint: (id: string) => {
+        const breakpoints = get().breakpoints.map(breakpoint => breakpoint.id === id ? { ...breakpoint, enabled: !breakpoint.enabled } : breakpoint);
+        runner.setBreakpoints(breakpoints);
+        set({ breakpoints });
+        persistBreakpoints({ breakpoints, watches: get().watches });
+    },
+
+    clearBreakpointHits: () => set({ breakpointHits: [] }),
+
+    restoreBreakpointHit: async (hit: BreakpointHit) => {
+        // Hits later than a rewind are dropped, so a remaining hit lies on the current timeline
+        if (runner.getCheckpoints().some(checkpoint => checkpoint.tick <= hit.tick)) {
+            await get().rewindTo(hit.tick);
+            return;
+        }
+        // Older than the checkpoint ring: continue from the snapshot, counting ticks afresh
+        runner.stop();
+        const currentId = get().currentScenarioId;
+        const scenario = scenarios[currentId];
+        scenario.deserialize(hit.snapshot.data);
+        runner.setScenario(scenario);
+        runner.setControl({ channels: undefined, ...hit.snapshot.control });
+        const metrics = scenario.getMetrics();
+
+        const logEntry: InterventionLogEntry = {
+            id: crypto.randomUUID(),
+            timestamp: metrics.generation,
+            realtime: new Date(),
+            source: 'USER',
+            action: `Restored breakpoint snapshot '${hit.expression}' (generation ${metrics.generation.toFixed(1)})`
+        };
+
+        set(state => ({
+            isPlaying: false,
+            control: { ...hit.snapshot.control },
+            currentState: {
+                ...state.currentState,
+                generation: metrics.generation,
+                C: metrics.C,
+                D: metrics.D,
+                A: metrics.A,
+                alertRate: metrics.alertRate
+            },
+            telemetry: [...state.telemetry.filter(point => point.generation < metrics.generation), metrics],
+            alerts: state.alerts.filter(alert => alert.generation <= metrics.generation),
+            breakpointHits: [],
+            interventionLog: [...state.interventionLog, logEntry]
+        }));
+    },
+
+    addWatch: (expression: string) => {
+        const trimmed = expression.trim();
+        if (!trimmed || get().watches.includes(trimmed)) return;
+        const watches = [...get().watches, trimmed];
+        set({ watches });
+        persistBreakpoints({ breakpoints: get().breakpoints, watches });
+    },
+
+    removeWatch: (expression: string) => {
+        const watches = get().watches.filter(watch => watch !== expression);
+        set({ watches });
+        persistBreakpoints({ breakpoints: get().breakpoints, watches });
+    },
+
+    getWatchValues: () => {
+        const scenario = scenarios[get().currentScenarioId];
+        const metrics = scenario.getMetrics();
+        const state = scenario.getState();
+        return get().watches.map(expression => ({ expression, value: evaluateWatch(expression, metrics, state) }));
+    },
+
+    branches: [],
+
+    forkRun: async (intervention: BranchIntervention, generations: number, parentId: string | null = null) => {
+        // Fork point: the end of a finished branch, or the live run's current state
+        const parent = parentId ? get().branches.find(branch => branch.id === parentId) : undefined;
+        if (parentId && !parent?.finalData) return;
+        const snapshot = parent ? null : await runner.snapshot();
+        const start = parent
+            ? {
+                scenarioId: parent.scenarioId,
+                tick: parent.forkTick + parent.ticks,
+                generation: parent.telemetry[parent.telemetry.length - 1].generation,
+                data: parent.finalData!,
+                control: parent.control
+            }
+            : snapshot && { scenarioId: get().currentScenarioId, ...snapshot };
+        if (!start) return;
+
+        const createBranch = (branchIntervention: BranchIntervention): RunBranch => ({
+            id: crypto.randomUUID(),
+            parentId,
+            label: `${describeIntervention(branchIntervention)} @ gen ${start.generation.toFixed(1)}`,
+            scenarioId: start.scenarioId,
+            forkTick: start.tick,
+            forkGeneration: start.generation,
+            intervention: branchIntervention,
+            control: branchIntervention.U !== undefined ? { ...start.control, U: branchIntervention.U } : { ...start.control },
+            status: 'running',
+            telemetry: [],
+            ticks: 0,
+            visible: true
+        });
+
+        const forked = createBranch(intervention);
+        const pending = findBaseline(get().branches, forked) || isBaseline(intervention)
+            ? [forked]
+            : [createBranch({}), forked];
+
+        const logEntry: InterventionLogEntry = {
+            id: crypto.randomUUID(),
+            timestamp: get().currentState.generation,
+            realtime: new Date(),
+            source: 'USER',
+            action: `Forked ${parentId ? 'branch' : 'run'} at generation ${start.generation.toFixed(1)}: ${describeIntervention(intervention)} for ${generations} generations`
+        };
+        set(state => ({ branches: [...state.branches, ...pending], interventionLog: [...state.interventionLog, logEntry] }));
+
+        // Removed or cleared branches are simply not found when their result arrives
+        await Promise.all(pending.map(branch => branchExecutor({
+            scenarioId: start.scenarioId,
+            data: start.data,
+            control: branch.control,
+            config: branch.intervention.config ?? null,
+            generations
+        }).then(
+            result => set(state => ({
+                branches: updateBranch(state.branches, branch.id, {
+                    status: 'done',
+                    telemetry: result.telemetry,
+                    finalData: result.finalData,
+                    ticks: result.ticks
+                })
+            })),
+            error => set(state => ({
+                branches: updateBranch(state.branches, branch.id, {
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : String(error)
+                })
+            }))
+        )));
+    },
+
+    removeBranch: (id: string) => set(state => ({ branches: removeBranch(state.branches, id) })),
+
+    toggleBranchVisibility: (id: string) => set(state => ({
+        branches: state.branches.map(branch => branch.id === id ? { ...branch, visible: !branch.visible } : branch)
+    })),
+
+    clearBranches: () => set({ branches: [] }),
+
     toggleAIControl: () => set((state) => ({ isAIControlled: !state.isAIControlled })),
 
+    setResearcherMode: (mode) => set({ researcherMode: mode, aiError: null }),
+
     reset: () => {
         runner.stop();
         const currentId = get().currentScenarioId;
         const scenarioConfig = getScenarioConfigForId(currentId, get().parameters, get().scenarioConfigs);
         const seed = Date.now();
-        scenarios[currentId].initialize(seed, scenarioConfig); // Re-init with scenario config
-        runner.setScenario(scenarios[currentId]);
+        runner.initializeScenario(scenarios[currentId], seed, scenarioConfig); // Re-init with scenario config
+        // A running protocol restarts with the run
+        const controlSchedule = get().controlSchedule ? { ...get().controlSchedule!, startGeneration: 0 } : null;
+        runner.setSchedule(controlSchedule);
 
         set({
             isPlaying: false,
             currentState: { ...DEFAULT_INITIAL_STATE }, // Reset UI state display
+            controlSchedule,
             telemetry: [],
             alerts: [],
             events: [],
+            breakpointHits: [],
+            branches: [],
             aiReasoning: "",
             aiHistory: [],
             aiError: null,
@@ -745,9 +988,13 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
     },
 
     setControl: (U: number) => {
-        const { control, currentState, interventionLog } = get();
+        const { control, controlSchedule, currentState, interventionLog } = get();
         const clampedU = Math.max(0, Math.min(1, U));
         const newControl = { ...control, U: clampedU };
+        // Manual input takes U back from an active schedule
+        if (controlSchedule) {
+            runner.setSchedule(null);
+        }
         runner.setControl(newControl);
 
         const logEntry: InterventionLogEntry = {
@@ -755,10 +1002,12 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
             timestamp: currentState.generation,
             realtime: new Date(),
             source: 'USER',
-            action: `Set U = ${clampedU.toFixed(2)}`
+            action: controlSchedule
+                ? `Set U = ${clampedU.toFixed(2)} (released control schedule)`
+                : `Set U = ${clampedU.toFixed(2)}`
         };
 
-        set({ control: newControl, interventionLog: [...interventionLog, logEntry] });
+        set({ control: newControl, controlSchedule: null, interventionLog: [...interventionLog, logEntry] });
         persistSession({
             currentScenarioId: get().currentScenarioId,
             scenarioConfigs: get().scenarioConfigs,
@@ -767,13 +1016,67 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         });
     },
 
+    setControlChannel: (channel: string, value: number | null) => {
+        const { control, currentScenarioId, currentState, interventionLog } = get();
+        const spec = getScenarioPlugin(currentScenarioId)?.controls?.[channel];
+        if (!spec) return;
+        const channels = { ...control.channels };
+        if (value === null) {
+            delete channels[channel];
+        } else {
+            channels[channel] = Math.max(spec.min, Math.min(spec.max, value));
+        }
+        const newControl: ControlSignal = Object.keys(channels).length > 0 ? { U: control.U, channels } : { U: control.U };
+        runner.setControl({ U: control.U, channels: newControl.channels });
+
+        const logEntry: InterventionLogEntry = {
+            id: crypto.randomUUID(),
+            timestamp: currentState.generation,
+            realtime: new Date(),
+            source: 'USER',
+            action: value === null
+                ? `Released ${spec.label} to its default`
+                : `Set ${spec.label} = ${channels[channel].toFixed(2)}${spec.unit ? ` ${spec.unit}` : ''}`
+        };
+
+        set({ control: newControl, interventionLog: [...interventionLog, logEntry] });
+        persistSession({
+            currentScenarioId,
+            scenarioConfigs: get().scenarioConfigs,
+            control: newControl,
+            currentState: get().currentState
+        });
+    },
+
+    setControlSchedule: (schedule: ControlSchedule | null) => {
+        const { control, controlSchedule, currentState, interventionLog } = get();
+        if (!schedule && !controlSchedule) return;
+
+        const active: ActiveControlSchedule | null = schedule
+            ? { schedule, startGeneration: currentState.generation }
+            : null;
+        runner.setSchedule(active);
+
+        const logEntry: InterventionLogEntry = {
+            id: crypto.randomUUID(),
+            timestamp: currentState.generation,
+            realtime: new Date(),
+            source: schedule ? 'SCHEDULE' : 'USER',
+            action: schedule
+                ? `Schedule took over U from ${controlSchedule ? 'previous schedule' : 'manual control'}: ${describeSchedule(schedule)}`
+                : `Released control schedule at U = ${control.U.toFixed(2)}`
+        };
+
+        set({ controlSchedule: active, interventionLog: [...interventionLog, logEntry] });
+    },
+
     updateParameters: (newParams) => {
-        const merged = { ...get().parameters, ...newParams };
+        // Clamped like snapshots are, so an exported run restores the values it ran with
+        const merged = sanitizeSdeParameters({ ...get().parameters, ...newParams });
         const currentId = get().currentScenarioId;
-        const scenario = scenarios[currentId];
 
-        if (currentId === 'sde-v1' && scenario.updateConfig) {
-            scenario.updateConfig(merged as any);
+        if (currentId === DEFAULT_SCENARIO_ID) {
+            runner.updateConfig(merged);
         }
 
         const logEntry: InterventionLogEntry = {
@@ -790,25 +1093,11 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
     updateScenarioConfig: (config) => {
         const currentId = get().currentScenarioId;
         const scenario = scenarios[currentId];
-        if (!scenario || currentId === 'sde-v1') return;
-
-        let updatedConfigs = { ...get().scenarioConfigs };
-        if (currentId === 'math') {
-            updatedConfigs.math = sanitizeMathConfig({ ...updatedConfigs.math, ...(config as Partial<MathConfig>) });
-        } else if (currentId === 'alignment') {
-            updatedConfigs.alignment = sanitizeAlignmentConfig({ ...updatedConfigs.alignment, ...(config as Partial<AlignmentConfig>) });
-        } else if (currentId === 'bio') {
-            updatedConfigs.bio = sanitizeBioConfig({ ...updatedConfigs.bio, ...(config as Partial<BioConfig>) });
-        } else if (currentId === 'agents') {
-            updatedConfigs.agents = sanitizeAgentConfig({ ...updatedConfigs.agents, ...(config as Partial<AgentConfig>) });
-        } else if (currentId === 'erdos') {
-            updatedConfigs.erdos = sanitizeErdosConfig({ ...updatedConfigs.erdos, ...(config as Partial<ErdosConfig>) });
-        }
+        if (!scenario || currentId === DEFAULT_SCENARIO_ID) return;
 
-        if (scenario.updateConfig) {
-            const scenarioConfig = getScenarioConfigForId(currentId, get().parameters, updatedConfigs);
-            scenario.updateConfig(scenarioConfig as any);
-        }
+        const updatedConfigs = patchScenarioConfig(currentId, get().scenarioConfigs, config);
+
+        runner.updateConfig(getScenarioConfigForId(currentId, get().parameters, updatedConfigs));
 
         const logEntry: InterventionLogEntry = {
             id: crypto.randomUUID(),
@@ -836,17 +1125,25 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         // Let's re-initialize to be safe for now.
         const scenarioConfig = getScenarioConfigForId(id, get().parameters, get().scenarioConfigs);
         const seed = Date.now();
-        scenario.initialize(seed, scenarioConfig);
+        runner.initializeScenario(scenario, seed, scenarioConfig);
 
-        runner.setScenario(scenario);
+        const controlSchedule = get().controlSchedule ? { ...get().controlSchedule!, startGeneration: 0 } : null;
+        runner.setSchedule(controlSchedule);
+        // Control channels belong to the scenario they were set for; U carries over
+        const control: ControlSignal = { U: get().control.U };
+        runner.setControl({ ...control, channels: undefined });
 
         set({
             currentScenarioId: id,
             scenarioMetadata: scenario.metadata,
             isPlaying: false,
+            control,
+            controlSchedule,
             telemetry: [],
             alerts: [],
             events: [],
+            breakpointHits: [],
+            branches: [],
             currentRunId: crypto.randomUUID(),
             currentRunSeed: seed
         });
@@ -934,6 +1231,22 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         });
     },
 
+    handleControl: (control: ControlSignal) => {
+        set({ control });
+    },
+
+    handleBreakpoint: (hit: BreakpointHit) => {
+        set(state => ({
+            isPlaying: false,
+            breakpointHits: [...state.breakpointHits, hit].slice(-MAX_BREAKPOINT_HITS)
+        }));
+    },
+
+    handleWorkerError: (message: string) => {
+        console.error('[SimulationStore] Scenario worker failed:', message);
+        set({ isPlaying: false, isFastForwarding: false, runnerError: message });
+    },
+
     handleEvent: (event: any) => { // Type as ScenarioEvent
         set(state => {
             const newEvents = [...state.events, event];
@@ -1033,24 +1346,27 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
     },
 
     triggerAI: async () => {
-        const { currentState, parameters, control, isAIControlled, aiHistory, scenarioMetadata, savedAgents, bestAgency, bestControl, interventionLog } = get();
+        const { currentState, parameters, control, isAIControlled, researcherMode, telemetry, aiHistory, scenarioMetadata, savedAgents, bestAgency, bestControl, interventionLog } = get();
         if (!isAIControlled) return;
 
         set({ aiStatus: 'thinking' });
 
         const historyWithOutcomes = reconcileLatestOutcome(aiHistory, currentState.A);
-
-        // Call AI Service
-        const decision = await fetchAIControl(
-            currentState,
-            parameters,
-            control,
-            scenarioMetadata,
-            historyWithOutcomes,
-            bestAgency,
-            bestControl,
-            savedAgents
-        );
+        const actor = researcherMode === 'mpc' ? 'MPC' : 'AI';
+
+        // Call AI Service, or plan locally when running offline
+        const decision = researcherMode === 'mpc'
+            ? planOfflineControl(currentState, parameters, control, scenarioMetadata, telemetry)
+            : await fetchAIControl(
+                currentState,
+                getScenarioConfigForId(scenarioMetadata.id, parameters, get().scenarioConfigs),
+                control,
+                scenarioMetadata,
+                historyWithOutcomes,
+                bestAgency,
+                bestControl,
+                savedAgents
+            );
 
         if (decision?.error) {
             set({ aiStatus: 'idle', aiError: decision.error });
@@ -1062,12 +1378,16 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
             set({ aiError: null });
             const updatePayload = decision.params && typeof decision.params === 'object' ? decision.params : null;
             const hasConfigUpdates = updatePayload && Object.keys(updatePayload).length > 0;
+            const channelUpdates = decision.controls && Object.keys(decision.controls).length > 0 ? decision.controls : null;
+            const channelText = channelUpdates
+                ? `, ${Object.entries(channelUpdates).map(([name, value]) => `${name} -> ${value.toFixed(2)}`).join(', ')}`
+                : '';
             const controlEntry: InterventionLogEntry = {
                 id: crypto.randomUUID(),
                 timestamp: currentState.generation,
                 realtime: new Date(),
-                source: 'AI',
-                action: `AI Control: U -> ${decision.u.toFixed(2)}`,
+                source: actor,
+                action: `${actor} Control: U -> ${decision.u.toFixed(2)}${channelText}`,
                 reasoning: decision.reasoning
             };
 
@@ -1078,8 +1398,8 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
                     id: crypto.randomUUID(),
                     timestamp: currentState.generation,
                     realtime: new Date(),
-                    source: 'AI',
-                    action: `AI Config Update (${scenarioMetadata.type.toUpperCase()}): ${Object.keys(updatePayload).join(', ')}`,
+                    source: actor,
+                    action: `${actor} Config Update (${scenarioMetadata.type.toUpperCase()}): ${Object.keys(updatePayload).join(', ')}`,
                     reasoning: decision.reasoning
                 });
             }
@@ -1093,7 +1413,9 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
                 outcome: { A_before: currentState.A, A_after: currentState.A, delta_A: 0 }
             };
 
-            const nextControl = { ...control, U: decision.u };
+            const nextControl: ControlSignal = channelUpdates
+                ? { U: decision.u, channels: { ...control.channels, ...channelUpdates } }
+                : { ...control, U: decision.u };
             set({
                 control: nextControl,
                 aiReasoning: decision.reasoning,
@@ -1111,33 +1433,15 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
             });
 
             // Apply to Runner
-            runner.setControl({ U: decision.u });
+            runner.setControl(nextControl);
             if (updatePayload) {
-                const currentScenario = scenarios[get().currentScenarioId];
                 if (scenarioMetadata.type === 'sde') {
-                    const merged = { ...parameters, ...updatePayload };
-                    if (currentScenario.updateConfig) {
-                        currentScenario.updateConfig(merged);
-                    }
+                    const merged = sanitizeSdeParameters({ ...parameters, ...updatePayload });
+                    runner.updateConfig(merged);
                     set({ parameters: merged });
-                } else if (currentScenario.updateConfig) {
-                    const updatedConfigs = { ...get().scenarioConfigs };
-                    if (scenarioMetadata.type === 'math') {
-                        updatedConfigs.math = sanitizeMathConfig({ ...updatedConfigs.math, ...updatePayload });
-                        currentScenario.updateConfig(updatedConfigs.math);
-                    } else if (scenarioMetadata.type === 'alignment') {
-                        updatedConfigs.alignment = sanitizeAlignmentConfig({ ...updatedConfigs.alignment, ...updatePayload });
-                        currentScenario.updateConfig(updatedConfigs.alignment);
-                    } else if (scenarioMetadata.type === 'bio') {
-                        updatedConfigs.bio = sanitizeBioConfig({ ...updatedConfigs.bio, ...updatePayload });
-                        currentScenario.updateConfig(updatedConfigs.bio);
-                    } else if (scenarioMetadata.type === 'agents') {
-                        updatedConfigs.agents = sanitizeAgentConfig({ ...updatedConfigs.agents, ...updatePayload });
-                        currentScenario.updateConfig(updatedConfigs.agents);
-                    } else if (scenarioMetadata.type === 'erdos') {
-                        updatedConfigs.erdos = sanitizeErdosConfig({ ...updatedConfigs.erdos, ...updatePayload });
-                        currentScenario.updateConfig(updatedConfigs.erdos);
-                    }
+                } else {
+                    const updatedConfigs = patchScenarioConfig(scenarioMetadata.id, get().scenarioConfigs, updatePayload);
+                    runner.updateConfig(updatedConfigs[scenarioMetadata.id]);
                     set({ scenarioConfigs: updatedConfigs });
                     persistSession({
                         currentScenarioId: get().currentScenarioId,
@@ -1173,11 +1477,12 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
 
     step: async () => {
         // This is now mostly for AI triggering since the Runner handles the physics loop
-        const { isAIControlled, aiStatus, currentState, scenarioMetadata, aiHistory, triggerAI } = get();
+        const { isAIControlled, aiStatus, controlSchedule, currentState, scenarioMetadata, aiHistory, triggerAI } = get();
 
-        if (isAIControlled && aiStatus === 'idle') {
+        // An active schedule owns U, so the researcher waits until it is released
+        if (isAIControlled && aiStatus === 'idle' && !controlSchedule) {
             const requiredGenerationDelta = getResearchCadenceGenerations(
-                scenarioMetadata.type,
+                requireScenarioPlugin(scenarioMetadata.id).cadence,
                 currentState.generation
             );
             const lastInterventionGeneration = aiHistory.length > 0
@@ -1232,6 +1537,9 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         return scenarioState?.cycle ?? 1;
     },
 
+    getLatticeSnapshot: () => sdeScenario.getState().lattice ?? null,
+    getStepStats: () => sdeScenario.getState().stepStats ?? null,
+
     loadAgents: async () => {
         const win = window as any;
         if (win.api && win.api.getAgents) {
@@ -1244,25 +1552,33 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
         }
     },
 
-    exportState: () => {
+    exportReplayLog: async () => {
+        const log = await runner.getReplayLog();
+        return log ? JSON.stringify(log) : null;
+    },
+
+    exportState: async () => {
+        // In worker mode the mirror lags by up to STATE_SYNC_MS; the worker flushes its batch before answering
+        const checkpoint = await runner.snapshot();
         const state = get();
         const currentScenario = scenarios[state.currentScenarioId];
         const snapshot: SnapshotData = createSnapshot({
             meta: {
-                version: '2.1.0',
+                version: SNAPSHOT_VERSION,
                 timestamp: state.currentState.generation,
                 scenarioId: state.currentScenarioId
             },
             store: {
                 sdeParameters: state.parameters,
                 control: state.control,
+                controlSchedule: state.controlSchedule,
                 bestAgency: state.bestAgency,
                 aiHistory: state.aiHistory,
                 interventionLog: state.interventionLog,
                 currentState: state.currentState,
                 scenarioConfigs: state.scenarioConfigs
             },
-            scenarioData: currentScenario.serialize()
+            scenarioData: checkpoint?.data ?? currentScenario.serialize()
         });
 
         return JSON.stringify(snapshot, null, 2);
@@ -1297,6 +1613,7 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
                 scenarioMetadata: scenario.metadata,
                 parameters: snapshot.store.sdeParameters,
                 control: snapshot.store.control,
+                controlSchedule: snapshot.store.controlSchedule,
                 bestAgency: snapshot.store.bestAgency,
                 aiHistory: snapshot.store.aiHistory || [],
                 interventionLog: snapshot.store.interventionLog || [],
@@ -1312,7 +1629,8 @@ export const useSimulationStore = create<SimulationStore & { handleTelemetry: (p
 
             // Set runner context
             runner.setScenario(scenario);
-            runner.setControl(snapshot.store.control);
+            runner.setControl({ channels: undefined, ...snapshot.store.control });
+            runner.setSchedule(snapshot.store.controlSchedule);
 
             return true;
         } catch (e) {
@@ -1,6 +1,8 @@
-import { ScenarioType } from './scenarioTypes';
+import { isScenarioPromptDescriptor, isScenarioType, ScenarioPromptDescriptor, ScenarioType } from './scenarioTypes';
 import { isLegacyAgent, isLibraryEntry, LegacyAgent, LibraryEntry } from './agentLibrary';
 import { aiControlResponseSchema, aiDescriptionResponseSchema, JsonSchema } from './schemas/aiResponseSchemas';
+import { ConfigSchema, isConfigSchema } from './schemas/configSchema';
+import { ControlSchema, isControlSchema } from './schemas/controlSchema';
 
 export interface AiLogPayload {
     generation: number;
@@ -21,7 +23,7 @@ export interface AiControlRequestPayload {
         generation: number;
     };
     currentParams: Record<string, unknown>;
-    control: { U: number };
+    control: { U: number; channels?: Record<string, number> };
     scenarioMetadata: {
         id: string;
         name: string;
@@ -29,6 +31,12 @@ export interface AiControlRequestPayload {
         version: string;
         type: ScenarioType;
     };
+    /** How the scenario's registry entry describes it to the researcher */
+    scenarioPrompt?: ScenarioPromptDescriptor;
+    /** Fields of the scenario configuration the researcher may change through `params` */
+    configSchema?: ConfigSchema;
+    /** Named control channels the researcher may set through `controls` */
+    controlSchema?: ControlSchema;
     history?: Array<{
         generation: number;
         action: string;
@@ -46,6 +54,8 @@ export interface AiControlResponsePayload {
     u: number;
     reasoning: string;
     params?: Record<string, unknown>;
+    /** Values for the scenario's named control channels, next to u */
+    controls?: Record<string, number>;
 }
 
 export type AiServiceErrorCode =
@@ -139,10 +149,6 @@ const hasOnlyKeys = (value: Record<string, unknown>, allowedKeys: string[]): boo
     return Object.keys(value).every(key => allowedKeys.includes(key));
 };
 
-const isScenarioType = (value: unknown): value is ScenarioType => {
-    return value === 'sde' || value === 'math' || value === 'alignment' || value === 'bio' || value === 'agents' || value === 'erdos';
-};
-
 export const validateAiLogPayload = (value: unknown): value is AiLogPayload => {
     if (!isRecord(value)) return false;
     if (!isFiniteNumber(value.generation)) return false;
@@ -163,9 +169,13 @@ export const validateAiControlRequestPayload = (value: unknown): value is AiCont
     if (!isFiniteNumber(value.state.C) || !isFiniteNumber(value.state.D) || !isFiniteNumber(value.state.A)) return false;
     if (!isFiniteNumber(value.state.alertRate) || !isFiniteNumber(value.state.generation)) return false;
     if (!isFiniteNumber(value.control.U)) return false;
+    if (value.control.channels !== undefined && !(isRecord(value.control.channels) && Object.values(value.control.channels).every(isFiniteNumber))) return false;
     if (!isString(value.scenarioMetadata.id) || !isString(value.scenarioMetadata.name)) return false;
     if (!isString(value.scenarioMetadata.description) || !isString(value.scenarioMetadata.version)) return false;
     if (!isScenarioType(value.scenarioMetadata.type)) return false;
+    if (value.scenarioPrompt !== undefined && !isScenarioPromptDescriptor(value.scenarioPrompt)) return false;
+    if (value.configSchema !== undefined && !isConfigSchema(value.configSchema)) return false;
+    if (value.controlSchema !== undefined && !isControlSchema(value.controlSchema)) return false;
     if (value.history !== undefined && !Array.isArray(value.history)) return false;
     return true;
 };
@@ -179,6 +189,7 @@ export const validateAiControlResponsePayload = (value: unknown): value is AiCon
     if (!isString(value.reasoning)) return false;
     if (!value.reasoning.trim()) return false;
     if (value.params !== undefined && !isRecord(value.params)) return false;
+    if (value.controls !== undefined && !(isRecord(value.controls) && Object.values(value.controls).every(isFiniteNumber))) return false;
     return true;
 };
 
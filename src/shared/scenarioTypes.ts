@@ -1 +1,35 @@
-export type ScenarioType = 'sde' | 'math' | 'alignment' | 'bio' | 'agents' | 'erdos';
+/**
+ * Scenario family, e.g. 'sde' or 'math'. Scenarios are registered at runtime
+ * (the built-ins and any local plugins), so this is any lowercase identifier.
+ */
+export type ScenarioType = string;
+
+/** How the AI researcher's prompt describes a scenario's time scale */
+export interface ScenarioPromptDescriptor {
+    /** What one generation stands for, e.g. 'training epoch' */
+    generationUnit: string;
+    /** Generations at which a run enters the adaptive and the stabilization phase */
+    phases: { adaptive: number; stabilization: number };
+}
+
+export const DEFAULT_SCENARIO_PROMPT: ScenarioPromptDescriptor = {
+    generationUnit: 'research round',
+    phases: { adaptive: 120, stabilization: 320 }
+};
+
+const SCENARIO_TYPE = /^[a-z][a-z0-9-]*$/;
+
+export const isScenarioType = (value: unknown): value is ScenarioType => {
+    return typeof value === 'string' && SCENARIO_TYPE.test(value);
+};
+
+export const isScenarioPromptDescriptor = (value: unknown): value is ScenarioPromptDescriptor => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { generationUnit, phases } = value as Record<string, unknown>;
+    if (typeof generationUnit !== 'string' || !generationUnit.trim()) return false;
+    if (typeof phases !== 'object' || phases === null) return false;
+    const { adaptive, stabilization } = phases as Record<string, unknown>;
+    return typeof adaptive === 'number' && typeof stabilization === 'number'
+        && Number.isFinite(adaptive) && Number.isFinite(stabilization)
+        && adaptive >= 0 && stabilization >= adaptive;
+};
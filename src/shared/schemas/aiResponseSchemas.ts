@@ -12,7 +12,8 @@ export const aiControlResponseSchema: JsonSchema = {
     properties: {
         u: { type: 'number', minimum: 0, maximum: 1 },
         reasoning: { type: 'string', minLength: 1 },
-        params: { type: 'object' }
+        params: { type: 'object' },
+        controls: { type: 'object' }
     }
 };
 
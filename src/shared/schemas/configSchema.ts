@@ -0,0 +1,125 @@
+/**
+ * Config Schema - one description of a scenario configuration
+ *
+ * Each field is described once, with its type, range, step, unit and meaning.
+ * The renderer builds the parameter controls and the snapshot sanitizer from
+ * it; the main process documents the fields in the AI researcher's prompt and
+ * checks the parameters the model proposes against it.
+ */
+
+export interface NumberConfigField {
+    type: 'number';
+    label: string;
+    description: string;
+    min: number;
+    max: number;
+    step: number;
+    /** Whole numbers only (counts, budgets) */
+    integer?: boolean;
+    unit?: string;
+    /** Heading the field is listed under in the parameter panel */
+    group?: string;
+}
+
+export interface BooleanConfigField {
+    type: 'boolean';
+    label: string;
+    description: string;
+    group?: string;
+}
+
+export type ConfigField = NumberConfigField | BooleanConfigField;
+
+/** Fields by config key, in display order */
+export type ConfigSchema<TConfig = Record<string, unknown>> = { [K in keyof TConfig & string]: ConfigField };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isConfigField = (value: unknown): value is ConfigField => {
+    if (!isRecord(value) || !isText(value.label) || typeof value.description !== 'string') return false;
+    if (value.group !== undefined && typeof value.group !== 'string') return false;
+    if (value.type === 'boolean') return true;
+    if (value.type !== 'number') return false;
+    if (!isFiniteNumber(value.min) || !isFiniteNumber(value.max) || !isFiniteNumber(value.step)) return false;
+    if (value.unit !== undefined && typeof value.unit !== 'string') return false;
+    return value.min <= value.max && value.step > 0;
+};
+
+export const isConfigSchema = (value: unknown): value is ConfigSchema => {
+    return isRecord(value) && Object.values(value).every(isConfigField);
+};
+
+const fitNumber = (field: NumberConfigField, value: number) => {
+    const rounded = field.integer ? Math.round(value) : value;
+    return Math.max(field.min, Math.min(field.max, rounded));
+};
+
+/**
+ * Complete configuration from untrusted input: every schema field is taken from
+ * `value` when it has the right type (numbers clamped to the range, integers
+ * rounded) and from `defaults` otherwise
+ */
+export const sanitizeConfigWithSchema = <TConfig extends Record<string, any>>(
+    schema: ConfigSchema,
+    defaults: TConfig,
+    value: unknown
+): TConfig => {
+    const next: Record<string, unknown> = { ...defaults };
+    if (!isRecord(value)) return next as TConfig;
+    Object.entries(schema).forEach(([key, field]) => {
+        const candidate = value[key];
+        if (field.type === 'number' && isFiniteNumber(candidate)) {
+            next[key] = fitNumber(field, candidate);
+        } else if (field.type === 'boolean' && typeof candidate === 'boolean') {
+            next[key] = candidate;
+        }
+    });
+    return next as TConfig;
+};
+
+/**
+ * Problems of a partial configuration (e.g. AI-proposed parameters): unknown
+ * keys, wrong types and numbers outside the range. Empty when it is valid.
+ */
+export const validateConfigPatch = (schema: ConfigSchema, value: Record<string, unknown>): string[] => {
+    return Object.entries(value).flatMap(([key, candidate]) => {
+        const field = schema[key];
+        if (!field) return [`${key} is not a parameter of this scenario`];
+        if (field.type === 'boolean') return typeof candidate === 'boolean' ? [] : [`${key} must be true or false`];
+        if (!isFiniteNumber(candidate)) return [`${key} must be a number`];
+        if (candidate < field.min || candidate > field.max) return [`${key} must be within [${field.min}, ${field.max}]`];
+        if (field.integer && !Number.isInteger(candidate)) return [`${key} must be a whole number`];
+        return [];
+    });
+};
+
+/** Decimals that show a value of the field at its step resolution */
+export const fieldDecimals = (field: NumberConfigField) => {
+    if (field.integer) return 0;
+    const [, fraction = ''] = String(field.step).split('.');
+    return Math.min(4, Math.max(2, fraction.length));
+};
+
+/**
+ * Parameter documentation for the AI researcher's prompt, one line per field
+ * with its current value when `values` has one
+ */
+export const describeConfigSchema = (schema: ConfigSchema, values: Record<string, unknown> = {}): string => {
+    return Object.entries(schema).map(([key, field]) => {
+        const current = values[key];
+        const now = current === undefined ? '' : ` Current: ${isFiniteNumber(current) ? Number(current.toFixed(4)) : String(current)}.`;
+        if (field.type === 'boolean') return `- ${key} (true/false): ${field.description}${now}`;
+        if (field.min === field.max) return `- ${key} (fixed at ${field.min}): ${field.description}`;
+        const kind = field.integer ? 'integer' : 'number';
+        const unit = field.unit ? ` ${field.unit}` : '';
+        return `- ${key} (${kind} in [${field.min}, ${field.max}]${unit}): ${field.description}${now}`;
+    }).join('\n');
+};
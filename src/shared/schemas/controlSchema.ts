@@ -0,0 +1,114 @@
+/**
+ * Control Schema - the named control channels a scenario declares
+ *
+ * U stays the single control every scenario understands. A scenario may split
+ * its environment into named channels (Bio: toxicity, sunInflux, mineralInflux)
+ * that are set independently; a channel that is not set takes its default, or
+ * follows U across its range when it has none, so a plain U drives the
+ * scenario as before. The renderer builds the control sliders from the schema;
+ * the main process documents the channels in the AI researcher's prompt and
+ * checks the values the model proposes against it.
+ */
+
+export interface ControlChannel {
+    label: string;
+    description: string;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    /** Value while the channel is not set; without one the channel follows U */
+    default?: number;
+}
+
+/** Channels by name, in display order */
+export type ControlSchema = Record<string, ControlChannel>;
+
+/** U plus the channels set explicitly (the renderer's ControlSignal) */
+export interface ControlValues {
+    U: number;
+    channels?: Record<string, number>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+const isControlChannel = (value: unknown): value is ControlChannel => {
+    if (!isRecord(value) || typeof value.label !== 'string' || !value.label.trim() || typeof value.description !== 'string') return false;
+    if (!isFiniteNumber(value.min) || !isFiniteNumber(value.max) || !isFiniteNumber(value.step)) return false;
+    if (value.unit !== undefined && typeof value.unit !== 'string') return false;
+    if (value.default !== undefined && (!isFiniteNumber(value.default) || value.default < value.min || value.default > value.max)) return false;
+    return value.min < value.max && value.step > 0;
+};
+
+export const isControlSchema = (value: unknown): value is ControlSchema => {
+    return isRecord(value) && Object.values(value).every(isControlChannel);
+};
+
+const clampToChannel = (channel: ControlChannel, value: number) => Math.max(channel.min, Math.min(channel.max, value));
+
+/** Value a channel takes while it is not set: its default, or U mapped onto its range */
+export const channelDefault = (channel: ControlChannel, U: number): number => {
+    if (channel.default !== undefined) return channel.default;
+    return clampToChannel(channel, channel.min + Math.max(0, Math.min(1, U)) * (channel.max - channel.min));
+};
+
+/**
+ * Effective value of every channel of the schema under `control`: the set value
+ * clamped to the channel's range, or the channel default
+ */
+export const resolveControlChannels = (schema: ControlSchema, control: ControlValues): Record<string, number> => {
+    return Object.fromEntries(Object.entries(schema).map(([key, channel]) => {
+        const value = control.channels?.[key];
+        return [key, isFiniteNumber(value) ? clampToChannel(channel, value) : channelDefault(channel, control.U)];
+    }));
+};
+
+/**
+ * Channels from untrusted input (snapshots, replay logs): finite numbers only,
+ * clamped to the schema's ranges when a schema is given, unknown names dropped.
+ * Undefined when no channel is left.
+ */
+export const sanitizeControlChannels = (value: unknown, schema?: ControlSchema): Record<string, number> | undefined => {
+    if (!isRecord(value)) return undefined;
+    const entries = Object.entries(value).flatMap(([key, candidate]): Array<[string, number]> => {
+        if (!isFiniteNumber(candidate)) return [];
+        if (!schema) return [[key, candidate]];
+        const channel = schema[key];
+        return channel ? [[key, clampToChannel(channel, candidate)]] : [];
+    });
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Problems of proposed channel values (e.g. from the AI): unknown names, non-numbers
+ * and values outside the range. Empty when they are valid.
+ */
+export const validateControlPatch = (schema: ControlSchema, value: Record<string, unknown>): string[] => {
+    return Object.entries(value).flatMap(([key, candidate]) => {
+        const channel = schema[key];
+        if (!channel) return [`${key} is not a control channel of this scenario`];
+        if (!isFiniteNumber(candidate)) return [`${key} must be a number`];
+        if (candidate < channel.min || candidate > channel.max) return [`${key} must be within [${channel.min}, ${channel.max}]`];
+        return [];
+    });
+};
+
+/**
+ * Channel documentation for the AI researcher's prompt, one line per channel
+ * with its effective value under `control`
+ */
+export const describeControlSchema = (schema: ControlSchema, control: ControlValues): string => {
+    const current = resolveControlChannels(schema, control);
+    return Object.entries(schema).map(([key, channel]) => {
+        const unit = channel.unit ? ` ${channel.unit}` : '';
+        const fallback = channel.default !== undefined ? `defaults to ${channel.default}` : 'follows U';
+        const unset = isFiniteNumber(control.channels?.[key]) ? '' : ' (unset)';
+        return `- ${key} (number in [${channel.min}, ${channel.max}]${unit}, ${fallback} when unset): ${channel.description} Current: ${Number(current[key].toFixed(4))}${unset}.`;
+    }).join('\n');
+};